@@ -1,4 +1,14 @@
 module.exports = {
   root: true,
   extends: '@react-native',
+  overrides: [
+    {
+      // The hash functions need 32-bit XOR in hot loops (MinHash signatures,
+      // hashed embeddings); every other file goes through xor32 from here
+      files: ['backend/src/services/hashing.ts'],
+      rules: {
+        'no-bitwise': 'off',
+      },
+    },
+  ],
 };
@@ -0,0 +1,52 @@
+/**
+ * Result cache configuration
+ * OCR and naming results are reused for identical content until they expire:
+ * RESULT_CACHE_TTL_EXTRACTION and RESULT_CACHE_TTL_NAMING in seconds, where
+ * 0 turns that kind off; RESULT_CACHE=off turns the whole cache off
+ */
+
+export type CacheKind = 'extraction' | 'naming';
+
+export const CACHE_KINDS: CacheKind[] = ['extraction', 'naming'];
+
+const DEFAULT_TTL_SECONDS: Record<CacheKind, number> = {
+  extraction: 30 * 24 * 3600, // the same bytes always give the same text
+  naming: 7 * 24 * 3600,
+};
+
+let ttlSeconds: Record<CacheKind, number> | null = null;
+
+/**
+ * Read and check the TTL settings; call at startup so a bad value stops the
+ * server instead of failing every cached call
+ */
+export function validateCacheConfig(): void {
+  ttlSeconds = Object.fromEntries(CACHE_KINDS.map(kind => [kind, parseTtl(kind)])) as Record<CacheKind, number>;
+}
+
+/**
+ * How long a result of `kind` is kept; 0 when it isn't cached at all
+ */
+export function getCacheTtlSeconds(kind: CacheKind): number {
+  if (!ttlSeconds) {
+    validateCacheConfig();
+  }
+  return ttlSeconds![kind];
+}
+
+function parseTtl(kind: CacheKind): number {
+  if (process.env.RESULT_CACHE?.toLowerCase() === 'off') {
+    return 0;
+  }
+
+  const value = process.env[`RESULT_CACHE_TTL_${kind.toUpperCase()}`];
+  if (value === undefined || value === '') {
+    return DEFAULT_TTL_SECONDS[kind];
+  }
+
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error(`Invalid RESULT_CACHE_TTL_${kind.toUpperCase()} "${value}" (expected seconds, 0 to disable)`);
+  }
+  return seconds;
+}
@@ -1,5 +1,13 @@
 import { db, COLLECTIONS } from './firebase';
-import { FieldValue } from 'firebase-admin/firestore';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { DocumentProperties, ExtractedPage } from '../services/extraction/types';
+import { FilenameTemplateSettings } from '../services/naming/template';
+import { NameCandidate } from '../services/naming/types';
+import { DocumentMetadata } from '../services/metadata/types';
+import { ClassificationResult } from '../services/classification/types';
+import { FilingRule } from '../services/rules/types';
+import { PerceptualHash } from '../services/duplicates/types';
+import { CacheKind } from './cache';
 
 /**
  * Database configuration and helper functions
@@ -32,22 +40,46 @@ export interface UserDocument {
     preserveOriginalNames: boolean;
     useAIForAllFiles: boolean;
     maxFileSize: number;
+    filenameTemplate?: FilenameTemplateSettings | null; // null = free-form AI names
+    autoTag?: boolean; // tag files from AI metadata (default on)
   };
 }
 
 export interface FileDocument {
   id: string;
   userId: string;
+  guestSessionId?: string; // guests only: the client that uploaded it (see middleware/auth)
   originalName: string;
   newName?: string;
-  filePath: string;
+  storageKey: string; // see services/storage
+  filePath?: string; // legacy: absolute local path of files uploaded before storage drivers
   fileType: 'image' | 'pdf' | 'document';
   fileSize: number;
   mimeType: string;
+  contentHash?: string; // SHA-256 of the uploaded bytes
+  duplicateOf?: string; // earlier file of the same user with identical content
+  perceptualHash?: PerceptualHash; // images only
+  textSignature?: number[]; // MinHash of extracted text shingles
   
   // Processing info
   extractedText?: string;
-  suggestedName?: string;
+  extractionConfidence?: number;
+  detectedLanguage?: string;
+  extractedPages?: ExtractedPage[];
+  pageCount?: number;
+  documentProperties?: DocumentProperties;
+  metadata?: DocumentMetadata; // structured fields (type, vendor, date, amount...)
+  category?: string; // taxonomy id, see config/taxonomy.ts
+  classification?: ClassificationResult;
+  suggestedName?: string; // best of nameCandidates
+  nameCandidates?: NameCandidate[]; // ranked, best first
+  nameStatus?: NameStatus;
+  
+  // Auto-filing (see services/rules)
+  folderPath?: string; // e.g. "Finance/Receipts/2023"
+  tags?: string[]; // tag names, see TagDocument
+  appliedRuleIds?: string[];
+
   isProcessed: boolean;
   isRenamed: boolean;
   processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
@@ -58,30 +90,127 @@ export interface FileDocument {
   processedAt?: FirebaseFirestore.Timestamp;
 }
 
+// Changes to a file document; FieldValue.delete() removes an optional field
+export type FileUpdates = {
+  [K in keyof FileDocument]?: FileDocument[K] | (undefined extends FileDocument[K] ? FieldValue : never);
+};
+
 export interface ProcessingSessionDocument {
   id: string;
   userId: string;
+  guestSessionId?: string; // guests only, as on files
   fileIds: string[];
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   currentFileIndex: number;
   
   // Results
   totalFiles: number;
   processedFiles: number;
-  renamedFiles: number;
   failedFiles: number;
+  cancelledFiles?: number;
   
   // Timestamps
   createdAt: FirebaseFirestore.Timestamp;
   updatedAt: FirebaseFirestore.Timestamp;
   completedAt?: FirebaseFirestore.Timestamp;
+  cancelledAt?: FirebaseFirestore.Timestamp;
   
   // Error info
   errorMessage?: string;
   failedFileIds?: string[];
 }
 
+export interface ProcessingJobDocument {
+  id: string; // `${sessionId}_${fileId}`
+  sessionId: string;
+  fileId: string;
+  userId: string;
+  
+  // Queue state ('dead' = retries exhausted)
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'dead' | 'cancelled';
+  attempts: number;
+  maxAttempts: number;
+  runAfter: FirebaseFirestore.Timestamp;
+  
+  // Lease held by the worker currently running the job
+  lockedBy?: string;
+  lockedUntil?: FirebaseFirestore.Timestamp;
+  
+  lastError?: string;
+  createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+  completedAt?: FirebaseFirestore.Timestamp;
+}
+
+export interface FilingRuleDocument extends FilingRule {
+  userId: string;
+  createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+export interface TagDocument {
+  id: string;
+  userId: string;
+  name: string;
+  nameKey: string; // lower-cased name, unique per user
+  color: string; // #RRGGBB
+  source: 'user' | 'auto' | 'rule'; // who created it first
+  createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+// Review state of a file's suggested names; 'auto' means renamed by the
+// owner's autoRename setting without review
+export type NameStatus = 'pending' | 'auto' | 'accepted' | 'custom' | 'rejected';
+
+// File fields tracked by the audit trail; a null newName means "not renamed"
+export interface FileState {
+  newName?: string | null;
+  isRenamed?: boolean;
+  nameStatus?: NameStatus;
+  folderPath?: string;
+  tags?: string[];
+}
+
+export type FileEventAction = 'rename' | 'move' | 'tag' | 'undo' | 'redo';
+
+export interface FileEventDocument {
+  id: string;
+  fileId: string;
+  userId: string; // file owner
+  actorId: string; // uid, 'guest' or 'system' (processing pipeline)
+  action: FileEventAction;
+  sessionId?: string; // processing session the change belongs to
+  targetEventId?: string; // undo/redo: the event reverted or re-applied
+  before: FileState;
+  after: FileState;
+  createdAt: FirebaseFirestore.Timestamp;
+}
+
+// A name the user chose over the suggested one (both without extension)
+export interface NamingFeedbackDocument {
+  id: string;
+  userId: string;
+  fileId: string;
+  suggestedName: string;
+  acceptedName: string;
+  source: 'candidate' | 'custom'; // picked another candidate or typed a name
+  createdAt: FirebaseFirestore.Timestamp;
+}
+
+// An OCR or naming result, stored under the content it was computed from
+export interface ResultCacheDocument {
+  kind: CacheKind;
+  contentHash: string;
+  provider: string; // extractor or naming provider
+  model: string; // OCR engine or language model
+  version: string; // extraction pipeline or prompt template version
+  value: string; // JSON
+  createdAt: FirebaseFirestore.Timestamp;
+  expiresAt: FirebaseFirestore.Timestamp; // Firestore's TTL policy deletes the entry after this
+}
+
 export interface UsageStatsDocument {
   userId: string;
   year: number;
@@ -179,6 +308,16 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Give back quota reserved for files that were never processed
+   */
+  static async refundFileCount(uid: string, count: number): Promise<void> {
+    if (count <= 0) {
+      return;
+    }
+    await this.incrementFileCount(uid, -count);
+  }
+
   /**
    * Create a new file document
    */
@@ -200,7 +339,7 @@ export class DatabaseService {
   /**
    * Update file document
    */
-  static async updateFile(fileId: string, updates: Partial<FileDocument>): Promise<void> {
+  static async updateFile(fileId: string, updates: FileUpdates): Promise<void> {
     await db.collection(COLLECTIONS.FILES).doc(fileId).update({
       ...updates,
       updatedAt: FieldValue.serverTimestamp(),
@@ -208,19 +347,277 @@ export class DatabaseService {
   }
 
   /**
-   * Get user's files
+   * Get file by ID
+   */
+  static async getFile(fileId: string): Promise<FileDocument | null> {
+    const doc = await db.collection(COLLECTIONS.FILES).doc(fileId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as FileDocument) : null;
+  }
+
+  /**
+   * Get multiple files by ID (missing files are skipped)
+   */
+  static async getFilesByIds(fileIds: string[]): Promise<FileDocument[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    const refs = fileIds.map(fileId => db.collection(COLLECTIONS.FILES).doc(fileId));
+    const docs = await db.getAll(...refs);
+
+    return docs
+      .filter(doc => doc.exists)
+      .map(doc => ({ id: doc.id, ...doc.data() } as FileDocument));
+  }
+
+  /**
+   * Find a user's earlier upload with identical content, preferring one that
+   * was already processed
+   */
+  static async findFileByHash(uid: string, contentHash: string, excludeFileId?: string): Promise<FileDocument | null> {
+    const snapshot = await db
+      .collection(COLLECTIONS.FILES)
+      .where('userId', '==', uid)
+      .where('contentHash', '==', contentHash)
+      .limit(10)
+      .get();
+
+    const files = snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as FileDocument))
+      .filter(file => file.id !== excludeFileId);
+    return files.find(file => file.isProcessed) || files[0] || null;
+  }
+
+  /**
+   * Get a user's files renamed to exactly `newName`
    */
-  static async getUserFiles(uid: string, limit: number = 50): Promise<FileDocument[]> {
+  static async getFilesByNewName(uid: string, newName: string): Promise<FileDocument[]> {
     const snapshot = await db
       .collection(COLLECTIONS.FILES)
       .where('userId', '==', uid)
+      .where('newName', '==', newName)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as FileDocument));
+  }
+
+  /**
+   * Delete file document
+   */
+  static async deleteFile(fileId: string): Promise<void> {
+    await db.collection(COLLECTIONS.FILES).doc(fileId).delete();
+  }
+
+  /**
+   * Get user's files, optionally only those with any (or all) of `tags`
+   */
+  static async getUserFiles(
+    uid: string,
+    limit: number = 50,
+    filter: { tags?: string[]; tagMatch?: 'any' | 'all' } = {}
+  ): Promise<FileDocument[]> {
+    let query = db
+      .collection(COLLECTIONS.FILES)
+      .where('userId', '==', uid);
+
+    const { tags, tagMatch = 'any' } = filter;
+    if (tags?.length) {
+      // Firestore can't AND array filters; narrow by the first tag and check the rest below
+      query = tagMatch === 'all'
+        ? query.where('tags', 'array-contains', tags[0])
+        : query.where('tags', 'array-contains-any', tags.slice(0, 10));
+    }
+
+    const snapshot = await query
       .orderBy('createdAt', 'desc')
       .limit(limit)
       .get();
 
+    const files = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as FileDocument));
+    return tags?.length && tagMatch === 'all'
+      ? files.filter(file => tags.every(tag => file.tags?.includes(tag)))
+      : files;
+  }
+
+  /**
+   * Get all of a user's files carrying a tag
+   */
+  static async getFilesWithTag(uid: string, tag: string): Promise<FileDocument[]> {
+    const snapshot = await db
+      .collection(COLLECTIONS.FILES)
+      .where('userId', '==', uid)
+      .where('tags', 'array-contains', tag)
+      .get();
+
     return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as FileDocument));
   }
 
+  /**
+   * Count a user's files carrying a tag (an aggregation query; no files are read)
+   */
+  static async countFilesWithTag(uid: string, tag: string): Promise<number> {
+    const snapshot = await db
+      .collection(COLLECTIONS.FILES)
+      .where('userId', '==', uid)
+      .where('tags', 'array-contains', tag)
+      .count()
+      .get();
+
+    return snapshot.data().count;
+  }
+
+  /**
+   * Update many files and record a file event for each (batched writes)
+   */
+  static async applyFileChanges(changes: {
+    fileId: string;
+    updates: FileUpdates;
+    event: Omit<FileEventDocument, 'id' | 'fileId' | 'createdAt'>;
+  }[]): Promise<string[]> {
+    const eventIds: string[] = [];
+    // Two writes per change, 500 writes per batch
+    for (let i = 0; i < changes.length; i += 250) {
+      const batch = db.batch();
+      for (const { fileId, updates, event } of changes.slice(i, i + 250)) {
+        const eventRef = db.collection(COLLECTIONS.FILE_EVENTS).doc();
+        batch.update(db.collection(COLLECTIONS.FILES).doc(fileId), {
+          ...updates,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        batch.set(eventRef, {
+          ...event,
+          fileId,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+        eventIds.push(eventRef.id);
+      }
+      await batch.commit();
+    }
+    return eventIds;
+  }
+
+  /**
+   * Update a file and record its event in one transaction, as long as
+   * `isCurrent` still holds for the file and its events; returns the event
+   * ID, or null when the file changed (or was deleted) first
+   */
+  static async applyFileChangeIfCurrent(
+    fileId: string,
+    change: { updates: FileUpdates; event: Omit<FileEventDocument, 'id' | 'fileId' | 'createdAt'> },
+    isCurrent: (file: FileDocument, events: FileEventDocument[]) => boolean
+  ): Promise<string | null> {
+    const fileRef = db.collection(COLLECTIONS.FILES).doc(fileId);
+    const eventsQuery = db
+      .collection(COLLECTIONS.FILE_EVENTS)
+      .where('fileId', '==', fileId)
+      .orderBy('createdAt', 'asc');
+
+    return db.runTransaction(async transaction => {
+      const [fileDoc, eventsSnapshot] = await Promise.all([transaction.get(fileRef), transaction.get(eventsQuery)]);
+      if (!fileDoc.exists) {
+        return null;
+      }
+
+      const file = { id: fileDoc.id, ...fileDoc.data() } as FileDocument;
+      const events = eventsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as FileEventDocument));
+      if (!isCurrent(file, events)) {
+        return null;
+      }
+
+      const eventRef = db.collection(COLLECTIONS.FILE_EVENTS).doc();
+      transaction.update(fileRef, {
+        ...change.updates,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.set(eventRef, {
+        ...change.event,
+        fileId,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      return eventRef.id;
+    });
+  }
+
+  /**
+   * Get a file's events, oldest first
+   */
+  static async getFileEvents(fileId: string): Promise<FileEventDocument[]> {
+    const snapshot = await db
+      .collection(COLLECTIONS.FILE_EVENTS)
+      .where('fileId', '==', fileId)
+      .orderBy('createdAt', 'asc')
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as FileEventDocument));
+  }
+
+  /**
+   * Add naming feedback
+   */
+  static async addNamingFeedback(feedback: Omit<NamingFeedbackDocument, 'id' | 'createdAt'>): Promise<string> {
+    const docRef = await db.collection(COLLECTIONS.NAMING_FEEDBACK).add({
+      ...feedback,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    return docRef.id;
+  }
+
+  /**
+   * Get a user's naming feedback, newest first
+   */
+  static async getNamingFeedback(uid: string, limit: number = 100): Promise<NamingFeedbackDocument[]> {
+    const snapshot = await db
+      .collection(COLLECTIONS.NAMING_FEEDBACK)
+      .where('userId', '==', uid)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as NamingFeedbackDocument));
+  }
+
+  /**
+   * Get a result cache entry
+   */
+  static async getCacheEntry(id: string): Promise<ResultCacheDocument | null> {
+    const doc = await db.collection(COLLECTIONS.RESULT_CACHE).doc(id).get();
+    return doc.exists ? doc.data() as ResultCacheDocument : null;
+  }
+
+  /**
+   * Store a result cache entry, replacing any earlier one
+   */
+  static async setCacheEntry(id: string, entry: Omit<ResultCacheDocument, 'createdAt'>): Promise<void> {
+    await db.collection(COLLECTIONS.RESULT_CACHE).doc(id).set({
+      ...entry,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  /**
+   * Delete the cache entries of a kind whose version isn't `keepVersion`
+   * (all of them without one); returns how many were deleted
+   */
+  static async deleteCacheEntries(kind: CacheKind, keepVersion?: string): Promise<number> {
+    let query = db.collection(COLLECTIONS.RESULT_CACHE).where('kind', '==', kind);
+    if (keepVersion) {
+      query = query.where('version', '!=', keepVersion);
+    }
+
+    let deleted = 0;
+    // A batch holds at most 500 writes
+    for (;;) {
+      const snapshot = await query.limit(400).get();
+      if (snapshot.empty) {
+        return deleted;
+      }
+      const batch = db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+  }
+
   /**
    * Create processing session
    */
@@ -231,7 +628,6 @@ export class DatabaseService {
       progress: 0,
       currentFileIndex: 0,
       processedFiles: 0,
-      renamedFiles: 0,
       failedFiles: 0,
       createdAt: now,
       updatedAt: now,
@@ -242,6 +638,14 @@ export class DatabaseService {
     return docRef.id;
   }
 
+  /**
+   * Get processing session by ID
+   */
+  static async getProcessingSession(sessionId: string): Promise<ProcessingSessionDocument | null> {
+    const doc = await db.collection(COLLECTIONS.PROCESSING_SESSIONS).doc(sessionId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as ProcessingSessionDocument) : null;
+  }
+
   /**
    * Update processing session
    */
@@ -252,6 +656,495 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Get processing sessions with a given status
+   */
+  static async getProcessingSessionsByStatus(
+    status: ProcessingSessionDocument['status']
+  ): Promise<ProcessingSessionDocument[]> {
+    const snapshot = await db
+      .collection(COLLECTIONS.PROCESSING_SESSIONS)
+      .where('status', '==', status)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ProcessingSessionDocument));
+  }
+
+  /**
+   * Settle a job (completed or dead) and record its outcome on the session
+   * in one transaction, so retries and crashes can't double-count a file.
+   * Returns the updated session, or null if the job was already settled or
+   * its lease was lost to another run.
+   */
+  static async settleProcessingJob(
+    job: ProcessingJobDocument,
+    succeeded: boolean,
+    errorMessage?: string
+  ): Promise<ProcessingSessionDocument | null> {
+    const jobRef = db.collection(COLLECTIONS.PROCESSING_JOBS).doc(job.id);
+    const sessionRef = db.collection(COLLECTIONS.PROCESSING_SESSIONS).doc(job.sessionId);
+
+    return db.runTransaction(async transaction => {
+      const [jobDoc, sessionDoc] = await transaction.getAll(jobRef, sessionRef);
+      const currentJob = jobDoc.data() as ProcessingJobDocument | undefined;
+      if (!holdsLease(currentJob, job)) {
+        return null;
+      }
+
+      const now = FieldValue.serverTimestamp();
+      transaction.update(jobRef, {
+        status: succeeded ? 'completed' : 'dead',
+        ...(errorMessage && { lastError: errorMessage }),
+        completedAt: now,
+        updatedAt: now,
+      });
+
+      if (!sessionDoc.exists) {
+        return null;
+      }
+
+      const session = { id: sessionDoc.id, ...sessionDoc.data() } as ProcessingSessionDocument;
+      const failedFileIds = session.failedFileIds || [];
+      const processedFiles = session.processedFiles + (succeeded ? 1 : 0);
+      const failedFiles = session.failedFiles + (succeeded ? 0 : 1);
+      // Cancelled sessions keep counting files that were already running
+      const isFinished = processedFiles + failedFiles >= session.totalFiles && session.status !== 'cancelled';
+
+      const updates: Partial<ProcessingSessionDocument> = {
+        processedFiles,
+        failedFiles,
+        failedFileIds: succeeded ? failedFileIds : [...failedFileIds, job.fileId],
+        progress: Math.round(((processedFiles + failedFiles) / session.totalFiles) * 100),
+        ...(isFinished && {
+          status: processedFiles === 0 ? 'failed' : 'completed',
+          ...(processedFiles === 0 && { errorMessage: 'All files failed to process' }),
+        }),
+      };
+
+      transaction.update(sessionRef, {
+        ...updates,
+        ...(isFinished && { completedAt: now }),
+        updatedAt: now,
+      });
+
+      return { ...session, ...updates };
+    });
+  }
+
+  /**
+   * Create queued jobs for files (existing jobs are left untouched)
+   */
+  static async createProcessingJobs(
+    sessionId: string,
+    userId: string,
+    fileIds: string[],
+    maxAttempts: number
+  ): Promise<void> {
+    const refs = fileIds.map(fileId =>
+      db.collection(COLLECTIONS.PROCESSING_JOBS).doc(`${sessionId}_${fileId}`)
+    );
+    const existing = await db.getAll(...refs);
+
+    const batch = db.batch();
+    const now = FieldValue.serverTimestamp();
+
+    existing.forEach((doc, index) => {
+      if (doc.exists) {
+        return;
+      }
+      batch.set(refs[index], {
+        sessionId,
+        fileId: fileIds[index],
+        userId,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts,
+        runAfter: Timestamp.now(),
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+
+    await batch.commit();
+  }
+
+  /**
+   * Atomically claim the next due job for a worker.
+   * Returns null when no job is due.
+   */
+  static async claimProcessingJob(workerId: string, leaseMs: number): Promise<ProcessingJobDocument | null> {
+    const candidates = await db
+      .collection(COLLECTIONS.PROCESSING_JOBS)
+      .where('status', '==', 'queued')
+      .where('runAfter', '<=', Timestamp.now())
+      .orderBy('runAfter')
+      .limit(5)
+      .get();
+
+    for (const candidate of candidates.docs) {
+      const claimed = await db.runTransaction(async transaction => {
+        const doc = await transaction.get(candidate.ref);
+        const job = { id: doc.id, ...doc.data() } as ProcessingJobDocument;
+
+        // Another worker got there first
+        if (!doc.exists || job.status !== 'queued') {
+          return null;
+        }
+
+        const updates = {
+          status: 'running' as const,
+          attempts: job.attempts + 1,
+          lockedBy: workerId,
+          lockedUntil: Timestamp.fromMillis(Date.now() + leaseMs),
+        };
+        transaction.update(candidate.ref, {
+          ...updates,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        return { ...job, ...updates };
+      });
+
+      if (claimed) {
+        return claimed;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Move a session between states and carry its jobs along, in one
+   * transaction so the change can't race a worker claiming a job.
+   * Returns null if the session isn't in one of the `from` states.
+   */
+  static async transitionProcessingSession(
+    sessionId: string,
+    from: ProcessingSessionDocument['status'][],
+    to: ProcessingSessionDocument['status'],
+    jobsFrom: ProcessingJobDocument['status'][],
+    jobsTo: ProcessingJobDocument['status']
+  ): Promise<{ session: ProcessingSessionDocument; jobsUpdated: number } | null> {
+    const sessionRef = db.collection(COLLECTIONS.PROCESSING_SESSIONS).doc(sessionId);
+    const jobsQuery = db
+      .collection(COLLECTIONS.PROCESSING_JOBS)
+      .where('sessionId', '==', sessionId)
+      .where('status', 'in', jobsFrom);
+
+    return db.runTransaction(async transaction => {
+      const sessionDoc = await transaction.get(sessionRef);
+      const jobs = await transaction.get(jobsQuery);
+      if (!sessionDoc.exists) {
+        return null;
+      }
+
+      const session = { id: sessionDoc.id, ...sessionDoc.data() } as ProcessingSessionDocument;
+      if (!from.includes(session.status)) {
+        return null;
+      }
+
+      const now = FieldValue.serverTimestamp();
+      jobs.docs.forEach(doc => {
+        transaction.update(doc.ref, {
+          status: jobsTo,
+          ...(jobsTo === 'queued' && { runAfter: Timestamp.now() }),
+          updatedAt: now,
+        });
+      });
+
+      const updates: Partial<ProcessingSessionDocument> = {
+        status: to,
+        ...(to === 'cancelled' && { cancelledFiles: (session.cancelledFiles || 0) + jobs.size }),
+      };
+      transaction.update(sessionRef, {
+        ...updates,
+        ...(to === 'cancelled' && { cancelledAt: now }),
+        updatedAt: now,
+      });
+
+      return { session: { ...session, ...updates }, jobsUpdated: jobs.size };
+    });
+  }
+
+  /**
+   * Requeue a session's dead jobs with fresh attempts and take their files
+   * off the session's failures, in one transaction so a retry can't be
+   * counted twice. Returns null if the session isn't in one of the `from` states.
+   */
+  static async retryDeadJobs(
+    sessionId: string,
+    from: ProcessingSessionDocument['status'][]
+  ): Promise<{ session: ProcessingSessionDocument; jobsUpdated: number } | null> {
+    const sessionRef = db.collection(COLLECTIONS.PROCESSING_SESSIONS).doc(sessionId);
+    const jobsQuery = db
+      .collection(COLLECTIONS.PROCESSING_JOBS)
+      .where('sessionId', '==', sessionId)
+      .where('status', '==', 'dead');
+
+    return db.runTransaction(async transaction => {
+      const sessionDoc = await transaction.get(sessionRef);
+      const jobs = await transaction.get(jobsQuery);
+      if (!sessionDoc.exists) {
+        return null;
+      }
+
+      const session = { id: sessionDoc.id, ...sessionDoc.data() } as ProcessingSessionDocument;
+      if (!from.includes(session.status)) {
+        return null;
+      }
+      if (jobs.empty) {
+        return { session, jobsUpdated: 0 };
+      }
+
+      const now = FieldValue.serverTimestamp();
+      jobs.docs.forEach(doc => {
+        transaction.update(doc.ref, {
+          status: 'queued',
+          attempts: 0,
+          runAfter: Timestamp.now(),
+          lastError: FieldValue.delete(),
+          completedAt: FieldValue.delete(),
+          updatedAt: now,
+        });
+      });
+
+      const retriedFileIds = new Set(jobs.docs.map(doc => (doc.data() as ProcessingJobDocument).fileId));
+      const failedFiles = Math.max(0, session.failedFiles - jobs.size);
+      const updates: Partial<ProcessingSessionDocument> = {
+        status: 'processing',
+        failedFiles,
+        failedFileIds: (session.failedFileIds || []).filter(fileId => !retriedFileIds.has(fileId)),
+        progress: Math.round(((session.processedFiles + failedFiles) / session.totalFiles) * 100),
+      };
+      transaction.update(sessionRef, {
+        ...updates,
+        errorMessage: FieldValue.delete(),
+        completedAt: FieldValue.delete(),
+        updatedAt: now,
+      });
+
+      return {
+        session: { ...session, ...updates, errorMessage: undefined, completedAt: undefined },
+        jobsUpdated: jobs.size,
+      };
+    });
+  }
+
+  /**
+   * Hand a claimed job back without running it: parked if its session is
+   * paused, cancelled if the session was cancelled, otherwise requeued
+   */
+  static async releaseProcessingJob(job: ProcessingJobDocument): Promise<ProcessingJobDocument['status']> {
+    const jobRef = db.collection(COLLECTIONS.PROCESSING_JOBS).doc(job.id);
+    const sessionRef = db.collection(COLLECTIONS.PROCESSING_SESSIONS).doc(job.sessionId);
+
+    return db.runTransaction(async transaction => {
+      const sessionDoc = await transaction.get(sessionRef);
+      const sessionStatus = (sessionDoc.data() as ProcessingSessionDocument | undefined)?.status;
+
+      let status: ProcessingJobDocument['status'] = 'queued';
+      if (sessionStatus === 'paused') {
+        status = 'paused';
+      } else if (sessionStatus === 'cancelled' || !sessionDoc.exists) {
+        status = 'cancelled';
+      }
+
+      const now = FieldValue.serverTimestamp();
+      transaction.update(jobRef, {
+        status,
+        attempts: Math.max(0, job.attempts - 1),
+        runAfter: Timestamp.now(),
+        updatedAt: now,
+      });
+
+      if (status === 'cancelled' && sessionDoc.exists) {
+        transaction.update(sessionRef, {
+          cancelledFiles: FieldValue.increment(1),
+          updatedAt: now,
+        });
+      }
+
+      return status;
+    });
+  }
+
+  /**
+   * Update processing job
+   */
+  static async updateProcessingJob(jobId: string, updates: Partial<ProcessingJobDocument>): Promise<void> {
+    await db.collection(COLLECTIONS.PROCESSING_JOBS).doc(jobId).update({
+      ...updates,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  /**
+   * Extend a running job's lease; false if this run no longer holds it
+   */
+  static async renewJobLease(job: ProcessingJobDocument, leaseMs: number): Promise<boolean> {
+    return this.updateLeasedJob(job, { lockedUntil: Timestamp.fromMillis(Date.now() + leaseMs) });
+  }
+
+  /**
+   * Update a running job only while this run still holds its lease, so a run
+   * whose lease expired can't overwrite the run that took over; false if it doesn't
+   */
+  static async updateLeasedJob(job: ProcessingJobDocument, updates: Partial<ProcessingJobDocument>): Promise<boolean> {
+    const jobRef = db.collection(COLLECTIONS.PROCESSING_JOBS).doc(job.id);
+
+    return db.runTransaction(async transaction => {
+      const doc = await transaction.get(jobRef);
+      if (!holdsLease(doc.data() as ProcessingJobDocument | undefined, job)) {
+        return false;
+      }
+
+      transaction.update(jobRef, {
+        ...updates,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Return jobs whose worker lease expired (crashed or killed worker) to the
+   * queue. Jobs that already used up their attempts are left running and
+   * returned, for the caller to settle as dead.
+   */
+  static async releaseExpiredJobLeases(): Promise<{ requeued: number; exhausted: ProcessingJobDocument[] }> {
+    const snapshot = await db
+      .collection(COLLECTIONS.PROCESSING_JOBS)
+      .where('status', '==', 'running')
+      .where('lockedUntil', '<', Timestamp.now())
+      .get();
+
+    const jobs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ProcessingJobDocument));
+    const retryable = jobs.filter(job => job.attempts < job.maxAttempts);
+
+    // A batch holds at most 500 writes
+    for (let i = 0; i < retryable.length; i += 500) {
+      const batch = db.batch();
+      for (const job of retryable.slice(i, i + 500)) {
+        batch.update(db.collection(COLLECTIONS.PROCESSING_JOBS).doc(job.id), {
+          status: 'queued',
+          runAfter: Timestamp.now(),
+          lockedBy: FieldValue.delete(),
+          lockedUntil: FieldValue.delete(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+    }
+
+    return {
+      requeued: retryable.length,
+      exhausted: jobs.filter(job => job.attempts >= job.maxAttempts),
+    };
+  }
+
+  /**
+   * Get a user's filing rules in evaluation order
+   */
+  static async getFilingRules(uid: string): Promise<FilingRuleDocument[]> {
+    const snapshot = await db
+      .collection(COLLECTIONS.FILING_RULES)
+      .where('userId', '==', uid)
+      .orderBy('priority', 'asc')
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as FilingRuleDocument));
+  }
+
+  /**
+   * Get filing rule by ID
+   */
+  static async getFilingRule(ruleId: string): Promise<FilingRuleDocument | null> {
+    const doc = await db.collection(COLLECTIONS.FILING_RULES).doc(ruleId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as FilingRuleDocument) : null;
+  }
+
+  /**
+   * Create filing rule
+   */
+  static async createFilingRule(ruleData: Omit<FilingRuleDocument, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const now = FieldValue.serverTimestamp() as any;
+    const docRef = await db.collection(COLLECTIONS.FILING_RULES).add({
+      ...ruleData,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return docRef.id;
+  }
+
+  /**
+   * Update filing rule
+   */
+  static async updateFilingRule(ruleId: string, updates: Partial<FilingRuleDocument>): Promise<void> {
+    await db.collection(COLLECTIONS.FILING_RULES).doc(ruleId).update({
+      ...updates,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  /**
+   * Delete filing rule
+   */
+  static async deleteFilingRule(ruleId: string): Promise<void> {
+    await db.collection(COLLECTIONS.FILING_RULES).doc(ruleId).delete();
+  }
+
+  /**
+   * Get a user's tags sorted by name
+   */
+  static async getTags(uid: string): Promise<TagDocument[]> {
+    const snapshot = await db
+      .collection(COLLECTIONS.TAGS)
+      .where('userId', '==', uid)
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as TagDocument))
+      .sort((a, b) => a.nameKey.localeCompare(b.nameKey));
+  }
+
+  /**
+   * Get tag by ID
+   */
+  static async getTag(tagId: string): Promise<TagDocument | null> {
+    const doc = await db.collection(COLLECTIONS.TAGS).doc(tagId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as TagDocument) : null;
+  }
+
+  /**
+   * Create tag
+   */
+  static async createTag(tagData: Omit<TagDocument, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const now = FieldValue.serverTimestamp() as any;
+    const docRef = await db.collection(COLLECTIONS.TAGS).add({
+      ...tagData,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return docRef.id;
+  }
+
+  /**
+   * Update tag
+   */
+  static async updateTag(tagId: string, updates: Partial<TagDocument>): Promise<void> {
+    await db.collection(COLLECTIONS.TAGS).doc(tagId).update({
+      ...updates,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  /**
+   * Delete tag
+   */
+  static async deleteTag(tagId: string): Promise<void> {
+    await db.collection(COLLECTIONS.TAGS).doc(tagId).delete();
+  }
+
   /**
    * Update or create usage stats for current month
    */
@@ -302,4 +1195,13 @@ export class DatabaseService {
   }
 }
 
-export default DatabaseService;
\ No newline at end of file
+// A job is still ours while it's running under the same claim (the same
+// worker may claim it again after its lease expired, so attempts count too)
+function holdsLease(current: ProcessingJobDocument | undefined, job: ProcessingJobDocument): boolean {
+  return !!current
+    && current.status === 'running'
+    && current.lockedBy === job.lockedBy
+    && current.attempts === job.attempts;
+}
+
+export default DatabaseService;
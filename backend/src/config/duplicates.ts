@@ -0,0 +1,27 @@
+import { readNumber } from './env';
+
+/**
+ * Duplicate detection configuration (see services/duplicates)
+ * Files are linked when their perceptual hashes are at least
+ * DUPLICATE_IMAGE_THRESHOLD similar or their text signatures at least
+ * DUPLICATE_TEXT_THRESHOLD, both from 0 to 1
+ */
+
+export interface DuplicateThresholds {
+  image: number;
+  text: number;
+}
+
+export function getDuplicateThresholds(): DuplicateThresholds {
+  return {
+    image: readNumber('DUPLICATE_IMAGE_THRESHOLD', 0.9, { min: 0, max: 1 }),
+    text: readNumber('DUPLICATE_TEXT_THRESHOLD', 0.7, { min: 0, max: 1 }),
+  };
+}
+
+/**
+ * Read every duplicate detection setting; call at startup
+ */
+export function validateDuplicatesConfig(): void {
+  getDuplicateThresholds();
+}
@@ -0,0 +1,55 @@
+import { readDirectory } from './env';
+
+/**
+ * Embeddings provider configuration
+ * EMBEDDINGS_PROVIDER=openai, local (the OpenAI-compatible server at
+ * LOCAL_LLM_BASE_URL, e.g. Ollama) or hashing (offline, no model);
+ * vector indexes go under VECTOR_INDEX_PATH (./vector-index by default)
+ */
+
+export type EmbeddingsProviderType = 'openai' | 'local' | 'hashing';
+
+export interface EmbeddingsConfig {
+  provider: EmbeddingsProviderType;
+  model: string;
+}
+
+const PROVIDER_TYPES: EmbeddingsProviderType[] = ['openai', 'local', 'hashing'];
+
+const DEFAULT_MODELS: Record<EmbeddingsProviderType, string> = {
+  openai: 'text-embedding-3-small',
+  local: 'nomic-embed-text',
+  hashing: 'hashing-v1',
+};
+
+export function getEmbeddingsConfig(): EmbeddingsConfig {
+  const provider = parseProvider(process.env.EMBEDDINGS_PROVIDER);
+  const model = process.env.EMBEDDINGS_MODEL || DEFAULT_MODELS[provider];
+
+  return { provider, model };
+}
+
+export function getVectorIndexPath(): string {
+  return readDirectory('VECTOR_INDEX_PATH', 'vector-index');
+}
+
+/**
+ * Read every embeddings setting; call at startup
+ */
+export function validateEmbeddingsConfig(): void {
+  getEmbeddingsConfig();
+  getVectorIndexPath();
+}
+
+function parseProvider(value: string | undefined): EmbeddingsProviderType {
+  if (!value) {
+    // Same rule as naming: stay offline without an API key
+    return process.env.OPENAI_API_KEY ? 'openai' : 'hashing';
+  }
+
+  const provider = value.toLowerCase() as EmbeddingsProviderType;
+  if (!PROVIDER_TYPES.includes(provider)) {
+    throw new Error(`Unknown embeddings provider "${value}" (expected one of: ${PROVIDER_TYPES.join(', ')})`);
+  }
+  return provider;
+}
@@ -0,0 +1,73 @@
+import { existsSync, statSync } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+/**
+ * Environment settings
+ * Loads .env as soon as anything imports this module; src/index.ts imports
+ * it first, so every other module sees the same environment. Settings are
+ * read when used, and each config module's validate function reads them
+ * all at startup so a bad value stops the server right away.
+ */
+
+dotenv.config();
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Numeric setting `name`, `fallback` when unset; throws on anything that
+ * isn't a number within `range`
+ */
+export function readNumber(name: string, fallback: number, range: NumberRange = {}): number {
+  return parse(name, fallback, range, false);
+}
+
+/**
+ * Whole-number setting `name`, `fallback` when unset
+ */
+export function readInteger(name: string, fallback: number, range: NumberRange = {}): number {
+  return parse(name, fallback, range, true);
+}
+
+/**
+ * Directory setting `name` as an absolute path (relative ones resolve from
+ * the working directory); throws if it names something that isn't a directory
+ */
+export function readDirectory(name: string, fallback: string): string {
+  const directory = path.resolve(process.env[name]?.trim() || fallback);
+  if (existsSync(directory) && !statSync(directory).isDirectory()) {
+    throw new Error(`Invalid ${name} "${directory}" (expected a directory)`);
+  }
+  return directory;
+}
+
+function parse(name: string, fallback: number, { min, max }: NumberRange, integer: boolean): number {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return fallback;
+  }
+
+  const number = Number(value);
+  const valid = Number.isFinite(number)
+    && (!integer || Number.isInteger(number))
+    && (min === undefined || number >= min)
+    && (max === undefined || number <= max);
+  if (!valid) {
+    throw new Error(`Invalid ${name} "${value}" (expected ${describe(integer, min, max)})`);
+  }
+  return number;
+}
+
+function describe(integer: boolean, min?: number, max?: number): string {
+  const kind = integer ? 'an integer' : 'a number';
+  if (min !== undefined && max !== undefined) {
+    return `${kind} from ${min} to ${max}`;
+  }
+  if (min !== undefined) {
+    return `${kind} of at least ${min}`;
+  }
+  return max !== undefined ? `${kind} of at most ${max}` : kind;
+}
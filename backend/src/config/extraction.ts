@@ -0,0 +1,26 @@
+import { readInteger } from './env';
+
+/**
+ * Text extraction configuration
+ * PDF_MAX_PAGES caps the pages read per PDF; PDF_OCR_DPI is the resolution
+ * pages without a text layer are rendered at for OCR
+ */
+
+export interface PdfExtractionConfig {
+  maxPages: number;
+  ocrDpi: number;
+}
+
+export function getPdfExtractionConfig(): PdfExtractionConfig {
+  return {
+    maxPages: readInteger('PDF_MAX_PAGES', 50, { min: 1 }),
+    ocrDpi: readInteger('PDF_OCR_DPI', 200, { min: 72, max: 600 }),
+  };
+}
+
+/**
+ * Read every extraction setting; call at startup
+ */
+export function validateExtractionConfig(): void {
+  getPdfExtractionConfig();
+}
@@ -0,0 +1,68 @@
+import path from 'path';
+
+/**
+ * Supported upload file types
+ * Single source of truth for the upload allow-list and MIME normalization
+ */
+
+export type FileCategory = 'image' | 'pdf' | 'document';
+
+interface SupportedFileType {
+  label: string;
+  mimeTypes: string[]; // first entry is the canonical MIME type
+  extensions: string[];
+  category: FileCategory;
+}
+
+export const SUPPORTED_FILE_TYPES: SupportedFileType[] = [
+  { label: 'JPEG', mimeTypes: ['image/jpeg', 'image/jpg'], extensions: ['.jpg', '.jpeg'], category: 'image' },
+  { label: 'PNG', mimeTypes: ['image/png'], extensions: ['.png'], category: 'image' },
+  { label: 'PDF', mimeTypes: ['application/pdf'], extensions: ['.pdf'], category: 'pdf' },
+  {
+    label: 'DOCX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+    category: 'document',
+  },
+  {
+    label: 'XLSX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    extensions: ['.xlsx'],
+    category: 'document',
+  },
+  {
+    label: 'PPTX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['.pptx'],
+    category: 'document',
+  },
+  { label: 'TXT', mimeTypes: ['text/plain'], extensions: ['.txt'], category: 'document' },
+  { label: 'Markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extensions: ['.md', '.markdown'], category: 'document' },
+  { label: 'RTF', mimeTypes: ['application/rtf', 'text/rtf'], extensions: ['.rtf'], category: 'document' },
+];
+
+// Clients often send these for anything they can't identify
+const GENERIC_MIME_TYPES = ['application/octet-stream', 'text/plain', ''];
+
+/**
+ * Resolve the canonical MIME type for an upload, or null if unsupported.
+ * Falls back to the file extension when the client sent a generic MIME type.
+ */
+export function resolveMimeType(mimeType: string, originalName: string): string | null {
+  const extension = path.extname(originalName).toLowerCase();
+  const byExtension = SUPPORTED_FILE_TYPES.find(type => type.extensions.includes(extension));
+
+  if (byExtension && GENERIC_MIME_TYPES.includes(mimeType)) {
+    return byExtension.mimeTypes[0];
+  }
+
+  const byMimeType = SUPPORTED_FILE_TYPES.find(type => type.mimeTypes.includes(mimeType));
+  return byMimeType ? byMimeType.mimeTypes[0] : null;
+}
+
+export function getFileCategory(mimeType: string): FileCategory {
+  const type = SUPPORTED_FILE_TYPES.find(candidate => candidate.mimeTypes.includes(mimeType));
+  return type ? type.category : 'document';
+}
+
+export const SUPPORTED_FILE_TYPE_LABELS = SUPPORTED_FILE_TYPES.map(type => type.label);
@@ -72,7 +72,13 @@ export const COLLECTIONS = {
   USERS: 'users',
   FILES: 'files',
   PROCESSING_SESSIONS: 'processing_sessions',
+  PROCESSING_JOBS: 'processing_jobs',
   USAGE_STATS: 'usage_stats',
+  FILING_RULES: 'filing_rules',
+  TAGS: 'tags',
+  FILE_EVENTS: 'file_events',
+  NAMING_FEEDBACK: 'naming_feedback',
+  RESULT_CACHE: 'result_cache',
   SUBSCRIPTIONS: 'subscriptions',
 } as const;
 
@@ -0,0 +1,81 @@
+import { UserDocument } from './database';
+import { readInteger } from './env';
+
+/**
+ * Naming provider configuration
+ * Provider and model are picked per tier from the environment, e.g.
+ * NAMING_PROVIDER=openai, NAMING_MODEL_FREE=gpt-4o-mini, NAMING_PROVIDER_GUEST=rules
+ */
+
+export type NamingProviderType = 'openai' | 'local' | 'rules';
+export type NamingTier = 'guest' | UserDocument['role'];
+
+export interface NamingProviderConfig {
+  provider: NamingProviderType;
+  model: string;
+}
+
+const PROVIDER_TYPES: NamingProviderType[] = ['openai', 'local', 'rules'];
+
+const DEFAULT_MODELS: Record<NamingProviderType, string> = {
+  openai: 'gpt-3.5-turbo',
+  local: 'llama3.2',
+  rules: 'rules-v1',
+};
+
+const NAMING_TIERS: NamingTier[] = ['guest', 'free', 'premium', 'admin'];
+
+export interface LocalLlmConfig {
+  baseURL: string;
+  apiKey: string;
+}
+
+/**
+ * The OpenAI-compatible server behind the `local` providers (naming and embeddings)
+ */
+export function getLocalLlmConfig(): LocalLlmConfig {
+  return {
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    // OpenAI-compatible servers (Ollama, llama.cpp) accept any API key
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+  };
+}
+
+/**
+ * Ranked filename candidates offered per file
+ */
+export function getNamingCandidateCount(): number {
+  return readInteger('NAMING_CANDIDATES', 3, { min: 1, max: 10 });
+}
+
+/**
+ * Resolve provider and model for a tier; tier-specific variables win
+ */
+export function getNamingConfig(tier: NamingTier): NamingProviderConfig {
+  const suffix = tier.toUpperCase();
+  const provider = parseProvider(process.env[`NAMING_PROVIDER_${suffix}`] || process.env.NAMING_PROVIDER);
+  const model = process.env[`NAMING_MODEL_${suffix}`] || process.env.NAMING_MODEL || DEFAULT_MODELS[provider];
+
+  return { provider, model };
+}
+
+function parseProvider(value: string | undefined): NamingProviderType {
+  if (!value) {
+    // Without an API key there's nothing to call, so stay offline
+    return process.env.OPENAI_API_KEY ? 'openai' : 'rules';
+  }
+
+  const provider = value.toLowerCase() as NamingProviderType;
+  if (!PROVIDER_TYPES.includes(provider)) {
+    throw new Error(`Unknown naming provider "${value}" (expected one of: ${PROVIDER_TYPES.join(', ')})`);
+  }
+  return provider;
+}
+
+/**
+ * Read every naming setting, for every tier; call at startup
+ */
+export function validateNamingConfig(): void {
+  NAMING_TIERS.forEach(tier => getNamingConfig(tier));
+  getNamingCandidateCount();
+}
@@ -0,0 +1,30 @@
+import { readInteger } from './env';
+
+/**
+ * Job queue configuration (see services/queue)
+ * A failed job is retried JOB_RETRY_BASE_DELAY_MS later, doubling each time,
+ * until it has run JOB_MAX_ATTEMPTS times
+ */
+
+export interface QueueConfig {
+  maxAttempts: number;
+  concurrency: number; // jobs run in parallel per server
+  pollIntervalMs: number;
+  retryBaseDelayMs: number;
+}
+
+export function getQueueConfig(): QueueConfig {
+  return {
+    maxAttempts: readInteger('JOB_MAX_ATTEMPTS', 3, { min: 1 }),
+    concurrency: readInteger('JOB_CONCURRENCY', 2, { min: 1 }),
+    pollIntervalMs: readInteger('JOB_POLL_INTERVAL_MS', 2000, { min: 100 }),
+    retryBaseDelayMs: readInteger('JOB_RETRY_BASE_DELAY_MS', 10000, { min: 0 }),
+  };
+}
+
+/**
+ * Read every queue setting; call at startup
+ */
+export function validateQueueConfig(): void {
+  getQueueConfig();
+}
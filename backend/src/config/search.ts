@@ -0,0 +1,18 @@
+import { readDirectory } from './env';
+
+/**
+ * Keyword search configuration (see services/search)
+ * SEARCH_INDEX_PATH is the directory for the per-user index files,
+ * ./search-index by default
+ */
+
+export function getSearchIndexPath(): string {
+  return readDirectory('SEARCH_INDEX_PATH', 'search-index');
+}
+
+/**
+ * Read every search setting; call at startup
+ */
+export function validateSearchConfig(): void {
+  getSearchIndexPath();
+}
@@ -0,0 +1,93 @@
+import path from 'path';
+import { readInteger } from './env';
+
+/**
+ * File storage configuration
+ * STORAGE_DRIVER=local (a directory on this server, UPLOAD_PATH) or
+ * s3 (any S3-compatible service: AWS, MinIO, R2...)
+ */
+
+export type StorageDriverType = 'local' | 's3';
+
+export interface LocalStorageConfig {
+  driver: 'local';
+  directory: string;
+}
+
+export interface S3StorageConfig {
+  driver: 's3';
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  forcePathStyle: boolean; // MinIO needs path-style URLs
+  accessKeyId?: string; // defaults to the AWS credential chain
+  secretAccessKey?: string;
+}
+
+export type StorageConfig = LocalStorageConfig | S3StorageConfig;
+
+const DRIVER_TYPES: StorageDriverType[] = ['local', 's3'];
+
+/**
+ * Lifetime of signed download URLs in seconds, also the longest a client
+ * may ask for
+ */
+export function getSignedUrlTtlSeconds(): number {
+  return readInteger('SIGNED_URL_TTL_SECONDS', 900, { min: 10, max: 7 * 24 * 3600 });
+}
+
+/**
+ * HMAC key for signed URLs; every server instance needs the same one
+ */
+export function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET is required to sign download URLs');
+  }
+  return secret;
+}
+
+export function getStorageConfig(): StorageConfig {
+  const driver = parseDriver(process.env.STORAGE_DRIVER);
+
+  if (driver === 'local') {
+    return {
+      driver,
+      directory: path.resolve(process.env.UPLOAD_PATH || 'uploads'),
+    };
+  }
+
+  if (!process.env.S3_BUCKET) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+  }
+  return {
+    driver,
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+  };
+}
+
+/**
+ * Read every storage setting; call at startup
+ */
+export function validateStorageConfig(): void {
+  getStorageConfig();
+  getSigningSecret();
+  getSignedUrlTtlSeconds();
+}
+
+function parseDriver(value: string | undefined): StorageDriverType {
+  if (!value) {
+    return 'local';
+  }
+
+  const driver = value.toLowerCase() as StorageDriverType;
+  if (!DRIVER_TYPES.includes(driver)) {
+    throw new Error(`Unknown storage driver "${value}" (expected one of: ${DRIVER_TYPES.join(', ')})`);
+  }
+  return driver;
+}
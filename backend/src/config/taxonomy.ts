@@ -0,0 +1,118 @@
+import fs from 'fs';
+import Joi from 'joi';
+
+/**
+ * Document classification taxonomy
+ * Built-in categories can be replaced with a JSON file of the same shape
+ * via CLASSIFICATION_TAXONOMY_FILE. "other" is always available as the
+ * catch-all.
+ */
+
+export interface TaxonomyCategory {
+  id: string;
+  label: string;
+  description: string; // shown to the model
+  keywords: string[]; // lower case words or phrases for the local classifier
+}
+
+export const OTHER_CATEGORY_ID = 'other';
+
+const DEFAULT_TAXONOMY: TaxonomyCategory[] = [
+  {
+    id: 'invoice',
+    label: 'Invoice',
+    description: 'A bill requesting payment for goods or services',
+    keywords: ['invoice', 'invoice number', 'bill to', 'amount due', 'due date', 'payment terms', 'vat', 'remit to'],
+  },
+  {
+    id: 'receipt',
+    label: 'Receipt',
+    description: 'Proof of a completed purchase or payment',
+    keywords: ['receipt', 'thank you for your purchase', 'cashier', 'change', 'paid', 'card ending', 'transaction', 'store'],
+  },
+  {
+    id: 'bank_statement',
+    label: 'Bank Statement',
+    description: 'Account statement from a bank or card issuer',
+    keywords: ['statement', 'opening balance', 'closing balance', 'account number', 'sort code', 'iban', 'withdrawal', 'deposit'],
+  },
+  {
+    id: 'payslip',
+    label: 'Payslip',
+    description: 'Salary or wage statement from an employer',
+    keywords: ['payslip', 'pay slip', 'gross pay', 'net pay', 'earnings', 'deductions', 'employee id', 'pay period'],
+  },
+  {
+    id: 'tax_form',
+    label: 'Tax Form',
+    description: 'Tax return, tax assessment or tax certificate',
+    keywords: ['tax return', 'tax year', 'irs', 'hmrc', 'w-2', '1099', 'taxable income', 'assessment'],
+  },
+  {
+    id: 'id_document',
+    label: 'ID',
+    description: 'Passport, driving licence, identity card or similar',
+    keywords: ['passport', 'driving licence', 'driver license', 'identity card', 'date of birth', 'nationality', 'expiry date'],
+  },
+  {
+    id: 'medical',
+    label: 'Medical',
+    description: 'Medical records, prescriptions, lab results or health insurance',
+    keywords: ['patient', 'diagnosis', 'prescription', 'clinic', 'hospital', 'dosage', 'lab results', 'physician'],
+  },
+  {
+    id: 'contract',
+    label: 'Contract',
+    description: 'Agreement between parties, including leases and terms',
+    keywords: ['agreement', 'contract', 'hereinafter', 'parties', 'terms and conditions', 'signature', 'lease', 'witness'],
+  },
+  {
+    id: 'letter',
+    label: 'Letter',
+    description: 'Correspondence addressed to a person or organisation',
+    keywords: ['dear', 'sincerely', 'regards', 'yours faithfully', 'to whom it may concern'],
+  },
+  {
+    id: 'photo',
+    label: 'Photo',
+    description: 'A photograph with little or no document text',
+    keywords: [],
+  },
+];
+
+const OTHER_CATEGORY: TaxonomyCategory = {
+  id: OTHER_CATEGORY_ID,
+  label: 'Other',
+  description: 'Anything that fits none of the other categories',
+  keywords: [],
+};
+
+const taxonomySchema = Joi.array().items(Joi.object({
+  id: Joi.string().pattern(/^[a-z0-9_]+$/).required(),
+  label: Joi.string().max(50).required(),
+  description: Joi.string().max(200).required(),
+  keywords: Joi.array().items(Joi.string().lowercase().max(50)).default([]),
+})).min(1).unique('id');
+
+function loadTaxonomy(): TaxonomyCategory[] {
+  const file = process.env.CLASSIFICATION_TAXONOMY_FILE;
+  const categories = file ? parseTaxonomyFile(file) : DEFAULT_TAXONOMY;
+
+  return categories.some(category => category.id === OTHER_CATEGORY_ID)
+    ? categories
+    : [...categories, OTHER_CATEGORY];
+}
+
+function parseTaxonomyFile(file: string): TaxonomyCategory[] {
+  const { error, value } = taxonomySchema.validate(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (error) {
+    throw new Error(`Invalid classification taxonomy in ${file}: ${error.message}`);
+  }
+  return value;
+}
+
+export const TAXONOMY: TaxonomyCategory[] = loadTaxonomy();
+
+export function getTaxonomyCategory(id: string): TaxonomyCategory | undefined {
+  return TAXONOMY.find(category => category.id === id);
+}
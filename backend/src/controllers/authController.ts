@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { auth } from '../config/firebase';
 import { DatabaseService } from '../config/database';
+import { CASE_STYLES, MAX_TEMPLATE_LENGTH, validateTemplate, WORD_SEPARATORS } from '../services/naming/template';
 import Joi from 'joi';
 
 /**
@@ -19,6 +20,16 @@ const phoneVerificationSchema = Joi.object({
   recaptchaToken: Joi.string().optional(),
 });
 
+export const filenameTemplateSchema = Joi.object({
+  template: Joi.string().max(MAX_TEMPLATE_LENGTH).required().custom((value, helpers) => {
+    const error = validateTemplate(value);
+    return error ? helpers.message({ custom: error }) : value;
+  }),
+  caseStyle: Joi.string().valid(...CASE_STYLES).default('preserve'),
+  separator: Joi.string().valid(...WORD_SEPARATORS).default('_'),
+  maxLength: Joi.number().integer().min(10).max(MAX_TEMPLATE_LENGTH).default(80),
+});
+
 const verifyOtpSchema = Joi.object({
   phoneNumber: Joi.string()
     .pattern(/^\+[1-9]\d{1,14}$/)
@@ -315,7 +326,9 @@ export const updateUserProfile = async (req: Request, res: Response): Promise<vo
         autoRename: Joi.boolean().optional(),
         preserveOriginalNames: Joi.boolean().optional(),
         useAIForAllFiles: Joi.boolean().optional(),
+        autoTag: Joi.boolean().optional(),
         maxFileSize: Joi.number().min(1024).max(100 * 1024 * 1024).optional(),
+        filenameTemplate: filenameTemplateSchema.allow(null).optional(),
       }).optional(),
     });
 
@@ -332,6 +345,12 @@ export const updateUserProfile = async (req: Request, res: Response): Promise<vo
     const decodedToken = await auth.verifyIdToken(token);
     const uid = decodedToken.uid;
 
+    // Merge settings so partial updates don't drop the other preferences
+    if (value.settings) {
+      const currentUser = await DatabaseService.getUser(uid);
+      value.settings = { ...currentUser?.settings, ...value.settings };
+    }
+
     // Update user in Firestore
     await DatabaseService.updateUser(uid, value);
 
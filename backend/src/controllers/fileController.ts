@@ -1,39 +1,76 @@
 import { Response } from 'express';
-import { AuthenticatedRequest } from '../middleware/auth';
-import { DatabaseService } from '../config/database';
-import { OpenAI } from 'openai';
+import { AuthenticatedRequest, isOwner } from '../middleware/auth';
+import { DatabaseService, FileDocument, ProcessingSessionDocument } from '../config/database';
+import { getFileCategory, resolveMimeType, SUPPORTED_FILE_TYPE_LABELS } from '../config/fileTypes';
+import { getTaxonomyCategory } from '../config/taxonomy';
+import { DocumentTooLargeError, UnsupportedFileTypeError } from '../services/extraction';
+import { extractAndStoreText, indexForSearch } from '../services/fileProcessor';
+import { hashFile } from '../services/hashing';
+import { computePerceptualHash, DuplicateService, PerceptualHash } from '../services/duplicates';
+import { buildSnippet, InvalidCursorError, SearchService, tokenize } from '../services/search';
+import { EmbeddingService } from '../services/embeddings';
+import { tagKey } from '../services/tags';
+import { filenameKey, NamingService, resolveConflict } from '../services/naming';
+import { ProcessingQueue } from '../services/queue';
+import { StorageService } from '../services/storage';
+import { processingEvents } from '../services/processingEvents';
 import Joi from 'joi';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import os from 'os';
 
 /**
  * File Processing Controller
  * Handles file upload, text extraction, and AI-powered renaming
  */
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Validation schemas
 const processFilesSchema = Joi.object({
-  files: Joi.array().items(
-    Joi.object({
-      originalName: Joi.string().required(),
-      filePath: Joi.string().required(),
-      fileType: Joi.string().valid('image', 'pdf', 'document').required(),
-      fileSize: Joi.number().required(),
-      mimeType: Joi.string().required(),
-    })
-  ).min(1).max(20).required(),
+  fileIds: Joi.array().items(Joi.string().pattern(/^[^/]+$/)).min(1).max(100).unique().required(),
+});
+
+const isoDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({
+  'string.pattern.base': '{{#label}} must be a YYYY-MM-DD date',
+});
+
+const searchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required(),
+  type: Joi.string().valid('image', 'pdf', 'document').optional(),
+  category: Joi.string().max(50).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  cursor: Joi.string().max(200).optional(),
+});
+
+const semanticSearchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(500).required(),
+  mode: Joi.string().valid('semantic', 'hybrid').default('semantic'),
+  semanticWeight: Joi.number().min(0).max(1).default(0.6), // hybrid only
+  type: Joi.string().valid('image', 'pdf', 'document').optional(),
+  category: Joi.string().max(50).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+});
+
+const duplicatesQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(2).max(1000).default(500),
+  fileIds: Joi.string().optional(), // comma separated
 });
 
-// Configure multer for file uploads
+const resolveDuplicatesSchema = Joi.object({
+  keepFileId: Joi.string().required(),
+  discardFileIds: Joi.array().items(Joi.string().invalid(Joi.ref('...keepFileId'))).min(1).max(50).unique().required(),
+});
+
+// Configure multer for file uploads; files wait in a temp directory until
+// they're hashed and handed to the storage driver
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
-    const uploadDir = path.join(process.cwd(), 'uploads');
+    const uploadDir = path.join(os.tmpdir(), 'filesense-uploads');
     try {
       await fs.mkdir(uploadDir, { recursive: true });
       cb(null, uploadDir);
@@ -49,11 +86,10 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
-  if (allowedTypes.includes(file.mimetype)) {
+  if (resolveMimeType(file.mimetype, file.originalname)) {
     cb(null, true);
   } else {
-    cb(new Error('Invalid file type. Only JPEG, PNG, and PDF files are allowed.'));
+    cb(new Error(`Invalid file type. Supported types: ${SUPPORTED_FILE_TYPE_LABELS.join(', ')}.`));
   }
 };
 
@@ -70,9 +106,8 @@ export const upload = multer({
  * Upload files for processing
  */
 export const uploadFiles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const files = req.files as Express.Multer.File[];
   try {
-    const files = req.files as Express.Multer.File[];
-    
     if (!files || files.length === 0) {
       res.status(400).json({
         success: false,
@@ -82,33 +117,70 @@ export const uploadFiles = async (req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
+    // Multipart text field; reuse results of identical earlier uploads instead of re-processing
+    const reuseExisting = req.body?.reuseExisting === 'true';
     const fileDocuments = [];
     
     for (const file of files) {
-      const fileType = getFileType(file.mimetype);
+      // fileFilter already rejected anything unresolvable
+      const mimeType = resolveMimeType(file.mimetype, file.originalname) || file.mimetype;
+      const contentHash = await hashFile(file.path);
+      const userId = req.user?.uid || 'guest';
+      const storageKey = StorageService.createKey(userId, file.originalname);
+      await StorageService.getDriver().put(storageKey, createReadStream(file.path), {
+        contentType: mimeType,
+        contentLength: file.size,
+      });
       
       const fileData = {
-        userId: req.user?.uid || 'guest',
+        userId,
         originalName: file.originalname,
-        filePath: file.path,
-        fileType,
+        storageKey,
+        fileType: getFileCategory(mimeType),
         fileSize: file.size,
-        mimeType: file.mimetype,
+        mimeType,
+        contentHash,
       };
 
-      const fileId = await DatabaseService.createFile(fileData);
+      // Guests share one account, so only signed-in users are matched
+      const duplicate = req.user ? await DatabaseService.findFileByHash(req.user.uid, contentHash) : null;
+      const reused = Boolean(reuseExisting && duplicate?.isProcessed && duplicate.suggestedName);
+
+      const perceptualHash = fileData.fileType === 'image' ? await hashImage(file.path) : undefined;
+
+      const fileId = await DatabaseService.createFile({
+        ...fileData,
+        ...(req.guestSessionId && { guestSessionId: req.guestSessionId }),
+        ...(perceptualHash && { perceptualHash }),
+        ...(duplicate && { duplicateOf: duplicate.id }),
+        ...(reused && copyProcessingResults(duplicate!)),
+      });
+      if (reused) {
+        await indexForSearch(fileId);
+      }
       fileDocuments.push({
         id: fileId,
         ...fileData,
+        duplicate: duplicate && {
+          fileId: duplicate.id,
+          originalName: duplicate.originalName,
+          newName: duplicate.newName,
+          suggestedName: duplicate.suggestedName,
+          uploadedAt: duplicate.createdAt?.toDate?.().toISOString(),
+        },
+        reused,
+        ...(reused && { suggestedName: duplicate!.suggestedName }),
       });
     }
 
+    const duplicateCount = fileDocuments.filter(file => file.duplicate).length;
     res.status(200).json({
       success: true,
       message: `${files.length} files uploaded successfully`,
       data: {
         files: fileDocuments,
         totalFiles: files.length,
+        duplicateFiles: duplicateCount,
       }
     });
 
@@ -139,6 +211,8 @@ export const uploadFiles = async (req: AuthenticatedRequest, res: Response): Pro
       error: 'Failed to upload files',
       code: 'UPLOAD_FAILED'
     });
+  } finally {
+    await Promise.all((files || []).map(file => fs.rm(file.path, { force: true })));
   }
 };
 
@@ -147,26 +221,45 @@ export const uploadFiles = async (req: AuthenticatedRequest, res: Response): Pro
  */
 export const processFiles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const fileIds = req.body.fileIds as string[];
-    
-    if (!fileIds || fileIds.length === 0) {
+    const { error, value } = processFilesSchema.validate(req.body);
+    if (error) {
       res.status(400).json({
         success: false,
-        error: 'No file IDs provided',
-        code: 'NO_FILE_IDS'
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
+
+    // Only the caller's own files can be queued
+    const fileIds = value.fileIds as string[];
+    const files = await DatabaseService.getFilesByIds(fileIds);
+    if (files.length !== fileIds.length || files.some(file => !isOwner(req, file))) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found',
+        code: 'FILE_NOT_FOUND'
       });
       return;
     }
 
     // Create processing session
+    const userId = req.user?.uid || 'guest';
     const sessionId = await DatabaseService.createProcessingSession({
-      userId: req.user?.uid || 'guest',
+      userId,
+      ...(req.guestSessionId && { guestSessionId: req.guestSessionId }),
       fileIds,
       totalFiles: fileIds.length,
+      status: 'processing',
     });
 
-    // Start processing files asynchronously
-    processFilesAsync(fileIds, sessionId, req.user?.uid);
+    // Reserve quota up front; files that fail or get cancelled are refunded
+    if (userId !== 'guest') {
+      await DatabaseService.incrementFileCount(userId, fileIds.length);
+    }
+
+    // Queue one durable job per file; the worker picks them up
+    await ProcessingQueue.enqueueSession(sessionId, userId, fileIds);
 
     res.status(200).json({
       success: true,
@@ -194,21 +287,29 @@ export const processFiles = async (req: AuthenticatedRequest, res: Response): Pr
 export const getProcessingStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { sessionId } = req.params;
-    
-    // This would fetch from database in real implementation
-    // For now, return mock status
+
+    const session = await DatabaseService.getProcessingSession(sessionId);
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        error: 'Processing session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!isOwner(req, session)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to this processing session',
+        code: 'SESSION_ACCESS_DENIED'
+      });
+      return;
+    }
+
     res.status(200).json({
       success: true,
-      data: {
-        sessionId,
-        status: 'processing',
-        progress: 65,
-        currentFileIndex: 2,
-        totalFiles: 5,
-        processedFiles: 2,
-        renamedFiles: 1,
-        failedFiles: 0,
-      }
+      data: await buildSessionStatus(session),
     });
 
   } catch (error) {
@@ -221,29 +322,187 @@ export const getProcessingStatus = async (req: AuthenticatedRequest, res: Respon
   }
 };
 
+/**
+ * Stream live processing events for a session (Server-Sent Events)
+ */
+export const streamProcessingEvents = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await DatabaseService.getProcessingSession(sessionId);
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        error: 'Processing session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!isOwner(req, session)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to this processing session',
+        code: 'SESSION_ACCESS_DENIED'
+      });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      if (res.writableEnded) {
+        return;
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // compression() buffers responses unless flushed explicitly
+      (res as Response & { flush?: () => void }).flush?.();
+    };
+
+    // One way out, whether the session finished, the client left or the server shuts down
+    let heartbeat: NodeJS.Timeout | undefined;
+    let unsubscribe = () => {};
+    const end = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      if (!res.writableEnded) {
+        res.end();
+      }
+    };
+
+    // Subscribe before reading the snapshot so no event falls in between
+    unsubscribe = processingEvents.subscribe(sessionId, event => {
+      send(event.type, event);
+      if (event.type === 'session' && isFinalStatus(event.status)) {
+        end();
+      }
+    }, end);
+    heartbeat = setInterval(() => {
+      if (!res.writableEnded) {
+        res.write(': ping\n\n');
+      }
+    }, 25 * 1000);
+    res.on('close', end);
+
+    const snapshot = await DatabaseService.getProcessingSession(sessionId);
+    send('snapshot', snapshot ? await buildSessionStatus(snapshot) : null);
+    if (!snapshot || isFinalStatus(snapshot.status)) {
+      end();
+    }
+
+  } catch (error) {
+    console.error('Stream processing events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to stream processing events',
+        code: 'STREAM_FAILED'
+      });
+    } else if (!res.writableEnded) {
+      res.end();
+    }
+  }
+};
+
+/**
+ * Pause a processing session between files
+ */
+export const pauseProcessing = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await changeSessionState(req, res, 'pause');
+};
+
+/**
+ * Resume a paused processing session
+ */
+export const resumeProcessing = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await changeSessionState(req, res, 'resume');
+};
+
+/**
+ * Cancel a processing session; files not yet processed are refunded
+ */
+export const cancelProcessing = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await changeSessionState(req, res, 'cancel');
+};
+
+/**
+ * Requeue a session's failed files; its other files keep their results
+ */
+export const retryProcessing = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await changeSessionState(req, res, 'retry');
+};
+
 /**
  * Extract text from a single file
  */
 export const extractText = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { fileId } = req.params;
-    
-    // Get file from database
-    // For now, return mock extracted text
-    const mockText = "Sample extracted text from the document. This would contain the actual OCR results.";
-    
+
+    const file = await DatabaseService.getFile(fileId);
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found',
+        code: 'FILE_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!isOwner(req, file)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to this file',
+        code: 'FILE_ACCESS_DENIED'
+      });
+      return;
+    }
+
+    const extraction = await extractAndStoreText(file);
+
+    if (req.user) {
+      await DatabaseService.updateUsageStats(req.user.uid, {
+        textExtracted: 1,
+      });
+    }
+
     res.status(200).json({
       success: true,
       data: {
         fileId,
-        extractedText: mockText,
-        confidence: 0.95,
-        language: 'en'
+        extractedText: extraction.text,
+        confidence: extraction.confidence,
+        language: extraction.language,
       }
     });
 
   } catch (error) {
     console.error('Extract text error:', error);
+
+    if (error instanceof UnsupportedFileTypeError) {
+      res.status(415).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+      return;
+    }
+
+    if (error instanceof DocumentTooLargeError) {
+      res.status(413).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       error: 'Failed to extract text',
@@ -261,6 +520,8 @@ export const generateFilename = async (req: AuthenticatedRequest, res: Response)
       extractedText: Joi.string().required(),
       originalFilename: Joi.string().required(),
       fileType: Joi.string().valid('image', 'pdf', 'document').optional(),
+      // Names already given to other files of the caller's batch
+      reservedNames: Joi.array().items(Joi.string()).max(1000).default([]),
     });
 
     const { error, value } = generateSchema.validate(req.body);
@@ -273,27 +534,15 @@ export const generateFilename = async (req: AuthenticatedRequest, res: Response)
       return;
     }
 
-    const { extractedText, originalFilename, fileType } = value;
-
-    if (!process.env.OPENAI_API_KEY) {
-      res.status(500).json({
-        success: false,
-        error: 'OpenAI API key not configured',
-        code: 'API_KEY_MISSING'
-      });
-      return;
-    }
-
-    const prompt = buildFilenamePrompt(extractedText, originalFilename, fileType);
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: 50,
-    });
+    const { extractedText, originalFilename, fileType, reservedNames } = value;
 
-    const suggestedName = completion.choices[0]?.message?.content?.trim() || 'Untitled_Document';
+    const result = await NamingService.nameFile({ extractedText, originalFilename, fileType }, req.user || null);
+    const suggestedFilename = await resolveNameConflict(
+      req.user?.uid || null,
+      result.filename,
+      path.extname(originalFilename),
+      reservedNames
+    );
 
     // Update usage stats if user is authenticated
     if (req.user) {
@@ -306,8 +555,11 @@ export const generateFilename = async (req: AuthenticatedRequest, res: Response)
       success: true,
       data: {
         originalFilename,
-        suggestedFilename: suggestedName,
-        confidence: 0.9,
+        suggestedFilename,
+        confidence: result.confidence,
+        candidates: result.candidates,
+        provider: result.provider,
+        model: result.model,
         extractedText: extractedText.substring(0, 200) + '...',
       }
     });
@@ -347,7 +599,23 @@ export const getUserFiles = async (req: AuthenticatedRequest, res: Response): Pr
     }
 
     const limit = parseInt(req.query.limit as string) || 50;
-    const files = await DatabaseService.getUserFiles(req.user.uid, limit);
+    const tagMatch = req.query.tagMatch === 'all' ? 'all' : 'any';
+    const requestedTags = typeof req.query.tags === 'string'
+      ? req.query.tags.split(',').map(tagKey).filter(Boolean)
+      : [];
+    if (tagMatch === 'any' && requestedTags.length > 10) {
+      res.status(400).json({
+        success: false,
+        error: 'At most 10 tags can be matched with tagMatch=any',
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
+
+    // Files store tags as the user spelled them; unknown tags match nothing
+    const tagNames = new Map((await DatabaseService.getTags(req.user.uid)).map(tag => [tag.nameKey, tag.name]));
+    const tags = requestedTags.map(key => tagNames.get(key) || key);
+    const files = await DatabaseService.getUserFiles(req.user.uid, limit, { tags, tagMatch });
 
     res.status(200).json({
       success: true,
@@ -367,150 +635,403 @@ export const getUserFiles = async (req: AuthenticatedRequest, res: Response): Pr
   }
 };
 
-// Helper functions
-
-async function processFilesAsync(fileIds: string[], sessionId: string, userId?: string): Promise<void> {
+/**
+ * Full-text search over the user's files
+ */
+export const searchFiles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    await DatabaseService.updateProcessingSession(sessionId, {
-      status: 'processing',
-      progress: 10,
-    });
+    const { error, value } = searchQuerySchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
 
-    for (let i = 0; i < fileIds.length; i++) {
-      const fileId = fileIds[i];
-      const progress = Math.round(((i + 1) / fileIds.length) * 100);
+    const uid = req.user!.uid;
+    const { q, type, category, dateFrom, dateTo, limit, cursor } = value;
+    const page = await SearchService.search(uid, q, { fileType: type, category, dateFrom, dateTo }, limit, cursor);
 
-      // Update session progress
-      await DatabaseService.updateProcessingSession(sessionId, {
-        currentFileIndex: i,
-        progress,
-      });
+    const files = await DatabaseService.getFilesByIds(page.hits.map(hit => hit.fileId));
+    const filesById = new Map(files.map(file => [file.id, file]));
 
-      // Process individual file
-      await processIndividualFile(fileId);
+    // Entries for files deleted elsewhere are dropped from the index
+    const staleFileIds = page.hits.map(hit => hit.fileId).filter(fileId => !filesById.has(fileId));
+    if (staleFileIds.length > 0) {
+      await SearchService.removeFiles(uid, staleFileIds);
+    }
 
-      // Small delay to simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    const results = page.hits
+      .filter(hit => filesById.has(hit.fileId))
+      .map(hit => toSearchResult(filesById.get(hit.fileId)!, hit.score, hit.matchedTerms));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        results,
+        total: page.total,
+        nextCursor: page.nextCursor,
+        indexing: SearchService.isRebuilding(uid), // results are partial until the index is rebuilt
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        code: 'INVALID_CURSOR'
+      });
+      return;
     }
 
-    // Mark session as completed
-    await DatabaseService.updateProcessingSession(sessionId, {
-      status: 'completed',
-      progress: 100,
-      completedAt: new Date() as any,
+    console.error('Search files error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search files',
+      code: 'SEARCH_FAILED'
     });
+  }
+};
 
-    // Update user's file count if authenticated
-    if (userId) {
-      await DatabaseService.incrementFileCount(userId, fileIds.length);
-      await DatabaseService.updateUsageStats(userId, {
-        filesProcessed: fileIds.length,
-        textExtracted: fileIds.length,
+/**
+ * Search by meaning with embeddings, optionally blended with keyword scores
+ */
+export const semanticSearch = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = semanticSearchQuerySchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
       });
+      return;
     }
 
+    const uid = req.user!.uid;
+    const { q, mode, semanticWeight, limit, type, category, dateFrom, dateTo } = value;
+    const filters = { fileType: type, category, dateFrom, dateTo };
+
+    const matches: { fileId: string; score: number; semanticScore: number; keywordScore?: number }[] = mode === 'hybrid'
+      ? await EmbeddingService.hybridSearch(uid, q, limit, semanticWeight, filters)
+      : (await EmbeddingService.semanticSearch(uid, q, limit, filters))
+        .map(match => ({ fileId: match.fileId, score: match.similarity, semanticScore: match.similarity }));
+
+    const files = await DatabaseService.getFilesByIds(matches.map(match => match.fileId));
+    const filesById = new Map(files.map(file => [file.id, file]));
+
+    const staleFileIds = matches.map(match => match.fileId).filter(fileId => !filesById.has(fileId));
+    if (staleFileIds.length > 0) {
+      await EmbeddingService.removeFiles(uid, staleFileIds);
+    }
+
+    // Highlight query words where they literally occur
+    const queryTerms = tokenize(q);
+    const results = matches
+      .filter(match => filesById.has(match.fileId))
+      .map(match => ({
+        ...toSearchResult(filesById.get(match.fileId)!, match.score, queryTerms),
+        semanticScore: Math.round(match.semanticScore * 1000) / 1000,
+        ...(match.keywordScore !== undefined && { keywordScore: Math.round(match.keywordScore * 1000) / 1000 }),
+      }));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        mode,
+        provider: EmbeddingService.getProvider().name,
+        model: EmbeddingService.getProvider().model,
+        indexing: EmbeddingService.isRebuilding(uid), // results are partial until every file is embedded
+        results,
+      }
+    });
+
   } catch (error) {
-    console.error('Async processing error:', error);
-    await DatabaseService.updateProcessingSession(sessionId, {
-      status: 'failed',
-      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    console.error('Semantic search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search files',
+      code: 'SEMANTIC_SEARCH_FAILED'
     });
   }
-}
+};
 
-async function processIndividualFile(fileId: string): Promise<void> {
+/**
+ * Get clusters of likely duplicate files
+ */
+export const getDuplicates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    // Mark file as processing
-    await DatabaseService.updateFile(fileId, {
-      processingStatus: 'processing',
-    });
+    const { error, value } = duplicatesQuerySchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
 
-    // Simulate text extraction (replace with actual OCR)
-    const extractedText = "Sample extracted text from document";
-    
-    // Generate filename using AI
-    const suggestedName = await generateFilenameAI(extractedText, "document.pdf");
-
-    // Update file with results
-    await DatabaseService.updateFile(fileId, {
-      extractedText,
-      suggestedName,
-      processingStatus: 'completed',
-      isProcessed: true,
-      processedAt: new Date() as any,
+    const files = await DatabaseService.getUserFiles(req.user!.uid, value.limit);
+    let clusters = DuplicateService.findClusters(files);
+
+    // Optionally only clusters touching the given files (e.g. a fresh upload batch)
+    if (value.fileIds) {
+      const fileIds = new Set(value.fileIds.split(','));
+      clusters = clusters.filter(cluster => cluster.files.some(file => fileIds.has(file.fileId)));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        clusters,
+        totalClusters: clusters.length,
+        scannedFiles: files.length,
+      }
     });
 
   } catch (error) {
-    console.error(`Error processing file ${fileId}:`, error);
-    await DatabaseService.updateFile(fileId, {
-      processingStatus: 'failed',
+    console.error('Get duplicates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to find duplicates',
+      code: 'DUPLICATES_FAILED'
     });
-    throw error;
   }
-}
+};
 
-async function generateFilenameAI(extractedText: string, originalFilename: string): Promise<string> {
+/**
+ * Keep one file of a duplicate cluster and delete the rest
+ */
+export const resolveDuplicates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      return generateFallbackFilename(extractedText);
+    const { error, value } = resolveDuplicatesSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
+      });
+      return;
     }
 
-    const prompt = buildFilenamePrompt(extractedText, originalFilename);
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: 50,
+    const { keepFileId, discardFileIds } = value;
+    const files = await DatabaseService.getFilesByIds([keepFileId, ...discardFileIds]);
+    if (files.length !== discardFileIds.length + 1 || files.some(file => file.userId !== req.user!.uid)) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found',
+        code: 'FILE_NOT_FOUND'
+      });
+      return;
+    }
+
+    const discarded = files.filter(file => file.id !== keepFileId);
+    for (const file of discarded) {
+      await StorageService.deleteFile(file);
+      await DatabaseService.deleteFile(file.id);
+    }
+    const discardedIds = discarded.map(file => file.id);
+    await SearchService.removeFiles(req.user!.uid, discardedIds);
+    await EmbeddingService.removeFiles(req.user!.uid, discardedIds);
+
+    res.status(200).json({
+      success: true,
+      message: `${discarded.length} duplicate files deleted`,
+      data: {
+        keepFileId,
+        deletedFileIds: discarded.map(file => file.id),
+      }
     });
 
-    return completion.choices[0]?.message?.content?.trim() || generateFallbackFilename(extractedText);
   } catch (error) {
-    console.error('AI filename generation error:', error);
-    return generateFallbackFilename(extractedText);
+    console.error('Resolve duplicates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete duplicates',
+      code: 'RESOLVE_DUPLICATES_FAILED'
+    });
   }
+};
+
+// Helper functions
+
+function toSearchResult(file: FileDocument, score: number, matchedTerms: string[]) {
+  return {
+    fileId: file.id,
+    score: Math.round(score * 1000) / 1000,
+    originalName: file.originalName,
+    newName: file.newName,
+    suggestedName: file.suggestedName,
+    fileType: file.fileType,
+    category: file.category,
+    categoryLabel: file.category && getTaxonomyCategory(file.category)?.label,
+    tags: file.tags || [],
+    documentDate: file.metadata?.documentDate || null,
+    createdAt: file.createdAt?.toDate?.().toISOString(),
+    snippet: buildSnippet(file, matchedTerms),
+  };
 }
 
-function buildFilenamePrompt(extractedText: string, originalFilename: string, fileType?: string): string {
-  return `
-Generate a concise, descriptive filename (3-5 words) based on this document content.
+async function hashImage(filePath: string): Promise<PerceptualHash | undefined> {
+  try {
+    return await computePerceptualHash(await fs.readFile(filePath));
+  } catch (error) {
+    // Undecodable images just don't take part in near-duplicate detection
+    console.error('Perceptual hash error:', error);
+    return undefined;
+  }
+}
 
-Rules:
-- Use title case with underscores (e.g., "Invoice_ACME_Corp_Aug_2023")
-- Include key entities like company names, dates, document types
-- No special characters except underscores
-- Maximum 50 characters
-- Be specific and descriptive
-- Don't include file extension
+async function buildSessionStatus(session: ProcessingSessionDocument) {
+  const files = await DatabaseService.getFilesByIds(session.fileIds);
 
-Original filename: ${originalFilename}
-File type: ${fileType || 'unknown'}
-Document content: "${extractedText.substring(0, 2000)}"
+  return {
+    sessionId: session.id,
+    status: session.status,
+    progress: session.progress,
+    currentFileIndex: session.currentFileIndex,
+    totalFiles: session.totalFiles,
+    processedFiles: session.processedFiles,
+    // Counted from the files: they're also renamed (and undone) after processing
+    renamedFiles: files.filter(file => file.isRenamed).length,
+    failedFiles: session.failedFiles,
+    failedFileIds: session.failedFileIds || [],
+    errorMessage: session.errorMessage,
+    createdAt: session.createdAt,
+    completedAt: session.completedAt,
+    cancelledFiles: session.cancelledFiles || 0,
+    cancelledAt: session.cancelledAt,
+    files: files.map(file => ({
+      id: file.id,
+      originalName: file.originalName,
+      newName: file.newName,
+      suggestedName: file.suggestedName,
+      nameCandidates: file.nameCandidates || [],
+      nameStatus: file.nameStatus || 'pending',
+      metadata: file.metadata,
+      category: file.category,
+      categoryLabel: file.category && getTaxonomyCategory(file.category)?.label,
+      categoryConfidence: file.classification?.confidence,
+      tags: file.tags || [],
+      fileType: file.fileType,
+      processingStatus: file.processingStatus,
+      isProcessed: file.isProcessed,
+      isRenamed: file.isRenamed,
+      duplicateOf: file.duplicateOf,
+      processedAt: file.processedAt,
+    })),
+  };
+}
 
-Suggested filename:`;
+function isFinalStatus(status: ProcessingSessionDocument['status']): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
 }
 
-function generateFallbackFilename(extractedText: string): string {
-  const words = extractedText.toLowerCase().split(/\s+/);
-  const keywords = ['invoice', 'receipt', 'contract', 'report', 'document', 'letter'];
-  
-  for (const keyword of keywords) {
-    if (words.includes(keyword)) {
-      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
-      return `${keyword.charAt(0).toUpperCase() + keyword.slice(1)}_${date}`;
+const SESSION_ACTIONS = {
+  pause: { apply: (id: string) => ProcessingQueue.pauseSession(id), allowedFrom: 'processing', message: 'Processing paused' },
+  resume: { apply: (id: string) => ProcessingQueue.resumeSession(id), allowedFrom: 'paused', message: 'Processing resumed' },
+  cancel: { apply: (id: string) => ProcessingQueue.cancelSession(id), allowedFrom: 'pending, processing or paused', message: 'Processing cancelled' },
+  retry: { apply: (id: string) => ProcessingQueue.retrySession(id), allowedFrom: 'processing, completed or failed', message: 'Retrying failed files' },
+};
+
+async function changeSessionState(
+  req: AuthenticatedRequest,
+  res: Response,
+  action: keyof typeof SESSION_ACTIONS
+): Promise<void> {
+  try {
+    const { sessionId } = req.params;
+    const { apply, allowedFrom, message } = SESSION_ACTIONS[action];
+
+    const session = await DatabaseService.getProcessingSession(sessionId);
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        error: 'Processing session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!isOwner(req, session)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to this processing session',
+        code: 'SESSION_ACCESS_DENIED'
+      });
+      return;
+    }
+
+    const updated = await apply(sessionId);
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        error: `Cannot ${action} a session that is ${session.status} (must be ${allowedFrom})`,
+        code: 'INVALID_SESSION_STATE'
+      });
+      return;
     }
+
+    res.status(200).json({
+      success: true,
+      message,
+      data: await buildSessionStatus(updated),
+    });
+
+  } catch (error) {
+    console.error(`${action} processing error:`, error);
+    res.status(500).json({
+      success: false,
+      error: `Failed to ${action} processing`,
+      code: 'SESSION_UPDATE_FAILED'
+    });
   }
-  
-  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
-  return `Document_${date}`;
 }
 
-function getFileType(mimeType: string): 'image' | 'pdf' | 'document' {
-  if (mimeType.startsWith('image/')) {
-    return 'image';
-  } else if (mimeType === 'application/pdf') {
-    return 'pdf';
-  } else {
-    return 'document';
-  }
-}
\ No newline at end of file
+function copyProcessingResults(source: FileDocument): Partial<FileDocument> {
+  const results: Partial<FileDocument> = {
+    extractedText: source.extractedText,
+    extractionConfidence: source.extractionConfidence,
+    detectedLanguage: source.detectedLanguage,
+    extractedPages: source.extractedPages,
+    pageCount: source.pageCount,
+    documentProperties: source.documentProperties,
+    metadata: source.metadata,
+    category: source.category,
+    classification: source.classification,
+    textSignature: source.textSignature,
+    suggestedName: source.suggestedName,
+    nameCandidates: source.nameCandidates,
+    folderPath: source.folderPath,
+    tags: source.tags,
+    appliedRuleIds: source.appliedRuleIds,
+    isProcessed: true,
+    processingStatus: 'completed',
+    processedAt: new Date() as any,
+  };
+
+  // Firestore rejects undefined values
+  return Object.fromEntries(Object.entries(results).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * `name` suffixed (" (2)") until neither `reservedNames` nor the user's
+ * library (guests have none) holds `name` plus `extension`
+ */
+async function resolveNameConflict(
+  uid: string | null,
+  name: string,
+  extension: string,
+  reservedNames: string[]
+): Promise<string> {
+  const reserved = new Set(reservedNames.map(reservedName => filenameKey(reservedName)));
+  return resolveConflict(
+    name,
+    async candidate => reserved.has(filenameKey(`${candidate}${extension}`))
+      || (!!uid && (await DatabaseService.getFilesByNewName(uid, `${candidate}${extension}`)).length > 0),
+    { hasExtension: false }
+  );
+}
@@ -0,0 +1,357 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, isOwner } from '../middleware/auth';
+import { DatabaseService, FileDocument, FileEventDocument } from '../config/database';
+import { FileChangedError, HistoryService } from '../services/history';
+import { NamingService } from '../services/naming';
+import { TagService } from '../services/tags';
+import Joi from 'joi';
+
+/**
+ * File History Controller
+ * Reviewing suggested names, custom renames, the per-file audit trail, and undo/redo
+ */
+
+// Validation schemas
+const renameSchema = Joi.object({
+  newName: Joi.string().trim().min(1).max(255).pattern(/^[^/\\]+$/).required().messages({
+    'string.pattern.base': 'newName cannot contain path separators',
+  }),
+});
+
+/**
+ * Get a file's change history, oldest first
+ */
+export const getFileHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const file = await findOwnFile(req, res);
+    if (!file) {
+      return;
+    }
+
+    const events = await HistoryService.getHistory(file.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        file: toFileState(file),
+        events: events.map(event => ({ ...toEventResponse(event), status: event.status })),
+      },
+    });
+  } catch (error) {
+    console.error('Get file history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get file history',
+      code: 'GET_HISTORY_FAILED'
+    });
+  }
+};
+
+/**
+ * Get a file's ranked name candidates
+ */
+export const getNameCandidates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const file = await findOwnFile(req, res);
+    if (!file) {
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        file: toFileState(file),
+        suggestedName: file.suggestedName || null,
+        candidates: file.nameCandidates || [],
+      },
+    });
+  } catch (error) {
+    console.error('Get name candidates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get name candidates',
+      code: 'GET_CANDIDATES_FAILED'
+    });
+  }
+};
+
+/**
+ * Rename a file to one of its candidates
+ */
+export const acceptNameCandidate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const file = await findOwnFile(req, res);
+    if (!file) {
+      return;
+    }
+
+    const candidate = file.nameCandidates?.[parseInt(req.params.index, 10)];
+    if (!candidate) {
+      res.status(404).json({
+        success: false,
+        error: 'Name candidate not found',
+        code: 'CANDIDATE_NOT_FOUND'
+      });
+      return;
+    }
+
+    const updated = await HistoryService.rename(file, candidate.filename, 'accepted', { actorId: getActorId(req) });
+    await NamingService.recordChoice(file, candidate.filename, 'candidate');
+
+    res.status(200).json({
+      success: true,
+      message: 'Name accepted',
+      data: { file: toFileState(updated) },
+    });
+  } catch (error) {
+    console.error('Accept name candidate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to accept name',
+      code: 'ACCEPT_CANDIDATE_FAILED'
+    });
+  }
+};
+
+/**
+ * Reject every candidate: the file keeps (or goes back to) its original name
+ */
+export const rejectNameCandidates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const file = await findOwnFile(req, res);
+    if (!file) {
+      return;
+    }
+
+    const [updated = file] = await HistoryService.record(
+      'rename',
+      [{ file, updates: { newName: null, isRenamed: false, nameStatus: 'rejected' } }],
+      { actorId: getActorId(req) }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Suggested names rejected',
+      data: { file: toFileState(updated) },
+    });
+  } catch (error) {
+    console.error('Reject name candidates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject names',
+      code: 'REJECT_CANDIDATES_FAILED'
+    });
+  }
+};
+
+/**
+ * Rename a file to a name of the user's own (the extension is kept)
+ */
+export const renameFile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = renameSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
+
+    const file = await findOwnFile(req, res);
+    if (!file) {
+      return;
+    }
+
+    const updated = await HistoryService.rename(file, value.newName, 'custom', { actorId: getActorId(req) });
+    await NamingService.recordChoice(file, value.newName, 'custom');
+
+    res.status(200).json({
+      success: true,
+      message: 'File renamed',
+      data: { file: toFileState(updated) },
+    });
+  } catch (error) {
+    console.error('Rename file error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rename file',
+      code: 'RENAME_FAILED'
+    });
+  }
+};
+
+/**
+ * Revert the file's latest rename, move or tag change
+ */
+export const undoFileChange = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await replayFileChange(req, res, 'undo');
+};
+
+/**
+ * Re-apply the file's most recently undone change
+ */
+export const redoFileChange = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await replayFileChange(req, res, 'redo');
+};
+
+/**
+ * Undo every change processing made to a session's files
+ */
+export const undoSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const session = await DatabaseService.getProcessingSession(req.params.sessionId);
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        error: 'Processing session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!isOwner(req, session)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to this processing session',
+        code: 'SESSION_ACCESS_DENIED'
+      });
+      return;
+    }
+
+    const files = await HistoryService.undoSession(session, getActorId(req));
+    await restoreTags(files);
+
+    res.status(200).json({
+      success: true,
+      message: `Reverted ${files.length} files`,
+      data: { files: files.map(toFileState) },
+    });
+  } catch (error) {
+    if (error instanceof FileChangedError) {
+      sendFileChanged(res);
+      return;
+    }
+
+    console.error('Undo session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to undo session',
+      code: 'UNDO_SESSION_FAILED'
+    });
+  }
+};
+
+// Helper functions
+
+async function replayFileChange(req: AuthenticatedRequest, res: Response, action: 'undo' | 'redo'): Promise<void> {
+  try {
+    const file = await findOwnFile(req, res);
+    if (!file) {
+      return;
+    }
+
+    const result = action === 'undo'
+      ? await HistoryService.undo(file, getActorId(req))
+      : await HistoryService.redo(file, getActorId(req));
+    if (!result) {
+      res.status(409).json({
+        success: false,
+        error: `Nothing to ${action}`,
+        code: action === 'undo' ? 'NOTHING_TO_UNDO' : 'NOTHING_TO_REDO'
+      });
+      return;
+    }
+
+    await restoreTags([result.file]);
+
+    res.status(200).json({
+      success: true,
+      message: action === 'undo' ? 'Change undone' : 'Change redone',
+      data: { file: toFileState(result.file), event: toEventResponse(result.event) },
+    });
+  } catch (error) {
+    if (error instanceof FileChangedError) {
+      sendFileChanged(res);
+      return;
+    }
+
+    console.error(`${action} file change error:`, error);
+    res.status(500).json({
+      success: false,
+      error: `Failed to ${action} change`,
+      code: action === 'undo' ? 'UNDO_FAILED' : 'REDO_FAILED'
+    });
+  }
+}
+
+// Another undo, redo or change went first; the client can reload and retry
+function sendFileChanged(res: Response): void {
+  res.status(409).json({
+    success: false,
+    error: 'The file was changed meanwhile, please try again',
+    code: 'FILE_CHANGED'
+  });
+}
+
+async function findOwnFile(req: AuthenticatedRequest, res: Response): Promise<FileDocument | null> {
+  const file = await DatabaseService.getFile(req.params.fileId);
+  if (!file) {
+    res.status(404).json({
+      success: false,
+      error: 'File not found',
+      code: 'FILE_NOT_FOUND'
+    });
+    return null;
+  }
+
+  if (!isOwner(req, file)) {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have access to this file',
+      code: 'FILE_ACCESS_DENIED'
+    });
+    return null;
+  }
+  return file;
+}
+
+/**
+ * Reverting a change can bring back tags that were since renamed or deleted
+ */
+async function restoreTags(files: FileDocument[]): Promise<void> {
+  const owned = files.filter(file => file.userId !== 'guest');
+  if (owned.length > 0) {
+    await TagService.ensureTags(owned[0].userId, owned.flatMap(file => file.tags || []), 'user');
+  }
+}
+
+function getActorId(req: AuthenticatedRequest): string {
+  return req.user?.uid || 'guest';
+}
+
+function toFileState(file: FileDocument) {
+  return {
+    fileId: file.id,
+    originalName: file.originalName,
+    newName: file.newName || null,
+    isRenamed: !!file.isRenamed,
+    nameStatus: file.nameStatus || 'pending',
+    folderPath: file.folderPath || '',
+    tags: file.tags || [],
+  };
+}
+
+function toEventResponse(event: FileEventDocument) {
+  return {
+    id: event.id,
+    action: event.action,
+    actorId: event.actorId,
+    sessionId: event.sessionId || null,
+    targetEventId: event.targetEventId || null,
+    before: event.before,
+    after: event.after,
+    createdAt: event.createdAt?.toDate?.().toISOString(),
+  };
+}
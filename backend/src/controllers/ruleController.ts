@@ -0,0 +1,388 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { DatabaseService, FileDocument, FilingRuleDocument } from '../config/database';
+import { getTaxonomyCategory, TAXONOMY } from '../config/taxonomy';
+import { evaluateRules, FilingRule, RulesService } from '../services/rules';
+import { tagKey, TagService } from '../services/tags';
+import { filenameTemplateSchema } from './authController';
+import Joi from 'joi';
+
+/**
+ * Filing Rules Controller
+ * Manages auto-filing rules and previews their effect before they're applied
+ */
+
+const MAX_RULES_PER_USER = 100;
+const MAX_PREVIEW_FILES = 100;
+
+// Validation schemas
+const isoDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({
+  'string.pattern.base': '{{#label}} must be a YYYY-MM-DD date',
+});
+
+const conditionsSchema = Joi.object({
+  categories: Joi.array().items(Joi.string().valid(...TAXONOMY.map(category => category.id))).max(20),
+  vendors: Joi.array().items(Joi.string().trim().min(1).max(100)).max(20),
+  dateFrom: isoDate,
+  dateTo: isoDate,
+  keywords: Joi.array().items(Joi.string().trim().min(1).max(100)).max(20),
+  keywordMatch: Joi.string().valid('any', 'all').default('any'),
+  minSize: Joi.number().integer().min(0),
+  maxSize: Joi.number().integer().min(0),
+});
+
+const actionsSchema = Joi.object({
+  folderPath: Joi.string().trim().max(200).pattern(/^[^\\]*$/).messages({
+    'string.pattern.base': 'folderPath must use "/" as the separator',
+  }),
+  tags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(20).unique(),
+  filenameTemplate: filenameTemplateSchema,
+}).or('folderPath', 'tags', 'filenameTemplate');
+
+const ruleFields = {
+  name: Joi.string().trim().min(1).max(100),
+  enabled: Joi.boolean(),
+  priority: Joi.number().integer().min(0).max(10000), // lower runs first
+  conditions: conditionsSchema,
+  actions: actionsSchema,
+  stopProcessing: Joi.boolean(),
+};
+
+type RuleInput = Omit<FilingRule, 'id'>;
+
+const ruleSchema = Joi.object<RuleInput>({
+  name: ruleFields.name.required(),
+  enabled: ruleFields.enabled.default(true),
+  priority: ruleFields.priority.default(100),
+  conditions: ruleFields.conditions.default({}),
+  actions: ruleFields.actions.required(),
+  stopProcessing: ruleFields.stopProcessing.default(false),
+});
+
+// Updates replace whole `conditions`/`actions` objects
+const updateRuleSchema = Joi.object<Partial<RuleInput>>(ruleFields).min(1);
+
+const previewSchema = Joi.object({
+  rule: ruleSchema.optional(), // unsaved rule to test on its own
+  fileIds: Joi.array().items(Joi.string()).max(MAX_PREVIEW_FILES).optional(),
+  limit: Joi.number().integer().min(1).max(MAX_PREVIEW_FILES).default(20),
+});
+
+const applySchema = Joi.object({
+  fileIds: Joi.array().items(Joi.string()).min(1).max(MAX_PREVIEW_FILES).required(),
+});
+
+/**
+ * List the user's rules in evaluation order
+ */
+export const getRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rules = await DatabaseService.getFilingRules(req.user!.uid);
+
+    res.status(200).json({
+      success: true,
+      data: { rules: rules.map(toRuleResponse) },
+    });
+  } catch (error) {
+    console.error('Get rules error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get rules',
+      code: 'GET_RULES_FAILED'
+    });
+  }
+};
+
+/**
+ * Get a single rule
+ */
+export const getRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await findOwnRule(req, res);
+    if (!rule) {
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { rule: toRuleResponse(rule) },
+    });
+  } catch (error) {
+    console.error('Get rule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get rule',
+      code: 'GET_RULE_FAILED'
+    });
+  }
+};
+
+/**
+ * Create a rule
+ */
+export const createRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const value = validateRule(ruleSchema, req.body, res);
+    if (!value) {
+      return;
+    }
+
+    const uid = req.user!.uid;
+    const existing = await DatabaseService.getFilingRules(uid);
+    if (existing.length >= MAX_RULES_PER_USER) {
+      res.status(409).json({
+        success: false,
+        error: `You can have at most ${MAX_RULES_PER_USER} rules`,
+        code: 'RULE_LIMIT_REACHED'
+      });
+      return;
+    }
+
+    const ruleId = await DatabaseService.createFilingRule({ ...value, userId: uid });
+    const rule = await DatabaseService.getFilingRule(ruleId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Rule created successfully',
+      data: { rule: rule && toRuleResponse(rule) },
+    });
+  } catch (error) {
+    console.error('Create rule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create rule',
+      code: 'CREATE_RULE_FAILED'
+    });
+  }
+};
+
+/**
+ * Update a rule
+ */
+export const updateRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const value = validateRule(updateRuleSchema, req.body, res);
+    if (!value) {
+      return;
+    }
+
+    const rule = await findOwnRule(req, res);
+    if (!rule) {
+      return;
+    }
+
+    // Validate the date range against the stored conditions too
+    const conditions = value.conditions || rule.conditions;
+    if (conditions.dateFrom && conditions.dateTo && conditions.dateFrom > conditions.dateTo) {
+      sendValidationError(res, 'dateFrom must not be after dateTo');
+      return;
+    }
+
+    await DatabaseService.updateFilingRule(rule.id, value);
+    const updated = await DatabaseService.getFilingRule(rule.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Rule updated successfully',
+      data: { rule: updated && toRuleResponse(updated) },
+    });
+  } catch (error) {
+    console.error('Update rule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update rule',
+      code: 'UPDATE_RULE_FAILED'
+    });
+  }
+};
+
+/**
+ * Delete a rule (files it already filed keep their folder and tags)
+ */
+export const deleteRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await findOwnRule(req, res);
+    if (!rule) {
+      return;
+    }
+
+    await DatabaseService.deleteFilingRule(rule.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Rule deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete rule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete rule',
+      code: 'DELETE_RULE_FAILED'
+    });
+  }
+};
+
+/**
+ * Dry run: show what the saved rules (or an unsaved `rule`) would do to
+ * processed files, without changing them
+ */
+export const previewRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = previewSchema.validate(req.body);
+    if (error) {
+      sendValidationError(res, error.details[0].message);
+      return;
+    }
+
+    const uid = req.user!.uid;
+    const rules: FilingRule[] = value.rule
+      ? [{ ...value.rule, id: 'preview', enabled: true }]
+      : await DatabaseService.getFilingRules(uid);
+
+    const files = value.fileIds
+      ? (await DatabaseService.getFilesByIds(value.fileIds)).filter(file => file.userId === uid)
+      : (await DatabaseService.getUserFiles(uid, value.limit)).filter(file => file.isProcessed);
+
+    const results = files.map(file => {
+      const evaluation = evaluateRules(rules, file);
+      return {
+        fileId: file.id,
+        originalName: file.originalName,
+        category: file.category,
+        categoryLabel: file.category && getTaxonomyCategory(file.category)?.label,
+        current: {
+          folderPath: file.folderPath || null,
+          tags: file.tags || [],
+        },
+        matchedRuleIds: evaluation.matchedRuleIds,
+        folderPath: evaluation.folderPath || null,
+        tags: evaluation.tags,
+        filenameTemplate: evaluation.filenameTemplate?.template || null,
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        dryRun: true,
+        totalFiles: results.length,
+        matchedFiles: results.filter(result => result.matchedRuleIds.length > 0).length,
+        results,
+      },
+    });
+  } catch (error) {
+    console.error('Preview rules error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview rules',
+      code: 'PREVIEW_RULES_FAILED'
+    });
+  }
+};
+
+/**
+ * Re-run the saved rules on already processed files and store the folder and tags
+ * (suggested names aren't regenerated)
+ */
+export const applyRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = applySchema.validate(req.body);
+    if (error) {
+      sendValidationError(res, error.details[0].message);
+      return;
+    }
+
+    const uid = req.user!.uid;
+    const rules = await DatabaseService.getFilingRules(uid);
+    const files = (await DatabaseService.getFilesByIds(value.fileIds))
+      .filter(file => file.userId === uid && file.isProcessed);
+    const evaluations = files.map((file: FileDocument) => ({ file, evaluation: evaluateRules(rules, file) }));
+
+    // Only tags of rules that matched, stored the way the user's existing tags spell them
+    const tagNames = new Map((await TagService.ensureTags(
+      uid,
+      evaluations.flatMap(({ evaluation }) => evaluation.tags),
+      'rule'
+    )).map(name => [tagKey(name), name]));
+
+    const results = await Promise.all(evaluations.map(async ({ file, evaluation }) => {
+      const updated = await RulesService.apply(file, {
+        ...evaluation,
+        tags: evaluation.tags.map(tag => tagNames.get(tagKey(tag)) || tag),
+      }, { actorId: uid });
+      return {
+        fileId: file.id,
+        matchedRuleIds: evaluation.matchedRuleIds,
+        folderPath: evaluation.folderPath || null,
+        tags: updated.tags || [],
+      };
+    }));
+
+    res.status(200).json({
+      success: true,
+      message: `Rules applied to ${results.length} files`,
+      data: {
+        skippedFileIds: value.fileIds.filter((fileId: string) => !files.some(file => file.id === fileId)),
+        results,
+      },
+    });
+  } catch (error) {
+    console.error('Apply rules error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to apply rules',
+      code: 'APPLY_RULES_FAILED'
+    });
+  }
+};
+
+async function findOwnRule(req: AuthenticatedRequest, res: Response): Promise<FilingRuleDocument | null> {
+  const rule = await DatabaseService.getFilingRule(req.params.ruleId);
+  if (!rule || rule.userId !== req.user!.uid) {
+    // Other users' rules are reported as missing
+    res.status(404).json({
+      success: false,
+      error: 'Rule not found',
+      code: 'RULE_NOT_FOUND'
+    });
+    return null;
+  }
+  return rule;
+}
+
+function validateRule<T extends Partial<RuleInput>>(schema: Joi.ObjectSchema<T>, body: unknown, res: Response): T | null {
+  const { error, value } = schema.validate(body);
+  if (error) {
+    sendValidationError(res, error.details[0].message);
+    return null;
+  }
+
+  const { dateFrom, dateTo } = value.conditions || {};
+  if (dateFrom && dateTo && dateFrom > dateTo) {
+    sendValidationError(res, 'dateFrom must not be after dateTo');
+    return null;
+  }
+  return value;
+}
+
+function sendValidationError(res: Response, message: string): void {
+  res.status(400).json({
+    success: false,
+    error: message,
+    code: 'VALIDATION_ERROR'
+  });
+}
+
+function toRuleResponse(rule: FilingRuleDocument) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    priority: rule.priority,
+    conditions: rule.conditions,
+    actions: rule.actions,
+    stopProcessing: rule.stopProcessing,
+    createdAt: rule.createdAt?.toDate?.().toISOString(),
+    updatedAt: rule.updatedAt?.toDate?.().toISOString(),
+  };
+}
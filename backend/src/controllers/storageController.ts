@@ -0,0 +1,198 @@
+import { Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { AuthenticatedRequest, isOwner } from '../middleware/auth';
+import { DatabaseService, FileDocument } from '../config/database';
+import { getSignedUrlTtlSeconds } from '../config/storage';
+import {
+  createArchive,
+  createSignature,
+  expiresAt,
+  InvalidStorageKeyError,
+  StorageObjectNotFoundError,
+  StorageService,
+  verifySignature,
+} from '../services/storage';
+import Joi from 'joi';
+
+/**
+ * Storage Controller
+ * File downloads: for the signed-in owner and through HMAC-signed expiring links
+ */
+
+// Validation schemas
+const signedUrlSchema = (ttlSeconds: number) => Joi.object({
+  expiresIn: Joi.number().integer().min(10).max(ttlSeconds).default(ttlSeconds), // seconds
+  download: Joi.boolean().default(false), // attachment instead of inline preview
+});
+
+/**
+ * Stream a file's content: to its signed-in owner, or to anyone with a valid
+ * signed link (`expires` and `signature` query parameters)
+ */
+export const getFileContent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { fileId } = req.params;
+    const { expires, signature } = req.query;
+    const download = req.query.download === 'true';
+
+    if (typeof signature !== 'string' && !req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Sign in or use a signed link to download files',
+        code: 'AUTH_REQUIRED'
+      });
+      return;
+    }
+
+    const file = await DatabaseService.getFile(fileId);
+    const allowed = typeof signature === 'string'
+      ? verifySignature(fileSignatureParts(fileId, download), parseInt(String(expires), 10), signature)
+      : file?.userId === req.user!.uid;
+    if (typeof signature === 'string' && !allowed) {
+      res.status(403).json({
+        success: false,
+        error: 'Invalid or expired download link',
+        code: 'INVALID_SIGNATURE'
+      });
+      return;
+    }
+    if (!file || !allowed) {
+      // Other users' files are reported as missing
+      sendFileNotFound(res);
+      return;
+    }
+
+    const stream = await StorageService.getDriver().stream(StorageService.keyOf(file));
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Length', String(file.fileSize));
+    res.setHeader('Content-Disposition', contentDisposition(download ? 'attachment' : 'inline', displayName(file)));
+    res.setHeader('Cache-Control', 'private, no-store');
+    await pipeline(stream, res);
+  } catch (error) {
+    handleDownloadError(res, error);
+  }
+};
+
+/**
+ * Create a short-lived link to a file that works without signing in
+ * (for opening it in, or sharing it with, other apps)
+ */
+export const createSignedFileUrl = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = signedUrlSchema(getSignedUrlTtlSeconds()).validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error.details[0].message,
+        code: 'VALIDATION_ERROR'
+      });
+      return;
+    }
+
+    const file = await DatabaseService.getFile(req.params.fileId);
+    if (!file || file.userId !== req.user!.uid) {
+      sendFileNotFound(res);
+      return;
+    }
+
+    const expires = expiresAt(value.expiresIn);
+    const params = new URLSearchParams({
+      ...(value.download && { download: 'true' }),
+      expires: String(expires),
+      signature: createSignature(fileSignatureParts(file.id, value.download), expires),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        url: `${req.protocol}://${req.get('host')}${req.baseUrl}/${encodeURIComponent(file.id)}/content?${params.toString()}`,
+        expiresAt: new Date(expires * 1000).toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Create signed URL error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create download link',
+      code: 'SIGNED_URL_FAILED'
+    });
+  }
+};
+
+/**
+ * Stream a ZIP of a processing session's files under their current names,
+ * in their assigned folders; guests get the sessions of their guest session
+ */
+export const downloadSessionArchive = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const session = await DatabaseService.getProcessingSession(req.params.sessionId);
+    if (!session || !isOwner(req, session)) {
+      res.status(404).json({
+        success: false,
+        error: 'Processing session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+      return;
+    }
+
+    const files = await DatabaseService.getFilesByIds(session.fileIds);
+    const { stream, missingKeys } = await createArchive(StorageService.getDriver(), files.map(file => ({
+      key: StorageService.keyOf(file),
+      folderPath: file.folderPath,
+      filename: displayName(file),
+    })));
+    if (missingKeys.length > 0) {
+      console.error(`Archive for session ${session.id} is missing objects:`, missingKeys);
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', contentDisposition('attachment', `FileSense-${session.id}.zip`));
+    res.setHeader('Cache-Control', 'private, no-store');
+    await pipeline(stream, res);
+  } catch (error) {
+    handleDownloadError(res, error);
+  }
+};
+
+// Helper functions
+
+function fileSignatureParts(fileId: string, download: boolean): string[] {
+  return ['file', fileId, download ? 'attachment' : 'inline'];
+}
+
+function displayName(file: FileDocument): string {
+  return file.isRenamed && file.newName ? file.newName : file.originalName;
+}
+
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  // Plain `filename` for old clients, RFC 5987 `filename*` for everything else
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function sendFileNotFound(res: Response): void {
+  res.status(404).json({
+    success: false,
+    error: 'File not found',
+    code: 'FILE_NOT_FOUND'
+  });
+}
+
+function handleDownloadError(res: Response, error: unknown): void {
+  if (error instanceof StorageObjectNotFoundError || error instanceof InvalidStorageKeyError) {
+    sendFileNotFound(res);
+    return;
+  }
+
+  console.error('Download error:', error);
+  // A stream that fails midway can only be cut off
+  if (res.headersSent) {
+    res.destroy();
+  } else {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download file',
+      code: 'DOWNLOAD_FAILED'
+    });
+  }
+}
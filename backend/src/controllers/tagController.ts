@@ -0,0 +1,319 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { DatabaseService, TagDocument } from '../config/database';
+import { defaultTagColor, MAX_TAG_LENGTH, normalizeTagName, tagKey, TagService } from '../services/tags';
+import Joi from 'joi';
+
+/**
+ * Tags Controller
+ * User-owned tags and bulk tagging of files
+ */
+
+const MAX_TAGS_PER_USER = 500;
+const MAX_BULK_FILES = 500;
+
+// Validation schemas
+const tagName = Joi.string().trim().min(1).max(MAX_TAG_LENGTH).pattern(/^[^,]+$/).messages({
+  'string.pattern.base': 'Tag names cannot contain commas',
+});
+const tagColor = Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/).messages({
+  'string.pattern.base': 'color must be a #RRGGBB hex colour',
+});
+
+const createTagSchema = Joi.object({
+  name: tagName.required(),
+  color: tagColor.optional(),
+});
+
+const updateTagSchema = Joi.object({
+  name: tagName,
+  color: tagColor,
+}).min(1);
+
+const mergeTagSchema = Joi.object({
+  targetTagId: Joi.string().required(),
+});
+
+const fileTagsSchema = Joi.object({
+  fileIds: Joi.array().items(Joi.string()).min(1).max(MAX_BULK_FILES).required(),
+  tags: Joi.array().items(tagName).min(1).max(20).required(),
+});
+
+/**
+ * List the user's tags with how many files use each
+ */
+export const getTags = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.user!.uid;
+    const tags = await DatabaseService.getTags(uid);
+    const counts = await Promise.all(tags.map(tag => DatabaseService.countFilesWithTag(uid, tag.name)));
+
+    res.status(200).json({
+      success: true,
+      data: { tags: tags.map((tag, index) => ({ ...toTagResponse(tag), fileCount: counts[index] })) },
+    });
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get tags',
+      code: 'GET_TAGS_FAILED'
+    });
+  }
+};
+
+/**
+ * Create a tag
+ */
+export const createTag = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = createTagSchema.validate(req.body);
+    if (error) {
+      sendValidationError(res, error.details[0].message);
+      return;
+    }
+
+    const uid = req.user!.uid;
+    const name = normalizeTagName(value.name);
+    const existing = await DatabaseService.getTags(uid);
+    if (existing.length >= MAX_TAGS_PER_USER) {
+      res.status(409).json({
+        success: false,
+        error: `You can have at most ${MAX_TAGS_PER_USER} tags`,
+        code: 'TAG_LIMIT_REACHED'
+      });
+      return;
+    }
+    if (existing.some(tag => tag.nameKey === tagKey(name))) {
+      sendTagExists(res, name);
+      return;
+    }
+
+    const tagId = await DatabaseService.createTag({
+      userId: uid,
+      name,
+      nameKey: tagKey(name),
+      color: value.color || defaultTagColor(name),
+      source: 'user',
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Tag created',
+      data: { tag: toTagResponse((await DatabaseService.getTag(tagId))!) },
+    });
+  } catch (error) {
+    console.error('Create tag error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create tag',
+      code: 'CREATE_TAG_FAILED'
+    });
+  }
+};
+
+/**
+ * Rename or recolour a tag; a rename is applied to every file and rule using it
+ */
+export const updateTag = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = updateTagSchema.validate(req.body);
+    if (error) {
+      sendValidationError(res, error.details[0].message);
+      return;
+    }
+
+    const tag = await findOwnTag(req, req.params.tagId, res);
+    if (!tag) {
+      return;
+    }
+
+    const updates: Partial<TagDocument> = { ...(value.color && { color: value.color }) };
+    let updatedFiles = 0;
+    if (value.name && normalizeTagName(value.name) !== tag.name) {
+      const name = normalizeTagName(value.name);
+      const existing = await DatabaseService.getTags(tag.userId);
+      if (existing.some(other => other.id !== tag.id && other.nameKey === tagKey(name))) {
+        // Use the merge endpoint to combine two tags
+        sendTagExists(res, name);
+        return;
+      }
+
+      updatedFiles = await TagService.replaceTag(tag.userId, tag.name, name);
+      Object.assign(updates, { name, nameKey: tagKey(name) });
+    }
+
+    await DatabaseService.updateTag(tag.id, updates);
+
+    res.status(200).json({
+      success: true,
+      message: 'Tag updated',
+      data: { tag: toTagResponse({ ...tag, ...updates }), updatedFiles },
+    });
+  } catch (error) {
+    console.error('Update tag error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update tag',
+      code: 'UPDATE_TAG_FAILED'
+    });
+  }
+};
+
+/**
+ * Delete a tag and remove it from the user's files and rules
+ */
+export const deleteTag = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const tag = await findOwnTag(req, req.params.tagId, res);
+    if (!tag) {
+      return;
+    }
+
+    const updatedFiles = await TagService.replaceTag(tag.userId, tag.name, null);
+    await DatabaseService.deleteTag(tag.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Tag deleted',
+      data: { updatedFiles },
+    });
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete tag',
+      code: 'DELETE_TAG_FAILED'
+    });
+  }
+};
+
+/**
+ * Merge a tag into another: files and rules move to the target and the
+ * source tag is deleted
+ */
+export const mergeTag = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = mergeTagSchema.validate(req.body);
+    if (error) {
+      sendValidationError(res, error.details[0].message);
+      return;
+    }
+    if (value.targetTagId === req.params.tagId) {
+      sendValidationError(res, 'A tag cannot be merged into itself');
+      return;
+    }
+
+    const source = await findOwnTag(req, req.params.tagId, res);
+    const target = source && await findOwnTag(req, value.targetTagId, res);
+    if (!source || !target) {
+      return;
+    }
+
+    const updatedFiles = await TagService.replaceTag(source.userId, source.name, target.name);
+    await DatabaseService.deleteTag(source.id);
+
+    res.status(200).json({
+      success: true,
+      message: `Merged "${source.name}" into "${target.name}"`,
+      data: { tag: toTagResponse(target), updatedFiles },
+    });
+  } catch (error) {
+    console.error('Merge tag error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to merge tags',
+      code: 'MERGE_TAGS_FAILED'
+    });
+  }
+};
+
+/**
+ * Add tags to files, creating tags the user doesn't have yet
+ */
+export const tagFiles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await changeFileTags(req, res, 'add');
+};
+
+/**
+ * Remove tags from files (the tags themselves are kept)
+ */
+export const untagFiles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await changeFileTags(req, res, 'remove');
+};
+
+// Helper functions
+
+async function changeFileTags(req: AuthenticatedRequest, res: Response, mode: 'add' | 'remove'): Promise<void> {
+  try {
+    const { error, value } = fileTagsSchema.validate(req.body);
+    if (error) {
+      sendValidationError(res, error.details[0].message);
+      return;
+    }
+
+    const uid = req.user!.uid;
+    const files = (await DatabaseService.getFilesByIds(value.fileIds)).filter(file => file.userId === uid);
+    const tags = mode === 'add'
+      ? await TagService.ensureTags(uid, value.tags, 'user')
+      : value.tags;
+    const results = await TagService.updateFileTags(files, { [mode]: tags }, uid);
+
+    res.status(200).json({
+      success: true,
+      message: `${mode === 'add' ? 'Tagged' : 'Untagged'} ${results.length} files`,
+      data: {
+        skippedFileIds: value.fileIds.filter((fileId: string) => !files.some(file => file.id === fileId)),
+        results,
+      },
+    });
+  } catch (error) {
+    console.error(`${mode === 'add' ? 'Tag' : 'Untag'} files error:`, error);
+    res.status(500).json({
+      success: false,
+      error: `Failed to ${mode === 'add' ? 'tag' : 'untag'} files`,
+      code: mode === 'add' ? 'TAG_FILES_FAILED' : 'UNTAG_FILES_FAILED'
+    });
+  }
+}
+
+async function findOwnTag(req: AuthenticatedRequest, tagId: string, res: Response): Promise<TagDocument | null> {
+  const tag = await DatabaseService.getTag(tagId);
+  if (!tag || tag.userId !== req.user!.uid) {
+    // Other users' tags are reported as missing
+    res.status(404).json({
+      success: false,
+      error: 'Tag not found',
+      code: 'TAG_NOT_FOUND'
+    });
+    return null;
+  }
+  return tag;
+}
+
+function sendTagExists(res: Response, name: string): void {
+  res.status(409).json({
+    success: false,
+    error: `A tag named "${name}" already exists`,
+    code: 'TAG_EXISTS'
+  });
+}
+
+function sendValidationError(res: Response, message: string): void {
+  res.status(400).json({
+    success: false,
+    error: message,
+    code: 'VALIDATION_ERROR'
+  });
+}
+
+function toTagResponse(tag: TagDocument) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color,
+    source: tag.source,
+    createdAt: tag.createdAt?.toDate?.().toISOString(),
+    updatedAt: tag.updatedAt?.toDate?.().toISOString(),
+  };
+}
@@ -1,30 +1,43 @@
+// Loads .env before any other module reads process.env
+import './config/env';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
-import dotenv from 'dotenv';
-import path from 'path';
 
 // Import middleware
+import { authenticateToken, GUEST_SESSION_HEADER, requireAdmin } from './middleware/auth';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { generalLimiter, requestLogger, securityHeaders } from './middleware/security';
 
 // Import routes
 import authRoutes from './routes/authRoutes';
 import fileRoutes from './routes/fileRoutes';
+import ruleRoutes from './routes/ruleRoutes';
+import tagRoutes from './routes/tagRoutes';
 
 // Import config
 import './config/firebase'; // Initialize Firebase
+import { EXTRACTION_VERSION, TextExtractionService } from './services/extraction';
+import { FILENAME_PROMPT_VERSION } from './services/naming';
+import { ProcessingQueue } from './services/queue';
+import { ResultCacheService } from './services/cache';
+import { validateCacheConfig } from './config/cache';
+import { validateDuplicatesConfig } from './config/duplicates';
+import { validateEmbeddingsConfig } from './config/embeddings';
+import { validateExtractionConfig } from './config/extraction';
+import { validateNamingConfig } from './config/naming';
+import { validateQueueConfig } from './config/queue';
+import { validateSearchConfig } from './config/search';
+import { validateStorageConfig } from './config/storage';
+import { processingEvents } from './services/processingEvents';
 
 /**
  * FileSense.AI Backend Server
  * Express.js server with TypeScript, Firebase, and security best practices
  */
 
-// Load environment variables
-dotenv.config();
-
 // Validate required environment variables
 const requiredEnvVars = [
   'FIREBASE_PROJECT_ID',
@@ -41,6 +54,21 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+// Bad settings stop the server now instead of failing the requests that read them
+try {
+  validateCacheConfig();
+  validateDuplicatesConfig();
+  validateEmbeddingsConfig();
+  validateExtractionConfig();
+  validateNamingConfig();
+  validateQueueConfig();
+  validateSearchConfig();
+  validateStorageConfig();
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
 // Create Express app
 const app = express();
 
@@ -74,7 +102,8 @@ app.use(cors({
     : ['http://localhost:3000', 'http://localhost:19006'], // React Native dev server
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', GUEST_SESSION_HEADER],
+  exposedHeaders: [GUEST_SESSION_HEADER],
 }));
 
 // General middleware
@@ -87,9 +116,6 @@ app.use(generalLimiter);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Static files (for uploaded files)
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
-
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.status(200).json({
@@ -101,6 +127,14 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Result cache counters, for admins only
+app.get('/health/cache', authenticateToken, requireAdmin, (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: { cache: ResultCacheService.getStats() },
+  });
+});
+
 // API documentation endpoint
 app.get('/api', (req, res) => {
   res.status(200).json({
@@ -110,6 +144,8 @@ app.get('/api', (req, res) => {
     endpoints: {
       auth: '/api/v1/auth',
       files: '/api/v1/files',
+      rules: '/api/v1/rules',
+      tags: '/api/v1/tags',
       health: '/health',
     },
     features: [
@@ -118,6 +154,8 @@ app.get('/api', (req, res) => {
       'AI-powered filename generation',
       'Text extraction from images and PDFs',
       'Usage tracking and limits',
+      'Auto-filing rules',
+      'Tags',
     ],
   });
 });
@@ -126,6 +164,8 @@ app.get('/api', (req, res) => {
 const API_VERSION = process.env.API_VERSION || 'v1';
 app.use(`/api/${API_VERSION}/auth`, authRoutes);
 app.use(`/api/${API_VERSION}/files`, fileRoutes);
+app.use(`/api/${API_VERSION}/rules`, ruleRoutes);
+app.use(`/api/${API_VERSION}/tags`, tagRoutes);
 
 // 404 handler for unknown routes
 app.use(notFoundHandler);
@@ -149,24 +189,44 @@ const server = app.listen(PORT, HOST, () => {
 
 🎯 Ready to process files with AI!
   `);
-});
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('👋 SIGTERM received, shutting down gracefully...');
-  server.close(() => {
-    console.log('✅ Process terminated');
-    process.exit(0);
+  ProcessingQueue.start().catch(error => {
+    console.error('❌ Failed to start processing queue:', error);
+  });
+
+  // Entries from an older prompt template or extractor can't be hit anymore
+  Promise.all([
+    ResultCacheService.invalidate('naming', FILENAME_PROMPT_VERSION),
+    ResultCacheService.invalidate('extraction', EXTRACTION_VERSION),
+  ]).then(([naming, extraction]) => {
+    if (naming + extraction > 0) {
+      console.log(`🧹 Removed ${naming + extraction} outdated cached results`);
+    }
+  }).catch(error => {
+    console.error('❌ Failed to clean up the result cache:', error);
   });
 });
 
-process.on('SIGINT', () => {
-  console.log('👋 SIGINT received, shutting down gracefully...');
-  server.close(() => {
+// Graceful shutdown
+const shutdown = (signal: string) => {
+  console.log(`👋 ${signal} received, shutting down gracefully...`);
+  server.close(async () => {
+    try {
+      // Unfinished jobs stay in the queue and are resumed on next start
+      await ProcessingQueue.stop();
+      await TextExtractionService.shutdown();
+    } catch (error) {
+      console.error('❌ Error during shutdown:', error);
+    }
     console.log('✅ Process terminated');
     process.exit(0);
   });
-});
+  // Event streams stay open until ended, which would keep the callback above from running
+  processingEvents.close();
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
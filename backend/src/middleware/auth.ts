@@ -1,3 +1,4 @@
+import { randomBytes } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { auth } from '../config/firebase';
 import { DatabaseService, UserDocument } from '../config/database';
@@ -6,9 +7,15 @@ import { DatabaseService, UserDocument } from '../config/database';
  * Authentication middleware for protecting routes
  */
 
+// Guests share the 'guest' user, so each client gets its own session token
+// (sent back in this header) that ties it to the files it uploaded
+export const GUEST_SESSION_HEADER = 'X-Guest-Session';
+const GUEST_SESSION_PATTERN = /^[A-Za-z0-9_-]{32,128}$/;
+
 export interface AuthenticatedRequest extends Request {
   user?: UserDocument;
   uid?: string;
+  guestSessionId?: string; // guests only
   session?: {
     guestFileCount?: number;
   };
@@ -240,10 +247,41 @@ export const optionalAuth = async (
         console.log('Optional auth failed, continuing as guest:', error);
       }
     }
-
-    next();
   } catch (error) {
     console.error('Optional auth middleware error:', error);
-    next(); // Continue as guest even if there's an error
+    // Continue as guest even if there's an error
   }
-};
\ No newline at end of file
+
+  if (!req.user) {
+    assignGuestSession(req, res);
+  }
+  next();
+};
+
+/**
+ * Whether the caller owns a file or processing session: users their own,
+ * guests only those created under their guest session
+ */
+export function isOwner(
+  req: AuthenticatedRequest,
+  resource: { userId: string; guestSessionId?: string }
+): boolean {
+  if (req.user) {
+    return resource.userId === req.user.uid;
+  }
+  return resource.userId === 'guest'
+    && !!req.guestSessionId
+    && resource.guestSessionId === req.guestSessionId;
+}
+
+/**
+ * Reuse the client's guest session or start a new one; either way the
+ * response tells the client which one to send next time
+ */
+function assignGuestSession(req: AuthenticatedRequest, res: Response): void {
+  const requested = req.get(GUEST_SESSION_HEADER);
+  req.guestSessionId = requested && GUEST_SESSION_PATTERN.test(requested)
+    ? requested
+    : randomBytes(24).toString('base64url');
+  res.setHeader(GUEST_SESSION_HEADER, req.guestSessionId);
+}
\ No newline at end of file
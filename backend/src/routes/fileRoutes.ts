@@ -3,11 +3,32 @@ import {
   uploadFiles,
   processFiles,
   getProcessingStatus,
+  streamProcessingEvents,
+  pauseProcessing,
+  resumeProcessing,
+  cancelProcessing,
+  retryProcessing,
   extractText,
   generateFilename,
   getUserFiles,
+  searchFiles,
+  semanticSearch,
+  getDuplicates,
+  resolveDuplicates,
   upload,
 } from '../controllers/fileController';
+import { tagFiles, untagFiles } from '../controllers/tagController';
+import {
+  getFileHistory,
+  renameFile,
+  getNameCandidates,
+  acceptNameCandidate,
+  rejectNameCandidates,
+  undoFileChange,
+  redoFileChange,
+  undoSession,
+} from '../controllers/historyController';
+import { getFileContent, createSignedFileUrl, downloadSessionArchive } from '../controllers/storageController';
 import {
   authenticateToken,
   optionalAuth,
@@ -76,9 +97,121 @@ router.post('/process',
 /**
  * @route   GET /api/v1/files/processing/:sessionId
  * @desc    Get processing session status
- * @access  Public
+ * @access  Public (owner only)
+ */
+router.get('/processing/:sessionId', optionalAuth, getProcessingStatus);
+
+/**
+ * @route   GET /api/v1/files/processing/:sessionId/events
+ * @desc    Stream live session and per-file progress (Server-Sent Events)
+ * @access  Public (owner only)
+ */
+router.get('/processing/:sessionId/events', optionalAuth, streamProcessingEvents);
+
+/**
+ * @route   POST /api/v1/files/processing/:sessionId/pause
+ * @desc    Pause a session; files already running finish first
+ * @access  Public (owner only)
+ */
+router.post('/processing/:sessionId/pause', optionalAuth, pauseProcessing);
+
+/**
+ * @route   POST /api/v1/files/processing/:sessionId/resume
+ * @desc    Resume a paused session
+ * @access  Public (owner only)
+ */
+router.post('/processing/:sessionId/resume', optionalAuth, resumeProcessing);
+
+/**
+ * @route   POST /api/v1/files/processing/:sessionId/cancel
+ * @desc    Cancel a session and refund quota for unprocessed files
+ * @access  Public (owner only)
+ */
+router.post('/processing/:sessionId/cancel', optionalAuth, cancelProcessing);
+
+/**
+ * @route   POST /api/v1/files/processing/:sessionId/retry
+ * @desc    Requeue the files of a session that failed to process
+ * @access  Public (owner only)
+ */
+router.post('/processing/:sessionId/retry', optionalAuth, retryProcessing);
+
+/**
+ * @route   GET /api/v1/files/processing/:sessionId/archive
+ * @desc    Download a session's files as a ZIP, renamed and in their folders
+ * @access  Public (owner only)
+ */
+router.get('/processing/:sessionId/archive', optionalAuth, downloadSessionArchive);
+
+/**
+ * @route   POST /api/v1/files/processing/:sessionId/undo
+ * @desc    Undo the renames, moves and tag changes a session made
+ * @access  Public (owner only)
+ */
+router.post('/processing/:sessionId/undo', optionalAuth, undoSession);
+
+/**
+ * @route   GET /api/v1/files/:fileId/content
+ * @desc    Download (`download=true`) or preview a file's content
+ * @access  Private (owner only), or anyone with a signed link
+ */
+router.get('/:fileId/content', optionalAuth, getFileContent);
+
+/**
+ * @route   POST /api/v1/files/:fileId/signed-url
+ * @desc    Create a short-lived content link that works without signing in
+ * @access  Private (owner only)
+ */
+router.post('/:fileId/signed-url', authenticateToken, createSignedFileUrl);
+
+/**
+ * @route   GET /api/v1/files/:fileId/history
+ * @desc    Get a file's rename, move and tag history
+ * @access  Public (owner only)
+ */
+router.get('/:fileId/history', optionalAuth, getFileHistory);
+
+/**
+ * @route   GET /api/v1/files/:fileId/name-candidates
+ * @desc    Get a file's ranked name candidates
+ * @access  Public (owner only)
+ */
+router.get('/:fileId/name-candidates', optionalAuth, getNameCandidates);
+
+/**
+ * @route   POST /api/v1/files/:fileId/name-candidates/:index/accept
+ * @desc    Rename a file to one of its candidates
+ * @access  Public (owner only)
  */
-router.get('/processing/:sessionId', getProcessingStatus);
+router.post('/:fileId/name-candidates/:index/accept', optionalAuth, acceptNameCandidate);
+
+/**
+ * @route   POST /api/v1/files/:fileId/name-candidates/reject
+ * @desc    Reject all candidates and keep the original name
+ * @access  Public (owner only)
+ */
+router.post('/:fileId/name-candidates/reject', optionalAuth, rejectNameCandidates);
+
+/**
+ * @route   POST /api/v1/files/:fileId/rename
+ * @desc    Rename a file to a custom name (the extension is kept)
+ * @access  Public (owner only)
+ */
+router.post('/:fileId/rename', optionalAuth, renameFile);
+
+/**
+ * @route   POST /api/v1/files/:fileId/undo
+ * @desc    Revert the file's latest change
+ * @access  Public (owner only)
+ */
+router.post('/:fileId/undo', optionalAuth, undoFileChange);
+
+/**
+ * @route   POST /api/v1/files/:fileId/redo
+ * @desc    Re-apply the file's most recently undone change
+ * @access  Public (owner only)
+ */
+router.post('/:fileId/redo', optionalAuth, redoFileChange);
 
 /**
  * @route   POST /api/v1/files/:fileId/extract-text
@@ -109,6 +242,48 @@ router.post('/generate-filename',
  */
 router.get('/my-files', authenticateToken, getUserFiles);
 
+/**
+ * @route   GET /api/v1/files/search
+ * @desc    Full-text search with type, category and date filters
+ * @access  Private
+ */
+router.get('/search', authenticateToken, searchFiles);
+
+/**
+ * @route   GET /api/v1/files/semantic-search
+ * @desc    Nearest files by embedding similarity (mode=hybrid blends in keyword scores)
+ * @access  Private
+ */
+router.get('/semantic-search', authenticateToken, aiLimiter, semanticSearch);
+
+/**
+ * @route   GET /api/v1/files/duplicates
+ * @desc    Get clusters of likely duplicates with similarity scores
+ * @access  Private
+ */
+router.get('/duplicates', authenticateToken, getDuplicates);
+
+/**
+ * @route   POST /api/v1/files/duplicates/resolve
+ * @desc    Keep one file of a cluster and delete the others
+ * @access  Private
+ */
+router.post('/duplicates/resolve', authenticateToken, resolveDuplicates);
+
+/**
+ * @route   POST /api/v1/files/tag
+ * @desc    Add tags to multiple files
+ * @access  Private
+ */
+router.post('/tag', authenticateToken, tagFiles);
+
+/**
+ * @route   POST /api/v1/files/untag
+ * @desc    Remove tags from multiple files
+ * @access  Private
+ */
+router.post('/untag', authenticateToken, untagFiles);
+
 /**
  * @route   POST /api/v1/files/batch-process
  * @desc    Process multiple files in batch (Premium feature)
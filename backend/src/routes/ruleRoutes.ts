@@ -0,0 +1,69 @@
+import express from 'express';
+import {
+  getRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  previewRules,
+  applyRules,
+} from '../controllers/ruleController';
+import { authenticateToken } from '../middleware/auth';
+
+/**
+ * Filing Rules Routes
+ * CRUD for auto-filing rules plus dry-run preview and apply
+ */
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/rules
+ * @desc    List the user's filing rules in evaluation order
+ * @access  Private
+ */
+router.get('/', authenticateToken, getRules);
+
+/**
+ * @route   POST /api/v1/rules
+ * @desc    Create a filing rule
+ * @access  Private
+ */
+router.post('/', authenticateToken, createRule);
+
+/**
+ * @route   POST /api/v1/rules/preview
+ * @desc    Dry run the saved rules (or an unsaved rule) against processed files
+ * @access  Private
+ */
+router.post('/preview', authenticateToken, previewRules);
+
+/**
+ * @route   POST /api/v1/rules/apply
+ * @desc    Apply the saved rules to already processed files
+ * @access  Private
+ */
+router.post('/apply', authenticateToken, applyRules);
+
+/**
+ * @route   GET /api/v1/rules/:ruleId
+ * @desc    Get a filing rule
+ * @access  Private
+ */
+router.get('/:ruleId', authenticateToken, getRule);
+
+/**
+ * @route   PUT /api/v1/rules/:ruleId
+ * @desc    Update a filing rule
+ * @access  Private
+ */
+router.put('/:ruleId', authenticateToken, updateRule);
+
+/**
+ * @route   DELETE /api/v1/rules/:ruleId
+ * @desc    Delete a filing rule
+ * @access  Private
+ */
+router.delete('/:ruleId', authenticateToken, deleteRule);
+
+export default router;
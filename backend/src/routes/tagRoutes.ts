@@ -0,0 +1,53 @@
+import express from 'express';
+import {
+  getTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  mergeTag,
+} from '../controllers/tagController';
+import { authenticateToken } from '../middleware/auth';
+
+/**
+ * Tag Routes
+ * CRUD, colours and merging for user-owned tags
+ */
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/tags
+ * @desc    List the user's tags with file counts
+ * @access  Private
+ */
+router.get('/', authenticateToken, getTags);
+
+/**
+ * @route   POST /api/v1/tags
+ * @desc    Create a tag
+ * @access  Private
+ */
+router.post('/', authenticateToken, createTag);
+
+/**
+ * @route   PUT /api/v1/tags/:tagId
+ * @desc    Rename or recolour a tag (renames are applied to files and rules)
+ * @access  Private
+ */
+router.put('/:tagId', authenticateToken, updateTag);
+
+/**
+ * @route   DELETE /api/v1/tags/:tagId
+ * @desc    Delete a tag and remove it from files and rules
+ * @access  Private
+ */
+router.delete('/:tagId', authenticateToken, deleteTag);
+
+/**
+ * @route   POST /api/v1/tags/:tagId/merge
+ * @desc    Merge a tag into another tag
+ * @access  Private
+ */
+router.post('/:tagId/merge', authenticateToken, mergeTag);
+
+export default router;
@@ -0,0 +1,106 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { CACHE_KINDS, CacheKind, getCacheTtlSeconds } from '../../config/cache';
+import { DatabaseService } from '../../config/database';
+import { hashContent } from '../hashing';
+
+/**
+ * Result Cache
+ * OCR and naming results are stored under the hash of the content they were
+ * computed from plus the provider, model and version (extraction pipeline or
+ * prompt template) that computed them, so re-processing the same file or
+ * text skips the expensive call. A new version never sees older entries;
+ * `invalidate` deletes them and the TTL removes the rest.
+ */
+
+export interface CacheKey {
+  contentHash: string;
+  provider: string;
+  model: string;
+  version: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  errors: number; // failed reads and writes; the result is computed anyway
+  hitRate: number; // hits / (hits + misses), 0 before the first lookup
+}
+
+type Counters = Omit<CacheStats, 'hitRate'>;
+
+export class ResultCacheService {
+  private static counters = new Map<CacheKind, Counters>();
+
+  /**
+   * The cached result for `key`, else `compute()`'s, which is stored for
+   * next time. Cache failures are logged, never thrown.
+   */
+  static async getOrCompute<T>(kind: CacheKind, key: CacheKey, compute: () => Promise<T>): Promise<T> {
+    const ttlSeconds = getCacheTtlSeconds(kind);
+    if (ttlSeconds === 0) {
+      return compute();
+    }
+
+    const id = entryId(kind, key);
+    try {
+      const entry = await DatabaseService.getCacheEntry(id);
+      // Firestore deletes expired entries eventually, not right away
+      if (entry && entry.expiresAt.toMillis() > Date.now()) {
+        this.count(kind, 'hits');
+        return JSON.parse(entry.value) as T;
+      }
+    } catch (error) {
+      console.error(`Result cache read error (${kind}):`, error);
+      this.count(kind, 'errors');
+    }
+
+    this.count(kind, 'misses');
+    const value = await compute();
+    try {
+      await DatabaseService.setCacheEntry(id, {
+        kind,
+        ...key,
+        value: JSON.stringify(value),
+        expiresAt: Timestamp.fromMillis(Date.now() + ttlSeconds * 1000),
+      });
+      this.count(kind, 'writes');
+    } catch (error) {
+      // E.g. results over Firestore's 1 MiB document limit
+      console.error(`Result cache write error (${kind}):`, error);
+      this.count(kind, 'errors');
+    }
+    return value;
+  }
+
+  /**
+   * Delete the entries of `kind` not made by `keepVersion` (all of them
+   * without one), e.g. after the prompt template changed
+   */
+  static async invalidate(kind: CacheKind, keepVersion?: string): Promise<number> {
+    return DatabaseService.deleteCacheEntries(kind, keepVersion);
+  }
+
+  /**
+   * Lookups since this instance started, per kind
+   */
+  static getStats(): Record<CacheKind, CacheStats> {
+    return Object.fromEntries(CACHE_KINDS.map(kind => {
+      const counters = this.counters.get(kind) || { hits: 0, misses: 0, writes: 0, errors: 0 };
+      const lookups = counters.hits + counters.misses;
+      return [kind, { ...counters, hitRate: lookups > 0 ? Math.round(counters.hits / lookups * 1000) / 1000 : 0 }];
+    })) as Record<CacheKind, CacheStats>;
+  }
+
+  private static count(kind: CacheKind, counter: keyof Counters): void {
+    const counters = this.counters.get(kind) || { hits: 0, misses: 0, writes: 0, errors: 0 };
+    counters[counter]++;
+    this.counters.set(kind, counters);
+  }
+}
+
+function entryId(kind: CacheKind, key: CacheKey): string {
+  return hashContent([kind, key.contentHash, key.provider, key.model, key.version].join('\n'));
+}
+
+export default ResultCacheService;
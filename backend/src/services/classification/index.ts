@@ -0,0 +1,49 @@
+import { TAXONOMY } from '../../config/taxonomy';
+import { UserDocument } from '../../config/database';
+import { NamingRequest, NamingService } from '../naming';
+import { classifyByKeywords, normalize, topCategory } from './keywordClassifier';
+import { CategoryScores, ClassificationResult } from './types';
+
+/**
+ * Classification Service
+ * Assigns a taxonomy category by blending the model's scores with the
+ * local keyword classifier; keywords alone when no model is available
+ */
+
+export * from './types';
+
+// Weight of the model's scores when both paths are available
+const MODEL_WEIGHT = 0.7;
+
+export class ClassificationService {
+  static async classify(request: NamingRequest, owner: UserDocument | null): Promise<ClassificationResult> {
+    const keywordScores = classifyByKeywords(request.extractedText, request.fileType);
+    const provider = NamingService.getProvider(owner?.role || 'guest');
+
+    if (provider.name !== 'rules') {
+      try {
+        const modelScores = normalize(await provider.classifyDocument(request, TAXONOMY));
+        return toResult(blend(modelScores, keywordScores), 'model');
+      } catch (error) {
+        console.error(`${provider.name} classification error, using keywords:`, error);
+      }
+    }
+
+    return toResult(keywordScores, 'keywords');
+  }
+}
+
+function blend(modelScores: CategoryScores, keywordScores: CategoryScores): CategoryScores {
+  const blended: CategoryScores = {};
+  for (const category of TAXONOMY) {
+    blended[category.id] = MODEL_WEIGHT * (modelScores[category.id] || 0)
+      + (1 - MODEL_WEIGHT) * (keywordScores[category.id] || 0);
+  }
+  return normalize(blended);
+}
+
+function toResult(scores: CategoryScores, source: ClassificationResult['source']): ClassificationResult {
+  return { ...topCategory(scores), scores, source };
+}
+
+export default ClassificationService;
@@ -0,0 +1,83 @@
+import { OTHER_CATEGORY_ID, TAXONOMY } from '../../config/taxonomy';
+import { CategoryScores } from './types';
+
+/**
+ * Local keyword/feature classifier
+ * Scores each taxonomy category by the distinct keywords found in the text,
+ * plus a few document features (little text in an image means a photo)
+ */
+
+// Distinct keyword hits needed before a category is fully trusted
+const FULL_EVIDENCE_HITS = 3;
+const PHOTO_MAX_TEXT_LENGTH = 40;
+
+const keywordPatterns = new Map(TAXONOMY.map(category => [
+  category.id,
+  category.keywords.map(keyword => new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}(?=$|[^\\p{L}\\p{N}])`, 'u')),
+]));
+
+export function classifyByKeywords(extractedText: string, fileType?: string): CategoryScores {
+  const text = extractedText.toLowerCase();
+
+  if (fileType === 'image' && text.replace(/\s+/g, '').length < PHOTO_MAX_TEXT_LENGTH && hasCategory('photo')) {
+    return normalize({ photo: 0.8, [OTHER_CATEGORY_ID]: 0.2 });
+  }
+
+  const hits: CategoryScores = {};
+  for (const [id, patterns] of keywordPatterns) {
+    hits[id] = patterns.filter(pattern => pattern.test(text)).length;
+  }
+
+  const totalHits = Object.values(hits).reduce((sum, count) => sum + count, 0);
+  const topHits = Math.max(0, ...Object.values(hits));
+  if (totalHits === 0) {
+    return normalize({ [OTHER_CATEGORY_ID]: 1 });
+  }
+
+  // Weak evidence leaves part of the probability on "other"
+  const strength = Math.min(1, topHits / FULL_EVIDENCE_HITS);
+  const scores: CategoryScores = {};
+  for (const [id, count] of Object.entries(hits)) {
+    scores[id] = (count / totalHits) * strength;
+  }
+  scores[OTHER_CATEGORY_ID] = (scores[OTHER_CATEGORY_ID] || 0) + (1 - strength);
+
+  return normalize(scores);
+}
+
+/**
+ * Scale scores to sum to 1 and include every taxonomy category
+ */
+export function normalize(scores: CategoryScores): CategoryScores {
+  const total = Object.values(scores).reduce((sum, score) => sum + Math.max(0, score), 0);
+  const normalized: CategoryScores = {};
+
+  for (const category of TAXONOMY) {
+    const score = Math.max(0, scores[category.id] || 0);
+    normalized[category.id] = total > 0 ? round(score / total) : 0;
+  }
+  if (total === 0) {
+    normalized[OTHER_CATEGORY_ID] = 1;
+  }
+
+  return normalized;
+}
+
+export function topCategory(scores: CategoryScores): { category: string; confidence: number } {
+  return Object.entries(scores).reduce(
+    (best, [category, confidence]) => (confidence > best.confidence ? { category, confidence } : best),
+    { category: OTHER_CATEGORY_ID, confidence: scores[OTHER_CATEGORY_ID] || 0 },
+  );
+}
+
+function hasCategory(id: string): boolean {
+  return keywordPatterns.has(id);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,12 @@
+/**
+ * Document classification contracts
+ */
+
+export type CategoryScores = Record<string, number>; // taxonomy id -> 0-1
+
+export interface ClassificationResult {
+  category: string; // taxonomy id
+  confidence: number; // 0-1
+  scores: CategoryScores;
+  source: 'model' | 'keywords';
+}
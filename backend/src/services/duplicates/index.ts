@@ -0,0 +1,125 @@
+import { FileDocument } from '../../config/database';
+import { DuplicateThresholds, getDuplicateThresholds } from '../../config/duplicates';
+import { perceptualSimilarity } from './perceptualHash';
+import { textSimilarity } from './textSignature';
+import { DuplicateCluster, DuplicateMatch, DuplicateReason } from './types';
+
+/**
+ * Duplicate Service
+ * Groups a user's files into clusters of likely duplicates using content
+ * hashes, perceptual image hashes and text shingle signatures
+ */
+
+export * from './types';
+export { computePerceptualHash, perceptualSimilarity } from './perceptualHash';
+export { computeTextSignature, textSimilarity } from './textSignature';
+
+export class DuplicateService {
+  /**
+   * Clusters of two or more files, most similar first
+   */
+  static findClusters(files: FileDocument[]): DuplicateCluster[] {
+    const parent = files.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    const thresholds = getDuplicateThresholds();
+    const links: { a: number; b: number; match: DuplicateMatch }[] = [];
+    for (let a = 0; a < files.length; a++) {
+      for (let b = a + 1; b < files.length; b++) {
+        const match = this.compare(files[a], files[b], thresholds);
+        if (match && isDuplicate(match, thresholds)) {
+          links.push({ a, b, match });
+          parent[find(a)] = find(b);
+        }
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    files.forEach((_, index) => {
+      const root = find(index);
+      groups.set(root, [...(groups.get(root) || []), index]);
+    });
+
+    const clusters: DuplicateCluster[] = [];
+    for (const [root, members] of groups) {
+      if (members.length < 2) {
+        continue;
+      }
+
+      const clusterLinks = links.filter(link => find(link.a) === root);
+      const keeper = [...members].map(index => files[index]).sort(compareKeepers)[0];
+
+      clusters.push({
+        id: keeper.id,
+        keepFileId: keeper.id,
+        similarity: round(Math.min(...clusterLinks.map(link => link.match.similarity))),
+        reasons: Array.from(new Set(clusterLinks.map(link => link.match.reason))),
+        files: members.map(index => {
+          const file = files[index];
+          const match = file === keeper ? undefined : this.compare(keeper, file, thresholds);
+          return {
+            fileId: file.id,
+            originalName: file.originalName,
+            newName: file.newName,
+            suggestedName: file.suggestedName,
+            fileType: file.fileType,
+            fileSize: file.fileSize,
+            createdAt: file.createdAt?.toDate?.().toISOString(),
+            similarity: file === keeper ? 1 : round(match?.similarity || 0),
+            reason: match?.reason,
+          };
+        }).sort((a, b) => b.similarity - a.similarity),
+      });
+    }
+
+    return clusters.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Strongest signal two files share, if any
+   */
+  static compare(
+    a: FileDocument,
+    b: FileDocument,
+    thresholds: DuplicateThresholds = getDuplicateThresholds(),
+  ): DuplicateMatch | null {
+    if (a.contentHash && a.contentHash === b.contentHash) {
+      return { similarity: 1, reason: 'exact' };
+    }
+
+    const matches: DuplicateMatch[] = [];
+    if (a.perceptualHash && b.perceptualHash) {
+      matches.push({ similarity: perceptualSimilarity(a.perceptualHash, b.perceptualHash), reason: 'image' });
+    }
+    if (a.textSignature && b.textSignature) {
+      matches.push({ similarity: textSimilarity(a.textSignature, b.textSignature), reason: 'text' });
+    }
+
+    // Prefer a signal that clears its threshold over a higher raw score that doesn't
+    return matches.sort((x, y) => Number(isDuplicate(y, thresholds)) - Number(isDuplicate(x, thresholds)) || y.similarity - x.similarity)[0] || null;
+  }
+}
+
+function isDuplicate(match: DuplicateMatch, thresholds: DuplicateThresholds): boolean {
+  const threshold: Record<DuplicateReason, number> = { exact: 1, ...thresholds };
+  return match.similarity >= threshold[match.reason];
+}
+
+// Processed files first, then the largest (usually the sharpest photo), then the oldest
+function compareKeepers(a: FileDocument, b: FileDocument): number {
+  return Number(b.isProcessed) - Number(a.isProcessed)
+    || b.fileSize - a.fileSize
+    || (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export default DuplicateService;
@@ -0,0 +1,108 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { PerceptualHash } from './types';
+
+/**
+ * Perceptual image hashes
+ * dHash compares neighbouring pixels of a 9x8 thumbnail; pHash keeps the sign
+ * of the lowest DCT frequencies of a 32x32 thumbnail. Both survive re-encoding,
+ * resizing and small lighting changes, so retakes of the same page land close.
+ */
+
+const HASH_BITS = 64;
+const PHASH_SIZE = 32;
+const PHASH_LOW_FREQUENCIES = 8;
+
+export async function computePerceptualHash(buffer: Buffer): Promise<PerceptualHash> {
+  const image = await loadImage(buffer);
+  const draw = (width: number, height: number) => {
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d');
+    context.drawImage(image, 0, 0, width, height);
+    return toGrayscale(context.getImageData(0, 0, width, height).data);
+  };
+
+  return {
+    dHash: differenceHash(draw(9, 8)),
+    pHash: dctHash(draw(PHASH_SIZE, PHASH_SIZE)),
+  };
+}
+
+/**
+ * Similarity of two hashes (1 = identical); the closer of the two hash kinds wins
+ */
+export function perceptualSimilarity(a: PerceptualHash, b: PerceptualHash): number {
+  const dHash = 1 - hammingDistance(a.dHash, b.dHash) / HASH_BITS;
+  const pHash = 1 - hammingDistance(a.pHash, b.pHash) / HASH_BITS;
+  return Math.max(dHash, pHash);
+}
+
+function differenceHash(pixels: number[]): string {
+  const bits: boolean[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      bits.push(pixels[row * 9 + column] < pixels[row * 9 + column + 1]);
+    }
+  }
+  return toHex(bits);
+}
+
+function dctHash(pixels: number[]): string {
+  // Separable 2D DCT-II, only the low-frequency corner is needed
+  const coefficients: number[] = [];
+  for (let u = 0; u < PHASH_LOW_FREQUENCIES; u++) {
+    for (let v = 0; v < PHASH_LOW_FREQUENCIES; v++) {
+      let sum = 0;
+      for (let x = 0; x < PHASH_SIZE; x++) {
+        for (let y = 0; y < PHASH_SIZE; y++) {
+          sum += pixels[y * PHASH_SIZE + x]
+            * COSINES[u * PHASH_SIZE + x]
+            * COSINES[v * PHASH_SIZE + y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+  return toHex(coefficients.map(value => value > median));
+}
+
+const COSINES: number[] = Array.from({ length: PHASH_LOW_FREQUENCIES * PHASH_SIZE }, (_, index) => {
+  const frequency = Math.floor(index / PHASH_SIZE);
+  const position = index % PHASH_SIZE;
+  return Math.cos(((2 * position + 1) * frequency * Math.PI) / (2 * PHASH_SIZE));
+});
+
+function toGrayscale(rgba: Uint8ClampedArray): number[] {
+  const pixels: number[] = [];
+  for (let i = 0; i < rgba.length; i += 4) {
+    pixels.push(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]);
+  }
+  return pixels;
+}
+
+function toHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = bits.slice(i, i + 4).map(bit => (bit ? '1' : '0')).join('');
+    hex += parseInt(nibble, 2).toString(16);
+  }
+  return hex;
+}
+
+function hammingDistance(a: string, b: string): number {
+  const bitsA = toBits(a);
+  const bitsB = toBits(b);
+  let distance = 0;
+  for (let i = 0; i < bitsA.length; i++) {
+    if (bitsA[i] !== bitsB[i]) {
+      distance++;
+    }
+  }
+  return distance;
+}
+
+function toBits(hex: string): string {
+  return Array.from(hex, digit => parseInt(digit, 16).toString(2).padStart(4, '0')).join('');
+}
@@ -0,0 +1,61 @@
+import { fnv1a, toUint32, xor32 } from '../hashing';
+
+/**
+ * Text shingling
+ * MinHash signature over word 3-grams; the share of equal slots between two
+ * signatures estimates the Jaccard similarity of their shingle sets
+ */
+
+const SIGNATURE_SIZE = 64;
+const SHINGLE_WORDS = 3;
+const MIN_WORDS = 10; // shorter texts match too easily
+
+// Fixed seeds keep signatures comparable across runs
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => mix32(xor32(0x9e3779b9, index + 1)));
+
+/**
+ * Signature for extracted text, or undefined when there's too little text
+ */
+export function computeTextSignature(text: string): number[] | undefined {
+  const words = text.toLowerCase().normalize('NFKC').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length < MIN_WORDS) {
+    return undefined;
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' '));
+    for (let slot = 0; slot < SIGNATURE_SIZE; slot++) {
+      const value = mix32(xor32(shingle, SEEDS[slot]));
+      if (value < signature[slot]) {
+        signature[slot] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+export function textSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) {
+    return 0;
+  }
+
+  let equal = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / length;
+}
+
+// MurmurHash3 finalizer
+function mix32(value: number): number {
+  let hash = toUint32(value);
+  hash = xor32(hash, Math.floor(hash / 0x10000));
+  hash = toUint32(Math.imul(hash, 0x85ebca6b));
+  hash = xor32(hash, Math.floor(hash / 0x2000));
+  hash = toUint32(Math.imul(hash, 0xc2b2ae35));
+  return xor32(hash, Math.floor(hash / 0x10000));
+}
@@ -0,0 +1,35 @@
+/**
+ * Near-duplicate detection contracts
+ */
+
+export interface PerceptualHash {
+  dHash: string; // 64-bit difference hash, hex
+  pHash: string; // 64-bit DCT hash, hex
+}
+
+export type DuplicateReason = 'exact' | 'image' | 'text';
+
+export interface DuplicateMatch {
+  similarity: number; // 0-1
+  reason: DuplicateReason;
+}
+
+export interface DuplicateClusterFile {
+  fileId: string;
+  originalName: string;
+  newName?: string;
+  suggestedName?: string;
+  fileType: string;
+  fileSize: number;
+  createdAt?: string;
+  similarity: number; // to the suggested keeper (1 for the keeper itself)
+  reason?: DuplicateReason;
+}
+
+export interface DuplicateCluster {
+  id: string; // keeper's file ID
+  keepFileId: string; // suggestion: processed, largest, then oldest
+  similarity: number; // weakest link inside the cluster
+  reasons: DuplicateReason[];
+  files: DuplicateClusterFile[];
+}
@@ -0,0 +1,49 @@
+import { fnv1a } from '../hashing';
+import { normalizeTerm } from '../search/tokenizer';
+import { EmbeddingProvider } from './types';
+
+/**
+ * Offline embeddings via the hashing trick
+ * Words and character trigrams are hashed into a fixed number of signed
+ * buckets. No model download and fully deterministic, but it only captures
+ * lexical overlap (including spelling variants), not meaning.
+ */
+
+const DIMENSIONS = 512;
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model = 'hashing-v1';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const words = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => normalizeTerm(match[0]))
+      .filter(word => word.length > 1);
+
+    for (const word of words) {
+      addFeature(vector, `w:${word}`, WORD_WEIGHT);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    // Dampen frequent features, then scale to unit length
+    const damped = vector.map(value => Math.sign(value) * Math.log1p(Math.abs(value)));
+    const norm = Math.sqrt(damped.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? damped.map(value => value / norm) : damped;
+  }
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  // One hash bit picks the sign so collisions tend to cancel out
+  vector[hash % DIMENSIONS] += (hash >= 0x80000000 ? -1 : 1) * weight;
+}
+
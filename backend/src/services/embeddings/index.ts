@@ -0,0 +1,311 @@
+import { getEmbeddingsConfig, getVectorIndexPath } from '../../config/embeddings';
+import { getLocalLlmConfig } from '../../config/naming';
+import { DatabaseService, FileDocument } from '../../config/database';
+import { getTaxonomyCategory } from '../../config/taxonomy';
+import { filterFields, IndexStore, SearchFilters, SearchService } from '../search';
+import { HashingEmbeddingProvider } from './hashingProvider';
+import { OpenAIEmbeddingProvider } from './openAIProvider';
+import { EmbeddingProvider, VectorMatch } from './types';
+import { StoredVectorEntry, VectorIndex } from './vectorIndex';
+
+/**
+ * Embedding Service
+ * Embeds each processed file with the configured provider and keeps a
+ * local vector index per user (persisted under VECTOR_INDEX_PATH) for
+ * semantic and hybrid search. Switching provider or model rebuilds the
+ * index, since vectors from different models aren't comparable; rebuilds
+ * embed in the background while searches use the files embedded so far.
+ */
+
+export * from './types';
+
+export interface HybridMatch {
+  fileId: string;
+  score: number; // blended, 0-1
+  semanticScore: number;
+  keywordScore: number;
+  matchedTerms: string[];
+}
+
+interface StoredVectorIndex {
+  version: number;
+  provider: string;
+  model: string;
+  entries: StoredVectorEntry[];
+}
+
+type VectorIndexChange = { upsert: StoredVectorEntry } | { remove: string[] };
+
+interface Rebuild {
+  index: VectorIndex;
+  changed: Set<string>; // files embedded or removed since the rebuild started
+}
+
+const INDEX_VERSION = 1;
+const MAX_CACHED_INDEXES = 50;
+const REBUILD_LIMIT = 2000;
+const EMBED_BATCH_SIZE = 32;
+const MAX_TEXT_LENGTH = 6000; // stays under common 2k-token input limits
+const HYBRID_CANDIDATES = 100;
+const COMPACT_AFTER = 200; // logged changes before the snapshot is rewritten
+
+export class EmbeddingService {
+  private static provider: EmbeddingProvider | null = null;
+  private static store: IndexStore<StoredVectorIndex, VectorIndexChange> | null = null;
+  private static indexes = new Map<string, Promise<VectorIndex>>();
+  private static rebuilds = new Map<string, Rebuild>();
+  private static logLengths = new Map<string, number>();
+  private static writes = new Map<string, Promise<void>>();
+
+  static getProvider(): EmbeddingProvider {
+    if (!this.provider) {
+      const { provider, model } = getEmbeddingsConfig();
+      this.provider = provider === 'hashing'
+        ? new HashingEmbeddingProvider()
+        : provider === 'local'
+          ? new OpenAIEmbeddingProvider({ name: 'local', model, ...getLocalLlmConfig() })
+          : new OpenAIEmbeddingProvider({ name: 'openai', model, apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.provider;
+  }
+
+  /**
+   * Embed a processed file and store its vector; failures are logged and the
+   * file is simply missing from semantic results
+   */
+  static async indexFile(file: FileDocument): Promise<void> {
+    if (file.userId === 'guest' || !file.isProcessed) {
+      return;
+    }
+
+    try {
+      const index = await this.getIndex(file.userId);
+      const [vector] = await this.getProvider().embed([buildEmbeddingText(file)]);
+      index.upsert(toEntry(file), vector);
+      await this.record(file.userId, index, [file.id], { upsert: index.getStored(file.id)! });
+    } catch (error) {
+      console.error(`Embedding error for file ${file.id}:`, error);
+    }
+  }
+
+  static async removeFiles(uid: string, fileIds: string[]): Promise<void> {
+    try {
+      const index = await this.getIndex(uid);
+      const removed = fileIds.filter(fileId => index.remove(fileId));
+      await this.record(uid, index, fileIds, removed.length > 0 ? { remove: removed } : undefined);
+    } catch (error) {
+      console.error('Vector index removal error:', error);
+    }
+  }
+
+  /**
+   * Files closest in meaning to the query
+   */
+  static async semanticSearch(uid: string, query: string, limit: number, filters: SearchFilters = {}): Promise<VectorMatch[]> {
+    const index = await this.getIndex(uid);
+    const [vector] = await this.getProvider().embed([query]);
+    return index.nearest(vector, limit, filters);
+  }
+
+  /**
+   * Blend semantic similarity with BM25 keyword scores; `semanticWeight` is
+   * the share of the semantic side (0 = keywords only, 1 = semantic only)
+   */
+  static async hybridSearch(
+    uid: string,
+    query: string,
+    limit: number,
+    semanticWeight: number,
+    filters: SearchFilters = {}
+  ): Promise<HybridMatch[]> {
+    const [semantic, keyword] = await Promise.all([
+      this.semanticSearch(uid, query, HYBRID_CANDIDATES, filters),
+      SearchService.rank(uid, query, filters),
+    ]);
+
+    // BM25 is unbounded, so scale it by the best match
+    const topKeywordScore = keyword[0]?.score || 1;
+    const matches = new Map<string, HybridMatch>();
+    const entry = (fileId: string) => {
+      let match = matches.get(fileId);
+      if (!match) {
+        match = { fileId, score: 0, semanticScore: 0, keywordScore: 0, matchedTerms: [] };
+        matches.set(fileId, match);
+      }
+      return match;
+    };
+
+    for (const hit of semantic) {
+      entry(hit.fileId).semanticScore = Math.max(0, hit.similarity);
+    }
+    for (const hit of keyword.slice(0, HYBRID_CANDIDATES)) {
+      const match = entry(hit.fileId);
+      match.keywordScore = hit.score / topKeywordScore;
+      match.matchedTerms = hit.matchedTerms;
+    }
+
+    for (const match of matches.values()) {
+      match.score = semanticWeight * match.semanticScore + (1 - semanticWeight) * match.keywordScore;
+    }
+    return Array.from(matches.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Whether the user's index is still being rebuilt (results are partial)
+   */
+  static isRebuilding(uid: string): boolean {
+    return this.rebuilds.has(uid);
+  }
+
+  private static getStore(): IndexStore<StoredVectorIndex, VectorIndexChange> {
+    if (!this.store) {
+      this.store = new IndexStore(getVectorIndexPath());
+    }
+    return this.store;
+  }
+
+  private static getIndex(uid: string): Promise<VectorIndex> {
+    let index = this.indexes.get(uid);
+    if (index) {
+      // Re-insert to keep the map in least-recently-used order
+      this.indexes.delete(uid);
+    } else {
+      index = this.loadIndex(uid);
+      index.catch(() => this.indexes.delete(uid));
+    }
+    this.indexes.set(uid, index);
+
+    if (this.indexes.size > MAX_CACHED_INDEXES) {
+      this.indexes.delete(this.indexes.keys().next().value!);
+    }
+    return index;
+  }
+
+  private static async loadIndex(uid: string): Promise<VectorIndex> {
+    const rebuild = this.rebuilds.get(uid);
+    if (rebuild) {
+      return rebuild.index;
+    }
+
+    const { name, model } = this.getProvider();
+    const { snapshot, changes } = await this.getStore().load(uid);
+    if (snapshot?.version !== INDEX_VERSION || snapshot.provider !== name || snapshot.model !== model) {
+      // Embedding every file takes a while; search what's embedded so far
+      const index = new VectorIndex();
+      this.rebuild(uid, index);
+      return index;
+    }
+
+    const index = new VectorIndex(snapshot.entries);
+    for (const change of changes) {
+      if ('upsert' in change) {
+        index.restore(change.upsert);
+      } else {
+        change.remove.forEach(fileId => index.remove(fileId));
+      }
+    }
+    this.logLengths.set(uid, changes.length);
+    return index;
+  }
+
+  // Embeds the user's files into `index` in the background, then snapshots it
+  private static async rebuild(uid: string, index: VectorIndex): Promise<void> {
+    const changed = new Set<string>();
+    this.rebuilds.set(uid, { index, changed });
+
+    try {
+      const files = (await DatabaseService.getUserFiles(uid, REBUILD_LIMIT)).filter(file => file.isProcessed);
+      for (let i = 0; i < files.length; i += EMBED_BATCH_SIZE) {
+        const batch = files.slice(i, i + EMBED_BATCH_SIZE).filter(file => !changed.has(file.id));
+        if (batch.length === 0) {
+          continue;
+        }
+
+        const vectors = await this.getProvider().embed(batch.map(buildEmbeddingText));
+        batch.forEach((file, position) => {
+          // Files changed meanwhile are already current (or deleted) in the index
+          if (!changed.has(file.id)) {
+            index.upsert(toEntry(file), vectors[position]);
+          }
+        });
+      }
+      this.rebuilds.delete(uid);
+      await this.snapshot(uid, index);
+    } catch (error) {
+      console.error(`Vector index rebuild error for user ${uid}:`, error);
+      // Start over on the next search
+      this.rebuilds.delete(uid);
+      this.indexes.delete(uid);
+    }
+  }
+
+  // Logs the change, or rewrites the snapshot once the log is long
+  private static record(uid: string, index: VectorIndex, fileIds: string[], change?: VectorIndexChange): Promise<void> {
+    const rebuild = this.rebuilds.get(uid);
+    if (rebuild) {
+      // The rebuild's snapshot will include this; only stop it from overwriting
+      fileIds.forEach(fileId => rebuild.changed.add(fileId));
+      return Promise.resolve();
+    }
+    if (!change) {
+      return Promise.resolve();
+    }
+
+    const logLength = (this.logLengths.get(uid) || 0) + 1;
+    if (logLength >= COMPACT_AFTER) {
+      return this.snapshot(uid, index);
+    }
+    this.logLengths.set(uid, logLength);
+    return this.write(uid, () => this.getStore().append(uid, change));
+  }
+
+  private static snapshot(uid: string, index: VectorIndex): Promise<void> {
+    const { name, model } = this.getProvider();
+    this.logLengths.set(uid, 0);
+    return this.write(uid, () => this.getStore().save(uid, {
+      version: INDEX_VERSION,
+      provider: name,
+      model,
+      entries: index.toJSON(),
+    }));
+  }
+
+  // Writes for one user run one after another
+  private static write(uid: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(uid) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(task);
+    this.writes.set(uid, write);
+    write.finally(() => {
+      if (this.writes.get(uid) === write) {
+        this.writes.delete(uid);
+      }
+    }).catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Name, category and key fields first so short documents still embed well
+ */
+function buildEmbeddingText(file: FileDocument): string {
+  const { metadata } = file;
+  const header = [
+    file.newName || file.suggestedName || file.originalName,
+    file.category && getTaxonomyCategory(file.category)?.label,
+    metadata?.documentType,
+    metadata?.vendor,
+    metadata?.documentDate,
+  ].filter(Boolean).join(' | ');
+
+  return `${header}\n${(file.extractedText || '').slice(0, MAX_TEXT_LENGTH)}`;
+}
+
+function toEntry(file: FileDocument) {
+  return { fileId: file.id, ...filterFields(file) };
+}
+
+export default EmbeddingService;
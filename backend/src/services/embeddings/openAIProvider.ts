@@ -0,0 +1,48 @@
+import { OpenAI } from 'openai';
+import { EmbeddingProvider } from './types';
+
+/**
+ * Embeddings through the OpenAI API or an OpenAI-compatible server
+ */
+
+export interface OpenAIEmbeddingOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIEmbeddingOptions) {
+    this.name = options.name;
+    this.model = options.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    // Not every compatible server returns normalized vectors
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(item.embedding));
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.options.apiKey, baseURL: this.options.baseURL });
+    }
+    return this.client;
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
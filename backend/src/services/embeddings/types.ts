@@ -0,0 +1,18 @@
+/**
+ * Embeddings contracts
+ */
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+
+  /**
+   * One unit-length vector per input, in order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorMatch {
+  fileId: string;
+  similarity: number; // cosine, -1..1
+}
@@ -0,0 +1,85 @@
+import { matchesFilters } from '../search/invertedIndex';
+import { IndexedDocument, SearchFilters } from '../search/types';
+import { VectorMatch } from './types';
+
+/**
+ * Flat in-memory vector index for one user's files
+ * Exact cosine search is fast enough for personal libraries (thousands of
+ * files); vectors are unit length, so cosine is a dot product
+ */
+
+export type VectorEntry = Pick<IndexedDocument, 'fileId' | 'fileType' | 'category' | 'date'> & {
+  vector: Float32Array;
+};
+
+// Persisted form: vectors as base64 float32
+export type StoredVectorEntry = Omit<VectorEntry, 'vector'> & { vector: string };
+
+export class VectorIndex {
+  private entries = new Map<string, VectorEntry>();
+
+  constructor(entries: StoredVectorEntry[] = []) {
+    entries.forEach(entry => this.restore(entry));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(fileId: string): boolean {
+    return this.entries.has(fileId);
+  }
+
+  toJSON(): StoredVectorEntry[] {
+    return Array.from(this.entries.values(), encode);
+  }
+
+  /**
+   * Persisted form of one file's entry
+   */
+  getStored(fileId: string): StoredVectorEntry | undefined {
+    const entry = this.entries.get(fileId);
+    return entry && encode(entry);
+  }
+
+  restore(entry: StoredVectorEntry): void {
+    const bytes = Buffer.from(entry.vector, 'base64');
+    const vector = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+    this.entries.set(entry.fileId, { ...entry, vector: Float32Array.from(vector) });
+  }
+
+  upsert(entry: Omit<VectorEntry, 'vector'>, vector: number[]): void {
+    this.entries.set(entry.fileId, { ...entry, vector: Float32Array.from(vector) });
+  }
+
+  remove(fileId: string): boolean {
+    return this.entries.delete(fileId);
+  }
+
+  nearest(query: number[], limit: number, filters: SearchFilters = {}): VectorMatch[] {
+    const matches: VectorMatch[] = [];
+    for (const entry of this.entries.values()) {
+      if (entry.vector.length !== query.length || !matchesFilters(entry, filters)) {
+        continue;
+      }
+
+      let similarity = 0;
+      for (let i = 0; i < query.length; i++) {
+        similarity += query[i] * entry.vector[i];
+      }
+      // Unrelated files score around zero
+      if (similarity > 0) {
+        matches.push({ fileId: entry.fileId, similarity });
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+}
+
+function encode(entry: VectorEntry): StoredVectorEntry {
+  return {
+    ...entry,
+    vector: Buffer.from(entry.vector.buffer, entry.vector.byteOffset, entry.vector.byteLength).toString('base64'),
+  };
+}
@@ -0,0 +1,17 @@
+import { DOMMatrix as CanvasDOMMatrix, ImageData as CanvasImageData, Path2D as CanvasPath2D } from '@napi-rs/canvas';
+
+/**
+ * pdf.js expects these browser globals when rendering pages in Node.
+ * Must be imported before pdfjs-dist.
+ */
+
+declare global {
+  // Browser globals; Node doesn't have them and the ES lib doesn't declare them
+  var DOMMatrix: typeof CanvasDOMMatrix | undefined;
+  var ImageData: typeof CanvasImageData | undefined;
+  var Path2D: typeof CanvasPath2D | undefined;
+}
+
+globalThis.DOMMatrix ??= CanvasDOMMatrix;
+globalThis.ImageData ??= CanvasImageData;
+globalThis.Path2D ??= CanvasPath2D;
@@ -0,0 +1,35 @@
+import { DocumentProperties } from './types';
+
+/**
+ * Helpers for normalizing embedded document metadata
+ */
+
+/**
+ * Drop empty fields and normalize dates to ISO 8601
+ */
+export function cleanProperties(properties: DocumentProperties): DocumentProperties {
+  const cleaned: DocumentProperties = {};
+
+  for (const [key, value] of Object.entries(properties) as [keyof DocumentProperties, string | undefined][]) {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    if (key === 'createdAt' || key === 'modifiedAt') {
+      const date = toIsoDate(trimmed);
+      if (date) {
+        cleaned[key] = date;
+      }
+    } else {
+      cleaned[key] = trimmed;
+    }
+  }
+
+  return cleaned;
+}
+
+export function toIsoDate(value: string): string | undefined {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
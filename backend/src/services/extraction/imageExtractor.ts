@@ -0,0 +1,30 @@
+import { ExtractionInput, ExtractionResult, OcrEngine, TextExtractor } from './types';
+import { detectLanguage } from './languageDetection';
+
+/**
+ * Image text extractor
+ * Runs uploaded images through the configured OCR engine
+ */
+
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+
+export class ImageExtractor implements TextExtractor {
+  readonly name = 'image-ocr';
+
+  constructor(private readonly ocrEngine: OcrEngine) {}
+
+  supports(mimeType: string): boolean {
+    return SUPPORTED_MIME_TYPES.includes(mimeType);
+  }
+
+  async extract(input: ExtractionInput): Promise<ExtractionResult> {
+    const { text, confidence } = await this.ocrEngine.recognize(input.buffer);
+
+    return {
+      text,
+      confidence,
+      language: detectLanguage(text),
+      extractor: `${this.name}:${this.ocrEngine.name}`,
+    };
+  }
+}
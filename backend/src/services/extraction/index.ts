@@ -0,0 +1,82 @@
+import { FileDocument } from '../../config/database';
+import { StorageService } from '../storage';
+import { ResultCacheService } from '../cache';
+import { ExtractionResult, OcrEngine, TextExtractor, UnsupportedFileTypeError } from './types';
+import { TesseractOcrEngine } from './ocrEngine';
+import { ImageExtractor } from './imageExtractor';
+import { PdfExtractor } from './pdfExtractor';
+import { OfficeExtractor } from './officeExtractor';
+import { PlainTextExtractor } from './plainTextExtractor';
+import { RtfExtractor } from './rtfExtractor';
+
+/**
+ * Text Extraction Service
+ * Picks the first registered extractor that supports a file's MIME type.
+ * Results are cached by content hash, so the same bytes are only read once.
+ */
+
+export * from './types';
+
+// Bump when extractors change what they return for the same file
+export const EXTRACTION_VERSION = '1';
+
+export class TextExtractionService {
+  private static ocrEngine: OcrEngine = new TesseractOcrEngine();
+  private static extractors: TextExtractor[] = [
+    new ImageExtractor(TextExtractionService.ocrEngine),
+    new PdfExtractor(TextExtractionService.ocrEngine),
+    new OfficeExtractor(),
+    new PlainTextExtractor(),
+    new RtfExtractor(),
+  ];
+
+  /**
+   * Register an additional extractor (takes precedence over built-ins)
+   */
+  static register(extractor: TextExtractor): void {
+    this.extractors.unshift(extractor);
+  }
+
+  /**
+   * Check whether any extractor can handle a MIME type
+   */
+  static supports(mimeType: string): boolean {
+    return this.extractors.some(extractor => extractor.supports(mimeType));
+  }
+
+  /**
+   * Extract text from an uploaded file's stored object
+   */
+  static async extractFromFile(file: FileDocument): Promise<ExtractionResult> {
+    const extractor = this.extractors.find(candidate => candidate.supports(file.mimeType));
+    if (!extractor) {
+      throw new UnsupportedFileTypeError(file.mimeType);
+    }
+
+    const extract = async () => extractor.extract({
+      buffer: await StorageService.getFile(file),
+      mimeType: file.mimeType,
+      originalName: file.originalName,
+    });
+    // Files uploaded before hashing have nothing to address a cached result by
+    if (!file.contentHash) {
+      return extract();
+    }
+
+    return ResultCacheService.getOrCompute('extraction', {
+      contentHash: file.contentHash,
+      provider: extractor.name,
+      model: this.ocrEngine.model,
+      version: EXTRACTION_VERSION,
+    }, extract);
+  }
+
+  /**
+   * Release OCR workers (call on shutdown)
+   */
+  static async shutdown(): Promise<void> {
+    await this.ocrEngine.terminate();
+  }
+}
+
+export default TextExtractionService;
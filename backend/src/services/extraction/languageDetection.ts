@@ -0,0 +1,37 @@
+/**
+ * Lightweight language detection
+ * Scores text against common stopwords; good enough to tag OCR output
+ */
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'for', 'with', 'on', 'this', 'that', 'from', 'date', 'total'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'del', 'las', 'por', 'con', 'para', 'una', 'fecha'],
+  fr: ['le', 'la', 'de', 'et', 'les', 'des', 'en', 'du', 'un', 'une', 'pour', 'sur', 'avec', 'montant'],
+  de: ['der', 'die', 'und', 'das', 'den', 'von', 'mit', 'ist', 'nicht', 'auf', 'für', 'ein', 'eine', 'betrag'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'una', 'del', 'della', 'con', 'sono', 'data', 'totale'],
+  pt: ['o', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'os', 'valor'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'in', 'voor', 'met', 'op', 'bedrag'],
+};
+
+const MIN_WORDS = 5;
+
+export function detectLanguage(text: string): string {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_WORDS) {
+    return 'unknown';
+  }
+
+  let bestLanguage = 'unknown';
+  let bestScore = 0;
+
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const vocabulary = new Set(stopwords);
+    const score = words.filter(word => vocabulary.has(word)).length;
+    if (score > bestScore) {
+      bestLanguage = language;
+      bestScore = score;
+    }
+  }
+
+  return bestLanguage;
+}
@@ -0,0 +1,51 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { OcrEngine, OcrResult } from './types';
+
+/**
+ * Local OCR engine backed by Tesseract
+ * A single worker is created lazily and reused across requests
+ */
+
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract';
+  readonly model: string;
+  private worker: Promise<Worker> | null = null;
+
+  constructor(private readonly languages: string = process.env.OCR_LANGUAGES || 'eng') {
+    this.model = `tesseract:${languages}`;
+  }
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+
+    return {
+      text: data.text.trim(),
+      confidence: data.confidence / 100,
+    };
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.worker) {
+      return;
+    }
+
+    const worker = await this.worker;
+    this.worker = null;
+    await worker.terminate();
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = createWorker(this.languages.split('+'), undefined, {
+        ...(process.env.OCR_LANG_PATH && { langPath: process.env.OCR_LANG_PATH }),
+        ...(process.env.OCR_CACHE_PATH && { cachePath: process.env.OCR_CACHE_PATH }),
+      }).catch(error => {
+        // Allow the next call to retry worker creation
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,219 @@
+import path from 'path';
+import JSZip from 'jszip';
+import {
+  DocumentProperties,
+  DocumentTooLargeError,
+  ExtractedPage,
+  ExtractionInput,
+  ExtractionResult,
+  TextExtractor,
+} from './types';
+import { detectLanguage } from './languageDetection';
+import { readAttributes, readBlocks, readElements, readFirstElement } from './xmlUtils';
+import { cleanProperties } from './documentProperties';
+
+/**
+ * Office Open XML extractor (DOCX, XLSX, PPTX)
+ * Reads text straight from the zipped XML parts plus docProps/core.xml metadata
+ */
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const MAX_ROWS_PER_SHEET = 500;
+// Sizes in the zip directory can lie and a few KB can inflate to gigabytes,
+// so parts are measured while they're inflated
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+
+interface OfficeContent {
+  text: string;
+  pages?: ExtractedPage[];
+}
+
+export class OfficeExtractor implements TextExtractor {
+  readonly name = 'office';
+
+  constructor(private readonly maxPartBytes = MAX_PART_BYTES) {}
+
+  supports(mimeType: string): boolean {
+    return [DOCX_MIME_TYPE, XLSX_MIME_TYPE, PPTX_MIME_TYPE].includes(mimeType);
+  }
+
+  async extract(input: ExtractionInput): Promise<ExtractionResult> {
+    const zip = await JSZip.loadAsync(input.buffer);
+    const readPart = (partName: string) => readZipPart(zip, partName, this.maxPartBytes);
+
+    let content: OfficeContent;
+    switch (input.mimeType) {
+      case DOCX_MIME_TYPE:
+        content = await readDocx(readPart);
+        break;
+      case XLSX_MIME_TYPE:
+        content = await readXlsx(zip, readPart);
+        break;
+      default:
+        content = await readPptx(zip, readPart);
+        break;
+    }
+
+    return {
+      text: content.text,
+      confidence: 1,
+      language: detectLanguage(content.text),
+      extractor: this.name,
+      ...(content.pages && { pages: content.pages, totalPages: content.pages.length }),
+      properties: await readCoreProperties(readPart),
+    };
+  }
+}
+
+type PartReader = (partName: string) => Promise<string>;
+
+// Missing parts read as empty
+function readZipPart(zip: JSZip, partName: string, maxBytes: number): Promise<string> {
+  const part = zip.file(partName);
+  if (!part) {
+    return Promise.resolve('');
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = part.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.pause();
+          reject(new DocumentTooLargeError(`${partName} inflates to more than ${maxBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+      .on('error', reject);
+  });
+}
+
+// Parts like ppt/slides/slide10.xml must sort numerically, not lexically
+function listNumberedParts(zip: JSZip, pattern: RegExp): string[] {
+  return Object.keys(zip.files)
+    .filter(name => pattern.test(name))
+    .sort((a, b) => partNumber(a) - partNumber(b));
+}
+
+function partNumber(partName: string): number {
+  const match = partName.match(/(\d+)\.xml$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function readParagraphs(xml: string, paragraphTag: string, textTag: string): string[] {
+  return readBlocks(xml, paragraphTag)
+    .map(paragraph => readElements(
+      paragraph.replace(/<w:tab\/>/g, `<${textTag}>\t</${textTag}>`),
+      textTag,
+    ).join(''))
+    .filter(line => line.trim().length > 0);
+}
+
+async function readDocx(readPart: PartReader): Promise<OfficeContent> {
+  const xml = await readPart('word/document.xml');
+  return { text: readParagraphs(xml, 'w:p', 'w:t').join('\n') };
+}
+
+async function readPptx(zip: JSZip, readPart: PartReader): Promise<OfficeContent> {
+  const pages: ExtractedPage[] = [];
+
+  for (const partName of listNumberedParts(zip, /^ppt\/slides\/slide\d+\.xml$/)) {
+    const xml = await readPart(partName);
+    pages.push({
+      pageNumber: partNumber(partName),
+      text: readParagraphs(xml, 'a:p', 'a:t').join('\n'),
+      source: 'text-layer',
+      confidence: 1,
+    });
+  }
+
+  return {
+    text: pages.map(page => page.text).filter(text => text.length > 0).join('\n\n'),
+    pages,
+  };
+}
+
+async function readXlsx(zip: JSZip, readPart: PartReader): Promise<OfficeContent> {
+  const sharedStrings = readBlocks(await readPart('xl/sharedStrings.xml'), 'si')
+    .map(item => readElements(item, 't').join(''));
+
+  const sections: string[] = [];
+  for (const sheet of await listSheets(zip, readPart)) {
+    const xml = await readPart(sheet.partName);
+    const rows = readBlocks(xml, 'row')
+      .slice(0, MAX_ROWS_PER_SHEET)
+      .map(row => readCells(row, sharedStrings).join('\t'))
+      .filter(row => row.trim().length > 0);
+
+    if (rows.length > 0) {
+      sections.push([`Sheet: ${sheet.name}`, ...rows].join('\n'));
+    }
+  }
+
+  return { text: sections.join('\n\n') };
+}
+
+/**
+ * Sheets in tab order. The workbook links each sheet to its part through
+ * the relationships file; part numbers don't follow the tab order once
+ * sheets are moved or deleted.
+ */
+async function listSheets(zip: JSZip, readPart: PartReader): Promise<{ name: string; partName: string }[]> {
+  const sheets = readAttributes(await readPart('xl/workbook.xml'), 'sheet');
+  const targets = new Map(
+    readAttributes(await readPart('xl/_rels/workbook.xml.rels'), 'Relationship')
+      .map(relationship => [relationship.Id, relationship.Target])
+  );
+  const sheetName = (index: number) => sheets[index]?.name || `Sheet${index + 1}`;
+
+  if (targets.size === 0) {
+    // Packages without relationships: match sheetN.xml parts by position
+    return listNumberedParts(zip, /^xl\/worksheets\/sheet\d+\.xml$/)
+      .map((partName, index) => ({ name: sheetName(index), partName }));
+  }
+
+  return sheets.flatMap((sheet, index) => {
+    const target = targets.get(sheet['r:id']);
+    return target ? [{ name: sheetName(index), partName: resolvePartName('xl', target) }] : [];
+  });
+}
+
+// Relationship targets are relative to the source part's folder, or absolute within the package
+function resolvePartName(folder: string, target: string): string {
+  return target.startsWith('/') ? target.slice(1) : path.posix.normalize(`${folder}/${target}`);
+}
+
+function readCells(rowXml: string, sharedStrings: string[]): string[] {
+  const cells = rowXml.matchAll(/<c(\s[^>]*)?(?:\/>|>([\s\S]*?)<\/c>)/g);
+
+  return Array.from(cells, ([, attributes = '', inner = '']) => {
+    const type = attributes.match(/\st="(\w+)"/)?.[1];
+    if (type === 'inlineStr') {
+      return readElements(inner, 't').join('');
+    }
+
+    const value = readFirstElement(inner, 'v') ?? '';
+    return type === 's' ? sharedStrings[parseInt(value, 10)] ?? '' : value;
+  });
+}
+
+async function readCoreProperties(readPart: PartReader): Promise<DocumentProperties> {
+  const xml = await readPart('docProps/core.xml');
+
+  return cleanProperties({
+    title: readFirstElement(xml, 'dc:title'),
+    author: readFirstElement(xml, 'dc:creator'),
+    subject: readFirstElement(xml, 'dc:subject'),
+    keywords: readFirstElement(xml, 'cp:keywords'),
+    createdAt: readFirstElement(xml, 'dcterms:created'),
+    modifiedAt: readFirstElement(xml, 'dcterms:modified'),
+  });
+}
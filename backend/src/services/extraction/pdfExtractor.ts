@@ -0,0 +1,175 @@
+import path from 'path';
+import { createCanvas, Canvas, SKRSContext2D } from '@napi-rs/canvas';
+import './canvasPolyfills';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+import { getPdfExtractionConfig } from '../../config/extraction';
+import {
+  DocumentProperties,
+  ExtractedPage,
+  ExtractionInput,
+  ExtractionResult,
+  OcrEngine,
+  TextExtractor,
+} from './types';
+import { detectLanguage } from './languageDetection';
+import { cleanProperties } from './documentProperties';
+
+/**
+ * PDF text extractor
+ * Reads the embedded text layer page by page and falls back to OCR for
+ * pages without usable text (scanned pages)
+ */
+
+const MIN_TEXT_LAYER_CHARS = 20;
+
+const STANDARD_FONT_DATA_URL = path.join(
+  path.dirname(require.resolve('pdfjs-dist/package.json')),
+  'standard_fonts',
+  path.sep,
+);
+
+// pdf.js types this as the DOM's context; @napi-rs/canvas implements the same API
+type PdfCanvasContext = Parameters<pdfjs.PDFPageProxy['render']>[0]['canvasContext'];
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+// pdf.js only ships a DOM canvas factory; this one renders with @napi-rs/canvas
+class NodeCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    canvasAndContext.canvas!.width = width;
+    canvasAndContext.canvas!.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    canvasAndContext.canvas!.width = 0;
+    canvasAndContext.canvas!.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+export class PdfExtractor implements TextExtractor {
+  readonly name = 'pdf';
+
+  constructor(private readonly ocrEngine: OcrEngine) {}
+
+  supports(mimeType: string): boolean {
+    return mimeType === 'application/pdf';
+  }
+
+  async extract(input: ExtractionInput): Promise<ExtractionResult> {
+    const { maxPages, ocrDpi } = getPdfExtractionConfig();
+    const canvasFactory = new NodeCanvasFactory();
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(input.buffer),
+      standardFontDataUrl: STANDARD_FONT_DATA_URL,
+      canvasFactory,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+    }).promise;
+
+    try {
+      const pageCount = Math.min(document.numPages, maxPages);
+      const pages: ExtractedPage[] = [];
+
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+
+        try {
+          const text = await this.readTextLayer(page);
+          if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+            pages.push({ pageNumber, text, source: 'text-layer', confidence: 1 });
+            continue;
+          }
+
+          const image = await this.rasterize(page, canvasFactory, ocrDpi);
+          const ocr = await this.ocrEngine.recognize(image);
+          pages.push({ pageNumber, text: ocr.text, source: 'ocr', confidence: ocr.confidence });
+        } finally {
+          page.cleanup();
+        }
+      }
+
+      const text = pages
+        .map(page => page.text)
+        .filter(pageText => pageText.length > 0)
+        .join('\n\n');
+
+      return {
+        text,
+        confidence: averageConfidence(pages),
+        language: detectLanguage(text),
+        extractor: this.name,
+        pages,
+        totalPages: document.numPages,
+        properties: await this.readProperties(document),
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  private async readProperties(document: pdfjs.PDFDocumentProxy): Promise<DocumentProperties> {
+    const { info } = await document.getMetadata().catch(() => ({ info: {} }));
+    const fields = info as Record<string, unknown>;
+    const readString = (key: string) => (typeof fields[key] === 'string' ? fields[key] as string : undefined);
+    const readDate = (key: string) => {
+      const value = readString(key);
+      return value ? pdfjs.PDFDateString.toDateObject(value)?.toISOString() : undefined;
+    };
+
+    return cleanProperties({
+      title: readString('Title'),
+      author: readString('Author'),
+      subject: readString('Subject'),
+      keywords: readString('Keywords'),
+      createdAt: readDate('CreationDate'),
+      modifiedAt: readDate('ModDate'),
+    });
+  }
+
+  private async readTextLayer(page: pdfjs.PDFPageProxy): Promise<string> {
+    const content = await page.getTextContent();
+
+    return content.items
+      .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+      .join('')
+      .replace(/[ \t]+\n/g, '\n')
+      .trim();
+  }
+
+  private async rasterize(page: pdfjs.PDFPageProxy, canvasFactory: NodeCanvasFactory, dpi: number): Promise<Buffer> {
+    const viewport = page.getViewport({ scale: dpi / 72 });
+    const target = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+    try {
+      await page.render({
+        canvasContext: target.context as unknown as PdfCanvasContext,
+        viewport,
+      }).promise;
+
+      return target.canvas!.toBuffer('image/png');
+    } finally {
+      canvasFactory.destroy(target);
+    }
+  }
+}
+
+function averageConfidence(pages: ExtractedPage[]): number {
+  const pagesWithText = pages.filter(page => page.text.length > 0);
+  if (pagesWithText.length === 0) {
+    return 0;
+  }
+
+  const total = pagesWithText.reduce((sum, page) => sum + page.confidence, 0);
+  return total / pagesWithText.length;
+}
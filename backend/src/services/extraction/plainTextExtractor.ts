@@ -0,0 +1,92 @@
+import { DocumentProperties, ExtractionInput, ExtractionResult, TextExtractor } from './types';
+import { detectLanguage } from './languageDetection';
+import { cleanProperties } from './documentProperties';
+
+/**
+ * Plain text and Markdown extractor
+ * Markdown is reduced to readable text; front matter becomes document metadata
+ */
+
+const TEXT_MIME_TYPE = 'text/plain';
+const MARKDOWN_MIME_TYPES = ['text/markdown', 'text/x-markdown'];
+
+export class PlainTextExtractor implements TextExtractor {
+  readonly name = 'plain-text';
+
+  supports(mimeType: string): boolean {
+    return mimeType === TEXT_MIME_TYPE || MARKDOWN_MIME_TYPES.includes(mimeType);
+  }
+
+  async extract(input: ExtractionInput): Promise<ExtractionResult> {
+    const raw = decodeText(input.buffer);
+    const isMarkdown = MARKDOWN_MIME_TYPES.includes(input.mimeType);
+
+    const { text, properties } = isMarkdown
+      ? readMarkdown(raw)
+      : { text: raw.trim(), properties: {} };
+
+    return {
+      text,
+      confidence: 1,
+      language: detectLanguage(text),
+      extractor: isMarkdown ? 'markdown' : this.name,
+      properties,
+    };
+  }
+}
+
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return Buffer.from(buffer.subarray(2)).swap16().toString('utf16le');
+  }
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+function readMarkdown(markdown: string): { text: string; properties: DocumentProperties } {
+  const frontMatter = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  const body = frontMatter ? markdown.slice(frontMatter[0].length) : markdown;
+  const fields = frontMatter ? readFrontMatter(frontMatter[1]) : {};
+
+  const heading = body.match(/^#\s+(.+)$/m)?.[1];
+
+  return {
+    text: stripMarkdown(body),
+    properties: cleanProperties({
+      title: fields.title || heading,
+      author: fields.author,
+      subject: fields.description || fields.subject,
+      keywords: fields.tags || fields.keywords,
+      createdAt: fields.date || fields.created,
+    }),
+  };
+}
+
+function readFrontMatter(yaml: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const match = line.match(/^(\w+):\s*(.*)$/);
+    if (match) {
+      fields[match[1].toLowerCase()] = match[2].replace(/^["'[]|["'\]]$/g, '').trim();
+    }
+  }
+
+  return fields;
+}
+
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+    .replace(/\|/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
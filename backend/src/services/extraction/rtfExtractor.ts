@@ -0,0 +1,134 @@
+import { DocumentProperties, ExtractionInput, ExtractionResult, TextExtractor } from './types';
+import { detectLanguage } from './languageDetection';
+import { cleanProperties } from './documentProperties';
+
+/**
+ * RTF extractor
+ * Strips control words and groups, keeping visible text and the \info block
+ */
+
+const RTF_MIME_TYPES = ['application/rtf', 'text/rtf'];
+
+// Destinations whose content is never visible text
+const IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'fldinst', 'header', 'footer', 'footnote',
+]);
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+const TOKEN_PATTERN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+
+export class RtfExtractor implements TextExtractor {
+  readonly name = 'rtf';
+
+  supports(mimeType: string): boolean {
+    return RTF_MIME_TYPES.includes(mimeType);
+  }
+
+  async extract(input: ExtractionInput): Promise<ExtractionResult> {
+    const rtf = input.buffer.toString('latin1');
+    const text = rtfToText(rtf).replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+    return {
+      text,
+      confidence: 1,
+      language: detectLanguage(text),
+      extractor: this.name,
+      properties: readInfo(rtf),
+    };
+  }
+}
+
+function rtfToText(rtf: string): string {
+  const stack: { ignorable: boolean; unicodeSkip: number }[] = [];
+  let ignorable = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  const output: string[] = [];
+
+  for (const [, word, param, hex, symbol, brace, text] of rtf.matchAll(TOKEN_PATTERN)) {
+    if (brace === '{') {
+      stack.push({ ignorable, unicodeSkip });
+    } else if (brace === '}') {
+      ({ ignorable, unicodeSkip } = stack.pop() ?? { ignorable: false, unicodeSkip: 1 });
+    } else if (symbol !== undefined) {
+      pendingSkip = 0;
+      if (symbol === '*') {
+        ignorable = true;
+      } else if (!ignorable && symbol === '~') {
+        output.push(' ');
+      } else if (!ignorable && ['{', '}', '\\'].includes(symbol)) {
+        output.push(symbol);
+      }
+    } else if (word !== undefined) {
+      pendingSkip = 0;
+      if (IGNORED_DESTINATIONS.has(word)) {
+        ignorable = true;
+      } else if (word === 'uc') {
+        unicodeSkip = parseInt(param || '1', 10);
+      } else if (word === 'u' && !ignorable) {
+        const code = parseInt(param || '0', 10);
+        output.push(String.fromCharCode(code < 0 ? code + 0x10000 : code));
+        pendingSkip = unicodeSkip;
+      } else if (!ignorable && SPECIAL_CHARACTERS[word]) {
+        output.push(SPECIAL_CHARACTERS[word]);
+      }
+    } else if (hex !== undefined) {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else if (!ignorable) {
+        output.push(Buffer.from([parseInt(hex, 16)]).toString('latin1'));
+      }
+    } else if (text !== undefined && !ignorable) {
+      // Characters following \uN are fallbacks for readers without Unicode
+      const visible = text.slice(pendingSkip);
+      pendingSkip = Math.max(0, pendingSkip - text.length);
+      output.push(visible);
+    }
+  }
+
+  return output.join('');
+}
+
+function readInfo(rtf: string): DocumentProperties {
+  const readField = (field: string) => {
+    const match = rtf.match(new RegExp(`\\{\\\\${field}\\s+((?:[^{}\\\\]|\\\\.)*)\\}`));
+    return match ? rtfToText(match[1]) : undefined;
+  };
+
+  return cleanProperties({
+    title: readField('title'),
+    author: readField('author'),
+    subject: readField('subject'),
+    keywords: readField('keywords'),
+    createdAt: readRtfDate(rtf, 'creatim'),
+    modifiedAt: readRtfDate(rtf, 'revtim'),
+  });
+}
+
+function readRtfDate(rtf: string, field: string): string | undefined {
+  const match = rtf.match(new RegExp(`\\\\${field}\\\\yr(\\d{4})(?:\\\\mo(\\d{1,2}))?(?:\\\\dy(\\d{1,2}))?(?:\\\\hr(\\d{1,2}))?(?:\\\\min(\\d{1,2}))?`));
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month = '1', day = '1', hour = '0', minute = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute)).toISOString();
+}
@@ -0,0 +1,76 @@
+/**
+ * Text extraction types
+ * Shared contracts for extractors and OCR engines
+ */
+
+export interface ExtractionInput {
+  buffer: Buffer;
+  mimeType: string;
+  originalName: string;
+}
+
+export interface ExtractedPage {
+  pageNumber: number; // 1-based
+  text: string;
+  source: 'text-layer' | 'ocr';
+  confidence: number; // 0-1
+}
+
+export interface DocumentProperties {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  createdAt?: string; // ISO 8601
+  modifiedAt?: string; // ISO 8601
+}
+
+export interface ExtractionResult {
+  text: string;
+  confidence: number; // 0-1
+  language: string; // ISO 639-1 code or 'unknown'
+  extractor: string;
+
+  // Multi-page documents only
+  pages?: ExtractedPage[];
+  totalPages?: number;
+
+  // Embedded document metadata, when the format has any
+  properties?: DocumentProperties;
+}
+
+export interface TextExtractor {
+  readonly name: string;
+  supports(mimeType: string): boolean;
+  extract(input: ExtractionInput): Promise<ExtractionResult>;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-1
+}
+
+export interface OcrEngine {
+  readonly name: string;
+  readonly model: string; // what its results depend on, e.g. languages; part of cached results' key
+  recognize(image: Buffer): Promise<OcrResult>;
+  terminate(): Promise<void>;
+}
+
+export class UnsupportedFileTypeError extends Error {
+  readonly code = 'UNSUPPORTED_FILE_TYPE';
+
+  constructor(mimeType: string) {
+    super(`No text extractor available for ${mimeType}`);
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
+
+export class DocumentTooLargeError extends Error {
+  readonly code = 'DOCUMENT_TOO_LARGE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentTooLargeError';
+  }
+}
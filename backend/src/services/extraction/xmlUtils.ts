@@ -0,0 +1,67 @@
+/**
+ * Minimal XML helpers for reading Office Open XML parts.
+ * The parts we read are machine-generated and well-formed, so a
+ * regex pass is enough and avoids pulling in a full XML parser.
+ */
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      // Characters XML doesn't allow (e.g. &#0; or past U+10FFFF) stay as written
+      return isXmlChar(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function isXmlChar(codePoint: number): boolean {
+  return codePoint === 0x9 || codePoint === 0xa || codePoint === 0xd
+    || (codePoint >= 0x20 && codePoint <= 0xd7ff)
+    || (codePoint >= 0xe000 && codePoint <= 0xfffd)
+    || (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+}
+
+/**
+ * Return the decoded text content of every <tag> element in order
+ */
+export function readElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => decodeXmlEntities(match[1]));
+}
+
+/**
+ * Return the raw inner XML of every <tag> element in order
+ */
+export function readBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+/**
+ * Return the decoded attributes of every <tag> element in order
+ */
+export function readAttributes(xml: string, tag: string): Record<string, string>[] {
+  const pattern = new RegExp(`<${tag}(\\s[^>]*?)?/?>`, 'g');
+  return Array.from(xml.matchAll(pattern), ([, attributes = '']) => Object.fromEntries(
+    Array.from(
+      attributes.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g),
+      ([, name, doubleQuoted, singleQuoted]) => [name, decodeXmlEntities(doubleQuoted ?? singleQuoted)],
+    )
+  ));
+}
+
+export function readFirstElement(xml: string, tag: string): string | undefined {
+  const [value] = readElements(xml, tag);
+  return value?.trim() || undefined;
+}
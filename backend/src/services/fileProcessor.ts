@@ -0,0 +1,209 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { DatabaseService, FileDocument } from '../config/database';
+import { getTaxonomyCategory } from '../config/taxonomy';
+import { ExtractionResult, TextExtractionService } from './extraction';
+import { ClassificationService } from './classification';
+import { computeTextSignature } from './duplicates';
+import { NameCandidate, NamingService } from './naming';
+import { RulesService } from './rules';
+import { SearchService } from './search';
+import { TagService } from './tags';
+import { HistoryService } from './history';
+import { EmbeddingService } from './embeddings';
+import { FileProcessingStage } from './processingEvents';
+
+/**
+ * File Processor
+ * Text extraction, AI naming and auto-filing pipeline shared by the API and the job worker
+ */
+
+export class FileNotFoundError extends Error {
+  constructor(fileId: string) {
+    super(`File ${fileId} not found`);
+    this.name = 'FileNotFoundError';
+  }
+}
+
+export type StageReporter = (
+  stage: FileProcessingStage,
+  details?: {
+    suggestedName?: string;
+    nameCandidates?: NameCandidate[];
+    isRenamed?: boolean;
+    category?: string;
+    categoryLabel?: string;
+    tags?: string[];
+  }
+) => void;
+
+/**
+ * Run the full pipeline for one file: extract text, then suggest a name.
+ * Folder, tag and name changes are recorded against `sessionId` so the
+ * session can be undone as a whole.
+ */
+export async function processFile(
+  fileId: string,
+  reportStage: StageReporter = () => {},
+  sessionId?: string
+): Promise<void> {
+  try {
+    const file = await DatabaseService.getFile(fileId);
+    if (!file) {
+      throw new FileNotFoundError(fileId);
+    }
+
+    // Results were copied from an identical earlier upload
+    if (file.duplicateOf && file.processingStatus === 'completed' && file.suggestedName) {
+      reportStage('renamed', {
+        suggestedName: file.suggestedName,
+        nameCandidates: file.nameCandidates || [],
+        isRenamed: !!file.isRenamed,
+        category: file.category,
+        categoryLabel: file.category && getTaxonomyCategory(file.category)?.label,
+        tags: file.tags || [],
+      });
+      return;
+    }
+
+    // Mark file as processing
+    await DatabaseService.updateFile(fileId, {
+      processingStatus: 'processing',
+    });
+
+    reportStage('extracting');
+    const extraction = await extractAndStoreText(file);
+    
+    // Read structured fields, then name the file with the owner's provider tier and template
+    reportStage('analyzing');
+    const owner = file.userId === 'guest' ? null : await DatabaseService.getUser(file.userId);
+    const request = {
+      extractedText: buildContentExcerpt(extraction),
+      originalFilename: file.originalName,
+      fileType: file.fileType,
+      properties: extraction.properties,
+    };
+    const [metadata, classification] = await Promise.all([
+      NamingService.extractMetadata(request, owner),
+      ClassificationService.classify(request, owner),
+    ]);
+    await DatabaseService.updateFile(fileId, {
+      metadata,
+      category: classification.category,
+      classification,
+    });
+
+    // Auto-filing rules can pick a folder, tags and a naming template;
+    // category and vendor tags are added on top unless the owner opted out
+    const filing = owner
+      ? await RulesService.evaluate(owner.uid, {
+        ...file,
+        extractedText: extraction.text,
+        metadata,
+        category: classification.category,
+      })
+      : undefined;
+    const changeContext = { actorId: 'system', sessionId };
+    let filed = file;
+    if (owner && filing) {
+      const ruleTags = await TagService.ensureTags(owner.uid, filing.tags, 'rule');
+      const autoTags = await TagService.ensureTags(
+        owner.uid,
+        TagService.autoTags(owner, metadata, classification.category),
+        'auto'
+      );
+      filed = await RulesService.apply(file, { ...filing, tags: [...ruleTags, ...autoTags] }, changeContext);
+    }
+
+    const { filename: suggestedName, candidates } = await NamingService.nameFile(request, owner, {
+      metadata,
+      template: filing?.filenameTemplate,
+    });
+
+    // Update file with results
+    await DatabaseService.updateFile(fileId, {
+      suggestedName,
+      nameCandidates: candidates,
+      processingStatus: 'completed',
+      isProcessed: true,
+      processedAt: new Date() as any,
+    });
+
+    // Names wait for review unless the owner opted into renaming right away
+    if (owner?.settings?.autoRename) {
+      filed = await HistoryService.rename(filed, suggestedName, 'auto', changeContext);
+    }
+    reportStage('renamed', {
+      suggestedName,
+      nameCandidates: candidates,
+      isRenamed: !!filed.isRenamed,
+      category: classification.category,
+      categoryLabel: getTaxonomyCategory(classification.category)?.label,
+      tags: filed.tags || [],
+    });
+
+    await indexForSearch(fileId);
+
+  } catch (error) {
+    console.error(`Error processing file ${fileId}:`, error);
+    await DatabaseService.updateFile(fileId, {
+      processingStatus: 'failed',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Refresh a file in the keyword and vector indexes
+ */
+export async function indexForSearch(fileId: string): Promise<void> {
+  const file = await DatabaseService.getFile(fileId);
+  if (file) {
+    await Promise.all([SearchService.indexFile(file), EmbeddingService.indexFile(file)]);
+  }
+}
+
+/**
+ * Extract text from a file and persist the results on its document
+ */
+export async function extractAndStoreText(file: FileDocument): Promise<ExtractionResult> {
+  const extraction = await TextExtractionService.extractFromFile(file);
+  const textSignature = computeTextSignature(extraction.text);
+
+  await DatabaseService.updateFile(file.id, {
+    extractedText: extraction.text,
+    extractionConfidence: extraction.confidence,
+    detectedLanguage: extraction.language,
+    ...(extraction.pages && {
+      extractedPages: extraction.pages,
+      pageCount: extraction.totalPages,
+    }),
+    ...(extraction.properties && { documentProperties: extraction.properties }),
+    // Too little text to sign: drop the signature of an earlier extraction
+    textSignature: textSignature ?? FieldValue.delete(),
+  });
+
+  return extraction;
+}
+
+function buildContentExcerpt(extraction: ExtractionResult, maxLength: number = 2000): string {
+  if (!extraction.pages || extraction.pages.length <= 1) {
+    return extraction.text;
+  }
+
+  // Lead with the first page (titles, parties, dates) and sample the rest
+  const [firstPage, ...otherPages] = extraction.pages.filter(page => page.text.length > 0);
+  if (!firstPage) {
+    return extraction.text;
+  }
+
+  let excerpt = `[Page ${firstPage.pageNumber} of ${extraction.totalPages}]\n${firstPage.text.substring(0, maxLength / 2)}`;
+  for (const page of otherPages) {
+    const remaining = maxLength - excerpt.length;
+    if (remaining <= 0) {
+      break;
+    }
+    excerpt += `\n[Page ${page.pageNumber}]\n${page.text.substring(0, Math.min(remaining, 300))}`;
+  }
+
+  return excerpt;
+}
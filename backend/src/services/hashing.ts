@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+
+/**
+ * Content hashing
+ * SHA-256 of stored files, used to spot exact duplicates, and of text and
+ * requests, used to address cached results
+ */
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 32-bit FNV-1a of a string, as an unsigned integer
+ */
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(xor32(hash, value.charCodeAt(i)), 0x01000193);
+  }
+  return toUint32(hash);
+}
+
+/**
+ * Unsigned 32-bit XOR, the one bitwise step the hashes above need
+ * (this file is exempt from no-bitwise, see .eslintrc.js)
+ */
+export function xor32(a: number, b: number): number {
+  return (a ^ b) >>> 0;
+}
+
+/**
+ * Wrap an integer (e.g. Math.imul's signed result) into 0..2^32-1
+ */
+export function toUint32(value: number): number {
+  return ((value % 0x100000000) + 0x100000000) % 0x100000000;
+}
@@ -0,0 +1,322 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import path from 'path';
+import {
+  DatabaseService,
+  FileDocument,
+  FileEventDocument,
+  FileState,
+  FileUpdates,
+  NameStatus,
+  ProcessingSessionDocument,
+} from '../../config/database';
+import { SearchService } from '../search';
+import { EmbeddingService } from '../embeddings';
+import { resolveConflict, sanitizeFilename } from '../naming/sanitize';
+import { StorageObjectNotFoundError, StorageService } from '../storage';
+import { resolveStacks } from './stacks';
+
+/**
+ * File History
+ * Renames, moves and tag changes go through here so each one is stored as
+ * a `file_events` entry (who, when, before/after). Undo and redo are
+ * events too: they revert or re-apply an earlier change, newest first.
+ * Name changes also move the stored object, so downloads carry the new name.
+ */
+
+export type FileChangeAction = 'rename' | 'move' | 'tag';
+
+export class FileChangedError extends Error {
+  constructor() {
+    super('The file changed while the change was being applied');
+    this.name = 'FileChangedError';
+  }
+}
+
+export interface ChangeContext {
+  actorId: string; // uid, 'guest' or 'system'
+  sessionId?: string;
+}
+
+export interface FileChange {
+  file: FileDocument;
+  updates: FileState;
+}
+
+interface ObjectMove {
+  from: string;
+  to: string;
+}
+
+const TRACKED_FIELDS: (keyof FileState)[] = ['newName', 'isRenamed', 'nameStatus', 'folderPath', 'tags'];
+
+/**
+ * A file's current value for each tracked field in `fields`
+ */
+export function getFileState(file: FileDocument, fields: (keyof FileState)[] = TRACKED_FIELDS): FileState {
+  const current: Required<FileState> = {
+    newName: file.newName || null,
+    isRenamed: !!file.isRenamed,
+    nameStatus: file.nameStatus || 'pending',
+    folderPath: file.folderPath || '',
+    tags: file.tags || [],
+  };
+  return Object.fromEntries(fields.map(field => [field, current[field]]));
+}
+
+export class HistoryService {
+  /**
+   * Apply changes to files and record an event for each file that changed;
+   * returns the updated files
+   */
+  static async record(
+    action: FileChangeAction,
+    changes: FileChange[],
+    context: ChangeContext
+  ): Promise<FileDocument[]> {
+    const effective = changes
+      .map(({ file, updates }) => ({
+        file,
+        before: getFileState(file, Object.keys(updates) as (keyof FileState)[]),
+        after: updates,
+      }))
+      .filter(({ before, after }) => !isSameState(before, after));
+
+    const moves = await this.moveObjects(effective);
+    await this.revertMovesOnError(moves, () => DatabaseService.applyFileChanges(effective.map(({ file, before, after }) => ({
+      fileId: file.id,
+      updates: { ...toFileUpdates(after), ...withStorageKey(moves.get(file.id)) },
+      event: {
+        userId: file.userId,
+        actorId: context.actorId,
+        action,
+        ...(context.sessionId && { sessionId: context.sessionId }),
+        before,
+        after,
+      },
+    }))));
+
+    return this.reindex(
+      effective.map(({ file, after }) => ({ ...applyState(file, after), ...withStorageKey(moves.get(file.id)) })),
+      action === 'rename'
+    );
+  }
+
+  /**
+   * Rename a file to `basename` plus its original extension, sanitized and
+   * suffixed (" (2)") when another file in the same folder has that name
+   */
+  static async rename(
+    file: FileDocument,
+    basename: string,
+    nameStatus: NameStatus,
+    context: ChangeContext
+  ): Promise<FileDocument> {
+    const extension = path.extname(file.originalName);
+    const requested = sanitizeFilename(extension && basename.toLowerCase().endsWith(extension.toLowerCase())
+      ? basename
+      : `${basename}${extension}`);
+    // Guests share one account, so their files never conflict
+    const newName = file.userId === 'guest' ? requested : await resolveConflict(requested, async candidate => (
+      (await DatabaseService.getFilesByNewName(file.userId, candidate))
+        .some(other => other.id !== file.id && (other.folderPath || '') === (file.folderPath || ''))
+    ));
+
+    const [updated = file] = await this.record('rename', [{ file, updates: { newName, isRenamed: true, nameStatus } }], context);
+    return updated;
+  }
+
+  /**
+   * Revert the file's latest change; null when there is nothing to undo.
+   * Throws FileChangedError when another change got to the file first.
+   */
+  static async undo(file: FileDocument, actorId: string): Promise<{ file: FileDocument; event: FileEventDocument } | null> {
+    const { applied } = resolveStacks(await DatabaseService.getFileEvents(file.id));
+    const target = applied.pop();
+    return target ? this.replay(file, target, 'undo', actorId) : null;
+  }
+
+  /**
+   * Re-apply the file's most recently undone change; null when there is
+   * nothing to redo (a new change clears the redo history)
+   */
+  static async redo(file: FileDocument, actorId: string): Promise<{ file: FileDocument; event: FileEventDocument } | null> {
+    const { undone } = resolveStacks(await DatabaseService.getFileEvents(file.id));
+    const target = undone.pop();
+    return target ? this.replay(file, target, 'redo', actorId) : null;
+  }
+
+  /**
+   * Undo every change made during a processing session, newest first, as
+   * long as nothing newer was changed on top of it
+   */
+  static async undoSession(session: ProcessingSessionDocument, actorId: string): Promise<FileDocument[]> {
+    const files = await DatabaseService.getFilesByIds(session.fileIds);
+    const updated: FileDocument[] = [];
+
+    for (let file of files) {
+      const { applied } = resolveStacks(await DatabaseService.getFileEvents(file.id));
+      let changed = false;
+      while (applied.length > 0 && applied[applied.length - 1].sessionId === session.id) {
+        file = (await this.replay(file, applied.pop()!, 'undo', actorId)).file;
+        changed = true;
+      }
+      if (changed) {
+        updated.push(file);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * A file's events, oldest first, with whether each can still be undone
+   * or redone
+   */
+  static async getHistory(fileId: string): Promise<(FileEventDocument & { status: 'applied' | 'undone' | null })[]> {
+    const events = await DatabaseService.getFileEvents(fileId);
+    const { applied, undone } = resolveStacks(events);
+    const appliedIds = new Set(applied.map(event => event.id));
+    const undoneIds = new Set(undone.map(event => event.id));
+
+    return events.map(event => ({
+      ...event,
+      status: appliedIds.has(event.id) ? 'applied' : undoneIds.has(event.id) ? 'undone' : null,
+    }));
+  }
+
+  private static async replay(
+    file: FileDocument,
+    target: FileEventDocument,
+    action: 'undo' | 'redo',
+    actorId: string
+  ): Promise<{ file: FileDocument; event: FileEventDocument }> {
+    const after = action === 'undo' ? target.before : target.after;
+    const before = getFileState(file, Object.keys(after) as (keyof FileState)[]);
+    const event = {
+      userId: file.userId,
+      actorId,
+      action,
+      ...(target.sessionId && { sessionId: target.sessionId }),
+      targetEventId: target.id,
+      before,
+      after,
+    };
+
+    const stack = action === 'undo' ? 'applied' : 'undone';
+    const moves = await this.moveObjects([{ file, after }]);
+    const eventId = await this.revertMovesOnError(moves, async () => {
+      const id = await DatabaseService.applyFileChangeIfCurrent(
+        file.id,
+        { updates: { ...toFileUpdates(after), ...withStorageKey(moves.get(file.id)) }, event },
+        // Two undos at once must not both revert the same event
+        (current, events) => current.storageKey === file.storageKey
+          && isSameState(getFileState(current), getFileState(file))
+          && resolveStacks(events)[stack].slice(-1)[0]?.id === target.id
+      );
+      if (!id) {
+        throw new FileChangedError();
+      }
+      return id;
+    });
+    const [updated] = await this.reindex(
+      [{ ...applyState(file, after), ...withStorageKey(moves.get(file.id)) }],
+      after.newName !== undefined
+    );
+    return {
+      file: updated,
+      event: { ...event, id: eventId, fileId: file.id, createdAt: Timestamp.now() },
+    };
+  }
+
+  /**
+   * Move the stored objects of files whose name changes to
+   * "<uid>/<fileId>/<name>" (the original name when the rename is cleared)
+   */
+  private static async moveObjects(changes: { file: FileDocument; after: FileState }[]): Promise<Map<string, ObjectMove>> {
+    const moves = new Map<string, ObjectMove>();
+    const driver = StorageService.getDriver();
+
+    try {
+      for (const { file, after } of changes) {
+        if (after.newName === undefined) {
+          continue;
+        }
+        const from = StorageService.keyOf(file);
+        const to = StorageService.namedKey(file, sanitizeFilename(after.newName || file.originalName));
+        if (from === to) {
+          continue;
+        }
+        try {
+          await driver.move(from, to);
+          moves.set(file.id, { from, to });
+        } catch (error) {
+          if (!(error instanceof StorageObjectNotFoundError)) {
+            throw error;
+          }
+          // The name still changes; there's just no object to move
+          console.error(`Stored object missing for file ${file.id}:`, error);
+        }
+      }
+    } catch (error) {
+      await this.revertMoves(moves);
+      throw error;
+    }
+    return moves;
+  }
+
+  private static async revertMovesOnError<T>(moves: Map<string, ObjectMove>, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      await this.revertMoves(moves);
+      throw error;
+    }
+  }
+
+  private static async revertMoves(moves: Map<string, ObjectMove>): Promise<void> {
+    for (const [fileId, { from, to }] of moves) {
+      await StorageService.getDriver().move(to, from).catch(error => {
+        console.error(`Failed to move back the stored object of file ${fileId}:`, error);
+      });
+    }
+  }
+
+  private static async reindex(files: FileDocument[], renamed: boolean): Promise<FileDocument[]> {
+    for (const file of files) {
+      await SearchService.indexFile(file);
+      if (renamed) {
+        // Only the name is part of the embedded text
+        await EmbeddingService.indexFile(file);
+      }
+    }
+    return files;
+  }
+}
+
+function toFileUpdates(state: FileState): FileUpdates {
+  const { newName, ...rest } = state;
+  return {
+    ...rest,
+    // A cleared rename drops the field
+    ...(newName !== undefined && { newName: newName ?? FieldValue.delete() }),
+  };
+}
+
+function applyState(file: FileDocument, state: FileState): FileDocument {
+  const { newName, ...rest } = state;
+  return {
+    ...file,
+    ...rest,
+    ...(newName !== undefined && { newName: newName || undefined }),
+  };
+}
+
+function withStorageKey(move: ObjectMove | undefined): Partial<FileDocument> {
+  return move ? { storageKey: move.to } : {};
+}
+
+function isSameState(a: FileState, b: FileState): boolean {
+  return TRACKED_FIELDS.every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+}
+
+export default HistoryService;
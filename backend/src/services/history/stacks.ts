@@ -0,0 +1,32 @@
+import { FileEventDocument } from '../../config/database';
+
+/**
+ * Undo/redo stacks
+ * Rebuilt from a file's event log on every use, so they can't drift from it
+ */
+
+/**
+ * Replay the event log: changes push onto the applied stack (clearing the
+ * redo stack), undo moves the top change to the undone stack, redo moves it back
+ */
+export function resolveStacks(events: FileEventDocument[]): { applied: FileEventDocument[]; undone: FileEventDocument[] } {
+  const applied: FileEventDocument[] = [];
+  const undone: FileEventDocument[] = [];
+  const byId = new Map(events.map(event => [event.id, event]));
+
+  for (const event of events) {
+    if (event.action === 'undo' || event.action === 'redo') {
+      const [from, to] = event.action === 'undo' ? [applied, undone] : [undone, applied];
+      const index = from.findIndex(item => item.id === event.targetEventId);
+      if (index !== -1) {
+        from.splice(index, 1);
+        to.push(byId.get(event.targetEventId!)!);
+      }
+    } else {
+      applied.push(event);
+      undone.length = 0;
+    }
+  }
+
+  return { applied, undone };
+}
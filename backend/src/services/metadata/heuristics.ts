@@ -0,0 +1,124 @@
+import { getTaxonomyCategory, OTHER_CATEGORY_ID } from '../../config/taxonomy';
+import { classifyByKeywords, topCategory } from '../classification/keywordClassifier';
+import { DocumentProperties } from '../extraction';
+import { MetadataFields } from './types';
+
+/**
+ * Regex/heuristic metadata extraction
+ * Used offline and to fill fields the model left empty
+ */
+
+// Words stripped from letterhead lines when looking for the issuer
+const DOCUMENT_TYPES = ['invoice', 'receipt', 'statement', 'payslip', 'contract', 'report', 'letter'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const REFERENCE_PATTERN = /\b(?:invoice|inv|order|ref(?:erence)?|account|acct|policy|receipt|po|customer|case)\s*(?:no\.?|number|num|#|id)\s*[:.#]?\s*([A-Z0-9][A-Z0-9/-]{2,})/gi;
+
+const PERSON_PATTERNS = [
+  /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+([A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+){0,2})/g,
+  /\b(?:Name|Patient|Employee|Customer|Tenant|Attn|Bill To|Prepared For)\s*:\s*([A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+){1,2})/g,
+  /\bDear\s+([A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+){0,2}),/g,
+];
+
+export function extractHeuristicMetadata(extractedText: string, properties?: DocumentProperties): MetadataFields {
+  return {
+    documentType: findDocumentType(extractedText),
+    vendor: findVendor(extractedText, properties),
+    documentDate: findDate(extractedText, properties),
+    ...findAmount(extractedText),
+    referenceNumbers: findReferenceNumbers(extractedText),
+    people: findPeople(extractedText, properties),
+  };
+}
+
+function findDocumentType(text: string): string | null {
+  const { category } = topCategory(classifyByKeywords(text));
+  return category === OTHER_CATEGORY_ID ? null : getTaxonomyCategory(category)?.label.toLowerCase() || null;
+}
+
+function findDate(text: string, properties?: DocumentProperties): string | null {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return toIsoDate(+iso[1], +iso[2], +iso[3]);
+  }
+
+  // "August 30, 2023" / "30 Aug 2023"
+  const monthFirst = text.match(/\b([A-Za-z]{3,9})\.? (\d{1,2}),? (\d{4})\b/);
+  const dayFirst = text.match(/\b(\d{1,2}) ([A-Za-z]{3,9})\.?,? (\d{4})\b/);
+  const named = monthFirst
+    ? { month: monthFirst[1], day: +monthFirst[2], year: +monthFirst[3] }
+    : dayFirst && { month: dayFirst[2], day: +dayFirst[1], year: +dayFirst[3] };
+  const month = named ? MONTHS.indexOf(named.month.slice(0, 3).toLowerCase()) + 1 : 0;
+  if (named && month > 0) {
+    return toIsoDate(named.year, month, named.day);
+  }
+
+  // Numeric dates are read day-first unless that's impossible
+  const numeric = text.match(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/);
+  if (numeric) {
+    const [first, second, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    return first > 12 || second <= 12 ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  return properties?.createdAt?.slice(0, 10) || null;
+}
+
+function findAmount(text: string): Pick<MetadataFields, 'totalAmount' | 'currency'> {
+  const match = text.match(/\b(?:total|amount due|amount|balance due)\b[^\d\n]{0,20}?([$€£¥₹])?\s?(\d{1,3}(?:[,\s]\d{3})*(?:\.\d{2})|\d+\.\d{2})/i);
+  if (!match || match.index === undefined) {
+    return { totalAmount: null, currency: null };
+  }
+
+  // ISO codes are upper case and may follow the number ("142.50 EUR")
+  const after = text.slice(match.index + match[0].length).match(/^ ?([A-Z]{3})\b/);
+  return {
+    totalAmount: parseFloat(match[2].replace(/[,\s]/g, '')),
+    currency: after?.[1] || (match[1] && CURRENCY_SYMBOLS[match[1]]) || null,
+  };
+}
+
+function findVendor(text: string, properties?: DocumentProperties): string | null {
+  // Letterheads usually put the issuer on one of the first lines
+  const firstLines = text.split('\n').map(line => line.trim()).filter(Boolean).slice(0, 5);
+  for (const line of firstLines) {
+    const cleaned = line
+      .replace(new RegExp(`\\b(${DOCUMENT_TYPES.join('|')})\\b|\\b(from|to)\\b|[-–:]`, 'gi'), ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (cleaned.length >= 3 && cleaned.length <= 40 && !/\d/.test(cleaned)) {
+      return cleaned;
+    }
+  }
+
+  return properties?.author || null;
+}
+
+function findReferenceNumbers(text: string): string[] {
+  const references = Array.from(text.matchAll(REFERENCE_PATTERN), match => match[1])
+    // Require a digit so words like "Number" aren't picked up
+    .filter(reference => /\d/.test(reference));
+  return unique(references).slice(0, 10);
+}
+
+function findPeople(text: string, properties?: DocumentProperties): string[] {
+  const people = PERSON_PATTERNS.flatMap(pattern => Array.from(text.matchAll(pattern), match => match[1].trim()));
+  if (properties?.author && /^[\p{L}.'-]+(?:\s+[\p{L}.'-]+){1,3}$/u.test(properties.author)) {
+    people.push(properties.author);
+  }
+  return unique(people).slice(0, 10);
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,8 @@
+/**
+ * Document Metadata
+ * Types, validation and heuristic extraction for structured document fields
+ */
+
+export * from './types';
+export { extractHeuristicMetadata } from './heuristics';
+export { mergeMetadata, sanitizeMetadata } from './validation';
@@ -0,0 +1,29 @@
+/**
+ * Structured document metadata
+ * Fields read from a document by the model, with heuristic fallbacks
+ */
+
+export interface DocumentMetadata {
+  documentType: string | null; // lower case, e.g. "invoice"
+  vendor: string | null; // issuer, merchant or sender
+  documentDate: string | null; // YYYY-MM-DD
+  totalAmount: number | null;
+  currency: string | null; // ISO 4217 code
+  referenceNumbers: string[];
+  people: string[];
+
+  // Where the values came from ('model' may still include heuristic fill-ins)
+  source: 'model' | 'heuristic';
+}
+
+export type MetadataFields = Omit<DocumentMetadata, 'source'>;
+
+export const EMPTY_METADATA: MetadataFields = {
+  documentType: null,
+  vendor: null,
+  documentDate: null,
+  totalAmount: null,
+  currency: null,
+  referenceNumbers: [],
+  people: [],
+};
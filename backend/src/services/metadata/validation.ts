@@ -0,0 +1,60 @@
+import Joi from 'joi';
+import { EMPTY_METADATA, MetadataFields } from './types';
+
+/**
+ * Validation for model-produced metadata
+ * Each field is checked on its own so one bad value doesn't discard the rest
+ */
+
+const MAX_LIST_ITEMS = 20;
+
+const FIELD_SCHEMAS: Record<keyof MetadataFields, Joi.Schema> = {
+  documentType: Joi.string().trim().lowercase().max(50).allow(null),
+  vendor: Joi.string().trim().max(100).allow(null),
+  documentDate: Joi.string().trim().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null),
+  totalAmount: Joi.number().min(0).allow(null),
+  currency: Joi.string().trim().uppercase().length(3).pattern(/^[A-Z]{3}$/).allow(null),
+  referenceNumbers: Joi.array().items(Joi.string().trim().max(64)).max(MAX_LIST_ITEMS),
+  people: Joi.array().items(Joi.string().trim().max(100)).max(MAX_LIST_ITEMS),
+};
+
+/**
+ * Keep the fields of an untrusted object that pass validation
+ */
+export function sanitizeMetadata(raw: unknown): Partial<MetadataFields> {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const input = raw as Record<string, unknown>;
+  const result: Partial<Record<keyof MetadataFields, unknown>> = {};
+
+  for (const field of Object.keys(FIELD_SCHEMAS) as (keyof MetadataFields)[]) {
+    const value = input[field] === '' ? null : input[field];
+    if (value === undefined) {
+      continue;
+    }
+
+    const { error, value: validated } = FIELD_SCHEMAS[field].validate(value, { convert: true });
+    if (!error) {
+      result[field] = validated;
+    }
+  }
+
+  return result as Partial<MetadataFields>;
+}
+
+/**
+ * Fill gaps in `primary` with values from `fallback`
+ */
+export function mergeMetadata(primary: Partial<MetadataFields>, fallback: Partial<MetadataFields>): MetadataFields {
+  const merged = { ...EMPTY_METADATA };
+
+  for (const field of Object.keys(EMPTY_METADATA) as (keyof MetadataFields)[]) {
+    const value = primary[field];
+    const isEmpty = value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+    (merged as Record<string, unknown>)[field] = isEmpty ? fallback[field] ?? EMPTY_METADATA[field] : value;
+  }
+
+  return merged;
+}
@@ -0,0 +1,267 @@
+import {
+  getLocalLlmConfig,
+  getNamingCandidateCount,
+  getNamingConfig,
+  NamingTier,
+} from '../../config/naming';
+import path from 'path';
+import { DatabaseService, FileDocument, NamingFeedbackDocument, UserDocument } from '../../config/database';
+import { DocumentMetadata, extractHeuristicMetadata, mergeMetadata, MetadataFields } from '../metadata';
+import { ResultCacheService } from '../cache';
+import { hashContent } from '../hashing';
+import { OpenAINamingProvider } from './openAIProvider';
+import { RulesNamingProvider } from './rulesProvider';
+import { FilenameTemplateSettings, renderTemplate, TemplateValues, usesPlaceholder } from './template';
+import { derivePreferences, EMPTY_PREFERENCES, NamingPreferences } from './preferences';
+import { FILENAME_PROMPT_VERSION } from './prompt';
+import { agreementScore, blendScore, NamingSignals, rankCandidates } from './scoring';
+import { EXTENSION_RESERVE, MAX_FILENAME_BYTES, sanitizeFilename } from './sanitize';
+import { NameCandidate, NamingProvider, NamingRequest, NamingSuggestion } from './types';
+
+/**
+ * Naming Service
+ * Resolves the configured provider for a user's tier and falls back to
+ * the offline rules provider when it fails. Names come as ranked candidates;
+ * `filename`/`confidence` describe the best one. Model output isn't trusted:
+ * every candidate is sanitized before it's returned.
+ */
+
+export * from './types';
+export * from './template';
+export * from './sanitize';
+export { buildFilenamePrompt, FILENAME_PROMPT_VERSION } from './prompt';
+export { agreementScore, logprobScore, rankCandidates } from './scoring';
+export { applyPreferences, derivePreferences, EMPTY_PREFERENCES, NamingPreferences } from './preferences';
+
+// Preferences are re-derived at most this often unless the user corrects a name
+const PREFERENCES_TTL_MS = 10 * 60 * 1000;
+
+export interface NamingResult extends NamingSuggestion {
+  provider: string;
+  model: string;
+  candidates: NameCandidate[];
+}
+
+export interface NameFileOptions {
+  metadata?: MetadataFields;
+  template?: FilenameTemplateSettings; // overrides the owner's template
+}
+
+export class NamingService {
+  private static rules = new RulesNamingProvider();
+  private static providers = new Map<string, NamingProvider>();
+  private static preferences = new Map<string, { preferences: NamingPreferences; loadedAt: number }>();
+
+  /**
+   * Provider configured for a tier (instances are shared per provider/model)
+   */
+  static getProvider(tier: NamingTier): NamingProvider {
+    const { provider, model } = getNamingConfig(tier);
+    if (provider === 'rules') {
+      return this.rules;
+    }
+
+    const key = `${provider}:${model}`;
+    let instance = this.providers.get(key);
+    if (!instance) {
+      instance = provider === 'local'
+        ? new OpenAINamingProvider({ name: 'local', model, ...getLocalLlmConfig() })
+        : new OpenAINamingProvider({ name: 'openai', model, apiKey: process.env.OPENAI_API_KEY });
+      this.providers.set(key, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Read structured fields with the tier's provider; anything it can't
+   * provide (or an outright failure) falls back to heuristics
+   */
+  static async extractMetadata(request: NamingRequest, owner: UserDocument | null): Promise<DocumentMetadata> {
+    const provider = this.getProvider(owner?.role || 'guest');
+    const heuristics = extractHeuristicMetadata(request.extractedText, request.properties);
+    if (provider === this.rules) {
+      return { ...heuristics, source: 'heuristic' };
+    }
+
+    try {
+      const fields = await provider.extractMetadata(request);
+      return { ...mergeMetadata(fields, heuristics), source: 'model' };
+    } catch (error) {
+      console.error(`${provider.name} metadata extraction error, using heuristics:`, error);
+      return { ...heuristics, source: 'heuristic' };
+    }
+  }
+
+  /**
+   * Name a file for its owner (null for guests): the tier picks the provider
+   * and the filename template (a filing rule's, else the owner's) is filled
+   * from `metadata` (heuristic fields when not given)
+   */
+  static async nameFile(
+    request: NamingRequest,
+    owner: UserDocument | null,
+    options: NameFileOptions = {}
+  ): Promise<NamingResult> {
+    const tier: NamingTier = owner?.role || 'guest';
+    const template = options.template || owner?.settings?.filenameTemplate;
+    if (owner) {
+      request = { ...request, preferences: await this.getPreferences(owner.uid) };
+    }
+    const fields = options.metadata || extractHeuristicMetadata(request.extractedText, request.properties);
+    if (!template) {
+      return this.suggestFilenames(request, tier, fields);
+    }
+
+    const needsTitle = usesPlaceholder(template.template, 'title');
+    const titles = needsTitle
+      ? await this.suggestFilenames({ ...request, descriptionOnly: true }, tier, fields)
+      : { provider: this.rules.name, model: this.rules.model, candidates: [{ filename: '', score: 0, source: this.rules.name }] };
+
+    // Each title gives one rendering; without a title there's a single name,
+    // scored by how many fields the template could fill
+    const candidates = rankCandidates(titles.candidates.map(title => {
+      const filename = this.renderFilename(template, request, fields, title.filename);
+      return { ...title, filename, score: needsTitle ? title.score : agreementScore(filename, fields) };
+    }), getNamingCandidateCount());
+
+    return this.toResult(titles.provider, titles.model, candidates);
+  }
+
+  /**
+   * Ranked names from the tier's provider, topped up (or replaced, when
+   * it fails) by the rules provider
+   */
+  static async suggestFilenames(
+    request: NamingRequest,
+    tier: NamingTier,
+    signals: NamingSignals,
+    count = getNamingCandidateCount()
+  ): Promise<NamingResult> {
+    const provider = this.getProvider(tier);
+    const score = (suggestions: NamingSuggestion[], source: string): NameCandidate[] => suggestions.map(suggestion => ({
+      filename: suggestion.filename,
+      score: blendScore(suggestion.confidence, agreementScore(suggestion.filename, signals)),
+      source,
+    }));
+
+    let candidates: NameCandidate[] = [];
+    let used = provider;
+    try {
+      candidates = score(await this.cachedSuggestions(provider, request, count), provider.name);
+    } catch (error) {
+      if (provider === this.rules) {
+        throw error;
+      }
+      console.error(`${provider.name} filename generation error, using rules:`, error);
+      used = this.rules;
+    }
+
+    if (candidates.length < count && provider !== this.rules) {
+      candidates.push(...score(await this.rules.suggestFilenames(request, count), this.rules.name));
+    }
+
+    return this.toResult(used.name, used.model, rankCandidates(candidates, count));
+  }
+
+  /**
+   * Style preferences learned from the user's past choices
+   */
+  static async getPreferences(uid: string): Promise<NamingPreferences> {
+    const cached = this.preferences.get(uid);
+    if (cached && Date.now() - cached.loadedAt < PREFERENCES_TTL_MS) {
+      return cached.preferences;
+    }
+
+    try {
+      const feedback = await DatabaseService.getNamingFeedback(uid);
+      const preferences = derivePreferences(feedback.map(item => ({ suggested: item.suggestedName, accepted: item.acceptedName })));
+      this.preferences.set(uid, { preferences, loadedAt: Date.now() });
+      return preferences;
+    } catch (error) {
+      // Naming works without preferences
+      console.error('Load naming preferences error:', error);
+      return EMPTY_PREFERENCES;
+    }
+  }
+
+  /**
+   * Remember the name a user chose when it differs from the suggestion
+   */
+  static async recordChoice(file: FileDocument, chosenName: string, source: NamingFeedbackDocument['source']): Promise<void> {
+    const extension = path.extname(file.originalName);
+    const acceptedName = extension && chosenName.toLowerCase().endsWith(extension.toLowerCase())
+      ? chosenName.slice(0, -extension.length)
+      : chosenName;
+    if (!file.suggestedName || file.userId === 'guest' || acceptedName === file.suggestedName) {
+      return;
+    }
+
+    try {
+      await DatabaseService.addNamingFeedback({
+        userId: file.userId,
+        fileId: file.id,
+        suggestedName: file.suggestedName,
+        acceptedName,
+        source,
+      });
+      this.preferences.delete(file.userId);
+    } catch (error) {
+      // Losing one example isn't worth failing the rename
+      console.error('Record naming feedback error:', error);
+    }
+  }
+
+  /**
+   * The provider's suggestions, reused for the same request, model and
+   * prompt version; the offline rules provider isn't worth caching
+   */
+  private static async cachedSuggestions(
+    provider: NamingProvider,
+    request: NamingRequest,
+    count: number
+  ): Promise<NamingSuggestion[]> {
+    if (provider === this.rules) {
+      return provider.suggestFilenames(request, count);
+    }
+
+    return ResultCacheService.getOrCompute('naming', {
+      // Everything the prompt is built from
+      contentHash: hashContent(JSON.stringify({ ...request, count })),
+      provider: provider.name,
+      model: provider.model,
+      version: FILENAME_PROMPT_VERSION,
+    }, () => provider.suggestFilenames(request, count));
+  }
+
+  private static toResult(provider: string, model: string, candidates: NameCandidate[]): NamingResult {
+    // Bare names, so leave room for the extension added on rename;
+    // re-ranking drops candidates that only differed in stripped characters
+    const sanitized = rankCandidates(candidates.map(candidate => ({
+      ...candidate,
+      filename: sanitizeFilename(candidate.filename, { hasExtension: false, maxLength: MAX_FILENAME_BYTES - EXTENSION_RESERVE }),
+    })), candidates.length);
+    const [best = { filename: 'Document', score: 0 }] = sanitized;
+    return { filename: best.filename, confidence: best.score, provider, model, candidates: sanitized };
+  }
+
+  private static renderFilename(
+    template: FilenameTemplateSettings,
+    request: NamingRequest,
+    metadata: MetadataFields,
+    title: string
+  ): string {
+    const values: TemplateValues = {
+      title,
+      date: metadata.documentDate ? new Date(`${metadata.documentDate}T00:00:00`) : undefined,
+      docType: metadata.documentType || undefined,
+      vendor: metadata.vendor || undefined,
+      amount: metadata.totalAmount ?? undefined,
+      currency: metadata.currency || undefined,
+      original: request.originalFilename.replace(/\.[^.]+$/, ''),
+    };
+
+    return renderTemplate(template, values) || title || 'Document';
+  }
+}
+
+export default NamingService;
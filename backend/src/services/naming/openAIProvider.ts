@@ -0,0 +1,117 @@
+import { OpenAI } from 'openai';
+import { TaxonomyCategory } from '../../config/taxonomy';
+import { CategoryScores } from '../classification/types';
+import { MetadataFields, sanitizeMetadata } from '../metadata';
+import { buildClassificationPrompt, buildFilenamePrompt, buildMetadataPrompt } from './prompt';
+import { logprobScore } from './scoring';
+import { NamingProvider, NamingRequest, NamingSuggestion } from './types';
+
+/**
+ * Chat-completions naming provider
+ * Works with OpenAI and any OpenAI-compatible server (Ollama, llama.cpp)
+ * by pointing `baseURL` at it
+ */
+
+export interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export class OpenAINamingProvider implements NamingProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+  }
+
+  async suggestFilenames(request: NamingRequest, count: number): Promise<NamingSuggestion[]> {
+    const prompt = buildFilenamePrompt(request);
+
+    // Several samples need some temperature to differ
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: count > 1 ? 0.8 : 0.1,
+      max_tokens: 50,
+      n: count,
+      logprobs: true,
+    });
+
+    const suggestions = new Map<string, NamingSuggestion>();
+    const choices = completion.choices.filter(choice => choice.message?.content?.trim());
+    for (const choice of choices) {
+      const filename = choice.message.content!.trim();
+      const tokens = choice.logprobs?.content || [];
+      // Servers without log-probabilities (and some ignore `n`) are scored by
+      // how often the same name was sampled, capped below model certainty
+      const confidence = tokens.length > 0
+        ? logprobScore(tokens.map(token => token.logprob))
+        : 0.6 * choices.filter(other => other.message.content!.trim() === filename).length / choices.length;
+
+      if ((suggestions.get(filename)?.confidence ?? -1) < confidence) {
+        suggestions.set(filename, { filename, confidence });
+      }
+    }
+    if (suggestions.size === 0) {
+      throw new Error(`${this.name} returned an empty filename`);
+    }
+
+    return Array.from(suggestions.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async extractMetadata(request: NamingRequest): Promise<Partial<MetadataFields>> {
+    const content = await this.completeJson(buildMetadataPrompt(request), 400);
+    return sanitizeMetadata(JSON.parse(content));
+  }
+
+  async classifyDocument(request: NamingRequest, categories: TaxonomyCategory[]): Promise<CategoryScores> {
+    const content = await this.completeJson(buildClassificationPrompt(request, categories), 300);
+    const scores = (JSON.parse(content) as { scores?: Record<string, unknown> }).scores || {};
+
+    // Ignore categories the model made up and anything that isn't a probability
+    const result: CategoryScores = {};
+    for (const category of categories) {
+      const score = Number(scores[category.id]);
+      if (Number.isFinite(score) && score >= 0 && score <= 1) {
+        result[category.id] = score;
+      }
+    }
+    if (Object.keys(result).length === 0) {
+      throw new Error(`${this.name} returned no usable category scores`);
+    }
+
+    return result;
+  }
+
+  private async completeJson(prompt: string, maxTokens: number): Promise<string> {
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      max_tokens: maxTokens,
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`${this.name} returned an empty response`);
+    }
+    return content;
+  }
+
+  private getClient(): OpenAI {
+    // Created lazily: the SDK throws without an API key
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey,
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,224 @@
+import { formatDate } from './template';
+
+/**
+ * Naming preferences
+ * Learned from the names users chose over our suggestions: their date
+ * format, how they write vendor names, and words they always remove
+ */
+
+export interface NamingExample {
+  suggested: string;
+  accepted: string;
+}
+
+export interface NamingPreferences {
+  dateFormat?: string; // formatDate() format, e.g. 'YYYY-MM-DD'
+  aliases: Record<string, string>; // lower-case words as suggested -> the user's words
+  droppedWords: string[]; // lower case
+  examples: NamingExample[]; // most recent first
+}
+
+export const EMPTY_PREFERENCES: NamingPreferences = { aliases: {}, droppedWords: [], examples: [] };
+
+const MIN_DATE_FORMAT_VOTES = 2;
+const MIN_DROPS = 2;
+const MAX_EXAMPLES = 5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WORD_SEPARATORS = /([_\-\s.]+)/;
+
+interface DateMatch {
+  index: number;
+  length: number;
+  date: Date;
+  format: string;
+}
+
+interface DatePattern {
+  pattern: RegExp;
+  format: (match: RegExpExecArray) => string;
+  parts: (match: RegExpExecArray) => [string, string, string]; // year, month, day
+}
+
+// Most specific first; matched spans aren't matched again
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    pattern: /(?<!\d)(\d{4})([-_.]?)(\d{2})\2(\d{2})(?!\d)/g,
+    format: match => `YYYY${match[2]}MM${match[2]}DD`,
+    parts: match => [match[1], match[3], match[4]],
+  },
+  {
+    pattern: /(?<!\d)(\d{2})([-_.])(\d{2})\2(\d{4})(?!\d)/g,
+    format: match => `DD${match[2]}MM${match[2]}YYYY`,
+    parts: match => [match[4], match[3], match[1]],
+  },
+  {
+    pattern: /(?<![\p{L}])(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)(\p{L}*)([-_ ]?)(\d{4})(?!\d)/giu,
+    format: match => `${match[2] ? 'MMMM' : 'MMM'}${match[3]}YYYY`,
+    parts: match => [match[4], String(MONTHS.indexOf(match[1].toLowerCase()) + 1).padStart(2, '0'), '01'],
+  },
+  {
+    pattern: /(?<!\d)(\d{4})([-_.])(\d{2})(?![\d])/g,
+    format: match => `YYYY${match[2]}MM`,
+    parts: match => [match[1], match[3], '01'],
+  },
+];
+
+/**
+ * Dates written in a filename, in order
+ */
+export function findDates(name: string): DateMatch[] {
+  const matches: DateMatch[] = [];
+  const taken = (index: number, length: number) => matches.some(
+    match => index < match.index + match.length && match.index < index + length
+  );
+
+  for (const { pattern, format, parts } of DATE_PATTERNS) {
+    for (const match of Array.from(name.matchAll(pattern)) as RegExpExecArray[]) {
+      const [year, month, day] = parts(match).map(Number);
+      const valid = year >= 1900 && year <= 2099 && month >= 1 && month <= 12 && day >= 1 && day <= 31;
+      if (valid && !taken(match.index!, match[0].length)) {
+        matches.push({ index: match.index!, length: match[0].length, date: new Date(year, month - 1, day), format: format(match) });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Derive preferences from examples (most recent first)
+ */
+export function derivePreferences(examples: NamingExample[]): NamingPreferences {
+  const formatVotes = new Map<string, number>();
+  const aliases = new Map<string, string>();
+  const drops = new Map<string, number>();
+  const kept = new Set<string>();
+
+  // Oldest first so newer corrections win conflicting aliases
+  for (const { suggested, accepted } of [...examples].reverse()) {
+    for (const { format } of findDates(accepted)) {
+      formatVotes.set(format, (formatVotes.get(format) || 0) + 1);
+    }
+
+    const before = toWords(suggested);
+    const after = toWords(accepted);
+    const afterKeys = new Set(after.map(word => word.toLowerCase()));
+    const beforeKeys = new Set(before.map(word => word.toLowerCase()));
+
+    // Same word, different spelling (e.g. "ACME" -> "Acme")
+    for (const word of after) {
+      const original = before.find(item => item.toLowerCase() === word.toLowerCase());
+      if (original && original !== word) {
+        aliases.set(original.toLowerCase(), word);
+      }
+    }
+
+    const removed = before.filter(word => !afterKeys.has(word.toLowerCase()));
+    const added = after.filter(word => !beforeKeys.has(word.toLowerCase()));
+    if (removed.length > 0 && added.length > 0 && isContiguous(before, removed) && isContiguous(after, added)) {
+      // One run of words replaced by another, e.g. "ACME Corporation" -> "Acme"
+      aliases.set(removed.join(' ').toLowerCase(), added.join(' '));
+    } else if (added.length === 0) {
+      removed.forEach(word => drops.set(word.toLowerCase(), (drops.get(word.toLowerCase()) || 0) + 1));
+    }
+    before.filter(word => afterKeys.has(word.toLowerCase())).forEach(word => kept.add(word.toLowerCase()));
+  }
+
+  const [dateFormat] = Array.from(formatVotes.entries())
+    .filter(([, votes]) => votes >= MIN_DATE_FORMAT_VOTES)
+    .sort((a, b) => b[1] - a[1])
+    .map(([format]) => format);
+
+  return {
+    ...(dateFormat && { dateFormat }),
+    aliases: Object.fromEntries(aliases),
+    droppedWords: Array.from(drops.entries())
+      .filter(([word, count]) => count >= MIN_DROPS && !kept.has(word))
+      .map(([word]) => word),
+    examples: examples.slice(0, MAX_EXAMPLES),
+  };
+}
+
+/**
+ * Rewrite a name with the user's date format, aliases and dropped words
+ */
+export function applyPreferences(filename: string, preferences: NamingPreferences): string {
+  let name = filename;
+
+  if (preferences.dateFormat) {
+    for (const match of findDates(name).reverse()) {
+      name = name.slice(0, match.index) + formatDate(match.date, preferences.dateFormat) + name.slice(match.index + match.length);
+    }
+  }
+
+  const tokens = tokenize(name);
+  const aliasEntries = Object.entries(preferences.aliases).sort((a, b) => b[0].length - a[0].length);
+  const separator = tokens.find(token => token.separator)?.separator || '_';
+
+  const result: Token[] = [];
+  for (let i = 0; i < tokens.length;) {
+    const alias = aliasEntries.find(([from]) => {
+      const count = from.split(' ').length;
+      return tokens.slice(i, i + count).map(token => token.word).join(' ').toLowerCase() === from;
+    });
+    if (alias) {
+      const count = alias[0].split(' ').length;
+      result.push({ word: alias[1].split(' ').join(separator), separator: tokens[i + count - 1].separator });
+      i += count;
+    } else {
+      if (!preferences.droppedWords.includes(tokens[i].word.toLowerCase())) {
+        result.push(tokens[i]);
+      }
+      i += 1;
+    }
+  }
+
+  const rewritten = result
+    .map((token, index) => token.word + (index < result.length - 1 ? token.separator || separator : ''))
+    .join('');
+  return rewritten || filename;
+}
+
+interface Token {
+  word: string;
+  separator: string; // text up to the next word
+}
+
+// Words with the separators after them; a written date is one word
+function tokenize(name: string): Token[] {
+  const tokens: Token[] = [];
+  const pushText = (text: string) => {
+    for (const part of text.split(WORD_SEPARATORS)) {
+      if (!part) {
+        continue;
+      }
+      if (/^[_\-\s.]+$/.test(part)) {
+        if (tokens.length > 0) {
+          tokens[tokens.length - 1].separator += part;
+        }
+      } else {
+        tokens.push({ word: part, separator: '' });
+      }
+    }
+  };
+
+  let position = 0;
+  for (const match of findDates(name)) {
+    pushText(name.slice(position, match.index));
+    tokens.push({ word: name.slice(match.index, match.index + match.length), separator: '' });
+    position = match.index + match.length;
+  }
+  pushText(name.slice(position));
+  return tokens;
+}
+
+function toWords(name: string): string[] {
+  // Dates are handled by the date format and numbers vary per document
+  return tokenize(name).map(token => token.word).filter(word => !/\d/.test(word));
+}
+
+function isContiguous(words: string[], run: string[]): boolean {
+  const start = words.indexOf(run[0]);
+  return words.slice(start, start + run.length).join(' ') === run.join(' ');
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { TaxonomyCategory } from '../../config/taxonomy';
+import { NamingPreferences } from './preferences';
+import { NamingRequest } from './types';
+
+/**
+ * Prompts shared by all LLM providers
+ */
+
+const FILENAME_INSTRUCTIONS = `Generate a concise, descriptive filename (3-5 words) based on this document content.
+
+Rules:
+- Use title case with underscores (e.g., "Invoice_ACME_Corp_Aug_2023")
+- Include key entities like company names, dates, document types
+- No special characters except underscores
+- Maximum 50 characters
+- Be specific and descriptive
+- Don't include file extension`;
+
+// Used when a filename template already supplies dates, vendors and amounts
+const DESCRIPTION_INSTRUCTIONS = `Describe this document in 2-4 words for use inside a filename.
+
+Rules:
+- Name what the document is about (e.g., "Office Chair Purchase")
+- Don't include dates, amounts, document types or file extension
+- No special characters`;
+
+// Bump whenever a change changes the names a prompt gets: how the prompt is
+// assembled below, the preference section, or the provider's sampling settings
+const FILENAME_PROMPT_REVISION = 1;
+
+/**
+ * Version of the filename prompt template, part of cached names' key. Edits
+ * to the instruction text give a new one on their own; anything else needs
+ * FILENAME_PROMPT_REVISION bumped.
+ */
+export const FILENAME_PROMPT_VERSION = crypto
+  .createHash('sha256')
+  .update([FILENAME_PROMPT_REVISION, FILENAME_INSTRUCTIONS, DESCRIPTION_INSTRUCTIONS].join('\n'))
+  .digest('hex')
+  .slice(0, 16);
+
+export function buildFilenamePrompt(request: NamingRequest): string {
+  const { extractedText, originalFilename, fileType, properties, descriptionOnly, preferences } = request;
+
+  const metadataLines = [
+    properties?.title && `Document title: ${properties.title}`,
+    properties?.author && `Author: ${properties.author}`,
+    properties?.subject && `Subject: ${properties.subject}`,
+    properties?.createdAt && `Created: ${properties.createdAt.slice(0, 10)}`,
+  ].filter(Boolean);
+
+  return `
+${descriptionOnly ? DESCRIPTION_INSTRUCTIONS : FILENAME_INSTRUCTIONS}
+${preferences ? buildPreferenceSection(preferences, descriptionOnly) : ''}
+
+Original filename: ${originalFilename}
+File type: ${fileType || 'unknown'}
+${metadataLines.length > 0 ? `${metadataLines.join('\n')}\n` : ''}Document content: "${extractedText.substring(0, 2000)}"
+
+Suggested ${descriptionOnly ? 'description' : 'filename'}:`;
+}
+
+// The user's own corrections outrank the generic rules above
+function buildPreferenceSection(preferences: NamingPreferences, descriptionOnly?: boolean): string {
+  const lines = [
+    !descriptionOnly && preferences.dateFormat && `- Write dates as ${preferences.dateFormat}`,
+    ...Object.entries(preferences.aliases).map(([from, to]) => `- Write "${from}" as "${to}"`),
+    preferences.droppedWords.length > 0 && `- Never use the words: ${preferences.droppedWords.join(', ')}`,
+  ].filter(Boolean);
+
+  // Full filenames would teach a description prompt to add dates and types
+  const examples = descriptionOnly ? [] : preferences.examples.map(
+    example => `- Suggested "${example.suggested}", the user chose "${example.accepted}"`
+  );
+
+  return [
+    lines.length > 0 && `\nThis user's preferences (follow them over the rules above):\n${lines.join('\n')}`,
+    examples.length > 0 && `\nNames this user picked before (match their style):\n${examples.join('\n')}`,
+  ].filter(Boolean).join('\n');
+}
+
+export function buildMetadataPrompt(request: NamingRequest): string {
+  const { extractedText, originalFilename } = request;
+
+  return `
+Extract structured fields from this document and answer with a single JSON object:
+{
+  "documentType": string | null,     // lower case, e.g. "invoice", "receipt", "bank statement", "contract"
+  "vendor": string | null,           // company or person that issued the document
+  "documentDate": string | null,     // issue date as YYYY-MM-DD
+  "totalAmount": number | null,      // final total, without currency symbols
+  "currency": string | null,         // ISO 4217 code, e.g. "USD"
+  "referenceNumbers": string[],      // invoice, order, account or policy numbers
+  "people": string[]                 // names of people mentioned (not companies)
+}
+Use null or [] when a field isn't present. Don't guess.
+
+Original filename: ${originalFilename}
+Document content: "${extractedText.substring(0, 4000)}"`;
+}
+
+export function buildClassificationPrompt(request: NamingRequest, categories: TaxonomyCategory[]): string {
+  const { extractedText, originalFilename, fileType } = request;
+  const categoryLines = categories.map(category => `- ${category.id}: ${category.description}`);
+
+  return `
+Classify this document into the categories below. Answer with a single JSON object
+{"scores": {"<category id>": <probability 0-1>, ...}} covering every category id, summing to 1.
+
+Categories:
+${categoryLines.join('\n')}
+
+Original filename: ${originalFilename}
+File type: ${fileType || 'unknown'}
+Document content: "${extractedText.substring(0, 2000)}"`;
+}
@@ -0,0 +1,63 @@
+import { getTaxonomyCategory, OTHER_CATEGORY_ID, TaxonomyCategory } from '../../config/taxonomy';
+import { classifyByKeywords, topCategory } from '../classification/keywordClassifier';
+import { CategoryScores } from '../classification/types';
+import { extractHeuristicMetadata, MetadataFields } from '../metadata';
+import { applyPreferences } from './preferences';
+import { NamingProvider, NamingRequest, NamingSuggestion } from './types';
+
+/**
+ * Deterministic offline naming provider
+ * Keyword classifier and metadata rules; also the fallback when an LLM call fails
+ */
+
+export class RulesNamingProvider implements NamingProvider {
+  readonly name = 'rules';
+  readonly model = 'rules-v1';
+
+  async suggestFilenames(request: NamingRequest, count: number): Promise<NamingSuggestion[]> {
+    const { extractedText, fileType, properties, descriptionOnly } = request;
+    const date = (properties?.createdAt || new Date().toISOString()).slice(0, 10).replace(/-/g, '');
+    const withDate = (name: string) => (descriptionOnly ? name : `${name}_${date}`);
+    const toWords = (value: string) => value.replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+    const suggestions: NamingSuggestion[] = [];
+
+    // Embedded titles describe a document better than its category
+    const title = properties?.title && toWords(properties.title).slice(0, 40);
+
+    const { category, confidence } = topCategory(classifyByKeywords(extractedText, fileType));
+    const label = category !== OTHER_CATEGORY_ID && getTaxonomyCategory(category)?.label;
+    if (label) {
+      // Templates usually carry the document type themselves
+      const name = descriptionOnly && title ? title : toWords(label);
+      suggestions.push({ filename: withDate(name), confidence: Math.min(0.5, confidence) });
+    }
+
+    if (title) {
+      suggestions.push({ filename: withDate(title), confidence: 0.4 });
+    }
+
+    // Issuer plus document type, dated by the document itself when possible
+    const { vendor, documentType, documentDate } = extractHeuristicMetadata(extractedText, properties);
+    const kind = documentType || (label || '');
+    if (vendor && kind && !descriptionOnly) {
+      const vendorDate = documentDate ? documentDate.replace(/-/g, '') : date;
+      suggestions.push({ filename: `${toWords(vendor)}_${toWords(kind)}_${vendorDate}`, confidence: 0.35 });
+    }
+
+    suggestions.push({ filename: withDate('Document'), confidence: 0.1 });
+
+    // Rewrite in the owner's style (date format, vendor spellings, dropped words)
+    const { preferences } = request;
+    return suggestions.slice(0, count).map(suggestion => (
+      preferences ? { ...suggestion, filename: applyPreferences(suggestion.filename, preferences) } : suggestion
+    ));
+  }
+
+  async extractMetadata(request: NamingRequest): Promise<Partial<MetadataFields>> {
+    return extractHeuristicMetadata(request.extractedText, request.properties);
+  }
+
+  async classifyDocument(request: NamingRequest, _categories: TaxonomyCategory[]): Promise<CategoryScores> {
+    return classifyByKeywords(request.extractedText, request.fileType);
+  }
+}
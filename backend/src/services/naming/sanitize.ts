@@ -0,0 +1,153 @@
+/**
+ * Filename sanitization
+ * Names from models and users become valid on every filesystem a file may
+ * end up on: Unicode is NFC-normalized, characters a target forbids are
+ * transliterated or dropped, reserved Windows names are escaped and length
+ * is capped.
+ */
+
+export type TargetFilesystem = 'posix' | 'ios' | 'android' | 'windows';
+
+export interface SanitizeOptions {
+  targets?: TargetFilesystem[]; // defaults to all, since files move between devices
+  hasExtension?: boolean; // false for bare names such as suggestions (default true)
+  maxLength?: number; // UTF-8 bytes, and UTF-16 units on Windows (default 255)
+  fallback?: string; // used when nothing is left (default "Document")
+}
+
+export const MAX_FILENAME_BYTES = 255;
+
+// Room left for an extension when sanitizing bare names
+export const EXTENSION_RESERVE = 16;
+
+const ALL_TARGETS: TargetFilesystem[] = ['posix', 'ios', 'android', 'windows'];
+
+// Control characters are removed on every target
+const ILLEGAL_CHARACTERS: Record<TargetFilesystem, string> = {
+  posix: '/',
+  ios: '/:', // APFS shows ":" as "/" in Finder
+  android: '"*/:<>?\\|', // FAT rules, used for shared storage and SD cards
+  windows: '"*/:<>?\\|',
+};
+
+// Readable stand-ins; other illegal characters become "_"
+const TRANSLITERATIONS: Record<string, string> = {
+  '/': '-',
+  '\\': '-',
+  '|': '-',
+  ':': '-',
+  '"': '\'',
+  '<': '(',
+  '>': ')',
+  '*': '',
+  '?': '',
+};
+
+// Emoji (with modifiers and joiners), control and invisible format characters
+const UNWANTED = /\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|[⃣︎️]|\p{Cc}|\p{Cf}/gu;
+
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\.|$)/i;
+
+const EXTENSION = /\.[\p{L}\p{N}]{1,10}$/u;
+
+/**
+ * A version of `filename` that's valid on every target; the extension is kept
+ */
+export function sanitizeFilename(filename: string, options: SanitizeOptions = {}): string {
+  const targets = options.targets || ALL_TARGETS;
+  const maxLength = options.maxLength ?? MAX_FILENAME_BYTES;
+  const illegal = new Set(targets.flatMap(target => Array.from(ILLEGAL_CHARACTERS[target])));
+
+  // Split first, or "???.pdf" would be left as the hidden file ".pdf"
+  const normalized = filename.normalize('NFC');
+  const [rawBase, extension] = options.hasExtension === false ? [normalized, ''] : splitExtension(normalized);
+
+  const cleaned = Array.from(rawBase.replace(UNWANTED, ''))
+    .map(char => (illegal.has(char) ? TRANSLITERATIONS[char] ?? '_' : char))
+    .join('')
+    .replace(/\s+/g, ' ');
+
+  let base = trimName(cleaned.replace(/([_-])\1+/g, '$1'));
+  if (targets.includes('windows') && WINDOWS_RESERVED.test(base)) {
+    base = base.replace(/^[^.]+/, reserved => `${reserved}_`);
+  }
+
+  const budget = maxLength - measure(extension, targets);
+  return truncate(base || options.fallback || 'Document', budget, targets) + extension;
+}
+
+/**
+ * "Name.pdf" with n = 2 gives "Name (2).pdf"
+ */
+export function withSuffix(filename: string, n: number, options: SanitizeOptions = {}): string {
+  const targets = options.targets || ALL_TARGETS;
+  const [base, extension] = options.hasExtension === false ? [filename, ''] : splitExtension(filename);
+  const suffix = ` (${n})`;
+  const budget = (options.maxLength ?? MAX_FILENAME_BYTES) - measure(suffix + extension, targets);
+  return truncate(base, budget, targets) + suffix + extension;
+}
+
+/**
+ * Comparison key: most targets are case-insensitive
+ */
+export function filenameKey(filename: string, caseSensitive: boolean = false): string {
+  const normalized = filename.normalize('NFC');
+  return caseSensitive ? normalized : normalized.toLowerCase();
+}
+
+/**
+ * First of `filename`, "filename (2)", "filename (3)"... that isn't taken,
+ * for checks that need a lookup (e.g. the user's library)
+ */
+export async function resolveConflict(
+  filename: string,
+  isTaken: (candidate: string) => boolean | Promise<boolean>,
+  options: SanitizeOptions = {}
+): Promise<string> {
+  let candidate = filename;
+  for (let n = 2; await isTaken(candidate); n++) {
+    candidate = withSuffix(filename, n, options);
+  }
+  return candidate;
+}
+
+function splitExtension(filename: string): [string, string] {
+  const match = filename.match(EXTENSION);
+  // A leading dot marks a hidden file, not an extension
+  if (!match || match.index === 0) {
+    return [filename, ''];
+  }
+  return [filename.slice(0, match.index), match[0]];
+}
+
+function trimName(value: string): string {
+  // Leading dots hide files; Windows drops trailing dots and spaces
+  return value.replace(/^[\s._-]+|[\s._-]+$/g, '');
+}
+
+function measure(value: string, targets: TargetFilesystem[]): number {
+  const utf16Units = targets.includes('windows') ? value.length : 0;
+  const utf8Bytes = targets.some(target => target !== 'windows') ? utf8Length(value) : 0;
+  return Math.max(utf16Units, utf8Bytes);
+}
+
+function utf8Length(value: string): number {
+  let length = 0;
+  for (const char of value) {
+    const codePoint = char.codePointAt(0)!;
+    length += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+  }
+  return length;
+}
+
+function truncate(value: string, maxLength: number, targets: TargetFilesystem[]): string {
+  if (measure(value, targets) <= maxLength) {
+    return value;
+  }
+  // Whole code points only, so multi-byte characters are never split
+  const chars = Array.from(value);
+  while (chars.length > 0 && measure(chars.join(''), targets) > maxLength) {
+    chars.pop();
+  }
+  return trimName(chars.join(''));
+}
@@ -0,0 +1,86 @@
+import { MetadataFields } from '../metadata';
+import { NameCandidate } from './types';
+
+/**
+ * Candidate scoring
+ * Model confidence (token log-probabilities) is blended with how well a
+ * name agrees with the document's extracted fields
+ */
+
+const MODEL_WEIGHT = 0.7;
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+export type NamingSignals = Pick<MetadataFields, 'vendor' | 'documentDate' | 'documentType'>;
+
+/**
+ * Geometric mean of the token probabilities: 1 when the model was certain
+ * of every token
+ */
+export function logprobScore(logprobs: number[]): number {
+  if (logprobs.length === 0) {
+    return 0;
+  }
+  return Math.exp(logprobs.reduce((sum, value) => sum + value, 0) / logprobs.length);
+}
+
+/**
+ * Share of the known fields (vendor, date, document type) the name mentions;
+ * 0.5 when nothing is known
+ */
+export function agreementScore(filename: string, signals: NamingSignals): number {
+  const words = new Set(splitWords(filename));
+  const checks: boolean[] = [];
+
+  if (signals.vendor) {
+    checks.push(splitWords(signals.vendor).some(word => words.has(word)));
+  }
+  if (signals.documentType) {
+    checks.push(splitWords(signals.documentType).some(word => words.has(word)));
+  }
+  if (signals.documentDate) {
+    const [year, month] = signals.documentDate.split('-');
+    const monthName = MONTH_NAMES[parseInt(month, 10) - 1] || '';
+    const compact = filename.replace(/[^0-9]/g, '');
+    checks.push(
+      compact.includes(year)
+      || compact.includes(year.slice(2) + month)
+      || Array.from(words).some(word => word.length >= 3 && monthName.startsWith(word))
+    );
+  }
+
+  if (checks.length === 0) {
+    return 0.5;
+  }
+  return checks.filter(Boolean).length / checks.length;
+}
+
+export function blendScore(confidence: number, agreement: number): number {
+  const score = MODEL_WEIGHT * confidence + (1 - MODEL_WEIGHT) * agreement;
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Merge candidate lists: names differing only in case or punctuation count
+ * once (with their best score), best first
+ */
+export function rankCandidates(candidates: NameCandidate[], count: number): NameCandidate[] {
+  const unique = new Map<string, NameCandidate>();
+  for (const candidate of candidates) {
+    const key = splitWords(candidate.filename).join(' ');
+    const existing = unique.get(key);
+    if (key && (!existing || existing.score < candidate.score)) {
+      unique.set(key, candidate);
+    }
+  }
+
+  return Array.from(unique.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count);
+}
+
+function splitWords(value: string): string[] {
+  return value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
@@ -0,0 +1,157 @@
+/**
+ * Filename templates
+ * Renders user templates such as `{date:YYYY-MM-DD}_{vendor}_{docType}_{amount}`
+ */
+
+export type CaseStyle = 'preserve' | 'lower' | 'upper' | 'title' | 'camel';
+export type WordSeparator = '_' | '-' | ' ' | '.' | '';
+
+export interface FilenameTemplateSettings {
+  template: string;
+  caseStyle: CaseStyle;
+  separator: WordSeparator; // joins the words inside a placeholder value
+  maxLength: number;
+}
+
+export interface TemplateValues {
+  title?: string;
+  date?: Date;
+  docType?: string;
+  vendor?: string;
+  amount?: number;
+  currency?: string;
+  original?: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS: (keyof TemplateValues)[] = [
+  'title', 'date', 'docType', 'vendor', 'amount', 'currency', 'original',
+];
+export const CASE_STYLES: CaseStyle[] = ['preserve', 'lower', 'upper', 'title', 'camel'];
+export const WORD_SEPARATORS: WordSeparator[] = ['_', '-', ' ', '.', ''];
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+export const MAX_TEMPLATE_LENGTH = 255;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::([^{}]+))?\}/g;
+const DATE_TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Check a template; returns an error message or null if it's valid
+ */
+export function validateTemplate(template: string): string | null {
+  const placeholders = Array.from(template.matchAll(PLACEHOLDER_PATTERN));
+  if (placeholders.length === 0) {
+    return 'Template must contain at least one placeholder';
+  }
+
+  for (const [, name, format] of placeholders) {
+    if (!TEMPLATE_PLACEHOLDERS.includes(name as keyof TemplateValues)) {
+      return `Unknown placeholder {${name}} (expected one of: ${TEMPLATE_PLACEHOLDERS.join(', ')})`;
+    }
+    if (format && name !== 'date') {
+      return `Only {date} accepts a format, found {${name}:${format}}`;
+    }
+  }
+
+  const unmatchedBraces = template.replace(PLACEHOLDER_PATTERN, '');
+  if (/[{}]/.test(unmatchedBraces)) {
+    return 'Template has unbalanced braces';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a template uses a placeholder (e.g. to skip asking the model for a title)
+ */
+export function usesPlaceholder(template: string, name: keyof TemplateValues): boolean {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN)).some(([, placeholder]) => placeholder === name);
+}
+
+/**
+ * Fill a template. Empty placeholders are dropped along with the literal
+ * separator next to them, and the result is cut to maxLength.
+ */
+export function renderTemplate(settings: FilenameTemplateSettings, values: TemplateValues): string {
+  const rendered = settings.template.replace(PLACEHOLDER_PATTERN, (_match, name: keyof TemplateValues, format?: string) =>
+    formatValue(name, values, settings, format)
+  );
+
+  const cleaned = collapseSeparators(rendered);
+  return truncate(cleaned, settings.maxLength);
+}
+
+export function formatDate(date: Date, format: string = DEFAULT_DATE_FORMAT): string {
+  const year = date.getFullYear().toString();
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+
+  return format.replace(DATE_TOKEN_PATTERN, token => {
+    switch (token) {
+      case 'YYYY': return year;
+      case 'YY': return year.slice(-2);
+      case 'MMMM': return MONTH_NAMES[month - 1];
+      case 'MMM': return MONTH_NAMES[month - 1].slice(0, 3);
+      case 'MM': return month.toString().padStart(2, '0');
+      case 'M': return month.toString();
+      case 'DD': return day.toString().padStart(2, '0');
+      default: return day.toString();
+    }
+  });
+}
+
+function formatValue(
+  name: keyof TemplateValues,
+  values: TemplateValues,
+  settings: FilenameTemplateSettings,
+  format?: string,
+): string {
+  switch (name) {
+    case 'date':
+      // Date formats are literal: case and separator settings don't apply
+      return values.date ? formatDate(values.date, format) : '';
+    case 'amount':
+      return values.amount !== undefined ? values.amount.toFixed(2) : '';
+    default:
+      return formatWords(values[name] || '', settings.caseStyle, settings.separator);
+  }
+}
+
+function formatWords(value: string, caseStyle: CaseStyle, separator: WordSeparator): string {
+  const words = value.normalize('NFC').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+  switch (caseStyle) {
+    case 'lower':
+      return words.map(word => word.toLowerCase()).join(separator);
+    case 'upper':
+      return words.map(word => word.toUpperCase()).join(separator);
+    case 'title':
+      return words.map(capitalize).join(separator);
+    case 'camel':
+      return words.map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word.toLowerCase()))).join('');
+    default:
+      return words.join(separator);
+  }
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function collapseSeparators(name: string): string {
+  // "2023-08-30__Invoice_" -> "2023-08-30_Invoice"
+  return name
+    .replace(/([\s_.-])[\s_.-]+/g, '$1')
+    .replace(/^[\s_.-]+|[\s_.-]+$/g, '');
+}
+
+function truncate(name: string, maxLength: number): string {
+  if (name.length <= maxLength) {
+    return name;
+  }
+  return name.slice(0, maxLength).replace(/[\s_.-]+$/, '');
+}
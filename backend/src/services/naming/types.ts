@@ -0,0 +1,43 @@
+import { DocumentProperties } from '../extraction';
+import { TaxonomyCategory } from '../../config/taxonomy';
+import { CategoryScores } from '../classification/types';
+import { MetadataFields } from '../metadata';
+import { NamingPreferences } from './preferences';
+
+/**
+ * Naming provider contracts
+ */
+
+export interface NamingRequest {
+  extractedText: string;
+  originalFilename: string;
+  fileType?: string;
+  properties?: DocumentProperties;
+  // Ask for a short description only; a filename template supplies the rest
+  descriptionOnly?: boolean;
+  // Learned from the owner's past corrections
+  preferences?: NamingPreferences;
+}
+
+export interface NamingSuggestion {
+  filename: string;
+  confidence: number; // 0-1
+}
+
+// One of the ranked names offered for a file
+export interface NameCandidate {
+  filename: string; // without extension
+  score: number; // 0-1, model confidence blended with agreement with the document's fields
+  source: string; // provider name
+}
+
+export interface NamingProvider {
+  readonly name: string;
+  readonly model: string;
+  // Up to `count` distinct suggestions, best first
+  suggestFilenames(request: NamingRequest, count: number): Promise<NamingSuggestion[]>;
+  // Validated fields the provider could read; missing ones are filled in by heuristics
+  extractMetadata(request: NamingRequest): Promise<Partial<MetadataFields>>;
+  // Unnormalized 0-1 score per category id
+  classifyDocument(request: NamingRequest, categories: TaxonomyCategory[]): Promise<CategoryScores>;
+}
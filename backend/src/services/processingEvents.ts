@@ -0,0 +1,77 @@
+import { EventEmitter } from 'events';
+import { ProcessingSessionDocument } from '../config/database';
+import { NameCandidate } from './naming/types';
+
+/**
+ * Processing Events
+ * In-process pub/sub for live session and per-file progress
+ */
+
+export type FileProcessingStage = 'extracting' | 'analyzing' | 'renamed' | 'failed';
+
+export interface FileProcessingEvent {
+  type: 'file';
+  sessionId: string;
+  fileId: string;
+  stage: FileProcessingStage;
+  suggestedName?: string;
+  nameCandidates?: NameCandidate[];
+  isRenamed?: boolean;
+  category?: string;
+  categoryLabel?: string;
+  tags?: string[];
+  error?: string;
+}
+
+export interface SessionProcessingEvent {
+  type: 'session';
+  sessionId: string;
+  status: ProcessingSessionDocument['status'];
+  progress: number;
+  totalFiles: number;
+  processedFiles: number;
+  failedFiles: number;
+}
+
+export type ProcessingEvent = FileProcessingEvent | SessionProcessingEvent;
+
+class ProcessingEventBus {
+  private readonly emitter = new EventEmitter();
+  private readonly closers = new Set<() => void>();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ProcessingEvent): void {
+    this.emitter.emit(event.sessionId, event);
+  }
+
+  /**
+   * Listen to one session's events; `onClose` runs if the bus closes first.
+   * Returns an unsubscribe function.
+   */
+  subscribe(sessionId: string, listener: (event: ProcessingEvent) => void, onClose?: () => void): () => void {
+    this.emitter.on(sessionId, listener);
+    if (onClose) {
+      this.closers.add(onClose);
+    }
+    return () => {
+      this.emitter.off(sessionId, listener);
+      if (onClose) {
+        this.closers.delete(onClose);
+      }
+    };
+  }
+
+  /**
+   * End every subscription (on shutdown, so open streams don't keep the server up)
+   */
+  close(): void {
+    Array.from(this.closers).forEach(onClose => onClose());
+    this.closers.clear();
+  }
+}
+
+export const processingEvents = new ProcessingEventBus();
@@ -0,0 +1,200 @@
+import { DatabaseService, ProcessingJobDocument, ProcessingSessionDocument } from '../../config/database';
+import { DocumentTooLargeError, UnsupportedFileTypeError } from '../extraction';
+import { FileNotFoundError, processFile } from '../fileProcessor';
+import { processingEvents } from '../processingEvents';
+import { getQueueConfig } from '../../config/queue';
+import { JobOutcome, PermanentJobError, ProcessingWorker } from './processingWorker';
+
+/**
+ * Processing Queue
+ * Durable per-file jobs for processing sessions, backed by Firestore
+ */
+
+export { PermanentJobError } from './processingWorker';
+
+export class ProcessingQueue {
+  private static worker = new ProcessingWorker(
+    job => ProcessingQueue.handleJob(job),
+    (job, succeeded, errorMessage) => ProcessingQueue.settleJob(job, succeeded, errorMessage),
+  );
+
+  /**
+   * Queue one job per file in a session
+   */
+  static async enqueueSession(sessionId: string, userId: string, fileIds: string[]): Promise<void> {
+    await DatabaseService.createProcessingJobs(sessionId, userId, fileIds, getQueueConfig().maxAttempts);
+    this.worker.notify();
+  }
+
+  /**
+   * Park a session's queued jobs. Files already running finish normally.
+   */
+  static async pauseSession(sessionId: string): Promise<ProcessingSessionDocument | null> {
+    const result = await DatabaseService.transitionProcessingSession(
+      sessionId, ['processing'], 'paused', ['queued'], 'paused'
+    );
+    if (result) {
+      publishSession(result.session);
+    }
+    return result?.session ?? null;
+  }
+
+  /**
+   * Requeue a paused session's jobs
+   */
+  static async resumeSession(sessionId: string): Promise<ProcessingSessionDocument | null> {
+    const result = await DatabaseService.transitionProcessingSession(
+      sessionId, ['paused'], 'processing', ['paused'], 'queued'
+    );
+    if (result) {
+      publishSession(result.session);
+      this.worker.notify();
+    }
+    return result?.session ?? null;
+  }
+
+  /**
+   * Drop a session's pending jobs and refund the quota reserved for them.
+   * Files already running finish and are still counted.
+   */
+  static async cancelSession(sessionId: string): Promise<ProcessingSessionDocument | null> {
+    const result = await DatabaseService.transitionProcessingSession(
+      sessionId, ['pending', 'processing', 'paused'], 'cancelled', ['queued', 'paused'], 'cancelled'
+    );
+    if (!result) {
+      return null;
+    }
+
+    publishSession(result.session);
+    if (result.session.userId !== 'guest') {
+      await DatabaseService.refundFileCount(result.session.userId, result.jobsUpdated);
+    }
+    return result.session;
+  }
+
+  /**
+   * Give a session's failed files another full set of attempts. Their quota
+   * was refunded when they failed, so it is reserved again.
+   */
+  static async retrySession(sessionId: string): Promise<ProcessingSessionDocument | null> {
+    const result = await DatabaseService.retryDeadJobs(sessionId, ['processing', 'completed', 'failed']);
+    if (!result || result.jobsUpdated === 0) {
+      return result?.session ?? null;
+    }
+
+    publishSession(result.session);
+    if (result.session.userId !== 'guest') {
+      await DatabaseService.incrementFileCount(result.session.userId, result.jobsUpdated);
+    }
+    this.worker.notify();
+    return result.session;
+  }
+
+  /**
+   * Recover interrupted sessions and start the worker
+   */
+  static async start(): Promise<void> {
+    await this.recover();
+    this.worker.start();
+  }
+
+  static async stop(): Promise<void> {
+    await this.worker.stop();
+  }
+
+  /**
+   * Pick sessions left in "processing" back up: jobs whose worker died are
+   * requeued, and sessions created without jobs get them now
+   */
+  private static async recover(): Promise<void> {
+    const released = await this.worker.releaseExpiredLeases();
+    const sessions = await DatabaseService.getProcessingSessionsByStatus('processing');
+
+    const { maxAttempts } = getQueueConfig();
+    for (const session of sessions) {
+      await DatabaseService.createProcessingJobs(session.id, session.userId, session.fileIds, maxAttempts);
+    }
+
+    if (released > 0 || sessions.length > 0) {
+      console.log(`♻️ Resumed ${sessions.length} processing session(s), requeued ${released} job(s)`);
+    }
+  }
+
+  private static async handleJob(job: ProcessingJobDocument): Promise<JobOutcome> {
+    // Pause and cancel take effect between files
+    const session = await DatabaseService.getProcessingSession(job.sessionId);
+    if (session?.status !== 'processing') {
+      const status = await DatabaseService.releaseProcessingJob(job);
+      if (status === 'cancelled' && job.userId !== 'guest') {
+        await DatabaseService.refundFileCount(job.userId, 1);
+      }
+      return 'released';
+    }
+
+    try {
+      await processFile(job.fileId, (stage, details) => processingEvents.publish({
+        type: 'file',
+        sessionId: job.sessionId,
+        fileId: job.fileId,
+        stage,
+        ...details,
+      }), job.sessionId);
+      return 'completed';
+    } catch (error) {
+      if (
+        error instanceof UnsupportedFileTypeError
+        || error instanceof DocumentTooLargeError
+        || error instanceof FileNotFoundError
+      ) {
+        throw new PermanentJobError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private static async settleJob(job: ProcessingJobDocument, succeeded: boolean, errorMessage?: string): Promise<void> {
+    const session = await DatabaseService.settleProcessingJob(job, succeeded, errorMessage);
+
+    if (!succeeded) {
+      processingEvents.publish({
+        type: 'file',
+        sessionId: job.sessionId,
+        fileId: job.fileId,
+        stage: 'failed',
+        error: errorMessage,
+      });
+    }
+
+    if (!session) {
+      return;
+    }
+    publishSession(session);
+
+    // Quota was reserved when the session started; failed files get it back
+    if (session.userId === 'guest') {
+      return;
+    }
+    if (succeeded) {
+      await DatabaseService.updateUsageStats(session.userId, {
+        filesProcessed: 1,
+        textExtracted: 1,
+      });
+    } else {
+      await DatabaseService.refundFileCount(session.userId, 1);
+    }
+  }
+}
+
+function publishSession(session: ProcessingSessionDocument): void {
+  processingEvents.publish({
+    type: 'session',
+    sessionId: session.id,
+    status: session.status,
+    progress: session.progress,
+    totalFiles: session.totalFiles,
+    processedFiles: session.processedFiles,
+    failedFiles: session.failedFiles,
+  });
+}
+
+export default ProcessingQueue;
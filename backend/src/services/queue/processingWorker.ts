@@ -0,0 +1,213 @@
+import os from 'os';
+import { Timestamp } from 'firebase-admin/firestore';
+import { DatabaseService, ProcessingJobDocument } from '../../config/database';
+import { getQueueConfig } from '../../config/queue';
+
+/**
+ * Processing Worker
+ * Polls the Firestore job queue and runs jobs under a lease (renewed while
+ * they run), with a concurrency limit, exponential backoff and a dead-letter state
+ */
+
+const LEASE_MS = 5 * 60 * 1000; // 5 minutes
+// Renewed well before it runs out, so long jobs (e.g. OCR of big PDFs) keep it
+const LEASE_RENEW_INTERVAL_MS = LEASE_MS / 3;
+const LEASE_SWEEP_INTERVAL_MS = 60 * 1000;
+const SHUTDOWN_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Thrown by job handlers for failures that retrying won't fix
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * 'released' means the handler handed the job back without running it
+ * (e.g. its session was paused or cancelled), so it must not be settled
+ */
+export type JobOutcome = 'completed' | 'released';
+export type JobHandler = (job: ProcessingJobDocument) => Promise<JobOutcome>;
+export type JobSettledHandler = (job: ProcessingJobDocument, succeeded: boolean, errorMessage?: string) => Promise<void>;
+
+export class ProcessingWorker {
+  readonly workerId = `${os.hostname()}-${process.pid}`;
+  private readonly activeJobs = new Map<string, { job: ProcessingJobDocument; run: Promise<void> }>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private polling = false;
+  private lastLeaseSweep = 0;
+
+  constructor(
+    private readonly handler: JobHandler,
+    private readonly onSettled: JobSettledHandler,
+  ) {}
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Wake the worker up early (e.g. right after jobs were enqueued)
+   */
+  notify(): void {
+    if (!this.polling) {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Stop claiming jobs and wait for running ones. Jobs still running after
+   * the timeout are handed back to the queue for the next worker.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const drained = Promise.allSettled(Array.from(this.activeJobs.values(), ({ run }) => run));
+    const timeout = new Promise<'timeout'>(resolve => setTimeout(() => resolve('timeout'), SHUTDOWN_TIMEOUT_MS).unref());
+    if (await Promise.race([drained, timeout]) !== 'timeout') {
+      return;
+    }
+
+    await Promise.allSettled(Array.from(this.activeJobs.values(), ({ job }) =>
+      DatabaseService.updateLeasedJob(job, {
+        status: 'queued',
+        attempts: job.attempts - 1,
+        runAfter: Timestamp.now(),
+      })
+    ));
+  }
+
+  /**
+   * Requeue jobs whose worker stopped renewing their lease, or move them to
+   * dead-letter if they have no attempts left. Returns the number requeued.
+   */
+  async releaseExpiredLeases(): Promise<number> {
+    const { requeued, exhausted } = await DatabaseService.releaseExpiredJobLeases();
+    for (const job of exhausted) {
+      console.error(`Job ${job.id} moved to dead-letter: lease expired on attempt ${job.attempts}/${job.maxAttempts}`);
+      await this.onSettled(job, false, 'Processing stopped responding').catch(error => {
+        console.error(`Failed to record outcome of job ${job.id}:`, error);
+      });
+    }
+    return requeued;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.running || this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      if (Date.now() - this.lastLeaseSweep >= LEASE_SWEEP_INTERVAL_MS) {
+        this.lastLeaseSweep = Date.now();
+        const released = await this.releaseExpiredLeases();
+        if (released > 0) {
+          console.warn(`⚠️ Requeued ${released} job(s) with expired leases`);
+        }
+      }
+
+      while (this.running && this.activeJobs.size < getQueueConfig().concurrency) {
+        const job = await DatabaseService.claimProcessingJob(this.workerId, LEASE_MS);
+        if (!job) {
+          break;
+        }
+
+        const run = this.run(job).finally(() => {
+          this.activeJobs.delete(job.id);
+          this.notify();
+        });
+        this.activeJobs.set(job.id, { job, run });
+      }
+    } catch (error) {
+      console.error('Job worker poll error:', error);
+    } finally {
+      this.polling = false;
+      this.schedule(getQueueConfig().pollIntervalMs);
+    }
+  }
+
+  private async run(job: ProcessingJobDocument): Promise<void> {
+    const heartbeat = setInterval(() => this.renewLease(job), LEASE_RENEW_INTERVAL_MS);
+    try {
+      let outcome: JobOutcome;
+      try {
+        outcome = await this.handler(job);
+      } catch (error) {
+        await this.recordFailure(job, error);
+        return;
+      }
+
+      if (outcome === 'completed') {
+        // The job itself succeeded, so this must not count as a failed attempt
+        await this.onSettled(job, true).catch(error => {
+          console.error(`Failed to record completion of job ${job.id}:`, error);
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async recordFailure(job: ProcessingJobDocument, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    try {
+      if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+        console.error(`Job ${job.id} moved to dead-letter after ${job.attempts} attempt(s):`, error);
+        await this.onSettled(job, false, message);
+        return;
+      }
+
+      console.warn(`Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying:`, message);
+      await DatabaseService.updateLeasedJob(job, {
+        status: 'queued',
+        lastError: message,
+        runAfter: Timestamp.fromMillis(Date.now() + retryDelay(job.attempts, getQueueConfig().retryBaseDelayMs)),
+      });
+    } catch (settleError) {
+      // The lease will expire and the job will be retried
+      console.error(`Failed to record outcome of job ${job.id}:`, settleError);
+    }
+  }
+
+  private async renewLease(job: ProcessingJobDocument): Promise<void> {
+    try {
+      if (!await DatabaseService.renewJobLease(job, LEASE_MS)) {
+        // Its outcome will be ignored when it settles
+        console.warn(`⚠️ Job ${job.id} lost its lease while running`);
+      }
+    } catch (error) {
+      // The next renewal may still make it in time
+      console.error(`Failed to renew lease of job ${job.id}:`, error);
+    }
+  }
+}
+
+function retryDelay(attempts: number, baseDelayMs: number): number {
+  const backoff = baseDelayMs * 2 ** (attempts - 1);
+  const jitter = Math.random() * backoff * 0.2;
+  return Math.round(backoff + jitter);
+}
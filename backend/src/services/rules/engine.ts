@@ -0,0 +1,128 @@
+import { FileDocument } from '../../config/database';
+import { getTaxonomyCategory } from '../../config/taxonomy';
+import { formatDate } from '../naming/template';
+import { FilingRule, RuleConditions, RuleEvaluation } from './types';
+
+/**
+ * Rule engine
+ * Pure evaluation of auto-filing rules against a file; callers decide
+ * whether to persist the outcome (processing) or just show it (dry run)
+ */
+
+export type RuleSubject = Pick<FileDocument, 'fileSize' | 'extractedText' | 'category' | 'metadata' | 'createdAt'>;
+
+const FOLDER_PLACEHOLDER_PATTERN = /\{(\w+)(?::([^{}]+))?\}/g;
+const MAX_FOLDER_DEPTH = 10;
+
+export function evaluateRules(rules: FilingRule[], file: RuleSubject): RuleEvaluation {
+  const evaluation: RuleEvaluation = { matchedRuleIds: [], tags: [] };
+  const ordered = rules.filter(rule => rule.enabled).sort((a, b) => a.priority - b.priority);
+
+  for (const rule of ordered) {
+    if (!matchesConditions(rule.conditions, file)) {
+      continue;
+    }
+
+    evaluation.matchedRuleIds.push(rule.id);
+    if (!evaluation.folderPath && rule.actions.folderPath) {
+      evaluation.folderPath = renderFolderPath(rule.actions.folderPath, file) || undefined;
+    }
+    if (!evaluation.filenameTemplate && rule.actions.filenameTemplate) {
+      evaluation.filenameTemplate = rule.actions.filenameTemplate;
+    }
+    for (const tag of rule.actions.tags || []) {
+      if (!evaluation.tags.includes(tag)) {
+        evaluation.tags.push(tag);
+      }
+    }
+
+    if (rule.stopProcessing) {
+      break;
+    }
+  }
+
+  return evaluation;
+}
+
+export function matchesConditions(conditions: RuleConditions, file: RuleSubject): boolean {
+  const { categories, vendors, dateFrom, dateTo, keywords, keywordMatch, minSize, maxSize } = conditions;
+
+  if (categories?.length && (!file.category || !categories.includes(file.category))) {
+    return false;
+  }
+
+  if (vendors?.length) {
+    const vendor = file.metadata?.vendor?.toLowerCase();
+    if (!vendor || !vendors.some(candidate => vendor.includes(candidate.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (dateFrom || dateTo) {
+    const date = documentDate(file);
+    // ISO dates compare correctly as strings
+    if (!date || (dateFrom && date < dateFrom) || (dateTo && date > dateTo)) {
+      return false;
+    }
+  }
+
+  if (keywords?.length) {
+    const text = (file.extractedText || '').toLowerCase();
+    const found = (keyword: string) => text.includes(keyword.toLowerCase());
+    if (keywordMatch === 'all' ? !keywords.every(found) : !keywords.some(found)) {
+      return false;
+    }
+  }
+
+  if (minSize !== undefined && file.fileSize < minSize) {
+    return false;
+  }
+  if (maxSize !== undefined && file.fileSize > maxSize) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Fill a folder path template; segments that come out empty are dropped
+ */
+export function renderFolderPath(template: string, file: RuleSubject): string {
+  const isoDate = documentDate(file);
+  const date = isoDate ? new Date(`${isoDate}T00:00:00`) : undefined;
+
+  const values: Record<string, string | undefined> = {
+    year: date && formatDate(date, 'YYYY'),
+    month: date && formatDate(date, 'MM'),
+    day: date && formatDate(date, 'DD'),
+    category: file.category && getTaxonomyCategory(file.category)?.label,
+    vendor: file.metadata?.vendor || undefined,
+    docType: file.metadata?.documentType || undefined,
+  };
+
+  return template
+    .split('/')
+    .map(segment => segment
+      .replace(FOLDER_PLACEHOLDER_PATTERN, (_match, name: string, format?: string) => {
+        if (name === 'date') {
+          return date ? formatDate(date, format) : '';
+        }
+        return values[name] || '';
+      })
+      // Values can't introduce path separators or traversal
+      .replace(/[\\/:*?"<>|]/g, '-')
+      .replace(/^\.+/, '')
+      .trim())
+    .filter(Boolean)
+    .slice(0, MAX_FOLDER_DEPTH)
+    .join('/');
+}
+
+function documentDate(file: RuleSubject): string | undefined {
+  if (file.metadata?.documentDate) {
+    return file.metadata.documentDate;
+  }
+  // Fall back to the upload date
+  const uploaded = file.createdAt?.toDate?.();
+  return uploaded ? uploaded.toISOString().slice(0, 10) : undefined;
+}
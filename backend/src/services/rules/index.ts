@@ -0,0 +1,48 @@
+import { DatabaseService, FileDocument } from '../../config/database';
+import { ChangeContext, HistoryService } from '../history';
+import { mergeTagLists } from '../tags';
+import { evaluateRules, RuleSubject } from './engine';
+import { RuleEvaluation } from './types';
+
+/**
+ * Auto-filing Rules
+ * User-defined rules that assign folders, tags and naming templates once
+ * a file's text, metadata and category are known
+ */
+
+export * from './types';
+export { evaluateRules, matchesConditions, renderFolderPath } from './engine';
+export type { RuleSubject } from './engine';
+
+export class RulesService {
+  /**
+   * Evaluate a user's saved rules against a file (nothing is persisted)
+   */
+  static async evaluate(uid: string, file: RuleSubject): Promise<RuleEvaluation> {
+    const rules = await DatabaseService.getFilingRules(uid);
+    return evaluateRules(rules, file);
+  }
+
+  /**
+   * Store an evaluation on a file as move and tag events; stale folders from
+   * earlier runs are cleared, while rule tags are added to the file's tags
+   */
+  static async apply(file: FileDocument, evaluation: RuleEvaluation, context: ChangeContext): Promise<FileDocument> {
+    await DatabaseService.updateFile(file.id, { appliedRuleIds: evaluation.matchedRuleIds });
+    let updated: FileDocument = { ...file, appliedRuleIds: evaluation.matchedRuleIds };
+
+    [updated = updated] = await HistoryService.record(
+      'move',
+      [{ file: updated, updates: { folderPath: evaluation.folderPath || '' } }],
+      context
+    );
+    [updated = updated] = await HistoryService.record(
+      'tag',
+      [{ file: updated, updates: { tags: mergeTagLists(updated.tags, evaluation.tags) } }],
+      context
+    );
+    return updated;
+  }
+}
+
+export default RulesService;
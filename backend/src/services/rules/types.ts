@@ -0,0 +1,42 @@
+import { FilenameTemplateSettings } from '../naming/template';
+
+/**
+ * Auto-filing rule contracts
+ * All conditions that are set must match (AND); a rule without conditions
+ * matches every file.
+ */
+
+export interface RuleConditions {
+  categories?: string[]; // taxonomy ids
+  vendors?: string[]; // case-insensitive "contains" match on metadata.vendor
+  dateFrom?: string; // YYYY-MM-DD, inclusive, on the document date
+  dateTo?: string;
+  keywords?: string[]; // searched in extractedText
+  keywordMatch?: 'any' | 'all';
+  minSize?: number; // bytes
+  maxSize?: number;
+}
+
+export interface RuleActions {
+  // e.g. "Finance/Receipts/{year}"; placeholders: year, month, day, date:FORMAT, category, vendor, docType
+  folderPath?: string;
+  tags?: string[];
+  filenameTemplate?: FilenameTemplateSettings;
+}
+
+export interface FilingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // lower runs first
+  conditions: RuleConditions;
+  actions: RuleActions;
+  stopProcessing: boolean; // skip lower-priority rules once this one matches
+}
+
+export interface RuleEvaluation {
+  matchedRuleIds: string[];
+  folderPath?: string; // from the first matching rule that sets one
+  tags: string[]; // from every matching rule
+  filenameTemplate?: FilenameTemplateSettings; // from the first matching rule that sets one
+}
@@ -0,0 +1,60 @@
+import { FileDocument } from '../../config/database';
+import { getTaxonomyCategory } from '../../config/taxonomy';
+import { tokenize } from './tokenizer';
+import { IndexedDocument } from './types';
+
+/**
+ * Turns a file into weighted index terms
+ * Names, tags and extracted fields count more than body text so a search
+ * for a vendor ranks its invoices above letters that merely mention it
+ */
+
+const NAME_WEIGHT = 3;
+const FIELD_WEIGHT = 2;
+const TEXT_WEIGHT = 1;
+const MAX_TEXT_LENGTH = 100000;
+
+export function buildIndexedDocument(file: FileDocument): IndexedDocument {
+  const { metadata } = file;
+  const weightedFields: [string | null | undefined, number][] = [
+    [stripExtension(file.originalName), NAME_WEIGHT],
+    [file.newName && stripExtension(file.newName), NAME_WEIGHT],
+    [file.suggestedName, NAME_WEIGHT],
+    [file.tags?.join(' '), NAME_WEIGHT],
+    [file.folderPath, FIELD_WEIGHT],
+    [file.category && getTaxonomyCategory(file.category)?.label, FIELD_WEIGHT],
+    [metadata?.documentType, FIELD_WEIGHT],
+    [metadata?.vendor, FIELD_WEIGHT],
+    [metadata?.currency, FIELD_WEIGHT],
+    [metadata?.referenceNumbers.join(' '), FIELD_WEIGHT],
+    [metadata?.people.join(' '), FIELD_WEIGHT],
+    [file.extractedText?.slice(0, MAX_TEXT_LENGTH), TEXT_WEIGHT],
+  ];
+
+  const terms: Record<string, number> = {};
+  let length = 0;
+  for (const [value, weight] of weightedFields) {
+    for (const term of tokenize(value || '')) {
+      terms[term] = (terms[term] || 0) + weight;
+      length += weight;
+    }
+  }
+
+  return { fileId: file.id, terms, length, ...filterFields(file) };
+}
+
+/**
+ * Fields search filters apply to
+ */
+export function filterFields(file: FileDocument): Pick<IndexedDocument, 'fileType' | 'category' | 'date'> {
+  const date = file.metadata?.documentDate || file.createdAt?.toDate?.().toISOString().slice(0, 10);
+  return {
+    fileType: file.fileType,
+    ...(file.category && { category: file.category }),
+    ...(date && { date }),
+  };
+}
+
+export function stripExtension(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '');
+}
@@ -0,0 +1,249 @@
+import { DatabaseService, FileDocument } from '../../config/database';
+import { getSearchIndexPath } from '../../config/search';
+import { buildIndexedDocument } from './documentBuilder';
+import { IndexStore } from './indexStore';
+import { InvertedIndex } from './invertedIndex';
+import { tokenize } from './tokenizer';
+import { IndexedDocument, SearchFilters, SearchHit, SearchPage } from './types';
+
+/**
+ * Search Service
+ * Keeps a local inverted index per user, updated as files are processed,
+ * renamed or deleted. Indexes live in memory and are persisted under
+ * SEARCH_INDEX_PATH; a missing or outdated index is rebuilt from Firestore
+ * in the background, and searches see the files indexed so far.
+ */
+
+export * from './types';
+export { buildSnippet } from './snippets';
+export { tokenize } from './tokenizer';
+export { IndexStore } from './indexStore';
+export { filterFields } from './documentBuilder';
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid search cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface StoredIndex {
+  version: number;
+  documents: IndexedDocument[];
+}
+
+type IndexChange = { upsert: IndexedDocument } | { remove: string[] };
+
+interface Rebuild {
+  index: InvertedIndex;
+  changed: Set<string>; // files indexed or removed since the rebuild started
+}
+
+// Bump when tokenization or field weights change to force a rebuild
+const INDEX_VERSION = 1;
+const MAX_CACHED_INDEXES = 100;
+const REBUILD_LIMIT = 5000;
+const COMPACT_AFTER = 500; // logged changes before the snapshot is rewritten
+
+export class SearchService {
+  private static store: IndexStore<StoredIndex, IndexChange> | null = null;
+  private static indexes = new Map<string, Promise<InvertedIndex>>();
+  private static rebuilds = new Map<string, Rebuild>();
+  private static logLengths = new Map<string, number>();
+  private static writes = new Map<string, Promise<void>>();
+
+  /**
+   * Add or refresh a file; failures are logged, the next rebuild catches up
+   */
+  static async indexFile(file: FileDocument): Promise<void> {
+    if (file.userId === 'guest') {
+      return;
+    }
+
+    try {
+      const index = await this.getIndex(file.userId);
+      const document = buildIndexedDocument(file);
+      index.add(document);
+      await this.record(file.userId, index, [file.id], { upsert: document });
+    } catch (error) {
+      console.error(`Search indexing error for file ${file.id}:`, error);
+    }
+  }
+
+  static async removeFiles(uid: string, fileIds: string[]): Promise<void> {
+    try {
+      const index = await this.getIndex(uid);
+      const removed = fileIds.filter(fileId => index.remove(fileId));
+      await this.record(uid, index, fileIds, removed.length > 0 ? { remove: removed } : undefined);
+    } catch (error) {
+      console.error('Search index removal error:', error);
+    }
+  }
+
+  /**
+   * One page of matches; `cursor` comes from the previous page's `nextCursor`
+   */
+  static async search(
+    uid: string,
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    cursor?: string
+  ): Promise<SearchPage> {
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    const hits = await this.rank(uid, query, filters);
+    const end = offset + limit;
+
+    return {
+      hits: hits.slice(offset, end),
+      total: hits.length,
+      nextCursor: end < hits.length ? encodeCursor(end) : null,
+    };
+  }
+
+  /**
+   * Every match, best first (for blending with other rankings)
+   */
+  static async rank(uid: string, query: string, filters: SearchFilters = {}): Promise<SearchHit[]> {
+    const index = await this.getIndex(uid);
+    return index.search(tokenize(query), filters);
+  }
+
+  /**
+   * Whether the user's index is still being rebuilt (results are partial)
+   */
+  static isRebuilding(uid: string): boolean {
+    return this.rebuilds.has(uid);
+  }
+
+  private static getStore(): IndexStore<StoredIndex, IndexChange> {
+    if (!this.store) {
+      this.store = new IndexStore(getSearchIndexPath());
+    }
+    return this.store;
+  }
+
+  private static getIndex(uid: string): Promise<InvertedIndex> {
+    let index = this.indexes.get(uid);
+    if (index) {
+      // Re-insert to keep the map in least-recently-used order
+      this.indexes.delete(uid);
+    } else {
+      index = this.loadIndex(uid);
+      index.catch(() => this.indexes.delete(uid));
+    }
+    this.indexes.set(uid, index);
+
+    if (this.indexes.size > MAX_CACHED_INDEXES) {
+      this.indexes.delete(this.indexes.keys().next().value!);
+    }
+    return index;
+  }
+
+  private static async loadIndex(uid: string): Promise<InvertedIndex> {
+    const rebuild = this.rebuilds.get(uid);
+    if (rebuild) {
+      return rebuild.index;
+    }
+
+    const { snapshot, changes } = await this.getStore().load(uid);
+    if (snapshot?.version !== INDEX_VERSION) {
+      // Search what's indexed so far rather than wait for every file
+      const index = new InvertedIndex();
+      this.rebuild(uid, index);
+      return index;
+    }
+
+    const index = new InvertedIndex(snapshot.documents);
+    for (const change of changes) {
+      if ('upsert' in change) {
+        index.add(change.upsert);
+      } else {
+        change.remove.forEach(fileId => index.remove(fileId));
+      }
+    }
+    this.logLengths.set(uid, changes.length);
+    return index;
+  }
+
+  // Fills `index` from Firestore in the background, then snapshots it
+  private static async rebuild(uid: string, index: InvertedIndex): Promise<void> {
+    const changed = new Set<string>();
+    this.rebuilds.set(uid, { index, changed });
+
+    try {
+      const files = await DatabaseService.getUserFiles(uid, REBUILD_LIMIT);
+      for (const file of files) {
+        // Files changed meanwhile are already current (or deleted) in the index
+        if (file.isProcessed && !changed.has(file.id)) {
+          index.add(buildIndexedDocument(file));
+        }
+      }
+      this.rebuilds.delete(uid);
+      await this.snapshot(uid, index);
+    } catch (error) {
+      console.error(`Search index rebuild error for user ${uid}:`, error);
+      // Start over on the next search
+      this.rebuilds.delete(uid);
+      this.indexes.delete(uid);
+    }
+  }
+
+  // Logs the change, or rewrites the snapshot once the log is long
+  private static record(uid: string, index: InvertedIndex, fileIds: string[], change?: IndexChange): Promise<void> {
+    const rebuild = this.rebuilds.get(uid);
+    if (rebuild) {
+      // The rebuild's snapshot will include this; only stop it from overwriting
+      fileIds.forEach(fileId => rebuild.changed.add(fileId));
+      return Promise.resolve();
+    }
+    if (!change) {
+      return Promise.resolve();
+    }
+
+    const logLength = (this.logLengths.get(uid) || 0) + 1;
+    if (logLength >= COMPACT_AFTER) {
+      return this.snapshot(uid, index);
+    }
+    this.logLengths.set(uid, logLength);
+    return this.write(uid, () => this.getStore().append(uid, change));
+  }
+
+  private static snapshot(uid: string, index: InvertedIndex): Promise<void> {
+    this.logLengths.set(uid, 0);
+    return this.write(uid, () => this.getStore().save(uid, { version: INDEX_VERSION, documents: index.toJSON() }));
+  }
+
+  // Writes for one user run one after another
+  private static write(uid: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(uid) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(task);
+    this.writes.set(uid, write);
+    write.finally(() => {
+      if (this.writes.get(uid) === write) {
+        this.writes.delete(uid);
+      }
+    }).catch(() => undefined);
+    return write;
+  }
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new InvalidCursorError();
+}
+
+export default SearchService;
@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Per-user files for local indexes: a JSON snapshot plus a log of changes
+ * made since, one JSON line each, so indexing a file appends a line instead
+ * of rewriting the index. Snapshots go to a temp file first so a crash never
+ * leaves a half-written one.
+ */
+
+export interface StoredIndexState<T, C> {
+  snapshot: T | null;
+  changes: C[]; // oldest first
+}
+
+export class IndexStore<T, C> {
+  constructor(private readonly directory: string) {}
+
+  async load(uid: string): Promise<StoredIndexState<T, C>> {
+    const [snapshot, log] = await Promise.all([
+      readOptional(this.pathFor(uid, 'json')),
+      readOptional(this.pathFor(uid, 'log')),
+    ]);
+
+    return {
+      snapshot: snapshot === null ? null : JSON.parse(snapshot) as T,
+      changes: log === null ? [] : parseLog<C>(log),
+    };
+  }
+
+  async append(uid: string, change: C): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(this.pathFor(uid, 'log'), `${JSON.stringify(change)}\n`);
+  }
+
+  /**
+   * Replace the snapshot and start an empty log
+   */
+  async save(uid: string, data: T): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.pathFor(uid, 'json');
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(data));
+    await fs.rename(temporary, target);
+    // Replaying changes the snapshot already has is harmless if this never runs
+    await fs.rm(this.pathFor(uid, 'log'), { force: true });
+  }
+
+  private pathFor(uid: string, extension: 'json' | 'log'): string {
+    // Firebase UIDs are alphanumeric, but never trust them as path segments
+    return path.join(this.directory, `${encodeURIComponent(uid)}.${extension}`);
+  }
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function parseLog<C>(log: string): C[] {
+  const changes: C[] = [];
+  for (const line of log.split('\n')) {
+    try {
+      if (line) {
+        changes.push(JSON.parse(line) as C);
+      }
+    } catch {
+      // A crash mid-append leaves a partial last line
+    }
+  }
+  return changes;
+}
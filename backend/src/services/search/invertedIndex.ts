@@ -0,0 +1,146 @@
+import { IndexedDocument, SearchFilters, SearchHit } from './types';
+
+/**
+ * In-memory inverted index for one user's files, ranked with BM25
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+const MAX_PREFIX_EXPANSIONS = 50;
+
+export class InvertedIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  constructor(documents: IndexedDocument[] = []) {
+    documents.forEach(document => this.add(document));
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  toJSON(): IndexedDocument[] {
+    return Array.from(this.documents.values());
+  }
+
+  add(document: IndexedDocument): void {
+    this.remove(document.fileId);
+    this.documents.set(document.fileId, document);
+    this.totalLength += document.length;
+
+    for (const [term, frequency] of Object.entries(document.terms)) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(document.fileId, frequency);
+    }
+  }
+
+  remove(fileId: string): boolean {
+    const document = this.documents.get(fileId);
+    if (!document) {
+      return false;
+    }
+
+    for (const term of Object.keys(document.terms)) {
+      const posting = this.postings.get(term);
+      posting?.delete(fileId);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(fileId);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  /**
+   * Files containing every query term (the last one may be a prefix, for
+   * search-as-you-type), best match first
+   */
+  search(terms: string[], filters: SearchFilters = {}): SearchHit[] {
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    // Each query term becomes the set of index terms it matches
+    const expansions = terms.map((term, index) => (index === terms.length - 1 ? this.expandPrefix(term) : [term])
+      .filter(candidate => this.postings.has(candidate)));
+    if (expansions.some(candidates => candidates.length === 0)) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, { score: number; matchedTerms: Set<string>; matchedQueryTerms: number }>();
+
+    expansions.forEach((candidates) => {
+      const matchedHere = new Set<string>();
+      for (const candidate of candidates) {
+        const posting = this.postings.get(candidate)!;
+        const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+
+        for (const [fileId, frequency] of posting) {
+          const document = this.documents.get(fileId)!;
+          const termScore = idf * (frequency * (K1 + 1))
+            / (frequency + K1 * (1 - B + B * (document.length / averageLength)));
+
+          const entry = scores.get(fileId) || { score: 0, matchedTerms: new Set<string>(), matchedQueryTerms: 0 };
+          entry.score += termScore;
+          entry.matchedTerms.add(candidate);
+          if (!matchedHere.has(fileId)) {
+            matchedHere.add(fileId);
+            entry.matchedQueryTerms++;
+          }
+          scores.set(fileId, entry);
+        }
+      }
+    });
+
+    const hits: SearchHit[] = [];
+    for (const [fileId, entry] of scores) {
+      if (entry.matchedQueryTerms === terms.length && matchesFilters(this.documents.get(fileId)!, filters)) {
+        hits.push({ fileId, score: entry.score, matchedTerms: Array.from(entry.matchedTerms) });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score || a.fileId.localeCompare(b.fileId));
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    const expansions = [prefix];
+    for (const term of this.postings.keys()) {
+      if (expansions.length >= MAX_PREFIX_EXPANSIONS) {
+        break;
+      }
+      if (term !== prefix && term.startsWith(prefix)) {
+        expansions.push(term);
+      }
+    }
+    return expansions;
+  }
+}
+
+export function matchesFilters(
+  document: Pick<IndexedDocument, 'fileType' | 'category' | 'date'>,
+  filters: SearchFilters
+): boolean {
+  const { fileType, category, dateFrom, dateTo } = filters;
+  if (fileType && document.fileType !== fileType) {
+    return false;
+  }
+  if (category && document.category !== category) {
+    return false;
+  }
+  if (dateFrom || dateTo) {
+    // ISO dates compare correctly as strings
+    const date = document.date;
+    if (!date || (dateFrom && date < dateFrom) || (dateTo && date > dateTo)) {
+      return false;
+    }
+  }
+  return true;
+}
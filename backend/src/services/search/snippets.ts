@@ -0,0 +1,57 @@
+import { FileDocument } from '../../config/database';
+import { stripExtension } from './documentBuilder';
+import { words } from './tokenizer';
+import { Highlight, Snippet } from './types';
+
+/**
+ * Highlighted snippets for search results
+ */
+
+const SNIPPET_LENGTH = 160;
+const MAX_HIGHLIGHTS = 10;
+
+/**
+ * Excerpt of the extracted text around the first match, or the file's name
+ * when only the name, tags or fields matched
+ */
+export function buildSnippet(file: FileDocument, matchedTerms: string[]): Snippet | null {
+  const terms = new Set(matchedTerms);
+
+  const text = file.extractedText || '';
+  const textHighlights = findHighlights(text, terms);
+  if (textHighlights.length > 0) {
+    const start = snippetStart(text, textHighlights[0].start);
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+
+    // Matched again on the excerpt so offsets line up
+    return { field: 'extractedText', text: excerpt, highlights: findHighlights(excerpt, terms) };
+  }
+
+  const name = stripExtension(file.newName || file.suggestedName || file.originalName);
+  const nameHighlights = findHighlights(name, terms);
+  return nameHighlights.length > 0 ? { field: 'name', text: name, highlights: nameHighlights } : null;
+}
+
+function findHighlights(text: string, terms: Set<string>): Highlight[] {
+  const highlights: Highlight[] = [];
+  for (const word of words(text)) {
+    if (terms.has(word.term)) {
+      highlights.push({ start: word.start, end: word.end });
+      if (highlights.length >= MAX_HIGHLIGHTS) {
+        break;
+      }
+    }
+  }
+  return highlights;
+}
+
+// Start a little before the match, on a word boundary
+function snippetStart(text: string, matchStart: number): number {
+  const start = Math.max(0, matchStart - SNIPPET_LENGTH / 4);
+  if (start === 0) {
+    return 0;
+  }
+  const space = text.indexOf(' ', start);
+  return space !== -1 && space < matchStart ? space + 1 : start;
+}
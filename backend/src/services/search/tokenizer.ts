@@ -0,0 +1,35 @@
+/**
+ * Search tokenizer
+ * Lower-cased, accent-folded words; used for both indexing and queries so
+ * "Café" finds "cafe"
+ */
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+export function tokenize(text: string): string[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => normalizeTerm(match[0]))
+    .filter(isIndexable);
+}
+
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function isIndexable(term: string): boolean {
+  return term.length > 1 && !STOP_WORDS.has(term);
+}
+
+/**
+ * Words of `text` with their offsets, for highlighting
+ */
+export function* words(text: string): Generator<{ term: string; start: number; end: number }> {
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index || 0;
+    yield { term: normalizeTerm(match[0]), start, end: start + match[0].length };
+  }
+}
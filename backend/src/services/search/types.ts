@@ -0,0 +1,44 @@
+import { FileDocument } from '../../config/database';
+
+/**
+ * Full-text search contracts
+ */
+
+export interface IndexedDocument {
+  fileId: string;
+  terms: Record<string, number>; // term -> field-weighted frequency
+  length: number; // sum of weighted frequencies
+  fileType: FileDocument['fileType'];
+  category?: string;
+  date?: string; // YYYY-MM-DD document date, upload date as fallback
+}
+
+export interface SearchFilters {
+  fileType?: FileDocument['fileType'];
+  category?: string;
+  dateFrom?: string; // inclusive YYYY-MM-DD
+  dateTo?: string;
+}
+
+export interface SearchHit {
+  fileId: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface SearchPage {
+  hits: SearchHit[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  field: 'extractedText' | 'name';
+  text: string;
+  highlights: Highlight[]; // offsets into `text`
+}
@@ -0,0 +1,88 @@
+import JSZip from 'jszip';
+import { Readable } from 'stream';
+import { filenameKey, resolveConflict, sanitizeFilename } from '../naming/sanitize';
+import { StorageDriver } from './types';
+
+/**
+ * ZIP archives of stored objects
+ * Objects are streamed into the archive one after another, never buffered whole
+ */
+
+export interface ArchiveEntry {
+  key: string;
+  folderPath?: string; // "/"-separated
+  filename: string;
+}
+
+/**
+ * Stream a ZIP of `entries`; objects that no longer exist are left out and
+ * clashing paths (compared case-insensitively) get " (2)" suffixes
+ */
+export async function createArchive(
+  driver: StorageDriver,
+  entries: ArchiveEntry[]
+): Promise<{ stream: NodeJS.ReadableStream; missingKeys: string[] }> {
+  const zip = new JSZip();
+  const taken = new Set<string>();
+  const missingKeys: string[] = [];
+
+  for (const entry of entries) {
+    // Checked up front so a missing object can't break the archive midway
+    if (!await driver.exists(entry.key)) {
+      missingKeys.push(entry.key);
+      continue;
+    }
+
+    const folders = (entry.folderPath || '')
+      .split('/')
+      .filter(Boolean)
+      .map(folder => sanitizeFilename(folder, { fallback: 'Folder', hasExtension: false }));
+    const entryPath = await resolveConflict(
+      [...folders, sanitizeFilename(entry.filename)].join('/'),
+      candidate => taken.has(filenameKey(candidate))
+    );
+    taken.add(filenameKey(entryPath));
+    zip.file(entryPath, new LazyObjectStream(driver, entry.key));
+  }
+
+  // Uploads are mostly images, PDFs and Office files, which are compressed already
+  const stream = zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'STORE' });
+  return { stream, missingKeys };
+}
+
+/**
+ * Opens its object on the first read. JSZip pauses input streams when they're
+ * added and resumes them one entry at a time, so only the entry being written
+ * holds a file descriptor or S3 connection.
+ */
+class LazyObjectStream extends Readable {
+  private source: Readable | null = null;
+
+  constructor(private readonly driver: StorageDriver, private readonly key: string) {
+    super();
+  }
+
+  override _read(): void {
+    if (this.source) {
+      this.source.resume();
+      return;
+    }
+
+    this.driver.stream(this.key).then(source => {
+      this.source = source;
+      source
+        .on('data', chunk => {
+          if (!this.push(chunk)) {
+            source.pause();
+          }
+        })
+        .on('end', () => this.push(null))
+        .on('error', error => this.destroy(error));
+    }, error => this.destroy(error));
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.source?.destroy();
+    callback(error);
+  }
+}
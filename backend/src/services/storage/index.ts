@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import path from 'path';
+import { FileDocument } from '../../config/database';
+import { getStorageConfig } from '../../config/storage';
+import { LocalStorageDriver } from './localDriver';
+import { S3StorageDriver } from './s3Driver';
+import { StorageDriver } from './types';
+
+/**
+ * Storage Service
+ * Uploaded files live behind a StorageDriver picked by STORAGE_DRIVER, so
+ * every server instance sees the same objects when an S3 bucket is used.
+ * FileDocument.storageKey is the object's key.
+ */
+
+export * from './types';
+export { LocalStorageDriver } from './localDriver';
+export { S3StorageDriver } from './s3Driver';
+export { createSignature, expiresAt, verifySignature } from './signing';
+export { ArchiveEntry, createArchive } from './archive';
+
+export class StorageService {
+  private static driver: StorageDriver | null = null;
+
+  static getDriver(): StorageDriver {
+    if (!this.driver) {
+      const config = getStorageConfig();
+      this.driver = config.driver === 's3'
+        ? new S3StorageDriver(config)
+        : new LocalStorageDriver(config);
+    }
+    return this.driver;
+  }
+
+  /**
+   * Fresh key for an upload: "<uid>/<timestamp>-<random><ext>"
+   */
+  static createKey(userId: string, originalName: string): string {
+    const extension = path.extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    const unique = `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+    return `${encodeURIComponent(userId)}/${unique}${extension}`;
+  }
+
+  /**
+   * Key of a file's stored object; files uploaded before storage drivers only
+   * have an absolute path inside the local upload directory
+   */
+  static keyOf(file: Pick<FileDocument, 'storageKey' | 'filePath'>): string {
+    return file.storageKey || path.basename(file.filePath || '');
+  }
+
+  /**
+   * Key of a file's object once it's named: "<uid>/<fileId>/<name>"; the file
+   * id keeps two files with the same name from ever sharing an object
+   */
+  static namedKey(file: Pick<FileDocument, 'id' | 'userId'>, name: string): string {
+    return `${encodeURIComponent(file.userId)}/${file.id}/${name}`;
+  }
+
+  static async getFile(file: FileDocument): Promise<Buffer> {
+    return this.getDriver().get(this.keyOf(file));
+  }
+
+  static async deleteFile(file: FileDocument): Promise<void> {
+    await this.getDriver().delete(this.keyOf(file));
+  }
+}
+
+export default StorageService;
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  InvalidStorageKeyError,
+  PutOptions,
+  StorageDriver,
+  StorageObjectNotFoundError,
+} from './types';
+
+/**
+ * Local filesystem driver
+ * Objects are files under one directory
+ */
+
+export interface LocalStorageOptions {
+  directory: string;
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly options: LocalStorageOptions) {}
+
+  async put(key: string, body: Buffer | Readable, _options: PutOptions = {}): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Readers never see a partly written object
+    const temporary = `${target}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    try {
+      if (Buffer.isBuffer(body)) {
+        await fs.writeFile(temporary, body);
+      } else {
+        await pipeline(body, createWriteStream(temporary));
+      }
+      await fs.rename(temporary, target);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      throw this.toStorageError(key, error);
+    }
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const file = this.resolve(key);
+    try {
+      // Surface a missing object before the caller starts responding
+      await fs.access(file);
+    } catch (error) {
+      throw this.toStorageError(key, error);
+    }
+    return createReadStream(file);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch (error) {
+      if (this.toStorageError(key, error) instanceof StorageObjectNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const target = this.resolve(toKey);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.rename(this.resolve(fromKey), target);
+    } catch (error) {
+      throw this.toStorageError(fromKey, error);
+    }
+  }
+
+  private resolve(key: string): string {
+    // Keys come from our own records, but never let one escape the directory
+    const root = path.resolve(this.options.directory);
+    const file = path.resolve(root, key);
+    if (!key || path.isAbsolute(key) || !file.startsWith(root + path.sep)) {
+      throw new InvalidStorageKeyError(key);
+    }
+    return file;
+  }
+
+  private toStorageError(key: string, error: unknown): unknown {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT' ? new StorageObjectNotFoundError(key) : error;
+  }
+}
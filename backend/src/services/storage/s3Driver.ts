@@ -0,0 +1,103 @@
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { S3StorageConfig } from '../../config/storage';
+import { PutOptions, StorageDriver, StorageObjectNotFoundError } from './types';
+
+/**
+ * S3-compatible driver (AWS S3, MinIO, R2...)
+ */
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(config: Omit<S3StorageConfig, 'driver'>) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      ...(config.accessKeyId && config.secretAccessKey && {
+        credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey },
+      }),
+    });
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutOptions = {}): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ContentLength: Buffer.isBuffer(body) ? body.length : options.contentLength,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const body = await this.getBody(key);
+    return Buffer.from(await body.transformToByteArray());
+  }
+
+  async stream(key: string): Promise<Readable> {
+    // The Node.js runtime always returns a Readable body
+    return (await this.getBody(key)) as unknown as Readable;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (this.toStorageError(key, error) instanceof StorageObjectNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 deletes succeed for missing keys too
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    // S3 has no rename: copy, then delete the original
+    try {
+      await this.client.send(new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: toKey,
+        CopySource: `${this.bucket}/${fromKey.split('/').map(encodeURIComponent).join('/')}`,
+      }));
+    } catch (error) {
+      throw this.toStorageError(fromKey, error);
+    }
+    await this.delete(fromKey);
+  }
+
+  private async getBody(key: string) {
+    try {
+      const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!Body) {
+        throw new StorageObjectNotFoundError(key);
+      }
+      return Body;
+    } catch (error) {
+      throw this.toStorageError(key, error);
+    }
+  }
+
+  private toStorageError(key: string, error: unknown): unknown {
+    const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404
+      ? new StorageObjectNotFoundError(key)
+      : error;
+  }
+}
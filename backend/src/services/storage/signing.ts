@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import { getSigningSecret } from '../../config/storage';
+
+/**
+ * HMAC signatures for expiring URLs
+ * `parts` identify what the URL grants (e.g. a key or file id, plus options);
+ * the expiry is always part of the signed message
+ */
+
+export function createSignature(parts: string[], expires: number): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update([...parts, String(expires)].join('\n'))
+    .digest('base64url');
+}
+
+export function verifySignature(parts: string[], expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+    return false;
+  }
+  const expected = Buffer.from(createSignature(parts, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Unix time (seconds) a URL valid for `expiresIn` seconds expires at
+ */
+export function expiresAt(expiresIn: number): number {
+  return Math.floor(Date.now() / 1000) + expiresIn;
+}
@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+
+/**
+ * Storage driver contracts
+ * Keys are "/"-separated paths relative to the driver's root, e.g. "<uid>/<name>.pdf"
+ */
+
+export interface PutOptions {
+  contentType?: string;
+  contentLength?: number; // required by S3 when the body is a stream
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  // Missing keys are ignored
+  delete(key: string): Promise<void>;
+  // Overwrites `toKey` if it exists
+  move(fromKey: string, toKey: string): Promise<void>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  readonly code = 'STORAGE_OBJECT_NOT_FOUND';
+
+  constructor(key: string) {
+    super(`Stored object ${key} not found`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+export class InvalidStorageKeyError extends Error {
+  readonly code = 'INVALID_STORAGE_KEY';
+
+  constructor(key: string) {
+    super(`Invalid storage key "${key}"`);
+    this.name = 'InvalidStorageKeyError';
+  }
+}
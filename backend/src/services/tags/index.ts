@@ -0,0 +1,134 @@
+import { DatabaseService, FileDocument, TagDocument, UserDocument } from '../../config/database';
+import { getTaxonomyCategory, OTHER_CATEGORY_ID } from '../../config/taxonomy';
+import { MetadataFields } from '../metadata';
+import { HistoryService } from '../history';
+
+/**
+ * Tag Service
+ * Tags are user-owned (name + colour) and stored on files by name, so
+ * rules, search and filters can use them directly. Names are unique per
+ * user regardless of case; renames and merges rewrite the files.
+ */
+
+export const MAX_TAG_LENGTH = 50;
+
+export const TAG_COLORS = [
+  '#6366F1', '#10B981', '#F59E0B', '#EF4444', '#3B82F6',
+  '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6B7280',
+];
+
+/**
+ * Trimmed name with single spaces; commas are reserved for list queries
+ */
+export function normalizeTagName(name: string): string {
+  return name.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+}
+
+export function tagKey(name: string): string {
+  return normalizeTagName(name).toLowerCase();
+}
+
+export function defaultTagColor(name: string): string {
+  let hash = 0;
+  for (const char of tagKey(name)) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 1000003;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+/**
+ * Case-insensitive union, keeping the first spelling of each tag
+ */
+export function mergeTagLists(...lists: (string[] | undefined)[]): string[] {
+  const merged = new Map<string, string>();
+  for (const name of lists.flatMap(list => list || []).map(normalizeTagName)) {
+    if (name && !merged.has(name.toLowerCase())) {
+      merged.set(name.toLowerCase(), name);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+export class TagService {
+  /**
+   * Tags derived from AI metadata: the category and the vendor
+   */
+  static autoTags(owner: UserDocument, metadata: MetadataFields, category: string): string[] {
+    if (owner.settings?.autoTag === false) {
+      return [];
+    }
+
+    return mergeTagLists([
+      category !== OTHER_CATEGORY_ID ? getTaxonomyCategory(category)?.label || '' : '',
+      metadata.vendor || '',
+    ]);
+  }
+
+  /**
+   * Create any tags the user doesn't have yet; returns the names as the user
+   * spelled them
+   */
+  static async ensureTags(uid: string, names: string[], source: TagDocument['source']): Promise<string[]> {
+    const wanted = mergeTagLists(names);
+    if (wanted.length === 0) {
+      return [];
+    }
+
+    const existing = new Map((await DatabaseService.getTags(uid)).map(tag => [tag.nameKey, tag.name]));
+    const result: string[] = [];
+    for (const name of wanted) {
+      const key = name.toLowerCase();
+      if (!existing.has(key)) {
+        await DatabaseService.createTag({ userId: uid, name, nameKey: key, color: defaultTagColor(name), source });
+        existing.set(key, name);
+      }
+      result.push(existing.get(key)!);
+    }
+    return result;
+  }
+
+  /**
+   * Replace (or with `to` null, remove) a tag on every file and rule that uses it
+   */
+  static async replaceTag(uid: string, from: string, to: string | null): Promise<number> {
+    const swap = (tags: string[] = []) => mergeTagLists(tags.map(tag => (tag === from ? to || '' : tag)));
+
+    const files = await DatabaseService.getFilesWithTag(uid, from);
+    await HistoryService.record(
+      'tag',
+      files.map(file => ({ file, updates: { tags: swap(file.tags) } })),
+      { actorId: uid }
+    );
+
+    const rules = await DatabaseService.getFilingRules(uid);
+    for (const rule of rules.filter(item => item.actions.tags?.includes(from))) {
+      await DatabaseService.updateFilingRule(rule.id, { actions: { ...rule.actions, tags: swap(rule.actions.tags) } });
+    }
+
+    return files.length;
+  }
+
+  /**
+   * Add and remove tags on a set of files; returns the files' new tags
+   */
+  static async updateFileTags(
+    files: FileDocument[],
+    change: { add?: string[]; remove?: string[] },
+    actorId: string
+  ): Promise<{ fileId: string; tags: string[] }[]> {
+    const removeKeys = new Set((change.remove || []).map(tagKey));
+    const updates = files.map(file => ({
+      fileId: file.id,
+      tags: mergeTagLists(file.tags, change.add).filter(tag => !removeKeys.has(tag.toLowerCase())),
+    }));
+
+    await HistoryService.record(
+      'tag',
+      files.map((file, index) => ({ file, updates: { tags: updates[index].tags } })),
+      { actorId }
+    );
+    return updates;
+  }
+}
+
+export default TagService;
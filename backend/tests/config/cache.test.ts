@@ -0,0 +1,55 @@
+import { getCacheTtlSeconds, validateCacheConfig } from '../../src/config/cache';
+
+describe('cache config', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.RESULT_CACHE;
+    delete process.env.RESULT_CACHE_TTL_EXTRACTION;
+    delete process.env.RESULT_CACHE_TTL_NAMING;
+  });
+
+  afterAll(() => {
+    process.env = original;
+    validateCacheConfig();
+  });
+
+  it('keeps extraction results longer than names by default', () => {
+    validateCacheConfig();
+
+    expect(getCacheTtlSeconds('extraction')).toBe(30 * 24 * 3600);
+    expect(getCacheTtlSeconds('naming')).toBe(7 * 24 * 3600);
+  });
+
+  it('reads a TTL per kind, where 0 turns that kind off', () => {
+    process.env.RESULT_CACHE_TTL_NAMING = '0';
+    process.env.RESULT_CACHE_TTL_EXTRACTION = '3600';
+    validateCacheConfig();
+
+    expect(getCacheTtlSeconds('naming')).toBe(0);
+    expect(getCacheTtlSeconds('extraction')).toBe(3600);
+  });
+
+  it('turns every kind off with RESULT_CACHE=off', () => {
+    process.env.RESULT_CACHE = 'OFF';
+    process.env.RESULT_CACHE_TTL_EXTRACTION = '3600';
+    validateCacheConfig();
+
+    expect(getCacheTtlSeconds('extraction')).toBe(0);
+    expect(getCacheTtlSeconds('naming')).toBe(0);
+  });
+
+  it('reads the settings once, at validation', () => {
+    validateCacheConfig();
+    process.env.RESULT_CACHE_TTL_NAMING = '60';
+
+    expect(getCacheTtlSeconds('naming')).toBe(7 * 24 * 3600);
+  });
+
+  it('rejects TTLs that are not whole seconds', () => {
+    for (const value of ['week', '-1', '1.5', '60s']) {
+      process.env.RESULT_CACHE_TTL_NAMING = value;
+      expect(() => validateCacheConfig()).toThrow(`Invalid RESULT_CACHE_TTL_NAMING "${value}" (expected seconds, 0 to disable)`);
+    }
+  });
+});
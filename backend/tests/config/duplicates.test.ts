@@ -0,0 +1,33 @@
+import { getDuplicateThresholds, validateDuplicatesConfig } from '../../src/config/duplicates';
+
+describe('duplicates config', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.DUPLICATE_IMAGE_THRESHOLD;
+    delete process.env.DUPLICATE_TEXT_THRESHOLD;
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('has defaults', () => {
+    expect(getDuplicateThresholds()).toEqual({ image: 0.9, text: 0.7 });
+  });
+
+  it('reads the settings when asked, not when loaded', () => {
+    process.env.DUPLICATE_IMAGE_THRESHOLD = '0.95';
+    process.env.DUPLICATE_TEXT_THRESHOLD = '1';
+    expect(getDuplicateThresholds()).toEqual({ image: 0.95, text: 1 });
+  });
+
+  it('rejects bad values at validation', () => {
+    process.env.DUPLICATE_TEXT_THRESHOLD = '70';
+    expect(() => validateDuplicatesConfig()).toThrow('Invalid DUPLICATE_TEXT_THRESHOLD "70" (expected a number from 0 to 1)');
+
+    process.env.DUPLICATE_TEXT_THRESHOLD = '0.7';
+    process.env.DUPLICATE_IMAGE_THRESHOLD = 'high';
+    expect(() => validateDuplicatesConfig()).toThrow('Invalid DUPLICATE_IMAGE_THRESHOLD "high"');
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getEmbeddingsConfig, getVectorIndexPath, validateEmbeddingsConfig } from '../../src/config/embeddings';
+
+describe('getEmbeddingsConfig', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    ['OPENAI_API_KEY', 'EMBEDDINGS_PROVIDER', 'EMBEDDINGS_MODEL', 'VECTOR_INDEX_PATH'].forEach(name => delete process.env[name]);
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('stays offline without an OpenAI API key', () => {
+    expect(getEmbeddingsConfig()).toEqual({ provider: 'hashing', model: 'hashing-v1' });
+  });
+
+  it('uses OpenAI with its default model when a key is set', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    expect(getEmbeddingsConfig()).toEqual({ provider: 'openai', model: 'text-embedding-3-small' });
+  });
+
+  it('takes the provider and model from the environment', () => {
+    process.env.EMBEDDINGS_PROVIDER = 'Local';
+    expect(getEmbeddingsConfig()).toEqual({ provider: 'local', model: 'nomic-embed-text' });
+
+    process.env.EMBEDDINGS_MODEL = 'mxbai-embed-large';
+    expect(getEmbeddingsConfig()).toEqual({ provider: 'local', model: 'mxbai-embed-large' });
+  });
+
+  it('rejects unknown providers', () => {
+    process.env.EMBEDDINGS_PROVIDER = 'cohere';
+    expect(() => getEmbeddingsConfig()).toThrow('Unknown embeddings provider "cohere"');
+  });
+
+  it('keeps vector indexes under vector-index unless VECTOR_INDEX_PATH is set', () => {
+    expect(getVectorIndexPath()).toBe(path.join(process.cwd(), 'vector-index'));
+
+    process.env.VECTOR_INDEX_PATH = os.tmpdir();
+    expect(getVectorIndexPath()).toBe(path.resolve(os.tmpdir()));
+  });
+
+  it('rejects bad values at validation', async () => {
+    process.env.EMBEDDINGS_PROVIDER = 'cohere';
+    expect(() => validateEmbeddingsConfig()).toThrow('Unknown embeddings provider "cohere"');
+
+    delete process.env.EMBEDDINGS_PROVIDER;
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'embeddings-config-'));
+    const file = path.join(directory, 'file');
+    await fs.writeFile(file, '');
+    process.env.VECTOR_INDEX_PATH = file;
+    try {
+      expect(() => validateEmbeddingsConfig()).toThrow(`Invalid VECTOR_INDEX_PATH "${file}" (expected a directory)`);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { readInteger, readNumber } from '../../src/config/env';
+
+describe('env settings', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.TEST_SETTING;
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('falls back when a setting is unset or blank', () => {
+    expect(readInteger('TEST_SETTING', 3)).toBe(3);
+
+    process.env.TEST_SETTING = '  ';
+    expect(readNumber('TEST_SETTING', 0.5)).toBe(0.5);
+  });
+
+  it('reads numbers and integers', () => {
+    process.env.TEST_SETTING = ' 0.75 ';
+    expect(readNumber('TEST_SETTING', 0.5, { min: 0, max: 1 })).toBe(0.75);
+
+    process.env.TEST_SETTING = '20';
+    expect(readInteger('TEST_SETTING', 3, { min: 1 })).toBe(20);
+  });
+
+  it('rejects values that are not numbers', () => {
+    for (const value of ['abc', '12px', 'NaN', 'Infinity']) {
+      process.env.TEST_SETTING = value;
+      expect(() => readNumber('TEST_SETTING', 1)).toThrow(`Invalid TEST_SETTING "${value}" (expected a number)`);
+    }
+  });
+
+  it('rejects fractions where an integer is expected', () => {
+    process.env.TEST_SETTING = '2.5';
+
+    expect(() => readInteger('TEST_SETTING', 1)).toThrow('Invalid TEST_SETTING "2.5" (expected an integer)');
+  });
+
+  it('rejects values out of range', () => {
+    process.env.TEST_SETTING = '0';
+    expect(() => readInteger('TEST_SETTING', 3, { min: 1, max: 10 })).toThrow('(expected an integer from 1 to 10)');
+    expect(() => readInteger('TEST_SETTING', 3, { min: 1 })).toThrow('(expected an integer of at least 1)');
+
+    process.env.TEST_SETTING = '1.5';
+    expect(() => readNumber('TEST_SETTING', 0.5, { max: 1 })).toThrow('(expected a number of at most 1)');
+  });
+});
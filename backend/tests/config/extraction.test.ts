@@ -0,0 +1,34 @@
+import { getPdfExtractionConfig, validateExtractionConfig } from '../../src/config/extraction';
+
+describe('extraction config', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.PDF_MAX_PAGES;
+    delete process.env.PDF_OCR_DPI;
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('reads 50 pages at 200 dpi by default', () => {
+    expect(getPdfExtractionConfig()).toEqual({ maxPages: 50, ocrDpi: 200 });
+  });
+
+  it('reads the page limit and OCR resolution', () => {
+    process.env.PDF_MAX_PAGES = '10';
+    process.env.PDF_OCR_DPI = '300';
+
+    expect(getPdfExtractionConfig()).toEqual({ maxPages: 10, ocrDpi: 300 });
+  });
+
+  it('rejects bad values at validation', () => {
+    process.env.PDF_MAX_PAGES = 'all';
+    expect(() => validateExtractionConfig()).toThrow('Invalid PDF_MAX_PAGES "all" (expected an integer of at least 1)');
+
+    delete process.env.PDF_MAX_PAGES;
+    process.env.PDF_OCR_DPI = '2000';
+    expect(() => validateExtractionConfig()).toThrow('Invalid PDF_OCR_DPI "2000" (expected an integer from 72 to 600)');
+  });
+});
@@ -0,0 +1,36 @@
+import { getFileCategory, resolveMimeType } from '../../src/config/fileTypes';
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+describe('resolveMimeType', () => {
+  it('returns the canonical MIME type of supported uploads', () => {
+    expect(resolveMimeType('image/jpg', 'photo.jpg')).toBe('image/jpeg');
+    expect(resolveMimeType('text/x-markdown', 'notes.md')).toBe('text/markdown');
+    expect(resolveMimeType('text/rtf', 'letter.rtf')).toBe('application/rtf');
+  });
+
+  it('falls back to the extension for generic MIME types', () => {
+    expect(resolveMimeType('application/octet-stream', 'Report.DOCX')).toBe(DOCX);
+    expect(resolveMimeType('', 'notes.markdown')).toBe('text/markdown');
+    expect(resolveMimeType('text/plain', 'letter.rtf')).toBe('application/rtf');
+    expect(resolveMimeType('text/plain', 'notes.txt')).toBe('text/plain');
+  });
+
+  it('trusts a specific MIME type over the extension', () => {
+    expect(resolveMimeType('application/pdf', 'scan.png')).toBe('application/pdf');
+  });
+
+  it('rejects unsupported uploads', () => {
+    expect(resolveMimeType('application/zip', 'archive.zip')).toBeNull();
+    expect(resolveMimeType('application/octet-stream', 'program.exe')).toBeNull();
+  });
+});
+
+describe('getFileCategory', () => {
+  it('groups MIME types into images, PDFs and documents', () => {
+    expect(getFileCategory('image/png')).toBe('image');
+    expect(getFileCategory('application/pdf')).toBe('pdf');
+    expect(getFileCategory(DOCX)).toBe('document');
+    expect(getFileCategory('application/unknown')).toBe('document');
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  getLocalLlmConfig,
+  getNamingCandidateCount,
+  getNamingConfig,
+  validateNamingConfig,
+} from '../../src/config/naming';
+
+const NAMING_VARIABLES = [
+  'OPENAI_API_KEY',
+  'NAMING_PROVIDER',
+  'NAMING_MODEL',
+  'NAMING_PROVIDER_GUEST',
+  'NAMING_PROVIDER_ADMIN',
+  'NAMING_MODEL_PREMIUM',
+  'NAMING_CANDIDATES',
+  'LOCAL_LLM_BASE_URL',
+  'LOCAL_LLM_API_KEY',
+];
+
+describe('getNamingConfig', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    NAMING_VARIABLES.forEach(name => delete process.env[name]);
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('stays offline without an OpenAI API key', () => {
+    expect(getNamingConfig('free')).toEqual({ provider: 'rules', model: 'rules-v1' });
+  });
+
+  it('uses OpenAI with its default model when a key is set', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    expect(getNamingConfig('free')).toEqual({ provider: 'openai', model: 'gpt-3.5-turbo' });
+  });
+
+  it('lets tier-specific variables override the global ones', () => {
+    process.env.NAMING_PROVIDER = 'LOCAL';
+    process.env.NAMING_MODEL = 'qwen2.5';
+    process.env.NAMING_PROVIDER_GUEST = 'rules';
+    process.env.NAMING_MODEL_PREMIUM = 'llama3.1:70b';
+
+    expect(getNamingConfig('guest')).toEqual({ provider: 'rules', model: 'qwen2.5' });
+    expect(getNamingConfig('free')).toEqual({ provider: 'local', model: 'qwen2.5' });
+    expect(getNamingConfig('premium')).toEqual({ provider: 'local', model: 'llama3.1:70b' });
+  });
+
+  it('rejects unknown providers', () => {
+    process.env.NAMING_PROVIDER = 'gemini';
+    expect(() => getNamingConfig('free')).toThrow('Unknown naming provider "gemini"');
+  });
+});
+
+describe('naming settings', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    NAMING_VARIABLES.forEach(name => delete process.env[name]);
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('offers three candidates unless NAMING_CANDIDATES says otherwise', () => {
+    expect(getNamingCandidateCount()).toBe(3);
+    process.env.NAMING_CANDIDATES = '5';
+    expect(getNamingCandidateCount()).toBe(5);
+  });
+
+  it('points the local provider at Ollama by default', () => {
+    expect(getLocalLlmConfig()).toEqual({ baseURL: 'http://localhost:11434/v1', apiKey: 'local' });
+
+    process.env.LOCAL_LLM_BASE_URL = 'http://llm:8080/v1';
+    process.env.LOCAL_LLM_API_KEY = 'secret';
+    expect(getLocalLlmConfig()).toEqual({ baseURL: 'http://llm:8080/v1', apiKey: 'secret' });
+  });
+
+  it('rejects a candidate count that is not a number from 1 to 10 at validation', () => {
+    process.env.NAMING_CANDIDATES = 'three';
+    expect(() => validateNamingConfig()).toThrow('Invalid NAMING_CANDIDATES "three" (expected an integer from 1 to 10)');
+
+    process.env.NAMING_CANDIDATES = '20';
+    expect(() => validateNamingConfig()).toThrow('Invalid NAMING_CANDIDATES "20"');
+  });
+
+  it('checks the provider of every tier at validation', () => {
+    expect(() => validateNamingConfig()).not.toThrow();
+
+    process.env.NAMING_PROVIDER_ADMIN = 'gemini';
+    expect(() => validateNamingConfig()).toThrow('Unknown naming provider "gemini"');
+  });
+});
@@ -0,0 +1,48 @@
+import { getQueueConfig, validateQueueConfig } from '../../src/config/queue';
+
+describe('queue config', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.JOB_MAX_ATTEMPTS;
+    delete process.env.JOB_CONCURRENCY;
+    delete process.env.JOB_POLL_INTERVAL_MS;
+    delete process.env.JOB_RETRY_BASE_DELAY_MS;
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('has defaults', () => {
+    expect(getQueueConfig()).toEqual({
+      maxAttempts: 3,
+      concurrency: 2,
+      pollIntervalMs: 2000,
+      retryBaseDelayMs: 10000,
+    });
+  });
+
+  it('reads the settings when asked, not when loaded', () => {
+    process.env.JOB_MAX_ATTEMPTS = '5';
+    process.env.JOB_CONCURRENCY = '4';
+    process.env.JOB_POLL_INTERVAL_MS = '500';
+    process.env.JOB_RETRY_BASE_DELAY_MS = '0';
+
+    expect(getQueueConfig()).toEqual({
+      maxAttempts: 5,
+      concurrency: 4,
+      pollIntervalMs: 500,
+      retryBaseDelayMs: 0,
+    });
+  });
+
+  it('rejects bad values at validation', () => {
+    process.env.JOB_CONCURRENCY = 'two';
+    expect(() => validateQueueConfig()).toThrow('Invalid JOB_CONCURRENCY "two" (expected an integer of at least 1)');
+
+    delete process.env.JOB_CONCURRENCY;
+    process.env.JOB_MAX_ATTEMPTS = '0';
+    expect(() => validateQueueConfig()).toThrow('Invalid JOB_MAX_ATTEMPTS "0" (expected an integer of at least 1)');
+  });
+});
@@ -0,0 +1,39 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getSearchIndexPath, validateSearchConfig } from '../../src/config/search';
+
+describe('search config', () => {
+  const original = { ...process.env };
+  let directory: string;
+
+  beforeEach(async () => {
+    delete process.env.SEARCH_INDEX_PATH;
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'search-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('defaults to search-index in the working directory', () => {
+    expect(getSearchIndexPath()).toBe(path.join(process.cwd(), 'search-index'));
+  });
+
+  it('reads the setting when asked, not when loaded', () => {
+    process.env.SEARCH_INDEX_PATH = path.join(directory, 'indexes');
+    expect(getSearchIndexPath()).toBe(path.join(directory, 'indexes'));
+  });
+
+  it('rejects a path that is not a directory at validation', async () => {
+    const file = path.join(directory, 'file');
+    await fs.writeFile(file, '');
+    process.env.SEARCH_INDEX_PATH = file;
+
+    expect(() => validateSearchConfig()).toThrow(`Invalid SEARCH_INDEX_PATH "${file}" (expected a directory)`);
+  });
+});
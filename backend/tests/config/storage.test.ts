@@ -0,0 +1,90 @@
+import path from 'path';
+import { getSignedUrlTtlSeconds, getSigningSecret, getStorageConfig, validateStorageConfig } from '../../src/config/storage';
+
+describe('storage config', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith('S3_') || name.startsWith('STORAGE_') || name === 'UPLOAD_PATH' || name === 'SIGNED_URL_TTL_SECONDS') {
+        delete process.env[name];
+      }
+    }
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('stores files on local disk by default', () => {
+    expect(getStorageConfig()).toEqual({ driver: 'local', directory: path.resolve('uploads') });
+  });
+
+  it('reads the local directory', () => {
+    process.env.UPLOAD_PATH = '/srv/uploads';
+
+    expect(getStorageConfig()).toEqual({ driver: 'local', directory: '/srv/uploads' });
+  });
+
+  it('reads the S3 bucket, endpoint and credentials', () => {
+    process.env.STORAGE_DRIVER = 'S3';
+    process.env.S3_BUCKET = 'uploads';
+    process.env.S3_ENDPOINT = 'http://localhost:9000';
+    process.env.S3_FORCE_PATH_STYLE = 'true';
+    process.env.S3_ACCESS_KEY_ID = 'minio';
+    process.env.S3_SECRET_ACCESS_KEY = 'minio-secret';
+
+    expect(getStorageConfig()).toEqual({
+      driver: 's3',
+      bucket: 'uploads',
+      region: 'us-east-1',
+      endpoint: 'http://localhost:9000',
+      forcePathStyle: true,
+      accessKeyId: 'minio',
+      secretAccessKey: 'minio-secret',
+    });
+  });
+
+  it('requires a bucket for S3', () => {
+    process.env.STORAGE_DRIVER = 's3';
+
+    expect(() => getStorageConfig()).toThrow('S3_BUCKET is required when STORAGE_DRIVER=s3');
+  });
+
+  it('rejects unknown drivers', () => {
+    process.env.STORAGE_DRIVER = 'gcs';
+
+    expect(() => getStorageConfig()).toThrow('Unknown storage driver "gcs" (expected one of: local, s3)');
+  });
+
+  it('rejects bad driver settings at validation', () => {
+    process.env.STORAGE_SIGNING_SECRET = 'secret';
+    process.env.STORAGE_DRIVER = 's3';
+    expect(() => validateStorageConfig()).toThrow('S3_BUCKET is required when STORAGE_DRIVER=s3');
+
+    process.env.S3_BUCKET = 'uploads';
+    expect(() => validateStorageConfig()).not.toThrow();
+  });
+
+  it('requires a signing secret', () => {
+    expect(() => getSigningSecret()).toThrow('STORAGE_SIGNING_SECRET is required');
+
+    process.env.STORAGE_SIGNING_SECRET = 'secret';
+    expect(getSigningSecret()).toBe('secret');
+  });
+
+  it('reads the signed URL lifetime when asked', () => {
+    expect(getSignedUrlTtlSeconds()).toBe(900);
+
+    process.env.SIGNED_URL_TTL_SECONDS = '3600';
+    expect(getSignedUrlTtlSeconds()).toBe(3600);
+  });
+
+  it('rejects a missing signing secret or a bad URL lifetime at validation', () => {
+    expect(() => validateStorageConfig()).toThrow('STORAGE_SIGNING_SECRET is required');
+
+    process.env.STORAGE_SIGNING_SECRET = 'secret';
+    process.env.SIGNED_URL_TTL_SECONDS = '5';
+    expect(() => validateStorageConfig()).toThrow('Invalid SIGNED_URL_TTL_SECONDS "5" (expected an integer from 10 to 604800)');
+  });
+});
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type TaxonomyModule = typeof import('../../src/config/taxonomy');
+
+describe('taxonomy', () => {
+  const original = process.env.CLASSIFICATION_TAXONOMY_FILE;
+  let dir: string;
+
+  // The taxonomy is read once, when the module loads
+  const loadWith = (categories: unknown): TaxonomyModule => {
+    const file = path.join(dir, 'taxonomy.json');
+    fs.writeFileSync(file, JSON.stringify(categories));
+    process.env.CLASSIFICATION_TAXONOMY_FILE = file;
+
+    let taxonomy: TaxonomyModule | undefined;
+    jest.isolateModules(() => {
+      taxonomy = require('../../src/config/taxonomy');
+    });
+    return taxonomy!;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taxonomy-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (original === undefined) {
+      delete process.env.CLASSIFICATION_TAXONOMY_FILE;
+    } else {
+      process.env.CLASSIFICATION_TAXONOMY_FILE = original;
+    }
+  });
+
+  it('always offers the "other" catch-all', () => {
+    const { TAXONOMY, getTaxonomyCategory } = loadWith([
+      { id: 'recipe', label: 'Recipe', description: 'Cooking instructions', keywords: ['Ingredients'] },
+    ]);
+
+    expect(TAXONOMY.map(category => category.id)).toEqual(['recipe', 'other']);
+    expect(getTaxonomyCategory('recipe')?.keywords).toEqual(['ingredients']);
+  });
+
+  it('rejects invalid taxonomy files', () => {
+    expect(() => loadWith([{ id: 'Bad Id', label: 'Bad', description: 'Bad' }]))
+      .toThrow(/Invalid classification taxonomy/);
+    expect(() => loadWith([
+      { id: 'dup', label: 'One', description: 'One' },
+      { id: 'dup', label: 'Two', description: 'Two' },
+    ])).toThrow(/Invalid classification taxonomy/);
+  });
+});
@@ -0,0 +1,22 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { FileDocument } from '../../src/config/database';
+
+export function fileDocument(id: string, overrides: Partial<FileDocument> = {}): FileDocument {
+  const createdAt = Timestamp.fromMillis(Date.UTC(2024, 0, 1));
+  return {
+    id,
+    userId: 'user-1',
+    originalName: `${id}.pdf`,
+    storageKey: `user-1/${id}.pdf`,
+    filePath: `uploads/${id}.pdf`,
+    fileType: 'document',
+    fileSize: 1000,
+    mimeType: 'application/pdf',
+    isProcessed: true,
+    isRenamed: false,
+    processingStatus: 'completed',
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
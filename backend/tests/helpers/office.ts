@@ -0,0 +1,20 @@
+import JSZip from 'jszip';
+
+/**
+ * Zip `parts` (part name -> XML) into an Office Open XML package
+ */
+export async function buildPackage(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, xml] of Object.entries(parts)) {
+    zip.file(name, xml);
+  }
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+export function coreProperties(fields: { title?: string; creator?: string; created?: string }): string {
+  return '<cp:coreProperties xmlns:cp="cp" xmlns:dc="dc" xmlns:dcterms="dcterms">'
+    + (fields.title ? `<dc:title>${fields.title}</dc:title>` : '')
+    + (fields.creator ? `<dc:creator>${fields.creator}</dc:creator>` : '')
+    + (fields.created ? `<dcterms:created xsi:type="dcterms:W3CDTF">${fields.created}</dcterms:created>` : '')
+    + '</cp:coreProperties>';
+}
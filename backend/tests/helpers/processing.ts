@@ -0,0 +1,57 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { ProcessingJobDocument, ProcessingSessionDocument } from '../../src/config/database';
+
+export function processingJob(overrides: Partial<ProcessingJobDocument> & { id: string }): ProcessingJobDocument {
+  const now = Timestamp.now();
+  return {
+    sessionId: 'session-1',
+    fileId: overrides.id,
+    userId: 'user-1',
+    status: 'running',
+    attempts: 1,
+    maxAttempts: 3,
+    runAfter: now,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+export function processingSession(overrides: Partial<ProcessingSessionDocument> = {}): ProcessingSessionDocument {
+  const now = Timestamp.now();
+  return {
+    id: 'session-1',
+    userId: 'user-1',
+    fileIds: ['file-a', 'file-b'],
+    status: 'processing',
+    progress: 0,
+    currentFileIndex: 0,
+    totalFiles: 2,
+    processedFiles: 0,
+    failedFiles: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+/**
+ * Wait (up to a second) for async work triggered elsewhere to catch up
+ */
+export async function until(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+/**
+ * A promise to settle from the test, for holding async work midway
+ */
+export function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(settle => {
+    resolve = settle;
+  });
+  return { promise, resolve };
+}
@@ -0,0 +1,51 @@
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectNotFoundError } from '../../src/services/storage/types';
+
+/**
+ * In-memory StorageDriver for tests
+ */
+export class MemoryStorageDriver implements StorageDriver {
+  readonly name = 'memory';
+  readonly objects = new Map<string, Buffer>();
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    if (Buffer.isBuffer(body)) {
+      this.objects.set(key, body);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk));
+    }
+    this.objects.set(key, Buffer.concat(chunks));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const object = this.objects.get(key);
+    if (!object) {
+      throw new StorageObjectNotFoundError(key);
+    }
+    return object;
+  }
+
+  async stream(key: string): Promise<Readable> {
+    return Readable.from([await this.get(key)]);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.objects.has(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    this.objects.set(toKey, await this.get(fromKey));
+    this.objects.delete(fromKey);
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    return `memory://${key}`;
+  }
+}
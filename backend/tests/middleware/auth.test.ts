@@ -0,0 +1,117 @@
+import type { Response } from 'express';
+import type { UserDocument } from '../../src/config/database';
+import { DatabaseService } from '../../src/config/database';
+import { auth } from '../../src/config/firebase';
+import { AuthenticatedRequest, GUEST_SESSION_HEADER, isOwner, optionalAuth } from '../../src/middleware/auth';
+
+jest.mock('../../src/config/firebase', () => ({
+  auth: { verifyIdToken: jest.fn() },
+}));
+
+jest.mock('../../src/config/database', () => ({
+  DatabaseService: { getUser: jest.fn() },
+}));
+
+const verifyIdToken = jest.mocked(auth.verifyIdToken);
+const database = jest.mocked(DatabaseService);
+
+const GUEST_SESSION = 'a'.repeat(32);
+
+function request(headers: Record<string, string> = {}, extra: Partial<AuthenticatedRequest> = {}): AuthenticatedRequest {
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return {
+    headers: lowerCased,
+    get: (name: string) => lowerCased[name.toLowerCase()],
+    ...extra,
+  } as unknown as AuthenticatedRequest;
+}
+
+function response(): Response & { setHeader: jest.Mock } {
+  return { setHeader: jest.fn() } as unknown as Response & { setHeader: jest.Mock };
+}
+
+describe('optionalAuth', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('starts a guest session for new guests and returns it', async () => {
+    const req = request();
+    const res = response();
+    const next = jest.fn();
+    await optionalAuth(req, res, next);
+
+    expect(req.guestSessionId).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(res.setHeader).toHaveBeenCalledWith(GUEST_SESSION_HEADER, req.guestSessionId);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('gives every new guest a different session', async () => {
+    const first = request();
+    const second = request();
+    await optionalAuth(first, response(), jest.fn());
+    await optionalAuth(second, response(), jest.fn());
+
+    expect(first.guestSessionId).not.toBe(second.guestSessionId);
+  });
+
+  it('keeps the session the guest sends back', async () => {
+    const req = request({ [GUEST_SESSION_HEADER]: GUEST_SESSION });
+    const res = response();
+    await optionalAuth(req, res, jest.fn());
+
+    expect(req.guestSessionId).toBe(GUEST_SESSION);
+    expect(res.setHeader).toHaveBeenCalledWith(GUEST_SESSION_HEADER, GUEST_SESSION);
+  });
+
+  it('replaces sessions that are too short to be unguessable', async () => {
+    const req = request({ [GUEST_SESSION_HEADER]: 'abc' });
+    await optionalAuth(req, response(), jest.fn());
+
+    expect(req.guestSessionId).not.toBe('abc');
+    expect(req.guestSessionId).toHaveLength(32);
+  });
+
+  it('gives signed-in users no guest session', async () => {
+    verifyIdToken.mockResolvedValue({ uid: 'user-1' } as Awaited<ReturnType<typeof auth.verifyIdToken>>);
+    database.getUser.mockResolvedValue({ uid: 'user-1' } as UserDocument);
+    const req = request({ Authorization: 'Bearer token', [GUEST_SESSION_HEADER]: GUEST_SESSION });
+    const res = response();
+    await optionalAuth(req, res, jest.fn());
+
+    expect(req.user?.uid).toBe('user-1');
+    expect(req.guestSessionId).toBeUndefined();
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a guest session when the token is invalid', async () => {
+    verifyIdToken.mockRejectedValue(new Error('Invalid token'));
+    const req = request({ Authorization: 'Bearer expired' });
+    await optionalAuth(req, response(), jest.fn());
+
+    expect(req.user).toBeUndefined();
+    expect(req.guestSessionId).toHaveLength(32);
+  });
+});
+
+describe('isOwner', () => {
+  const user = { uid: 'user-1' } as UserDocument;
+
+  it('lets users access only their own resources', () => {
+    expect(isOwner(request({}, { user }), { userId: 'user-1' })).toBe(true);
+    expect(isOwner(request({}, { user }), { userId: 'user-2' })).toBe(false);
+    expect(isOwner(request({}, { user }), { userId: 'guest', guestSessionId: GUEST_SESSION })).toBe(false);
+  });
+
+  it('lets guests access only resources of their own guest session', () => {
+    const guest = request({}, { guestSessionId: GUEST_SESSION });
+    expect(isOwner(guest, { userId: 'guest', guestSessionId: GUEST_SESSION })).toBe(true);
+    expect(isOwner(guest, { userId: 'guest', guestSessionId: 'b'.repeat(32) })).toBe(false);
+    expect(isOwner(guest, { userId: 'guest' })).toBe(false);
+    expect(isOwner(guest, { userId: 'user-1' })).toBe(false);
+  });
+
+  it('denies guests without a session', () => {
+    expect(isOwner(request(), { userId: 'guest' })).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { validateCacheConfig } from '../../../src/config/cache';
+import { DatabaseService } from '../../../src/config/database';
+import { ResultCacheService } from '../../../src/services/cache';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {
+    deleteCacheEntries: jest.fn(),
+    getCacheEntry: jest.fn(),
+    setCacheEntry: jest.fn(),
+  },
+}));
+
+const database = jest.mocked(DatabaseService);
+
+const key = { contentHash: 'abc123', provider: 'openai', model: 'gpt-4o-mini', version: 'v1' };
+
+function entry(value: unknown, expiresInMs: number) {
+  return {
+    kind: 'naming' as const,
+    ...key,
+    value: JSON.stringify(value),
+    createdAt: Timestamp.now(),
+    expiresAt: Timestamp.fromMillis(Date.now() + expiresInMs),
+  };
+}
+
+describe('ResultCacheService', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.RESULT_CACHE;
+    delete process.env.RESULT_CACHE_TTL_NAMING;
+    validateCacheConfig();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    database.getCacheEntry.mockResolvedValue(null);
+    database.setCacheEntry.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('computes and stores results it has not seen', async () => {
+    const compute = jest.fn(async () => ['Invoice_ACME']);
+
+    await expect(ResultCacheService.getOrCompute('naming', key, compute)).resolves.toEqual(['Invoice_ACME']);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(database.setCacheEntry).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      kind: 'naming',
+      ...key,
+      value: '["Invoice_ACME"]',
+    }));
+    const [, stored] = database.setCacheEntry.mock.calls[0];
+    expect(stored.expiresAt.toMillis() - Date.now()).toBeGreaterThan(7 * 24 * 3600 * 1000 - 60000);
+  });
+
+  it('returns stored results without computing them', async () => {
+    database.getCacheEntry.mockResolvedValue(entry(['Cached'], 60000));
+    const compute = jest.fn(async () => ['Fresh']);
+
+    await expect(ResultCacheService.getOrCompute('naming', key, compute)).resolves.toEqual(['Cached']);
+    expect(compute).not.toHaveBeenCalled();
+  });
+
+  it('recomputes expired results', async () => {
+    database.getCacheEntry.mockResolvedValue(entry(['Cached'], -1000));
+
+    await expect(ResultCacheService.getOrCompute('naming', key, async () => ['Fresh'])).resolves.toEqual(['Fresh']);
+  });
+
+  it('addresses entries by kind, content, provider, model and version', async () => {
+    const compute = async () => 'text';
+    await ResultCacheService.getOrCompute('naming', key, compute);
+    await ResultCacheService.getOrCompute('naming', key, compute);
+    await ResultCacheService.getOrCompute('naming', { ...key, version: 'v2' }, compute);
+    await ResultCacheService.getOrCompute('extraction', key, compute);
+
+    const ids = database.getCacheEntry.mock.calls.map(([id]) => id);
+    expect(ids[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(ids[1]).toBe(ids[0]);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('computes results when the cache fails', async () => {
+    database.getCacheEntry.mockRejectedValue(new Error('unavailable'));
+    database.setCacheEntry.mockRejectedValue(new Error('document too large'));
+
+    await expect(ResultCacheService.getOrCompute('naming', key, async () => 'text')).resolves.toBe('text');
+  });
+
+  it('skips the cache for kinds that are turned off', async () => {
+    process.env.RESULT_CACHE_TTL_NAMING = '0';
+    validateCacheConfig();
+
+    await expect(ResultCacheService.getOrCompute('naming', key, async () => 'text')).resolves.toBe('text');
+    expect(database.getCacheEntry).not.toHaveBeenCalled();
+    expect(database.setCacheEntry).not.toHaveBeenCalled();
+  });
+
+  it('counts hits, misses, writes and errors per kind', async () => {
+    const before = ResultCacheService.getStats().naming;
+    database.getCacheEntry.mockResolvedValueOnce(entry('cached', 60000));
+    await ResultCacheService.getOrCompute('naming', key, async () => 'text');
+    await ResultCacheService.getOrCompute('naming', key, async () => 'text');
+    database.setCacheEntry.mockRejectedValueOnce(new Error('document too large'));
+    await ResultCacheService.getOrCompute('naming', key, async () => 'text');
+
+    const after = ResultCacheService.getStats().naming;
+    expect({
+      hits: after.hits - before.hits,
+      misses: after.misses - before.misses,
+      writes: after.writes - before.writes,
+      errors: after.errors - before.errors,
+    }).toEqual({ hits: 1, misses: 2, writes: 1, errors: 1 });
+    expect(after.hitRate).toBe(Math.round(after.hits / (after.hits + after.misses) * 1000) / 1000);
+  });
+
+  it('deletes entries from other versions', async () => {
+    database.deleteCacheEntries.mockResolvedValue(3);
+
+    await expect(ResultCacheService.invalidate('naming', 'v2')).resolves.toBe(3);
+    expect(database.deleteCacheEntries).toHaveBeenCalledWith('naming', 'v2');
+  });
+});
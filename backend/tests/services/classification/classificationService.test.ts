@@ -0,0 +1,55 @@
+import { ClassificationService } from '../../../src/services/classification';
+import { NamingService } from '../../../src/services/naming';
+import { OpenAINamingProvider } from '../../../src/services/naming/openAIProvider';
+import { RulesNamingProvider } from '../../../src/services/naming/rulesProvider';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {},
+}));
+
+const request = {
+  extractedText: 'INVOICE\nInvoice number: 1042\nBill to: ACME Corp\nAmount due: 120.00',
+  originalFilename: 'scan.pdf',
+};
+
+describe('ClassificationService', () => {
+  const model = new OpenAINamingProvider({ name: 'openai', model: 'gpt-4o-mini' });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses keywords alone on the rules provider', async () => {
+    jest.spyOn(NamingService, 'getProvider').mockReturnValue(new RulesNamingProvider());
+
+    await expect(ClassificationService.classify(request, null)).resolves.toMatchObject({
+      category: 'invoice',
+      confidence: 1,
+      source: 'keywords',
+    });
+  });
+
+  it('weights the model\'s scores over the keyword scores', async () => {
+    jest.spyOn(NamingService, 'getProvider').mockReturnValue(model);
+    jest.spyOn(model, 'classifyDocument').mockResolvedValue({ receipt: 0.9, invoice: 0.1 });
+
+    const result = await ClassificationService.classify(request, null);
+
+    expect(result).toMatchObject({ category: 'receipt', confidence: 0.63, source: 'model' });
+    expect(result.scores.invoice).toBe(0.37);
+  });
+
+  it('falls back to keywords when the model fails', async () => {
+    jest.spyOn(NamingService, 'getProvider').mockReturnValue(model);
+    jest.spyOn(model, 'classifyDocument').mockRejectedValue(new Error('openai returned no usable category scores'));
+
+    await expect(ClassificationService.classify(request, null)).resolves.toMatchObject({
+      category: 'invoice',
+      source: 'keywords',
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { TAXONOMY } from '../../../src/config/taxonomy';
+import { classifyByKeywords, normalize, topCategory } from '../../../src/services/classification/keywordClassifier';
+
+const INVOICE = 'INVOICE\nInvoice number: 1042\nBill to: ACME Corp\nAmount due: 120.00\nPayment terms: 30 days';
+
+describe('classifyByKeywords', () => {
+  it('trusts a category with enough distinct keyword hits', () => {
+    const scores = classifyByKeywords(INVOICE);
+    expect(topCategory(scores)).toEqual({ category: 'invoice', confidence: 1 });
+  });
+
+  it('leaves most of the probability on "other" for weak evidence', () => {
+    const scores = classifyByKeywords('See the attached invoice');
+    expect(scores.invoice).toBe(0.333);
+    expect(topCategory(scores)).toEqual({ category: 'other', confidence: 0.667 });
+  });
+
+  it('splits the score between categories with hits', () => {
+    const scores = classifyByKeywords('Receipt for your purchase. Paid by card ending 4242. Invoice number 7.');
+    expect(scores.receipt).toBeGreaterThan(scores.invoice);
+    expect(scores.invoice).toBeGreaterThan(0);
+  });
+
+  it('only matches whole words and phrases', () => {
+    expect(classifyByKeywords('Private changes to the storefront')).toMatchObject({ other: 1 });
+  });
+
+  it('treats images with little text as photos', () => {
+    expect(topCategory(classifyByKeywords('IMG 2041', 'image'))).toEqual({ category: 'photo', confidence: 0.8 });
+    expect(topCategory(classifyByKeywords(INVOICE, 'image')).category).toBe('invoice');
+  });
+});
+
+describe('normalize', () => {
+  it('scales scores to sum to 1 over every category', () => {
+    const scores = normalize({ invoice: 2, receipt: 1, letter: -1 });
+
+    expect(Object.keys(scores).sort()).toEqual(TAXONOMY.map(category => category.id).sort());
+    expect(scores).toMatchObject({ invoice: 0.667, receipt: 0.333, letter: 0, other: 0 });
+  });
+
+  it('puts everything on "other" when there is no signal', () => {
+    expect(normalize({})).toMatchObject({ invoice: 0, other: 1 });
+  });
+});
+
+describe('topCategory', () => {
+  it('prefers "other" on ties', () => {
+    expect(topCategory({ invoice: 0.5, other: 0.5 })).toEqual({ category: 'other', confidence: 0.5 });
+  });
+});
@@ -0,0 +1,104 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { FileDocument } from '../../../src/config/database';
+import { computeTextSignature, DuplicateService } from '../../../src/services/duplicates';
+
+const ZERO = '0000000000000000';
+const REPORT = 'Quarterly report for the sales team covering revenue, costs, hiring plans and the outlook for the next two quarters in Europe and Asia';
+const SIMILAR_REPORT = REPORT.replace('Asia', 'Africa');
+
+function file(id: string, overrides: Partial<FileDocument> = {}): FileDocument {
+  return {
+    id,
+    userId: 'user-1',
+    originalName: `${id}.jpg`,
+    storageKey: `user-1/${id}.jpg`,
+    filePath: `uploads/${id}.jpg`,
+    fileType: 'image',
+    fileSize: 1000,
+    mimeType: 'image/jpeg',
+    isProcessed: true,
+    isRenamed: false,
+    processingStatus: 'completed',
+    createdAt: Timestamp.fromMillis(Date.UTC(2024, 0, 1)),
+    updatedAt: Timestamp.fromMillis(Date.UTC(2024, 0, 1)),
+    ...overrides,
+  };
+}
+
+const imageHash = (hex: string) => ({ dHash: hex, pHash: hex });
+
+describe('DuplicateService.compare', () => {
+  it('reports identical content hashes as exact duplicates', () => {
+    expect(DuplicateService.compare(file('a', { contentHash: 'abc' }), file('b', { contentHash: 'abc' })))
+      .toEqual({ similarity: 1, reason: 'exact' });
+  });
+
+  it('compares perceptual hashes by Hamming distance', () => {
+    const match = DuplicateService.compare(
+      file('a', { perceptualHash: imageHash(ZERO) }),
+      file('b', { perceptualHash: { dHash: '0000000000000007', pHash: 'ffffffffffffffff' } }),
+    );
+    expect(match).toEqual({ similarity: 61 / 64, reason: 'image' });
+  });
+
+  it('prefers a signal that clears its threshold over a higher raw score', () => {
+    const match = DuplicateService.compare(
+      file('a', { perceptualHash: imageHash(ZERO), textSignature: computeTextSignature(REPORT) }),
+      file('b', { perceptualHash: imageHash('00000000000000ff'), textSignature: computeTextSignature(SIMILAR_REPORT) }),
+    );
+    expect(match?.reason).toBe('text');
+    expect(match!.similarity).toBeGreaterThanOrEqual(0.7);
+    expect(match!.similarity).toBeLessThan(56 / 64);
+  });
+
+  it('returns null without comparable signals', () => {
+    expect(DuplicateService.compare(file('a'), file('b'))).toBeNull();
+  });
+});
+
+describe('DuplicateService.findClusters', () => {
+  it('groups duplicates transitively and suggests a keeper', () => {
+    const clusters = DuplicateService.findClusters([
+      file('original', { contentHash: 'abc', fileSize: 1000 }),
+      file('copy', { contentHash: 'abc', fileSize: 1000, isProcessed: false }),
+      file('photo', { perceptualHash: imageHash(ZERO), fileSize: 800 }),
+      file('photo-resized', { perceptualHash: imageHash('0000000000000003'), fileSize: 400 }),
+      file('photo-cropped', { perceptualHash: imageHash('0000000000000007'), fileSize: 2000, isProcessed: false }),
+      file('unrelated', { perceptualHash: imageHash('ff00ff00ff00ff00') }),
+    ]);
+
+    expect(clusters.map(cluster => ({
+      keep: cluster.keepFileId,
+      similarity: cluster.similarity,
+      reasons: cluster.reasons,
+      files: cluster.files.map(member => [member.fileId, member.similarity]),
+    }))).toEqual([
+      {
+        keep: 'original',
+        similarity: 1,
+        reasons: ['exact'],
+        files: [['original', 1], ['copy', 1]],
+      },
+      {
+        keep: 'photo',
+        similarity: 0.953,
+        reasons: ['image'],
+        files: [['photo', 1], ['photo-resized', 0.969], ['photo-cropped', 0.953]],
+      },
+    ]);
+  });
+
+  it('breaks keeper ties by size, then age', () => {
+    const [cluster] = DuplicateService.findClusters([
+      file('newer', { contentHash: 'abc', createdAt: Timestamp.fromMillis(Date.UTC(2024, 5, 1)) }),
+      file('older', { contentHash: 'abc', createdAt: Timestamp.fromMillis(Date.UTC(2023, 5, 1)) }),
+      file('smaller', { contentHash: 'abc', fileSize: 10 }),
+    ]);
+    expect(cluster.keepFileId).toBe('older');
+    expect(cluster.files.find(member => member.fileId === 'older')?.createdAt).toBe('2023-06-01T00:00:00.000Z');
+  });
+
+  it('leaves files without duplicates out', () => {
+    expect(DuplicateService.findClusters([file('a', { contentHash: 'a' }), file('b', { contentHash: 'b' })])).toEqual([]);
+  });
+});
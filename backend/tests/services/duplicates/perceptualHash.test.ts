@@ -0,0 +1,74 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { computePerceptualHash, perceptualSimilarity } from '../../../src/services/duplicates/perceptualHash';
+
+type Format = 'png' | 'jpeg';
+
+// A page with a header bar and a few text-like blocks
+async function drawPage(width: number, height: number, format: Format, shade: number = 255): Promise<Buffer> {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = `rgb(${shade}, ${shade}, ${shade})`;
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = '#202020';
+  context.fillRect(0.1 * width, 0.08 * height, 0.8 * width, 0.12 * height);
+  for (let line = 0; line < 5; line++) {
+    context.fillRect(0.1 * width, (0.3 + line * 0.12) * height, (0.8 - line * 0.12) * width, 0.05 * height);
+  }
+  return format === 'png' ? canvas.encode('png') : canvas.encode('jpeg', 70);
+}
+
+// Diagonal stripes, nothing like a page
+async function drawStripes(width: number, height: number): Promise<Buffer> {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  for (let x = -height; x < width; x += 40) {
+    context.fillStyle = (x / 40) % 2 === 0 ? '#f0f0f0' : '#101010';
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x + 20, 0);
+    context.lineTo(x + 20 + height, height);
+    context.lineTo(x + height, height);
+    context.fill();
+  }
+  return canvas.encode('png');
+}
+
+describe('computePerceptualHash', () => {
+  it('returns two 64-bit hex hashes and is deterministic', async () => {
+    const image = await drawPage(400, 520, 'png');
+    const hash = await computePerceptualHash(image);
+
+    expect(hash.dHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hash.pHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(await computePerceptualHash(image)).toEqual(hash);
+  });
+
+  it('lands close for a resized, re-encoded and slightly darker copy', async () => {
+    const original = await computePerceptualHash(await drawPage(800, 1040, 'png'));
+    const copy = await computePerceptualHash(await drawPage(300, 390, 'jpeg', 235));
+
+    expect(perceptualSimilarity(original, copy)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('lands far for a different image', async () => {
+    const page = await computePerceptualHash(await drawPage(400, 520, 'png'));
+    const stripes = await computePerceptualHash(await drawStripes(400, 520));
+
+    expect(perceptualSimilarity(page, stripes)).toBeLessThan(0.8);
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(computePerceptualHash(Buffer.from('not an image'))).rejects.toThrow();
+  });
+});
+
+describe('perceptualSimilarity', () => {
+  it('uses the closer of the two hash kinds', () => {
+    const a = { dHash: '0000000000000000', pHash: 'ffffffffffffffff' };
+    const b = { dHash: '000000000000000f', pHash: '0000000000000000' };
+
+    expect(perceptualSimilarity(a, a)).toBe(1);
+    expect(perceptualSimilarity(a, b)).toBe(1 - 4 / 64);
+    expect(perceptualSimilarity(b, a)).toBe(perceptualSimilarity(a, b));
+  });
+});
@@ -0,0 +1,53 @@
+import { computeTextSignature, textSimilarity } from '../../../src/services/duplicates/textSignature';
+
+const ARTICLE = `Quarterly report for the northern region. Revenue grew eight percent
+compared with the previous quarter, driven by new subscriptions and lower churn.
+Operating costs stayed flat while the support team handled more tickets than ever.
+Next quarter we plan to expand the sales team and launch the partner programme.`;
+
+describe('computeTextSignature', () => {
+  it('needs at least ten words', () => {
+    expect(computeTextSignature('Too short to compare')).toBeUndefined();
+    expect(computeTextSignature('')).toBeUndefined();
+  });
+
+  it('returns 64 unsigned 32-bit values', () => {
+    const signature = computeTextSignature(ARTICLE)!;
+    expect(signature).toHaveLength(64);
+    for (const value of signature) {
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(2 ** 32);
+    }
+  });
+
+  it('stays stable across releases, since signatures are stored', () => {
+    const signature = computeTextSignature('The quick brown fox jumps over the lazy dog near the river bank')!;
+    expect(signature.slice(0, 4)).toEqual([198807442, 58536155, 53940054, 1405676253]);
+  });
+
+  it('ignores case, punctuation and spacing', () => {
+    const reformatted = ARTICLE.toUpperCase().replace(/[.,]/g, ' ;').replace(/\n/g, '   ');
+    expect(computeTextSignature(reformatted)).toEqual(computeTextSignature(ARTICLE));
+  });
+});
+
+describe('textSimilarity', () => {
+  it('is high for lightly edited text and low for unrelated text', () => {
+    const original = computeTextSignature(ARTICLE)!;
+    const edited = computeTextSignature(ARTICLE.replace('eight percent', 'nine percent'))!;
+    const unrelated = computeTextSignature(
+      'Dear tenant, the water supply in building C will be interrupted on Tuesday morning while the pipes are replaced.'
+    )!;
+
+    expect(textSimilarity(original, original)).toBe(1);
+    expect(textSimilarity(original, edited)).toBeGreaterThan(0.7);
+    expect(textSimilarity(original, unrelated)).toBeLessThan(0.2);
+  });
+
+  it('is the share of equal slots', () => {
+    expect(textSimilarity([1, 2, 3, 4], [1, 2, 0, 4])).toBe(0.75);
+    expect(textSimilarity([1, 2, 3, 4], [1, 2])).toBe(1);
+    expect(textSimilarity([], [1])).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { FileDocument } from '../../../src/config/database';
+import { DatabaseService } from '../../../src/config/database';
+import { EmbeddingService } from '../../../src/services/embeddings';
+import { fileDocument } from '../../helpers/files';
+import { deferred, until } from '../../helpers/processing';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: { getUserFiles: jest.fn() },
+}));
+
+const database = jest.mocked(DatabaseService);
+
+const matches = async (uid: string, query: string) => (await EmbeddingService.semanticSearch(uid, query, 10))
+  .map(match => match.fileId);
+
+describe('EmbeddingService', () => {
+  const original = { ...process.env };
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vectors-'));
+    process.env.EMBEDDINGS_PROVIDER = 'hashing';
+    process.env.VECTOR_INDEX_PATH = directory;
+  });
+
+  afterAll(async () => {
+    process.env = original;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('embeds a missing index in the background and searches what it has so far', async () => {
+    const files = deferred<FileDocument[]>();
+    database.getUserFiles.mockReturnValueOnce(files.promise);
+
+    await expect(matches('user-1', 'electricity bill')).resolves.toEqual([]);
+    expect(EmbeddingService.isRebuilding('user-1')).toBe(true);
+
+    files.resolve([
+      fileDocument('bill', { userId: 'user-1', originalName: 'electricity-bill.pdf', extractedText: 'Electricity bill for March' }),
+      fileDocument('pending', { userId: 'user-1', originalName: 'electricity.pdf', isProcessed: false }),
+    ]);
+    await until(() => existsSync(path.join(directory, 'user-1.json')));
+
+    expect(EmbeddingService.isRebuilding('user-1')).toBe(false);
+    await expect(matches('user-1', 'electricity bill')).resolves.toEqual(['bill']);
+    expect(database.getUserFiles).toHaveBeenCalledWith('user-1', 2000);
+  });
+
+  it('keeps changes made during a rebuild and logs the ones after it', async () => {
+    const files = deferred<FileDocument[]>();
+    database.getUserFiles.mockReturnValueOnce(files.promise);
+    await matches('user-2', 'anything');
+
+    await EmbeddingService.removeFiles('user-2', ['deleted']);
+    files.resolve([fileDocument('deleted', { userId: 'user-2', originalName: 'tax-return.pdf' })]);
+    await until(() => existsSync(path.join(directory, 'user-2.json')));
+    const snapshot = await fs.readFile(path.join(directory, 'user-2.json'), 'utf8');
+
+    await EmbeddingService.indexFile(fileDocument('lease', { userId: 'user-2', originalName: 'tax-lease.pdf' }));
+
+    await expect(matches('user-2', 'tax')).resolves.toEqual(['lease']);
+    await expect(fs.readFile(path.join(directory, 'user-2.json'), 'utf8')).resolves.toBe(snapshot);
+    const log = (await fs.readFile(path.join(directory, 'user-2.log'), 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(log).toEqual([{ upsert: expect.objectContaining({ fileId: 'lease', vector: expect.any(String) }) }]);
+  });
+});
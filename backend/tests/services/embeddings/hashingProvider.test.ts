@@ -0,0 +1,40 @@
+import { HashingEmbeddingProvider } from '../../../src/services/embeddings/hashingProvider';
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider();
+
+  it('returns one unit-length vector per text, in order', async () => {
+    const vectors = await provider.embed(['Invoice from ACME Corp', 'Holiday photos from Lisbon']);
+
+    expect(vectors).toHaveLength(2);
+    vectors.forEach(vector => {
+      expect(vector).toHaveLength(512);
+      expect(dot(vector, vector)).toBeCloseTo(1, 6);
+    });
+    expect(dot(vectors[0], vectors[1])).toBeLessThan(0.5);
+  });
+
+  it('is deterministic', async () => {
+    const [first] = await provider.embed(['Electricity bill for March']);
+    const [second] = await provider.embed(['Electricity bill for March']);
+    expect(first).toEqual(second);
+  });
+
+  it('scores lexical overlap and spelling variants above unrelated text', async () => {
+    const [query, variant, unrelated] = await provider.embed([
+      'electricity invoice',
+      'Invoices for electrical work',
+      'Passport renewal appointment',
+    ]);
+
+    expect(dot(query, variant)).toBeGreaterThan(dot(query, unrelated));
+    expect(dot(query, variant)).toBeGreaterThan(0.3);
+  });
+
+  it('returns a zero vector for text without words', async () => {
+    const [vector] = await provider.embed(['— ! ?']);
+    expect(vector.every(value => value === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { VectorIndex } from '../../../src/services/embeddings/vectorIndex';
+
+const unit = (...values: number[]) => {
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+  return values.map(value => value / norm);
+};
+
+function buildIndex(): VectorIndex {
+  const index = new VectorIndex();
+  index.upsert({ fileId: 'invoice', fileType: 'pdf', category: 'invoice', date: '2023-08-30' }, unit(1, 0, 0));
+  index.upsert({ fileId: 'receipt', fileType: 'image', category: 'receipt', date: '2023-09-01' }, unit(1, 1, 0));
+  index.upsert({ fileId: 'photo', fileType: 'image', category: 'photo' }, unit(0, 0, 1));
+  index.upsert({ fileId: 'opposite', fileType: 'pdf' }, unit(-1, 0, 0));
+  return index;
+}
+
+describe('VectorIndex', () => {
+  it('returns the closest files by cosine similarity, dropping unrelated ones', () => {
+    const matches = buildIndex().nearest(unit(1, 0.2, 0), 10);
+
+    expect(matches.map(match => match.fileId)).toEqual(['invoice', 'receipt']);
+    expect(matches[0].similarity).toBeCloseTo(0.981, 3);
+  });
+
+  it('applies the limit and search filters', () => {
+    const index = buildIndex();
+
+    expect(index.nearest(unit(1, 0.2, 0), 1).map(match => match.fileId)).toEqual(['invoice']);
+    expect(index.nearest(unit(1, 0.2, 0), 10, { fileType: 'image' }).map(match => match.fileId)).toEqual(['receipt']);
+    expect(index.nearest(unit(1, 0.2, 0), 10, { dateFrom: '2023-09-01' }).map(match => match.fileId)).toEqual(['receipt']);
+  });
+
+  it('skips vectors from a model with other dimensions', () => {
+    expect(buildIndex().nearest(unit(1, 0), 10)).toEqual([]);
+  });
+
+  it('replaces and removes entries', () => {
+    const index = buildIndex();
+    index.upsert({ fileId: 'photo', fileType: 'image' }, unit(1, 0, 0));
+
+    expect(index.size).toBe(4);
+    expect(index.nearest(unit(1, 0, 0), 10).map(match => match.fileId)).toContain('photo');
+    expect(index.remove('photo')).toBe(true);
+    expect(index.remove('photo')).toBe(false);
+    expect(index.has('photo')).toBe(false);
+  });
+
+  it('round-trips through its stored form', () => {
+    const index = buildIndex();
+    const restored = new VectorIndex(JSON.parse(JSON.stringify(index.toJSON())));
+
+    expect(restored.size).toBe(4);
+    expect(restored.nearest(unit(1, 0.2, 0), 10)).toEqual(index.nearest(unit(1, 0.2, 0), 10));
+  });
+
+  it('restores single entries from their stored form', () => {
+    const index = buildIndex();
+    const restored = new VectorIndex();
+    restored.restore(JSON.parse(JSON.stringify(index.getStored('receipt'))));
+
+    expect(index.getStored('missing')).toBeUndefined();
+    expect(restored.nearest(unit(1, 1, 0), 10)).toEqual([{ fileId: 'receipt', similarity: expect.closeTo(1, 5) }]);
+  });
+});
@@ -0,0 +1,47 @@
+import { ImageExtractor } from '../../../src/services/extraction/imageExtractor';
+import { OcrEngine } from '../../../src/services/extraction/types';
+
+function fakeOcr(text: string, confidence: number = 0.9): OcrEngine & { recognize: jest.Mock } {
+  return {
+    name: 'fake',
+    model: 'fake-eng',
+    recognize: jest.fn(async () => ({ text, confidence })),
+    terminate: jest.fn(async () => undefined),
+  };
+}
+
+describe('ImageExtractor', () => {
+  it('supports JPEG and PNG only', () => {
+    const extractor = new ImageExtractor(fakeOcr(''));
+    expect(extractor.supports('image/jpeg')).toBe(true);
+    expect(extractor.supports('image/jpg')).toBe(true);
+    expect(extractor.supports('image/png')).toBe(true);
+    expect(extractor.supports('image/gif')).toBe(false);
+    expect(extractor.supports('application/pdf')).toBe(false);
+  });
+
+  it('runs the image through OCR and tags the language', async () => {
+    const ocr = fakeOcr('Invoice for the month of August with the total due on the date below', 0.82);
+    const image = Buffer.from('png bytes');
+
+    const result = await new ImageExtractor(ocr).extract({ buffer: image, mimeType: 'image/png', originalName: 'scan.png' });
+
+    expect(ocr.recognize).toHaveBeenCalledWith(image);
+    expect(result).toEqual({
+      text: 'Invoice for the month of August with the total due on the date below',
+      confidence: 0.82,
+      language: 'en',
+      extractor: 'image-ocr:fake',
+    });
+  });
+
+  it('reports an unknown language for an empty page', async () => {
+    const result = await new ImageExtractor(fakeOcr('', 0)).extract({
+      buffer: Buffer.alloc(0),
+      mimeType: 'image/jpeg',
+      originalName: 'blank.jpg',
+    });
+    expect(result.language).toBe('unknown');
+    expect(result.text).toBe('');
+  });
+});
@@ -0,0 +1,19 @@
+import { detectLanguage } from '../../../src/services/extraction/languageDetection';
+
+describe('detectLanguage', () => {
+  it('recognizes languages by their stopwords', () => {
+    expect(detectLanguage('This is the invoice for the services provided in March with the total')).toBe('en');
+    expect(detectLanguage('La factura de los servicios para el mes de marzo con la fecha')).toBe('es');
+    expect(detectLanguage('Die Rechnung für den Monat März und der Betrag ist nicht bezahlt')).toBe('de');
+    expect(detectLanguage('Le montant de la facture pour les services et une date')).toBe('fr');
+  });
+
+  it('needs at least five words', () => {
+    expect(detectLanguage('the and of to')).toBe('unknown');
+    expect(detectLanguage('')).toBe('unknown');
+  });
+
+  it('is unknown when no stopwords match', () => {
+    expect(detectLanguage('ACME 4711 XZ-900 Widget Gadget Sprocket Flange')).toBe('unknown');
+  });
+});
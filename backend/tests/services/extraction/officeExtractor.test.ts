@@ -0,0 +1,130 @@
+import { OfficeExtractor } from '../../../src/services/extraction/officeExtractor';
+import { DocumentTooLargeError } from '../../../src/services/extraction/types';
+import { buildPackage, coreProperties } from '../../helpers/office';
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const extract = async (mimeType: string, parts: Record<string, string>) => new OfficeExtractor().extract({
+  buffer: await buildPackage(parts),
+  mimeType,
+  originalName: 'document',
+});
+
+const slide = (...paragraphs: string[]) => `<p:sld><p:cSld><p:spTree><p:sp><p:txBody>${
+  paragraphs.map(text => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('')
+}</p:txBody></p:sp></p:spTree></p:cSld></p:sld>`;
+
+describe('OfficeExtractor', () => {
+  it('supports DOCX, XLSX and PPTX', () => {
+    const extractor = new OfficeExtractor();
+    expect([DOCX, XLSX, PPTX].every(mimeType => extractor.supports(mimeType))).toBe(true);
+    expect(extractor.supports('application/msword')).toBe(false);
+  });
+
+  it('reads DOCX paragraphs with runs, tabs and entities', async () => {
+    const result = await extract(DOCX, {
+      'word/document.xml': '<w:document><w:body>'
+        + '<w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr><w:r><w:t>Invoice</w:t></w:r>'
+        + '<w:r><w:t xml:space="preserve"> for ACME &amp; Co</w:t></w:r></w:p>'
+        + '<w:p></w:p>'
+        + '<w:p><w:r><w:t>Total</w:t></w:r><w:r><w:tab/></w:r><w:r><w:t>42.00</w:t></w:r></w:p>'
+        + '</w:body></w:document>',
+      'docProps/core.xml': coreProperties({ title: 'Invoice 1042', creator: 'Jane Doe', created: '2023-08-30T09:15:00Z' }),
+    });
+
+    expect(result.text).toBe('Invoice for ACME & Co\nTotal\t42.00');
+    expect(result.extractor).toBe('office');
+    expect(result.confidence).toBe(1);
+    expect(result.pages).toBeUndefined();
+    expect(result.properties).toEqual({
+      title: 'Invoice 1042',
+      author: 'Jane Doe',
+      createdAt: '2023-08-30T09:15:00.000Z',
+    });
+  });
+
+  it('reads XLSX sheets with shared, inline and numeric cells', async () => {
+    const result = await extract(XLSX, {
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Summary" sheetId="1" r:id="rId1"/>'
+        + '<sheet name="Answers" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      'xl/sharedStrings.xml': '<sst><si><t>Vendor</t></si><si><t>Total</t></si><si><r><t>ACME</t></r><r><t> Corp</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+        + '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>1234.5</v></c></row>'
+        + '<row r="3"><c r="A3"/></row>'
+        + '</sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml': '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="inlineStr"><is><t>Question</t></is></c></row>'
+        + '</sheetData></worksheet>',
+    });
+
+    expect(result.text).toBe('Sheet: Summary\nVendor\tTotal\nACME Corp\t1234.5\n\nSheet: Answers\nQuestion');
+    expect(result.properties).toEqual({});
+  });
+
+  it('finds XLSX sheet parts through the workbook relationships', async () => {
+    const result = await extract(XLSX, {
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Q&amp;A" sheetId="3" r:id="rId3"/>'
+        + '<sheet name="Totals &#x2014; 2023" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships>'
+        + '<Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>'
+        + '<Relationship Id="rId2" Type="styles" Target="styles.xml"/>'
+        + '<Relationship Id="rId3" Type="worksheet" Target="/xl/worksheets/sheet7.xml"/>'
+        + '</Relationships>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="inlineStr"><is><t>Sum</t></is></c><c r="B1"><v>42</v></c></row>'
+        + '</sheetData></worksheet>',
+      'xl/worksheets/sheet7.xml': '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="inlineStr"><is><t>Why?</t></is></c></row>'
+        + '</sheetData></worksheet>',
+    });
+
+    expect(result.text).toBe('Sheet: Q&A\nWhy?\n\nSheet: Totals — 2023\nSum\t42');
+  });
+
+  it('rejects packages with a part that inflates past the limit', async () => {
+    const extractWithLimit = async (maxPartBytes: number) => new OfficeExtractor(maxPartBytes).extract({
+      buffer: await buildPackage({
+        'word/document.xml': `<w:document><w:body><w:p><w:r><w:t>${'a'.repeat(4096)}</w:t></w:r></w:p></w:body></w:document>`,
+      }),
+      mimeType: DOCX,
+      originalName: 'bomb.docx',
+    });
+
+    await expect(extractWithLimit(1024)).rejects.toThrow(DocumentTooLargeError);
+    await expect(extractWithLimit(8192)).resolves.toMatchObject({ text: 'a'.repeat(4096) });
+  });
+
+  it('reads PPTX slides in numeric order as pages', async () => {
+    const result = await extract(PPTX, {
+      'ppt/slides/slide10.xml': slide('Questions?'),
+      'ppt/slides/slide2.xml': slide('Revenue grew', 'Costs stayed flat'),
+      'ppt/slides/slide1.xml': slide('Quarterly review'),
+      'ppt/slides/slide3.xml': slide(),
+    });
+
+    expect(result.pages!.map(page => [page.pageNumber, page.text])).toEqual([
+      [1, 'Quarterly review'],
+      [2, 'Revenue grew\nCosts stayed flat'],
+      [3, ''],
+      [10, 'Questions?'],
+    ]);
+    expect(result.totalPages).toBe(4);
+    expect(result.text).toBe('Quarterly review\n\nRevenue grew\nCosts stayed flat\n\nQuestions?');
+  });
+
+  it('returns empty text for a package without the expected parts', async () => {
+    const result = await extract(DOCX, { '[Content_Types].xml': '<Types/>' });
+    expect(result.text).toBe('');
+  });
+
+  it('rejects data that is not a zip', async () => {
+    await expect(new OfficeExtractor().extract({
+      buffer: Buffer.from('not a zip'),
+      mimeType: DOCX,
+      originalName: 'broken.docx',
+    })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,119 @@
+import { PdfExtractor } from '../../../src/services/extraction/pdfExtractor';
+import { OcrEngine } from '../../../src/services/extraction/types';
+import { buildPdf } from '../../helpers/pdf';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+function fakeOcr(text: string, confidence: number): OcrEngine & { recognize: jest.Mock } {
+  return {
+    name: 'fake',
+    model: 'fake-eng',
+    recognize: jest.fn(async () => ({ text, confidence })),
+    terminate: jest.fn(async () => undefined),
+  };
+}
+
+const extract = (extractor: PdfExtractor, pages: string[][]) => extractor.extract({
+  buffer: buildPdf(pages),
+  mimeType: 'application/pdf',
+  originalName: 'document.pdf',
+});
+
+describe('PdfExtractor', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.PDF_MAX_PAGES;
+    delete process.env.PDF_OCR_DPI;
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('supports PDFs only', () => {
+    const extractor = new PdfExtractor(fakeOcr('', 0));
+    expect(extractor.supports('application/pdf')).toBe(true);
+    expect(extractor.supports('image/png')).toBe(false);
+  });
+
+  it('reads the text layer of every page without OCR', async () => {
+    const ocr = fakeOcr('', 0);
+    const result = await extract(new PdfExtractor(ocr), [
+      ['Invoice number 1042 from ACME Corp', 'The total is due within thirty days'],
+      ['Thank you for the order and the payment'],
+    ]);
+
+    expect(ocr.recognize).not.toHaveBeenCalled();
+    expect(result.totalPages).toBe(2);
+    expect(result.pages!.map(page => [page.pageNumber, page.source, page.confidence])).toEqual([
+      [1, 'text-layer', 1],
+      [2, 'text-layer', 1],
+    ]);
+    expect(result.pages![0].text).toContain('Invoice number 1042 from ACME Corp');
+    expect(result.pages![0].text).toContain('The total is due within thirty days');
+    expect(result.text).toBe(`${result.pages![0].text}\n\n${result.pages![1].text}`);
+    expect(result.confidence).toBe(1);
+    expect(result.language).toBe('en');
+    expect(result.extractor).toBe('pdf');
+  });
+
+  it('falls back to OCR of the rendered page for scanned pages', async () => {
+    const ocr = fakeOcr('Scanned receipt for the coffee and the cake', 0.6);
+    const result = await extract(new PdfExtractor(ocr), [
+      ['A page with a proper text layer on it'],
+      [],
+    ]);
+
+    expect(ocr.recognize).toHaveBeenCalledTimes(1);
+    const [image] = ocr.recognize.mock.calls[0];
+    expect(image.subarray(0, 4)).toEqual(PNG_SIGNATURE);
+
+    expect(result.pages![1]).toEqual({
+      pageNumber: 2,
+      text: 'Scanned receipt for the coffee and the cake',
+      source: 'ocr',
+      confidence: 0.6,
+    });
+    expect(result.confidence).toBeCloseTo(0.8);
+  });
+
+  it('treats a page with only a few characters of text as scanned', async () => {
+    const ocr = fakeOcr('Full page text found by OCR', 0.7);
+    const result = await extract(new PdfExtractor(ocr), [['Page 3']]);
+
+    expect(ocr.recognize).toHaveBeenCalledTimes(1);
+    expect(result.pages![0].source).toBe('ocr');
+  });
+
+  it('leaves blank pages out of the text and the confidence', async () => {
+    const result = await extract(new PdfExtractor(fakeOcr('', 0)), [
+      ['Some text that is long enough to count'],
+      [],
+    ]);
+
+    expect(result.pages).toHaveLength(2);
+    expect(result.text).toBe(result.pages![0].text);
+    expect(result.confidence).toBe(1);
+  });
+
+  it('reads at most PDF_MAX_PAGES pages', async () => {
+    process.env.PDF_MAX_PAGES = '2';
+    const result = await extract(new PdfExtractor(fakeOcr('', 0)), [
+      ['The first page has enough text on it'],
+      ['The second page has enough text on it'],
+      ['The third page has enough text on it'],
+    ]);
+
+    expect(result.totalPages).toBe(3);
+    expect(result.pages!.map(page => page.pageNumber)).toEqual([1, 2]);
+  });
+
+  it('rejects data that is not a PDF', async () => {
+    await expect(new PdfExtractor(fakeOcr('', 0)).extract({
+      buffer: Buffer.from('not a pdf'),
+      mimeType: 'application/pdf',
+      originalName: 'broken.pdf',
+    })).rejects.toThrow();
+  });
+});
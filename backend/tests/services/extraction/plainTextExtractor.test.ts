@@ -0,0 +1,67 @@
+import { PlainTextExtractor } from '../../../src/services/extraction/plainTextExtractor';
+
+const extract = (buffer: Buffer, mimeType: string = 'text/plain') => new PlainTextExtractor().extract({
+  buffer,
+  mimeType,
+  originalName: 'notes',
+});
+
+describe('PlainTextExtractor', () => {
+  it('supports plain text and Markdown', () => {
+    const extractor = new PlainTextExtractor();
+    expect(['text/plain', 'text/markdown', 'text/x-markdown'].every(type => extractor.supports(type))).toBe(true);
+    expect(extractor.supports('text/html')).toBe(false);
+  });
+
+  it('decodes UTF-8 with and without a byte order mark', async () => {
+    expect((await extract(Buffer.from('﻿Café notes\n'))).text).toBe('Café notes');
+    expect((await extract(Buffer.from('  Café notes  '))).text).toBe('Café notes');
+  });
+
+  it('decodes UTF-16 in both byte orders', async () => {
+    const littleEndian = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Grüße', 'utf16le')]);
+    const bigEndian = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('Grüße', 'utf16le').swap16()]);
+
+    expect((await extract(littleEndian)).text).toBe('Grüße');
+    expect((await extract(bigEndian)).text).toBe('Grüße');
+  });
+
+  it('keeps plain text as-is', async () => {
+    const result = await extract(Buffer.from('# Not a heading in a .txt file'));
+    expect(result.text).toBe('# Not a heading in a .txt file');
+    expect(result.extractor).toBe('plain-text');
+    expect(result.properties).toEqual({});
+  });
+
+  it('reduces Markdown to readable text and reads front matter', async () => {
+    const markdown = [
+      '---',
+      'title: "Team Handbook"',
+      'author: Jane Doe',
+      'date: 2024-02-01',
+      'tags: [onboarding, hr]',
+      '---',
+      '# Welcome',
+      '',
+      'Read the **policies** and [the wiki](https://example.com) before `Monday`:',
+      '- First item',
+      '- Second item',
+    ].join('\n');
+
+    const result = await extract(Buffer.from(markdown), 'text/markdown');
+
+    expect(result.text).toBe('Welcome\n\nRead the policies and the wiki before Monday:\nFirst item\nSecond item');
+    expect(result.extractor).toBe('markdown');
+    expect(result.properties).toEqual({
+      title: 'Team Handbook',
+      author: 'Jane Doe',
+      keywords: 'onboarding, hr',
+      createdAt: '2024-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('takes the first heading as the title without front matter', async () => {
+    const result = await extract(Buffer.from('Intro\n\n# Release Notes\n\nFixed bugs'), 'text/markdown');
+    expect(result.properties).toEqual({ title: 'Release Notes' });
+  });
+});
@@ -0,0 +1,48 @@
+import { RtfExtractor } from '../../../src/services/extraction/rtfExtractor';
+
+const extract = (rtf: string) => new RtfExtractor().extract({
+  buffer: Buffer.from(rtf, 'latin1'),
+  mimeType: 'application/rtf',
+  originalName: 'document.rtf',
+});
+
+describe('RtfExtractor', () => {
+  it('supports both RTF MIME types', () => {
+    const extractor = new RtfExtractor();
+    expect(extractor.supports('application/rtf')).toBe(true);
+    expect(extractor.supports('text/rtf')).toBe(true);
+    expect(extractor.supports('text/plain')).toBe(false);
+  });
+
+  it('keeps visible text and drops control words and hidden groups', async () => {
+    const result = await extract(
+      '{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Times New Roman;}}{\\colortbl;\\red255\\green0\\blue0;}'
+      + '{\\*\\generator Writer 1.0;}\\f0 Hello \\b world\\b0 !\\par '
+      + 'Caf\\\'e9 costs \\u8364?10\\par '
+      + 'Braces \\{ and \\\\ backslash\\line\\tab end}'
+    );
+
+    expect(result.text).toBe('Hello world!\nCafé costs €10\nBraces { and \\ backslash\n\tend');
+    expect(result.extractor).toBe('rtf');
+  });
+
+  it('honours \\uc for the number of fallback characters', async () => {
+    const result = await extract('{\\rtf1\\uc2 Stra\\u223\\\'df\\\'dfe}');
+    expect(result.text).toBe('Straße');
+  });
+
+  it('reads the info block as document properties', async () => {
+    const result = await extract(
+      '{\\rtf1{\\info{\\title Quarterly Report}{\\author Jane Doe}{\\subject Sales}'
+      + '{\\creatim\\yr2023\\mo8\\dy30\\hr9\\min15}}Report body}'
+    );
+
+    expect(result.text).toBe('Report body');
+    expect(result.properties).toEqual({
+      title: 'Quarterly Report',
+      author: 'Jane Doe',
+      subject: 'Sales',
+      createdAt: '2023-08-30T09:15:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  decodeXmlEntities,
+  readAttributes,
+  readBlocks,
+  readElements,
+  readFirstElement,
+} from '../../../src/services/extraction/xmlUtils';
+
+describe('decodeXmlEntities', () => {
+  it('decodes named and numeric entities', () => {
+    expect(decodeXmlEntities('&lt;b&gt; &amp; &quot;q&quot; &apos;a&apos;')).toBe('<b> & "q" \'a\'');
+    expect(decodeXmlEntities('&#65;&#x42;&#X43;&#x1F600;')).toBe('ABC😀');
+  });
+
+  it('leaves unknown entities alone', () => {
+    expect(decodeXmlEntities('&nbsp; &copy;')).toBe('&nbsp; &copy;');
+  });
+
+  it('leaves references to characters XML does not allow alone', () => {
+    expect(decodeXmlEntities('&#x110000; &#0; &#xD800; &#99999999999;')).toBe('&#x110000; &#0; &#xD800; &#99999999999;');
+    expect(decodeXmlEntities('a&#9;b&#xFFFE;')).toBe('a\tb&#xFFFE;');
+  });
+});
+
+describe('readElements', () => {
+  it('returns the decoded text of every element, with or without attributes', () => {
+    const xml = '<r><t>One</t><t xml:space="preserve"> &amp; two</t><tx>not me</tx><t></t></r>';
+    expect(readElements(xml, 't')).toEqual(['One', ' & two', '']);
+  });
+
+  it('handles namespaced tags', () => {
+    expect(readElements('<w:p><w:t>Hi</w:t></w:p>', 'w:t')).toEqual(['Hi']);
+  });
+});
+
+describe('readBlocks', () => {
+  it('returns raw inner XML', () => {
+    expect(readBlocks('<row r="1"><c>&amp;</c></row><row><c/></row>', 'row')).toEqual(['<c>&amp;</c>', '<c/>']);
+  });
+});
+
+describe('readAttributes', () => {
+  it('returns the decoded attributes of every element, self-closing or not', () => {
+    const xml = '<sheets><sheet name="Q&amp;A" r:id="rId2"/><sheet name=\'Totals\' r:id = "rId1"></sheet><sheetPr/></sheets>';
+    expect(readAttributes(xml, 'sheet')).toEqual([
+      { name: 'Q&A', 'r:id': 'rId2' },
+      { name: 'Totals', 'r:id': 'rId1' },
+    ]);
+  });
+
+  it('returns an empty record for elements without attributes', () => {
+    expect(readAttributes('<a/><a>text</a>', 'a')).toEqual([{}, {}]);
+  });
+});
+
+describe('readFirstElement', () => {
+  it('returns the first trimmed value or undefined', () => {
+    expect(readFirstElement('<dc:title> Report </dc:title><dc:title>Second</dc:title>', 'dc:title')).toBe('Report');
+    expect(readFirstElement('<dc:title>  </dc:title>', 'dc:title')).toBeUndefined();
+    expect(readFirstElement('', 'dc:title')).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fnv1a, hashContent, hashFile, toUint32, xor32 } from '../../src/services/hashing';
+
+describe('hashFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hashing-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the SHA-256 of the file contents', async () => {
+    const file = path.join(dir, 'hello.txt');
+    fs.writeFileSync(file, 'hello world');
+
+    await expect(hashFile(file)).resolves.toBe('b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9');
+  });
+
+  it('gives identical content the same hash regardless of name', async () => {
+    const content = Buffer.alloc(200 * 1024, 7);
+    fs.writeFileSync(path.join(dir, 'a.bin'), content);
+    fs.writeFileSync(path.join(dir, 'b.bin'), content);
+
+    expect(await hashFile(path.join(dir, 'a.bin'))).toBe(await hashFile(path.join(dir, 'b.bin')));
+  });
+
+  it('rejects for missing files', async () => {
+    await expect(hashFile(path.join(dir, 'missing.txt'))).rejects.toThrow(/ENOENT/);
+  });
+});
+
+describe('hashContent', () => {
+  it('hashes strings and buffers alike', () => {
+    expect(hashContent('hello world')).toBe('b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9');
+    expect(hashContent(Buffer.from('hello world'))).toBe(hashContent('hello world'));
+  });
+});
+
+describe('fnv1a', () => {
+  it('matches the 32-bit FNV-1a reference values', () => {
+    expect(fnv1a('')).toBe(0x811c9dc5);
+    expect(fnv1a('a')).toBe(0xe40c292c);
+    expect(fnv1a('foobar')).toBe(0xbf9cf968);
+  });
+});
+
+describe('32-bit helpers', () => {
+  it('xors as unsigned integers', () => {
+    expect(xor32(0xffffffff, 1)).toBe(0xfffffffe);
+    expect(xor32(0x80000000, 0)).toBe(0x80000000);
+  });
+
+  it('wraps integers into the unsigned range', () => {
+    expect(toUint32(-1)).toBe(0xffffffff);
+    expect(toUint32(0x100000001)).toBe(1);
+    expect(toUint32(42)).toBe(42);
+  });
+});
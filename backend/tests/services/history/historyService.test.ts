@@ -0,0 +1,152 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { FileDocument, FileEventDocument } from '../../../src/config/database';
+import { DatabaseService } from '../../../src/config/database';
+import { FileChangedError, HistoryService } from '../../../src/services/history';
+import { StorageService } from '../../../src/services/storage';
+import { MemoryStorageDriver } from '../../helpers/storage';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {
+    applyFileChangeIfCurrent: jest.fn(),
+    applyFileChanges: jest.fn(),
+    getFileEvents: jest.fn(),
+    getFilesByNewName: jest.fn(),
+  },
+}));
+jest.mock('../../../src/services/search', () => ({ SearchService: { indexFile: jest.fn() } }));
+jest.mock('../../../src/services/embeddings', () => ({ EmbeddingService: { indexFile: jest.fn() } }));
+
+const database = jest.mocked(DatabaseService);
+
+function file(overrides: Partial<FileDocument> = {}): FileDocument {
+  return {
+    id: 'file-1',
+    userId: 'user-1',
+    originalName: 'scan.pdf',
+    storageKey: 'user-1/1700000000000-abc.pdf',
+    filePath: '',
+    fileType: 'pdf',
+    fileSize: 4,
+    mimeType: 'application/pdf',
+    isProcessed: true,
+    isRenamed: false,
+    processingStatus: 'completed',
+    createdAt: Timestamp.fromMillis(Date.UTC(2024, 0, 1)),
+    updatedAt: Timestamp.fromMillis(Date.UTC(2024, 0, 1)),
+    ...overrides,
+  };
+}
+
+describe('HistoryService.rename', () => {
+  const context = { actorId: 'user-1' };
+  let driver: MemoryStorageDriver;
+
+  beforeEach(async () => {
+    driver = new MemoryStorageDriver();
+    await driver.put('user-1/1700000000000-abc.pdf', Buffer.from('%PDF'));
+    jest.spyOn(StorageService, 'getDriver').mockReturnValue(driver);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    database.getFilesByNewName.mockResolvedValue([]);
+    database.applyFileChanges.mockResolvedValue(['event-1']);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('moves the stored object to the new name', async () => {
+    const renamed = await HistoryService.rename(file(), 'Invoice: ACME', 'custom', context);
+
+    expect(renamed).toMatchObject({ newName: 'Invoice- ACME.pdf', storageKey: 'user-1/file-1/Invoice- ACME.pdf' });
+    expect(Array.from(driver.objects.keys())).toEqual(['user-1/file-1/Invoice- ACME.pdf']);
+    expect(database.applyFileChanges).toHaveBeenCalledWith([expect.objectContaining({
+      fileId: 'file-1',
+      updates: expect.objectContaining({ newName: 'Invoice- ACME.pdf', storageKey: 'user-1/file-1/Invoice- ACME.pdf' }),
+    })]);
+  });
+
+  it('suffixes names taken by another file in the same folder', async () => {
+    database.getFilesByNewName.mockImplementation(async (_uid, name) => (
+      name === 'Invoice.pdf' ? [file({ id: 'file-2' }), file({ id: 'file-3', folderPath: 'Archive' })] : []
+    ));
+
+    await expect(HistoryService.rename(file(), 'Invoice', 'custom', context)).resolves.toMatchObject({ newName: 'Invoice (2).pdf' });
+    await expect(HistoryService.rename(file({ folderPath: 'Taxes' }), 'Invoice', 'custom', context))
+      .resolves.toMatchObject({ newName: 'Invoice.pdf' });
+  });
+
+  it('moves the object back when the change cannot be saved', async () => {
+    database.applyFileChanges.mockRejectedValue(new Error('deadline exceeded'));
+
+    await expect(HistoryService.rename(file(), 'Invoice', 'custom', context)).rejects.toThrow('deadline exceeded');
+    expect(Array.from(driver.objects.keys())).toEqual(['user-1/1700000000000-abc.pdf']);
+  });
+
+  it('still renames files whose object is missing', async () => {
+    driver.objects.clear();
+
+    const renamed = await HistoryService.rename(file(), 'Invoice', 'custom', context);
+
+    expect(renamed).toMatchObject({ newName: 'Invoice.pdf', storageKey: 'user-1/1700000000000-abc.pdf' });
+  });
+});
+
+describe('HistoryService.undo', () => {
+  const renamed = file({ newName: 'Invoice.pdf', isRenamed: true, nameStatus: 'custom', storageKey: 'user-1/file-1/Invoice.pdf' });
+  const rename: FileEventDocument = {
+    id: 'event-1',
+    fileId: 'file-1',
+    userId: 'user-1',
+    actorId: 'user-1',
+    action: 'rename',
+    before: { newName: null, isRenamed: false, nameStatus: 'pending' },
+    after: { newName: 'Invoice.pdf', isRenamed: true, nameStatus: 'custom' },
+    createdAt: Timestamp.fromMillis(Date.UTC(2024, 0, 2)),
+  };
+  let driver: MemoryStorageDriver;
+
+  beforeEach(async () => {
+    driver = new MemoryStorageDriver();
+    await driver.put('user-1/file-1/Invoice.pdf', Buffer.from('%PDF'));
+    jest.spyOn(StorageService, 'getDriver').mockReturnValue(driver);
+    database.getFileEvents.mockResolvedValue([rename]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('reverts the latest change if it is still the latest when written', async () => {
+    database.applyFileChangeIfCurrent.mockImplementation(async (_fileId, _change, isCurrent) => (
+      isCurrent(renamed, [rename]) ? 'event-2' : null
+    ));
+
+    const result = await HistoryService.undo(renamed, 'user-1');
+
+    expect(result?.file).toMatchObject({ newName: undefined, isRenamed: false, storageKey: 'user-1/file-1/scan.pdf' });
+    expect(result?.event).toMatchObject({ id: 'event-2', action: 'undo', targetEventId: 'event-1' });
+    const [[, change]] = database.applyFileChangeIfCurrent.mock.calls;
+    expect(change.updates).toMatchObject({ isRenamed: false, nameStatus: 'pending', storageKey: 'user-1/file-1/scan.pdf' });
+    expect(change.updates.newName).toBeInstanceOf(FieldValue);
+  });
+
+  it('leaves the file alone when another undo got there first', async () => {
+    const undone = { ...rename, id: 'event-2', action: 'undo' as const, targetEventId: 'event-1' };
+    database.applyFileChangeIfCurrent.mockImplementation(async (_fileId, _change, isCurrent) => (
+      isCurrent(renamed, [rename, undone]) ? 'event-3' : null
+    ));
+
+    await expect(HistoryService.undo(renamed, 'user-1')).rejects.toThrow(FileChangedError);
+    expect(Array.from(driver.objects.keys())).toEqual(['user-1/file-1/Invoice.pdf']);
+  });
+
+  it('leaves the file alone when it was renamed meanwhile', async () => {
+    database.applyFileChangeIfCurrent.mockImplementation(async (_fileId, _change, isCurrent) => (
+      isCurrent({ ...renamed, newName: 'Receipt.pdf' }, [rename]) ? 'event-2' : null
+    ));
+
+    await expect(HistoryService.undo(renamed, 'user-1')).rejects.toThrow(FileChangedError);
+  });
+});
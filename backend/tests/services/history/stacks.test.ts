@@ -0,0 +1,79 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { FileEventAction, FileEventDocument } from '../../../src/config/database';
+import { resolveStacks } from '../../../src/services/history/stacks';
+
+let clock = 0;
+
+function event(id: string, action: FileEventAction, targetEventId?: string): FileEventDocument {
+  return {
+    id,
+    fileId: 'file-1',
+    userId: 'user-1',
+    actorId: 'user-1',
+    action,
+    ...(targetEventId && { targetEventId }),
+    before: {},
+    after: {},
+    createdAt: Timestamp.fromMillis(++clock),
+  };
+}
+
+const ids = (events: FileEventDocument[]) => events.map(({ id }) => id);
+
+describe('resolveStacks', () => {
+  it('is empty without events', () => {
+    expect(resolveStacks([])).toEqual({ applied: [], undone: [] });
+  });
+
+  it('stacks changes oldest first', () => {
+    const { applied, undone } = resolveStacks([event('rename', 'rename'), event('move', 'move'), event('tag', 'tag')]);
+    expect(ids(applied)).toEqual(['rename', 'move', 'tag']);
+    expect(undone).toEqual([]);
+  });
+
+  it('moves undone changes to the redo stack, last undone on top', () => {
+    const rename = event('rename', 'rename');
+    const move = event('move', 'move');
+    const { applied, undone } = resolveStacks([rename, move, event('u1', 'undo', 'move'), event('u2', 'undo', 'rename')]);
+
+    expect(applied).toEqual([]);
+    expect(undone).toEqual([move, rename]);
+  });
+
+  it('moves redone changes back', () => {
+    const { applied, undone } = resolveStacks([
+      event('rename', 'rename'),
+      event('move', 'move'),
+      event('u1', 'undo', 'move'),
+      event('u2', 'undo', 'rename'),
+      event('r1', 'redo', 'rename'),
+    ]);
+
+    expect(ids(applied)).toEqual(['rename']);
+    expect(ids(undone)).toEqual(['move']);
+  });
+
+  it('clears the redo stack on a new change', () => {
+    const { applied, undone } = resolveStacks([
+      event('rename', 'rename'),
+      event('u1', 'undo', 'rename'),
+      event('tag', 'tag'),
+    ]);
+
+    expect(ids(applied)).toEqual(['tag']);
+    expect(undone).toEqual([]);
+  });
+
+  it('ignores undo and redo of changes that are not on the expected stack', () => {
+    const { applied, undone } = resolveStacks([
+      event('rename', 'rename'),
+      event('r1', 'redo', 'rename'),
+      event('u1', 'undo', 'rename'),
+      event('u2', 'undo', 'rename'),
+      event('u3', 'undo', 'missing'),
+    ]);
+
+    expect(applied).toEqual([]);
+    expect(ids(undone)).toEqual(['rename']);
+  });
+});
@@ -0,0 +1,81 @@
+import { extractHeuristicMetadata } from '../../../src/services/metadata';
+
+const INVOICE = [
+  'ACME Corporation',
+  'Invoice',
+  'Invoice No: INV-2023-0042',
+  'Date: 30 Aug 2023',
+  'Bill To: Jane Doe',
+  'Total: $1,234.50',
+].join('\n');
+
+describe('extractHeuristicMetadata', () => {
+  it('reads the usual invoice fields', () => {
+    expect(extractHeuristicMetadata(INVOICE)).toEqual({
+      documentType: 'invoice',
+      vendor: 'ACME Corporation',
+      documentDate: '2023-08-30',
+      totalAmount: 1234.5,
+      currency: 'USD',
+      referenceNumbers: ['INV-2023-0042'],
+      people: ['Jane Doe'],
+    });
+  });
+
+  describe('dates', () => {
+    const dateOf = (text: string, createdAt?: string) =>
+      extractHeuristicMetadata(text, createdAt ? { createdAt } : undefined).documentDate;
+
+    it('reads ISO and named-month dates', () => {
+      expect(dateOf('Issued 2024-02-29')).toBe('2024-02-29');
+      expect(dateOf('Issued August 30, 2023')).toBe('2023-08-30');
+      expect(dateOf('Issued 1 Sept. 2023')).toBe('2023-09-01');
+    });
+
+    it('reads numeric dates day-first unless that is impossible', () => {
+      expect(dateOf('Issued 05/03/2023')).toBe('2023-03-05');
+      expect(dateOf('Issued 12/31/2023')).toBe('2023-12-31');
+      expect(dateOf('Issued 30.08.2023')).toBe('2023-08-30');
+    });
+
+    it('rejects impossible dates', () => {
+      expect(dateOf('Issued 2023-02-30')).toBeNull();
+    });
+
+    it('falls back to the document creation date', () => {
+      expect(dateOf('No date here', '2022-11-05T10:00:00.000Z')).toBe('2022-11-05');
+      expect(dateOf('No date here')).toBeNull();
+    });
+  });
+
+  describe('amounts', () => {
+    it('reads ISO currency codes after the amount', () => {
+      expect(extractHeuristicMetadata('Amount due: 142.50 EUR')).toMatchObject({ totalAmount: 142.5, currency: 'EUR' });
+    });
+
+    it('maps currency symbols', () => {
+      expect(extractHeuristicMetadata('Balance due £ 99.00')).toMatchObject({ totalAmount: 99, currency: 'GBP' });
+    });
+
+    it('needs a total-like label', () => {
+      expect(extractHeuristicMetadata('Paid 42.00 yesterday')).toMatchObject({ totalAmount: null, currency: null });
+    });
+  });
+
+  it('skips numbered lines when looking for the vendor and falls back to the author', () => {
+    const text = 'Invoice 2023-08\n12 Main Street\nInvoice total: 10.00';
+    expect(extractHeuristicMetadata(text).vendor).toBeNull();
+    expect(extractHeuristicMetadata(text, { author: 'Globex Ltd' }).vendor).toBe('Globex Ltd');
+  });
+
+  it('needs a digit in reference numbers', () => {
+    const text = 'Order Number: PENDING\nOrder #: 55-1032\nPolicy No. AB12345';
+    expect(extractHeuristicMetadata(text).referenceNumbers).toEqual(['55-1032', 'AB12345']);
+  });
+
+  it('finds people from salutations, labels and the author, without duplicates', () => {
+    const text = 'Dear Mr. John Smith,\nPatient: Mary Ann Jones\nCustomer: John Smith';
+    expect(extractHeuristicMetadata(text, { author: 'Erika Mustermann' }).people)
+      .toEqual(['John Smith', 'Mary Ann Jones', 'Erika Mustermann']);
+  });
+});
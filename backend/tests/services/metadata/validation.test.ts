@@ -0,0 +1,63 @@
+import { EMPTY_METADATA, mergeMetadata, sanitizeMetadata } from '../../../src/services/metadata';
+
+describe('sanitizeMetadata', () => {
+  it('normalizes valid fields', () => {
+    expect(sanitizeMetadata({
+      documentType: ' Invoice ',
+      vendor: 'ACME Corp',
+      documentDate: '2023-08-30',
+      totalAmount: '1234.50',
+      currency: 'eur',
+      referenceNumbers: ['INV-42'],
+      people: ['Jane Doe'],
+    })).toEqual({
+      documentType: 'invoice',
+      vendor: 'ACME Corp',
+      documentDate: '2023-08-30',
+      totalAmount: 1234.5,
+      currency: 'EUR',
+      referenceNumbers: ['INV-42'],
+      people: ['Jane Doe'],
+    });
+  });
+
+  it('drops invalid fields but keeps the rest', () => {
+    expect(sanitizeMetadata({
+      documentType: 'receipt',
+      documentDate: '30/08/2023',
+      totalAmount: -5,
+      currency: 'EURO',
+      referenceNumbers: 'INV-42',
+      people: Array.from({ length: 21 }, (_, i) => `Person ${i}`),
+    })).toEqual({ documentType: 'receipt' });
+  });
+
+  it('treats empty strings as missing values and ignores unknown keys', () => {
+    expect(sanitizeMetadata({ vendor: '', notes: 'hello' })).toEqual({ vendor: null });
+  });
+
+  it('accepts only objects', () => {
+    expect(sanitizeMetadata(null)).toEqual({});
+    expect(sanitizeMetadata('invoice')).toEqual({});
+  });
+});
+
+describe('mergeMetadata', () => {
+  it('fills null, missing and empty-list fields from the fallback', () => {
+    expect(mergeMetadata(
+      { documentType: 'invoice', vendor: null, referenceNumbers: [], people: ['Jane Doe'] },
+      { documentType: 'receipt', vendor: 'ACME Corp', totalAmount: 10, referenceNumbers: ['INV-42'], people: ['John Smith'] },
+    )).toEqual({
+      ...EMPTY_METADATA,
+      documentType: 'invoice',
+      vendor: 'ACME Corp',
+      totalAmount: 10,
+      referenceNumbers: ['INV-42'],
+      people: ['Jane Doe'],
+    });
+  });
+
+  it('keeps zero amounts from the primary source', () => {
+    expect(mergeMetadata({ totalAmount: 0 }, { totalAmount: 10 }).totalAmount).toBe(0);
+  });
+});
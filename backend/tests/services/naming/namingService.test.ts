@@ -0,0 +1,285 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { FileDocument, UserDocument } from '../../../src/config/database';
+import { DatabaseService } from '../../../src/config/database';
+import { FILENAME_PROMPT_VERSION, NamingService } from '../../../src/services/naming';
+import { OpenAINamingProvider } from '../../../src/services/naming/openAIProvider';
+import { RulesNamingProvider } from '../../../src/services/naming/rulesProvider';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {
+    addNamingFeedback: jest.fn(),
+    getCacheEntry: jest.fn(),
+    getNamingFeedback: jest.fn(),
+    setCacheEntry: jest.fn(),
+  },
+}));
+
+const database = jest.mocked(DatabaseService);
+
+const request = {
+  extractedText: 'ACME Corp\nInvoice number INV-42, amount due by the due date.',
+  originalFilename: 'scan.pdf',
+  properties: { createdAt: '2023-08-30T09:15:00.000Z' },
+};
+
+const signals = { vendor: 'ACME Corp', documentType: 'invoice', documentDate: '2023-08-30' };
+
+const filenames = (result: { candidates: { filename: string }[] }) => result.candidates.map(candidate => candidate.filename);
+
+describe('RulesNamingProvider', () => {
+  const rules = new RulesNamingProvider();
+
+  it('offers category, vendor and generic names, best first', async () => {
+    await expect(rules.suggestFilenames(request, 3)).resolves.toEqual([
+      { filename: 'Invoice_20230830', confidence: 0.5 },
+      { filename: 'ACME_Corp_invoice_20230830', confidence: 0.35 },
+      { filename: 'Document_20230830', confidence: 0.1 },
+    ]);
+    await expect(rules.suggestFilenames(request, 1)).resolves.toHaveLength(1);
+  });
+
+  it('falls back to the embedded title, then to a generic name', async () => {
+    await expect(rules.suggestFilenames({
+      ...request,
+      extractedText: 'Minutes',
+      properties: { title: 'Board Meeting: Q3 / 2023', createdAt: '2023-10-01' },
+    }, 3)).resolves.toEqual([
+      { filename: 'Board_Meeting_Q3_2023_20231001', confidence: 0.4 },
+      { filename: 'Document_20231001', confidence: 0.1 },
+    ]);
+  });
+});
+
+describe('NamingService', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.NAMING_PROVIDER_GUEST = 'rules';
+    delete process.env.NAMING_PROVIDER;
+    delete process.env.NAMING_MODEL;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    database.getNamingFeedback.mockResolvedValue([]);
+    database.getCacheEntry.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('shares one provider instance per provider and model', () => {
+    const provider = NamingService.getProvider('free');
+    expect(provider).toBeInstanceOf(OpenAINamingProvider);
+    expect(NamingService.getProvider('premium')).toBe(provider);
+  });
+
+  it('ranks the model\'s names, topped up by the rules provider', async () => {
+    jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames')
+      .mockResolvedValue([{ filename: 'Invoice_ACME_Corp_Aug_2023', confidence: 0.9 }]);
+
+    const result = await NamingService.suggestFilenames(request, 'free', signals);
+
+    // 0.7 x model confidence + 0.3 x agreement with vendor, type and date
+    expect(result).toMatchObject({
+      filename: 'Invoice_ACME_Corp_Aug_2023',
+      confidence: 0.93,
+      provider: 'openai',
+      model: 'gpt-3.5-turbo',
+    });
+    expect(result.candidates).toEqual([
+      { filename: 'Invoice_ACME_Corp_Aug_2023', score: 0.93, source: 'openai' },
+      { filename: 'Invoice_20230830', score: 0.55, source: 'rules' },
+      { filename: 'ACME_Corp_invoice_20230830', score: 0.545, source: 'rules' },
+    ]);
+  });
+
+  it('reuses cached names for the same request, model and prompt', async () => {
+    database.getCacheEntry.mockResolvedValue({
+      kind: 'naming',
+      contentHash: 'request-hash',
+      provider: 'openai',
+      model: 'gpt-3.5-turbo',
+      version: FILENAME_PROMPT_VERSION,
+      value: JSON.stringify([{ filename: 'Invoice_ACME_Corp_Aug_2023', confidence: 0.9 }]),
+      createdAt: Timestamp.now(),
+      expiresAt: Timestamp.fromMillis(Date.now() + 60000),
+    });
+    const suggest = jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames');
+
+    await expect(NamingService.suggestFilenames(request, 'free', signals)).resolves.toMatchObject({
+      filename: 'Invoice_ACME_Corp_Aug_2023',
+      provider: 'openai',
+    });
+    expect(suggest).not.toHaveBeenCalled();
+  });
+
+  it('stores the model\'s names under the prompt version', async () => {
+    jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames')
+      .mockResolvedValue([{ filename: 'Invoice_ACME_Corp_Aug_2023', confidence: 0.9 }]);
+
+    await NamingService.suggestFilenames(request, 'free', signals);
+
+    expect(database.setCacheEntry).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      kind: 'naming',
+      provider: 'openai',
+      model: 'gpt-3.5-turbo',
+      version: FILENAME_PROMPT_VERSION,
+    }));
+  });
+
+  it('falls back to the rules provider when the LLM call fails', async () => {
+    jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames').mockRejectedValue(new Error('429 Too Many Requests'));
+
+    const result = await NamingService.suggestFilenames(request, 'free', signals);
+
+    expect(result).toMatchObject({ filename: 'Invoice_20230830', provider: 'rules', model: 'rules-v1' });
+    expect(filenames(result)).toEqual(['Invoice_20230830', 'ACME_Corp_invoice_20230830', 'Document_20230830']);
+  });
+
+  it('uses the provider configured for guests', async () => {
+    const suggest = jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames');
+
+    await expect(NamingService.nameFile(request, null)).resolves.toMatchObject({ provider: 'rules' });
+    expect(suggest).not.toHaveBeenCalled();
+  });
+
+  it('renders the owner\'s template without calling the LLM when it has no {title}', async () => {
+    const suggest = jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames');
+    const owner = userDocument('{date:YYYY-MM}_{original}');
+
+    const result = await NamingService.nameFile(request, owner);
+
+    expect(result).toMatchObject({ filename: '2023-08_scan', provider: 'rules' });
+    expect(filenames(result)).toEqual(['2023-08_scan']);
+    expect(suggest).not.toHaveBeenCalled();
+  });
+
+  it('renders one candidate per description when the template has a {title}', async () => {
+    const suggest = jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames').mockResolvedValue([
+      { filename: 'ACME Consulting', confidence: 0.9 },
+      { filename: 'Consulting Services', confidence: 0.6 },
+    ]);
+    const owner = userDocument('{title}_{date:YYYY}');
+
+    const result = await NamingService.nameFile(request, owner);
+
+    expect(result).toMatchObject({ filename: 'ACME_Consulting_2023', provider: 'openai' });
+    expect(filenames(result)[0]).toBe('ACME_Consulting_2023');
+    expect(filenames(result)).toContain('Consulting_Services_2023');
+    expect(suggest).toHaveBeenCalledWith(expect.objectContaining({ descriptionOnly: true }), 3);
+  });
+
+  describe('naming preferences', () => {
+    const feedback = (suggestedName: string, acceptedName: string) => ({
+      id: acceptedName, userId: 'user-2', fileId: 'file-1', suggestedName, acceptedName, source: 'custom' as const, createdAt: Timestamp.now(),
+    });
+    const file = {
+      id: 'file-1',
+      userId: 'user-3',
+      originalName: 'scan.pdf',
+      suggestedName: 'Invoice_20230830',
+    } as FileDocument;
+
+    it('names files in the owner\'s style', async () => {
+      database.getNamingFeedback.mockResolvedValue([
+        feedback('ACME_Corp_Receipt_20230901', 'Acme_Receipt_2023-09-01'),
+        feedback('ACME_Corp_Invoice_20230830', 'Acme_Invoice_2023-08-30'),
+      ]);
+      const suggest = jest.spyOn(OpenAINamingProvider.prototype, 'suggestFilenames').mockRejectedValue(new Error('timeout'));
+
+      const result = await NamingService.nameFile(request, userDocument(undefined, 'user-2'));
+
+      expect(suggest).toHaveBeenCalledWith(
+        expect.objectContaining({ preferences: expect.objectContaining({ dateFormat: 'YYYY-MM-DD' }) }),
+        3
+      );
+      expect(filenames(result)).toEqual(['Invoice_2023-08-30', 'Acme_invoice_2023-08-30', 'Document_2023-08-30']);
+    });
+
+    it('names files without preferences when they cannot be loaded', async () => {
+      database.getNamingFeedback.mockRejectedValue(new Error('unavailable'));
+
+      await expect(NamingService.getPreferences('user-4')).resolves.toEqual({ aliases: {}, droppedWords: [], examples: [] });
+    });
+
+    it('records the name the user chose instead of the suggestion', async () => {
+      await NamingService.recordChoice(file, 'Acme_Invoice.PDF', 'custom');
+
+      expect(database.addNamingFeedback).toHaveBeenCalledWith({
+        userId: 'user-3',
+        fileId: 'file-1',
+        suggestedName: 'Invoice_20230830',
+        acceptedName: 'Acme_Invoice',
+        source: 'custom',
+      });
+    });
+
+    it('ignores accepted suggestions and guest files', async () => {
+      await NamingService.recordChoice(file, 'Invoice_20230830.pdf', 'candidate');
+      await NamingService.recordChoice({ ...file, userId: 'guest' }, 'Acme_Invoice.pdf', 'custom');
+
+      expect(database.addNamingFeedback).not.toHaveBeenCalled();
+    });
+
+    it('caches preferences until the user corrects a name', async () => {
+      await NamingService.getPreferences('user-3');
+      await NamingService.getPreferences('user-3');
+      expect(database.getNamingFeedback).toHaveBeenCalledTimes(1);
+
+      await NamingService.recordChoice(file, 'Acme_Invoice.pdf', 'custom');
+      await NamingService.getPreferences('user-3');
+      expect(database.getNamingFeedback).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('extractMetadata', () => {
+    it('uses heuristics only for tiers on the rules provider', async () => {
+      const extract = jest.spyOn(OpenAINamingProvider.prototype, 'extractMetadata');
+
+      await expect(NamingService.extractMetadata(request, null)).resolves.toMatchObject({
+        documentType: 'invoice',
+        source: 'heuristic',
+      });
+      expect(extract).not.toHaveBeenCalled();
+    });
+
+    it('fills fields the model left empty from heuristics', async () => {
+      jest.spyOn(OpenAINamingProvider.prototype, 'extractMetadata').mockResolvedValue({ vendor: 'ACME Corp' });
+
+      await expect(NamingService.extractMetadata(request, userDocument('{title}'))).resolves.toMatchObject({
+        vendor: 'ACME Corp',
+        documentType: 'invoice',
+        documentDate: '2023-08-30',
+        source: 'model',
+      });
+    });
+
+    it('falls back to heuristics when the model fails', async () => {
+      jest.spyOn(OpenAINamingProvider.prototype, 'extractMetadata').mockRejectedValue(new SyntaxError('Unexpected token'));
+
+      await expect(NamingService.extractMetadata(request, userDocument('{title}'))).resolves.toMatchObject({
+        documentType: 'invoice',
+        source: 'heuristic',
+      });
+    });
+  });
+});
+
+function userDocument(template?: string, uid = 'user-1'): UserDocument {
+  return {
+    uid,
+    role: 'free',
+    settings: {
+      autoRename: true,
+      preserveOriginalNames: false,
+      useAIForAllFiles: true,
+      maxFileSize: 0,
+      ...(template && { filenameTemplate: { template, caseStyle: 'preserve', separator: '_', maxLength: 100 } }),
+    },
+  } as UserDocument;
+}
@@ -0,0 +1,86 @@
+import { applyPreferences, derivePreferences, findDates } from '../../../src/services/naming/preferences';
+
+describe('findDates', () => {
+  it('reads the format each date was written in', () => {
+    expect(findDates('Invoice_2023-08-30_ACME')).toEqual([
+      { index: 8, length: 10, date: new Date(2023, 7, 30), format: 'YYYY-MM-DD' },
+    ]);
+    expect(findDates('Scan_20230830').map(match => match.format)).toEqual(['YYYYMMDD']);
+    expect(findDates('Receipt 30.08.2023').map(match => match.format)).toEqual(['DD.MM.YYYY']);
+    expect(findDates('Report_August_2023').map(match => match.format)).toEqual(['MMMM_YYYY']);
+    expect(findDates('Report_Aug-2023').map(match => match.format)).toEqual(['MMM-YYYY']);
+  });
+
+  it('ignores numbers that are not dates', () => {
+    expect(findDates('INV-2023-13-45')).toEqual([]);
+    expect(findDates('Order_123456789')).toEqual([]);
+  });
+});
+
+describe('derivePreferences', () => {
+  const examples = [
+    { suggested: 'ACME_Corp_Receipt_20230901', accepted: 'Acme_Receipt_2023-09-01' },
+    { suggested: 'ACME_Corp_Invoice_20230830', accepted: 'Acme_Invoice_2023-08-30' },
+  ];
+
+  it('learns the date format, spellings and dropped words', () => {
+    expect(derivePreferences(examples)).toEqual({
+      dateFormat: 'YYYY-MM-DD',
+      aliases: { acme: 'Acme' },
+      droppedWords: ['corp'],
+      examples,
+    });
+  });
+
+  it('needs repeated evidence for date formats and dropped words', () => {
+    const preferences = derivePreferences(examples.slice(0, 1));
+
+    expect(preferences.dateFormat).toBeUndefined();
+    expect(preferences.droppedWords).toEqual([]);
+    expect(preferences.aliases).toEqual({ acme: 'Acme' });
+  });
+
+  it('does not drop words the user kept elsewhere', () => {
+    const preferences = derivePreferences([
+      ...examples,
+      { suggested: 'Corp_Tax_Return', accepted: 'Corp_Tax_Return_Final' },
+    ]);
+
+    expect(preferences.droppedWords).toEqual([]);
+  });
+
+  it('maps a replaced run of words to the user\'s words, newest first', () => {
+    expect(derivePreferences([
+      { suggested: 'International_Business_Machines_Invoice', accepted: 'IBM_Invoice' },
+      { suggested: 'International_Business_Machines_Quote', accepted: 'Big_Blue_Quote' },
+    ]).aliases).toEqual({ 'international business machines': 'IBM' });
+  });
+
+  it('keeps the five most recent examples', () => {
+    const many = Array.from({ length: 7 }, (_, i) => ({ suggested: `Scan_${i}`, accepted: `Scan_${i}` }));
+
+    expect(derivePreferences(many).examples).toEqual(many.slice(0, 5));
+  });
+});
+
+describe('applyPreferences', () => {
+  const preferences = {
+    dateFormat: 'YYYY-MM-DD',
+    aliases: { acme: 'Acme', 'international business machines': 'IBM' },
+    droppedWords: ['corp'],
+    examples: [],
+  };
+
+  it('rewrites dates, spellings and dropped words', () => {
+    expect(applyPreferences('ACME_Corp_Invoice_20230830', preferences)).toBe('Acme_Invoice_2023-08-30');
+    expect(applyPreferences('International_Business_Machines_Quote', preferences)).toBe('IBM_Quote');
+  });
+
+  it('keeps the name\'s own separators', () => {
+    expect(applyPreferences('ACME Corp Invoice', preferences)).toBe('Acme Invoice');
+  });
+
+  it('keeps the name when every word would be dropped', () => {
+    expect(applyPreferences('Corp', preferences)).toBe('Corp');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  filenameKey,
+  resolveConflict,
+  sanitizeFilename,
+  withSuffix,
+} from '../../../src/services/naming/sanitize';
+
+describe('sanitizeFilename', () => {
+  it('replaces characters forbidden on any target with readable stand-ins', () => {
+    expect(sanitizeFilename('Invoice: ACME/Corp?.pdf')).toBe('Invoice- ACME-Corp.pdf');
+    expect(sanitizeFilename('Quote "Final" <v2>*.docx')).toBe('Quote \'Final\' (v2).docx');
+  });
+
+  it('only applies the rules of the given targets', () => {
+    expect(sanitizeFilename('Meeting 10:30.txt', { targets: ['posix'] })).toBe('Meeting 10:30.txt');
+    expect(sanitizeFilename('Meeting 10:30.txt', { targets: ['ios'] })).toBe('Meeting 10-30.txt');
+    expect(sanitizeFilename('What?.txt', { targets: ['ios'] })).toBe('What?.txt');
+  });
+
+  it('normalizes to NFC and removes emoji, control and invisible characters', () => {
+    expect(sanitizeFilename('Café Menu.pdf')).toBe('Café Menu.pdf');
+    expect(sanitizeFilename('Trip 🏖️ Photos 👍🏽.jpg')).toBe('Trip Photos.jpg');
+    expect(sanitizeFilename('Tax\u0000Return​ 2023.pdf')).toBe('TaxReturn 2023.pdf');
+  });
+
+  it('collapses repeated separators and trims dots and spaces', () => {
+    expect(sanitizeFilename('Invoice__ACME--2023.pdf')).toBe('Invoice_ACME-2023.pdf');
+    expect(sanitizeFilename('  .Report. .pdf')).toBe('Report.pdf');
+  });
+
+  it('escapes reserved Windows names unless Windows is not a target', () => {
+    expect(sanitizeFilename('CON.txt')).toBe('CON_.txt');
+    expect(sanitizeFilename('lpt1', { hasExtension: false })).toBe('lpt1_');
+    expect(sanitizeFilename('Console.txt')).toBe('Console.txt');
+    expect(sanitizeFilename('CON.txt', { targets: ['posix', 'android'] })).toBe('CON.txt');
+  });
+
+  it('falls back when nothing is left of the name', () => {
+    expect(sanitizeFilename('🔥🔥')).toBe('Document');
+    expect(sanitizeFilename('???.pdf')).toBe('Document.pdf');
+    expect(sanitizeFilename('🔥.pdf')).toBe('Document.pdf');
+    expect(sanitizeFilename('***', { hasExtension: false, fallback: 'Folder' })).toBe('Folder');
+  });
+
+  it('treats the whole name as the base when hasExtension is false', () => {
+    expect(sanitizeFilename('Report v1.2', { hasExtension: false })).toBe('Report v1.2');
+    expect(sanitizeFilename('Notes.', { hasExtension: false })).toBe('Notes');
+  });
+
+  it('caps names at 255 UTF-8 bytes without splitting characters or dropping the extension', () => {
+    expect(sanitizeFilename(`${'a'.repeat(300)}.pdf`)).toBe(`${'a'.repeat(251)}.pdf`);
+
+    const multiByte = sanitizeFilename(`${'é'.repeat(200)}.pdf`);
+    expect(multiByte).toBe(`${'é'.repeat(125)}.pdf`);
+    expect(Buffer.byteLength(multiByte)).toBeLessThanOrEqual(255);
+
+    const emojiFree = sanitizeFilename(`${'日本'.repeat(100)}.txt`);
+    expect(Buffer.byteLength(emojiFree)).toBeLessThanOrEqual(255);
+    expect(emojiFree.endsWith('.txt')).toBe(true);
+  });
+
+  it('measures UTF-16 units when only Windows is a target', () => {
+    expect(sanitizeFilename(`${'é'.repeat(300)}.pdf`, { targets: ['windows'] })).toBe(`${'é'.repeat(251)}.pdf`);
+  });
+
+  it('honours a smaller maxLength', () => {
+    expect(sanitizeFilename('Quarterly Report.pdf', { maxLength: 13 })).toBe('Quarterly.pdf');
+  });
+});
+
+describe('withSuffix', () => {
+  it('adds the suffix before the extension', () => {
+    expect(withSuffix('Name.pdf', 2)).toBe('Name (2).pdf');
+    expect(withSuffix('Name', 3)).toBe('Name (3)');
+    expect(withSuffix('Report v1.2', 2, { hasExtension: false })).toBe('Report v1.2 (2)');
+  });
+
+  it('shortens the base so the suffixed name still fits', () => {
+    const name = withSuffix(`${'a'.repeat(251)}.pdf`, 2);
+    expect(name).toBe(`${'a'.repeat(247)} (2).pdf`);
+    expect(name.length).toBe(255);
+  });
+});
+
+describe('filenameKey', () => {
+  it('compares case-insensitively and by NFC by default', () => {
+    expect(filenameKey('Report.PDF')).toBe(filenameKey('report.pdf'));
+    expect(filenameKey('Café.txt')).toBe(filenameKey('café.txt'));
+  });
+
+  it('keeps case when asked to', () => {
+    expect(filenameKey('Report.PDF', true)).not.toBe(filenameKey('report.pdf', true));
+  });
+});
+
+describe('resolveConflict', () => {
+  it('returns the name when it is free', async () => {
+    await expect(resolveConflict('Report.pdf', () => false)).resolves.toBe('Report.pdf');
+  });
+
+  it('picks the lowest free suffix', async () => {
+    const taken = new Set(['Report.pdf', 'Report (2).pdf', 'Report (4).pdf']);
+    await expect(resolveConflict('Report.pdf', candidate => taken.has(candidate))).resolves.toBe('Report (3).pdf');
+  });
+
+  it('accepts asynchronous lookups', async () => {
+    const lookup = jest.fn(async (candidate: string) => candidate === 'Report');
+    await expect(resolveConflict('Report', lookup, { hasExtension: false })).resolves.toBe('Report (2)');
+    expect(lookup.mock.calls.map(([candidate]) => candidate)).toEqual(['Report', 'Report (2)']);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  agreementScore,
+  blendScore,
+  logprobScore,
+  rankCandidates,
+} from '../../../src/services/naming/scoring';
+
+describe('logprobScore', () => {
+  it('is the geometric mean of the token probabilities', () => {
+    expect(logprobScore([0, 0, 0])).toBe(1);
+    expect(logprobScore([Math.log(0.5), Math.log(0.5)])).toBeCloseTo(0.5);
+    expect(logprobScore([Math.log(0.25), Math.log(1)])).toBeCloseTo(0.5);
+  });
+
+  it('is 0 without tokens', () => {
+    expect(logprobScore([])).toBe(0);
+  });
+});
+
+describe('agreementScore', () => {
+  const signals = { vendor: 'ACME Corp', documentType: 'invoice', documentDate: '2023-08-30' };
+
+  it('is 1 when the name mentions every known field', () => {
+    expect(agreementScore('Invoice_ACME_2023-08', signals)).toBe(1);
+  });
+
+  it('is the share of fields the name mentions', () => {
+    expect(agreementScore('Invoice_Globex_2023', signals)).toBeCloseTo(2 / 3);
+    expect(agreementScore('Scan', signals)).toBe(0);
+  });
+
+  it('recognizes short years and month names', () => {
+    const date = { vendor: null, documentType: null, documentDate: '2021-08-01' };
+    expect(agreementScore('Receipt_2108', date)).toBe(1);
+    expect(agreementScore('Receipt_Aug', date)).toBe(1);
+    expect(agreementScore('Receipt_Sep', date)).toBe(0);
+  });
+
+  it('is neutral when nothing is known', () => {
+    expect(agreementScore('Anything', { vendor: null, documentType: null, documentDate: null })).toBe(0.5);
+  });
+});
+
+describe('blendScore', () => {
+  it('weights model confidence over agreement and rounds to three places', () => {
+    expect(blendScore(1, 0)).toBe(0.7);
+    expect(blendScore(0.5, 1)).toBe(0.65);
+    expect(blendScore(1 / 3, 1 / 3)).toBe(0.333);
+  });
+});
+
+describe('rankCandidates', () => {
+  it('merges names that differ only in case or punctuation, keeping the best score', () => {
+    const ranked = rankCandidates([
+      { filename: 'Invoice_ACME', score: 0.6, source: 'openai' },
+      { filename: 'invoice acme', score: 0.8, source: 'rules' },
+      { filename: 'Receipt', score: 0.7, source: 'openai' },
+    ], 5);
+
+    expect(ranked).toEqual([
+      { filename: 'invoice acme', score: 0.8, source: 'rules' },
+      { filename: 'Receipt', score: 0.7, source: 'openai' },
+    ]);
+  });
+
+  it('drops names without words and keeps the best `count`', () => {
+    const ranked = rankCandidates([
+      { filename: '---', score: 0.99, source: 'openai' },
+      { filename: 'A', score: 0.2, source: 'openai' },
+      { filename: 'B', score: 0.9, source: 'openai' },
+      { filename: 'C', score: 0.5, source: 'openai' },
+    ], 2);
+
+    expect(ranked.map(candidate => candidate.filename)).toEqual(['B', 'C']);
+  });
+});
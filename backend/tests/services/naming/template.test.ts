@@ -0,0 +1,98 @@
+import {
+  FilenameTemplateSettings,
+  formatDate,
+  renderTemplate,
+  usesPlaceholder,
+  validateTemplate,
+} from '../../../src/services/naming/template';
+
+const settings = (overrides: Partial<FilenameTemplateSettings> = {}): FilenameTemplateSettings => ({
+  template: '{date:YYYY-MM-DD}_{vendor}_{docType}_{amount}',
+  caseStyle: 'title',
+  separator: '_',
+  maxLength: 100,
+  ...overrides,
+});
+
+const invoice = {
+  date: new Date(2023, 7, 30),
+  vendor: 'acme corp',
+  docType: 'invoice',
+  amount: 1234.5,
+};
+
+describe('renderTemplate', () => {
+  it('fills every placeholder', () => {
+    expect(renderTemplate(settings(), invoice)).toBe('2023-08-30_Acme_Corp_Invoice_1234.50');
+  });
+
+  it('drops empty placeholders along with their separators', () => {
+    expect(renderTemplate(settings(), { ...invoice, vendor: undefined })).toBe('2023-08-30_Invoice_1234.50');
+    expect(renderTemplate(settings(), { docType: 'receipt' })).toBe('Receipt');
+  });
+
+  it('applies the case style and word separator to words inside a value', () => {
+    const template = '{vendor}';
+    const values = { vendor: 'ACME Corp' };
+    expect(renderTemplate(settings({ template, caseStyle: 'preserve', separator: '-' }), values)).toBe('ACME-Corp');
+    expect(renderTemplate(settings({ template, caseStyle: 'lower' }), values)).toBe('acme_corp');
+    expect(renderTemplate(settings({ template, caseStyle: 'upper', separator: ' ' }), values)).toBe('ACME CORP');
+    expect(renderTemplate(settings({ template, caseStyle: 'camel' }), values)).toBe('acmeCorp');
+  });
+
+  it('leaves date formats alone', () => {
+    const rendered = renderTemplate(
+      settings({ template: '{date:D MMMM YY} {title}', caseStyle: 'lower' }),
+      { date: new Date(2024, 0, 5), title: 'Team Lunch' }
+    );
+    expect(rendered).toBe('5 January 24 team_lunch');
+  });
+
+  it('cuts the name to maxLength without a trailing separator', () => {
+    expect(renderTemplate(settings({ template: '{docType}_{vendor}', maxLength: 8 }), invoice)).toBe('Invoice');
+  });
+});
+
+describe('formatDate', () => {
+  const date = new Date(2023, 2, 7);
+
+  it('defaults to YYYY-MM-DD', () => {
+    expect(formatDate(date)).toBe('2023-03-07');
+  });
+
+  it('supports every token', () => {
+    expect(formatDate(date, 'YY.M.D')).toBe('23.3.7');
+    expect(formatDate(date, 'DD MMM YYYY')).toBe('07 Mar 2023');
+    expect(formatDate(date, 'MMMM')).toBe('March');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts known placeholders', () => {
+    expect(validateTemplate('{date:YYYY}_{vendor}_{title}')).toBeNull();
+  });
+
+  it('requires a placeholder', () => {
+    expect(validateTemplate('Scan')).toBe('Template must contain at least one placeholder');
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(validateTemplate('{date}_{client}')).toMatch(/^Unknown placeholder \{client\}/);
+  });
+
+  it('only allows a format on {date}', () => {
+    expect(validateTemplate('{vendor:upper}')).toBe('Only {date} accepts a format, found {vendor:upper}');
+  });
+
+  it('rejects unbalanced braces', () => {
+    expect(validateTemplate('{date}_{vendor')).toBe('Template has unbalanced braces');
+  });
+});
+
+describe('usesPlaceholder', () => {
+  it('finds placeholders with or without a format', () => {
+    expect(usesPlaceholder('{date:YYYY}_{title}', 'title')).toBe(true);
+    expect(usesPlaceholder('{date:YYYY}_{title}', 'date')).toBe(true);
+    expect(usesPlaceholder('{date:YYYY}_{title}', 'vendor')).toBe(false);
+  });
+});
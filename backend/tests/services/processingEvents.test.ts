@@ -0,0 +1,57 @@
+import { FileProcessingEvent, processingEvents } from '../../src/services/processingEvents';
+
+const fileEvent = (sessionId: string, fileId: string): FileProcessingEvent => ({
+  type: 'file',
+  sessionId,
+  fileId,
+  stage: 'extracting',
+});
+
+describe('processingEvents', () => {
+  it('delivers events only to subscribers of the same session', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = processingEvents.subscribe('session-1', first);
+    const unsubscribeSecond = processingEvents.subscribe('session-2', second);
+
+    processingEvents.publish(fileEvent('session-1', 'file-a'));
+
+    expect(first).toHaveBeenCalledWith(fileEvent('session-1', 'file-a'));
+    expect(second).not.toHaveBeenCalled();
+    unsubscribeFirst();
+    unsubscribeSecond();
+  });
+
+  it('fans out to every stream watching a session', () => {
+    const listeners = [jest.fn(), jest.fn(), jest.fn()];
+    const unsubscribers = listeners.map(listener => processingEvents.subscribe('session-1', listener));
+
+    processingEvents.publish(fileEvent('session-1', 'file-a'));
+
+    listeners.forEach(listener => expect(listener).toHaveBeenCalledTimes(1));
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = processingEvents.subscribe('session-1', listener);
+
+    unsubscribe();
+    processingEvents.publish(fileEvent('session-1', 'file-a'));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('ends open subscriptions when closed', () => {
+    const onClose = jest.fn();
+    const unsubscribedOnClose = jest.fn();
+    processingEvents.subscribe('session-1', jest.fn(), onClose);
+    processingEvents.subscribe('session-2', jest.fn(), unsubscribedOnClose)();
+
+    processingEvents.close();
+    processingEvents.close();
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(unsubscribedOnClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+import { DatabaseService } from '../../../src/config/database';
+import { FileNotFoundError, processFile } from '../../../src/services/fileProcessor';
+import { ProcessingEvent, processingEvents } from '../../../src/services/processingEvents';
+import { ProcessingQueue } from '../../../src/services/queue';
+import { processingJob, processingSession, until } from '../../helpers/processing';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {
+    claimProcessingJob: jest.fn(),
+    createProcessingJobs: jest.fn(),
+    getProcessingSession: jest.fn(),
+    getProcessingSessionsByStatus: jest.fn(),
+    incrementFileCount: jest.fn(),
+    refundFileCount: jest.fn(),
+    releaseExpiredJobLeases: jest.fn(),
+    releaseProcessingJob: jest.fn(),
+    retryDeadJobs: jest.fn(),
+    settleProcessingJob: jest.fn(),
+    transitionProcessingSession: jest.fn(),
+    updateProcessingJob: jest.fn(),
+    updateUsageStats: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/services/fileProcessor', () => ({
+  FileNotFoundError: class extends Error {},
+  processFile: jest.fn(),
+}));
+
+const db = jest.mocked(DatabaseService);
+const mockedProcessFile = jest.mocked(processFile);
+
+describe('ProcessingQueue', () => {
+  let events: ProcessingEvent[];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    db.releaseExpiredJobLeases.mockResolvedValue({ requeued: 0, exhausted: [] });
+    db.getProcessingSessionsByStatus.mockResolvedValue([]);
+    db.claimProcessingJob.mockResolvedValue(null);
+    await ProcessingQueue.start();
+  });
+
+  afterAll(async () => {
+    await ProcessingQueue.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    events = [];
+    unsubscribe = processingEvents.subscribe('session-1', event => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.restoreAllMocks();
+  });
+
+  describe('session controls', () => {
+    it('pauses queued jobs of a processing session and publishes the new state', async () => {
+      const paused = processingSession({ status: 'paused' });
+      db.transitionProcessingSession.mockResolvedValue({ session: paused, jobsUpdated: 2 });
+
+      await expect(ProcessingQueue.pauseSession('session-1')).resolves.toBe(paused);
+
+      expect(db.transitionProcessingSession).toHaveBeenCalledWith('session-1', ['processing'], 'paused', ['queued'], 'paused');
+      expect(events).toEqual([expect.objectContaining({ type: 'session', status: 'paused' })]);
+    });
+
+    it('resumes paused jobs', async () => {
+      db.transitionProcessingSession.mockResolvedValue({ session: processingSession(), jobsUpdated: 2 });
+
+      await ProcessingQueue.resumeSession('session-1');
+
+      expect(db.transitionProcessingSession).toHaveBeenCalledWith('session-1', ['paused'], 'processing', ['paused'], 'queued');
+      expect(events).toEqual([expect.objectContaining({ type: 'session', status: 'processing' })]);
+    });
+
+    it('returns null without publishing when the session is not in a valid state', async () => {
+      db.transitionProcessingSession.mockResolvedValue(null);
+
+      await expect(ProcessingQueue.resumeSession('session-1')).resolves.toBeNull();
+      await expect(ProcessingQueue.cancelSession('session-1')).resolves.toBeNull();
+
+      expect(events).toEqual([]);
+      expect(db.refundFileCount).not.toHaveBeenCalled();
+    });
+
+    it('refunds the quota of cancelled jobs', async () => {
+      db.transitionProcessingSession.mockResolvedValue({
+        session: processingSession({ status: 'cancelled' }),
+        jobsUpdated: 2,
+      });
+
+      await ProcessingQueue.cancelSession('session-1');
+
+      expect(db.transitionProcessingSession).toHaveBeenCalledWith(
+        'session-1', ['pending', 'processing', 'paused'], 'cancelled', ['queued', 'paused'], 'cancelled'
+      );
+      expect(db.refundFileCount).toHaveBeenCalledWith('user-1', 2);
+    });
+
+    it('has no quota to refund for guests', async () => {
+      db.transitionProcessingSession.mockResolvedValue({
+        session: processingSession({ status: 'cancelled', userId: 'guest' }),
+        jobsUpdated: 2,
+      });
+
+      await ProcessingQueue.cancelSession('session-1');
+
+      expect(db.refundFileCount).not.toHaveBeenCalled();
+    });
+
+    it('requeues failed files and reserves their quota again', async () => {
+      const retried = processingSession({ status: 'processing', processedFiles: 1 });
+      db.retryDeadJobs.mockResolvedValue({ session: retried, jobsUpdated: 1 });
+
+      await expect(ProcessingQueue.retrySession('session-1')).resolves.toBe(retried);
+
+      expect(db.retryDeadJobs).toHaveBeenCalledWith('session-1', ['processing', 'completed', 'failed']);
+      expect(db.incrementFileCount).toHaveBeenCalledWith('user-1', 1);
+      expect(events).toEqual([expect.objectContaining({ type: 'session', status: 'processing' })]);
+    });
+
+    it('leaves a session without failed files as it is', async () => {
+      const completed = processingSession({ status: 'completed', processedFiles: 2, progress: 100 });
+      db.retryDeadJobs.mockResolvedValue({ session: completed, jobsUpdated: 0 });
+
+      await expect(ProcessingQueue.retrySession('session-1')).resolves.toBe(completed);
+
+      expect(db.incrementFileCount).not.toHaveBeenCalled();
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('running jobs', () => {
+    // Enqueueing wakes the worker, which claims `job` once
+    const runJob = async (job = processingJob({ id: 'file-a' })) => {
+      db.claimProcessingJob.mockResolvedValueOnce(job);
+      await ProcessingQueue.enqueueSession('session-1', job.userId, [job.fileId]);
+    };
+
+    it('hands jobs of a paused session back without processing them', async () => {
+      db.getProcessingSession.mockResolvedValue(processingSession({ status: 'paused' }));
+      db.releaseProcessingJob.mockResolvedValue('paused');
+
+      await runJob();
+      await until(() => db.releaseProcessingJob.mock.calls.length === 1);
+
+      expect(mockedProcessFile).not.toHaveBeenCalled();
+      expect(db.settleProcessingJob).not.toHaveBeenCalled();
+      expect(db.refundFileCount).not.toHaveBeenCalled();
+    });
+
+    it('refunds jobs that turn out to belong to a cancelled session', async () => {
+      db.getProcessingSession.mockResolvedValue(processingSession({ status: 'cancelled' }));
+      db.releaseProcessingJob.mockResolvedValue('cancelled');
+
+      await runJob();
+      await until(() => db.refundFileCount.mock.calls.length === 1);
+
+      expect(db.refundFileCount).toHaveBeenCalledWith('user-1', 1);
+      expect(mockedProcessFile).not.toHaveBeenCalled();
+    });
+
+    it('records usage for processed files', async () => {
+      db.getProcessingSession.mockResolvedValue(processingSession());
+      db.settleProcessingJob.mockResolvedValue(processingSession({ processedFiles: 1, progress: 50 }));
+      mockedProcessFile.mockResolvedValue(undefined);
+
+      await runJob();
+      await until(() => db.updateUsageStats.mock.calls.length === 1);
+
+      expect(mockedProcessFile).toHaveBeenCalledWith('file-a', expect.any(Function), 'session-1');
+      expect(db.settleProcessingJob).toHaveBeenCalledWith(expect.objectContaining({ id: 'file-a' }), true, undefined);
+      expect(db.updateUsageStats).toHaveBeenCalledWith('user-1', { filesProcessed: 1, textExtracted: 1 });
+      expect(events).toContainEqual(expect.objectContaining({ type: 'session', processedFiles: 1, progress: 50 }));
+    });
+
+    it('dead-letters missing files straight away and refunds them', async () => {
+      db.getProcessingSession.mockResolvedValue(processingSession());
+      db.settleProcessingJob.mockResolvedValue(processingSession({ failedFiles: 1, progress: 50 }));
+      mockedProcessFile.mockRejectedValue(new FileNotFoundError('File not found: file-a'));
+
+      await runJob();
+      await until(() => db.refundFileCount.mock.calls.length === 1);
+
+      expect(db.settleProcessingJob).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'file-a' }), false, 'File not found: file-a'
+      );
+      expect(db.refundFileCount).toHaveBeenCalledWith('user-1', 1);
+      expect(db.updateUsageStats).not.toHaveBeenCalled();
+    });
+  });
+});
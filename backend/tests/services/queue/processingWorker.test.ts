@@ -0,0 +1,230 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { ProcessingJobDocument } from '../../../src/config/database';
+import { DatabaseService } from '../../../src/config/database';
+import { JobOutcome, PermanentJobError, ProcessingWorker } from '../../../src/services/queue/processingWorker';
+import { processingJob, until } from '../../helpers/processing';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {
+    claimProcessingJob: jest.fn(),
+    releaseExpiredJobLeases: jest.fn(),
+    renewJobLease: jest.fn(),
+    updateLeasedJob: jest.fn(),
+  },
+}));
+
+const db = jest.mocked(DatabaseService);
+
+const job = (id: string, attempts = 1) => processingJob({ id, attempts });
+
+// Hand out the given jobs, one per claim, then report an empty queue
+function queueJobs(...jobs: ProcessingJobDocument[]): void {
+  db.claimProcessingJob.mockImplementation(async () => jobs.shift() ?? null);
+}
+
+describe('ProcessingWorker', () => {
+  let worker: ProcessingWorker;
+  const handler = jest.fn<Promise<JobOutcome>, [ProcessingJobDocument]>();
+  const onSettled = jest.fn<Promise<void>, [ProcessingJobDocument, boolean, string?]>();
+
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.JOB_CONCURRENCY;
+    delete process.env.JOB_RETRY_BASE_DELAY_MS;
+    jest.resetAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db.releaseExpiredJobLeases.mockResolvedValue({ requeued: 0, exhausted: [] });
+    db.renewJobLease.mockResolvedValue(true);
+    db.updateLeasedJob.mockResolvedValue(true);
+    onSettled.mockResolvedValue(undefined);
+    worker = new ProcessingWorker(handler, onSettled);
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  it('releases expired leases, runs claimed jobs and settles them', async () => {
+    const first = job('a');
+    queueJobs(first);
+    handler.mockResolvedValue('completed');
+
+    worker.start();
+    await until(() => onSettled.mock.calls.length === 1);
+
+    expect(db.releaseExpiredJobLeases).toHaveBeenCalledTimes(1);
+    expect(db.claimProcessingJob).toHaveBeenCalledWith(worker.workerId, 5 * 60 * 1000);
+    expect(handler).toHaveBeenCalledWith(first);
+    expect(onSettled).toHaveBeenCalledWith(first, true);
+  });
+
+  it('dead-letters jobs whose lease expired on their last attempt', async () => {
+    const abandoned = job('a', 3);
+    db.releaseExpiredJobLeases.mockResolvedValue({ requeued: 2, exhausted: [abandoned] });
+    queueJobs();
+
+    worker.start();
+    await until(() => onSettled.mock.calls.length === 1);
+
+    expect(onSettled).toHaveBeenCalledWith(abandoned, false, 'Processing stopped responding');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('does not settle jobs the handler released', async () => {
+    queueJobs(job('a'));
+    handler.mockResolvedValue('released');
+
+    worker.start();
+    await until(() => handler.mock.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(onSettled).not.toHaveBeenCalled();
+    expect(db.updateLeasedJob).not.toHaveBeenCalled();
+  });
+
+  it('requeues a failed job with exponential backoff while attempts remain', async () => {
+    queueJobs(job('a', 2));
+    handler.mockRejectedValue(new Error('OpenAI timeout'));
+    const startedAt = Date.now();
+
+    worker.start();
+    await until(() => db.updateLeasedJob.mock.calls.length === 1);
+
+    const [leased, update] = db.updateLeasedJob.mock.calls[0];
+    expect(leased.id).toBe('a');
+    expect(update).toMatchObject({ status: 'queued', lastError: 'OpenAI timeout' });
+    // Second attempt: 2 x 10s base delay, plus up to 20% jitter
+    const delay = (update.runAfter as Timestamp).toMillis() - startedAt;
+    expect(delay).toBeGreaterThanOrEqual(20000);
+    expect(delay).toBeLessThan(24000 + 1000);
+    expect(onSettled).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a job on its last attempt', async () => {
+    const last = job('a', 3);
+    queueJobs(last);
+    handler.mockRejectedValue(new Error('OpenAI timeout'));
+
+    worker.start();
+    await until(() => onSettled.mock.calls.length === 1);
+
+    expect(onSettled).toHaveBeenCalledWith(last, false, 'OpenAI timeout');
+    expect(db.updateLeasedJob).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters permanent failures without retrying', async () => {
+    const first = job('a', 1);
+    queueJobs(first);
+    handler.mockRejectedValue(new PermanentJobError('Unsupported file type'));
+
+    worker.start();
+    await until(() => onSettled.mock.calls.length === 1);
+
+    expect(onSettled).toHaveBeenCalledWith(first, false, 'Unsupported file type');
+    expect(db.updateLeasedJob).not.toHaveBeenCalled();
+  });
+
+  it('runs at most two jobs at a time and claims more as they finish', async () => {
+    queueJobs(job('a'), job('b'), job('c'));
+    const finishers: Array<() => void> = [];
+    handler.mockImplementation(() => new Promise(resolve => finishers.push(() => resolve('completed'))));
+
+    worker.start();
+    await until(() => handler.mock.calls.length === 2);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    finishers[0]();
+    await until(() => handler.mock.calls.length === 3);
+    expect(handler.mock.calls.map(([claimed]) => claimed.id)).toEqual(['a', 'b', 'c']);
+
+    finishers.slice(1).forEach(finish => finish());
+    await until(() => onSettled.mock.calls.length === 3);
+  });
+
+  it('runs JOB_CONCURRENCY jobs at a time', async () => {
+    process.env.JOB_CONCURRENCY = '1';
+    queueJobs(job('a'), job('b'));
+    const finishers: Array<() => void> = [];
+    handler.mockImplementation(() => new Promise(resolve => finishers.push(() => resolve('completed'))));
+
+    worker.start();
+    await until(() => handler.mock.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    finishers[0]();
+    await until(() => handler.mock.calls.length === 2);
+    finishers[1]();
+    await until(() => onSettled.mock.calls.length === 2);
+  });
+
+  it('waits for running jobs when stopped', async () => {
+    queueJobs(job('a'));
+    let finish: () => void = () => undefined;
+    handler.mockImplementation(() => new Promise(resolve => { finish = () => resolve('completed'); }));
+
+    worker.start();
+    await until(() => handler.mock.calls.length === 1);
+
+    const stopped = worker.stop();
+    finish();
+    await stopped;
+
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), true);
+    expect(db.updateLeasedJob).not.toHaveBeenCalled();
+  });
+
+  it('renews the lease of long-running jobs', async () => {
+    jest.useFakeTimers({ advanceTimers: true });
+    try {
+      const slow = job('a');
+      queueJobs(slow);
+      let finish: () => void = () => undefined;
+      handler.mockImplementation(() => new Promise(resolve => { finish = () => resolve('completed'); }));
+
+      worker.start();
+      await until(() => handler.mock.calls.length === 1);
+      jest.advanceTimersByTime(100 * 1000);
+      expect(db.renewJobLease).toHaveBeenCalledWith(slow, 5 * 60 * 1000);
+
+      finish();
+      await until(() => onSettled.mock.calls.length === 1);
+      db.renewJobLease.mockClear();
+      jest.advanceTimersByTime(100 * 1000);
+      expect(db.renewJobLease).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('requeues jobs still running when the shutdown timeout passes', async () => {
+    jest.useFakeTimers({ advanceTimers: true });
+    try {
+      queueJobs(job('a', 2));
+      let finish: () => void = () => undefined;
+      handler.mockImplementation(() => new Promise(resolve => { finish = () => resolve('released'); }));
+
+      worker.start();
+      await until(() => handler.mock.calls.length === 1);
+      const stopped = worker.stop();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      await stopped;
+
+      expect(db.updateLeasedJob).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'a' }),
+        expect.objectContaining({ status: 'queued', attempts: 1 })
+      );
+      finish();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,168 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { EMPTY_METADATA } from '../../../src/services/metadata/types';
+import {
+  evaluateRules,
+  matchesConditions,
+  renderFolderPath,
+  RuleSubject,
+} from '../../../src/services/rules/engine';
+import { FilingRule } from '../../../src/services/rules/types';
+
+const subject = (overrides: Partial<RuleSubject> = {}): RuleSubject => ({
+  fileSize: 50_000,
+  extractedText: 'Invoice INV-1042 from ACME Corp. Total due: $1,234.50',
+  category: 'invoice',
+  metadata: {
+    ...EMPTY_METADATA,
+    documentType: 'invoice',
+    vendor: 'ACME Corp',
+    documentDate: '2023-08-30',
+    source: 'model',
+  },
+  createdAt: Timestamp.fromDate(new Date('2024-01-15T12:00:00Z')),
+  ...overrides,
+});
+
+const undated = (): RuleSubject => subject({ metadata: { ...subject().metadata!, documentDate: null } });
+
+const rule = (id: string, overrides: Partial<FilingRule> = {}): FilingRule => ({
+  id,
+  name: id,
+  enabled: true,
+  priority: 0,
+  conditions: {},
+  actions: {},
+  stopProcessing: false,
+  ...overrides,
+});
+
+describe('evaluateRules', () => {
+  it('returns an empty evaluation without rules', () => {
+    expect(evaluateRules([], subject())).toEqual({ matchedRuleIds: [], tags: [] });
+  });
+
+  it('runs rules by priority: the first folder wins and tags are combined', () => {
+    const evaluation = evaluateRules([
+      rule('later', { priority: 2, actions: { folderPath: 'Later', tags: ['finance', 'acme'] } }),
+      rule('first', { priority: 1, actions: { folderPath: 'Finance/{year}', tags: ['finance'] } }),
+    ], subject());
+
+    expect(evaluation).toEqual({
+      matchedRuleIds: ['first', 'later'],
+      folderPath: 'Finance/2023',
+      tags: ['finance', 'acme'],
+    });
+  });
+
+  it('skips disabled and non-matching rules', () => {
+    const evaluation = evaluateRules([
+      rule('disabled', { enabled: false, actions: { tags: ['disabled'] } }),
+      rule('receipts', { conditions: { categories: ['receipt'] }, actions: { tags: ['receipts'] } }),
+      rule('invoices', { conditions: { categories: ['invoice'] }, actions: { tags: ['invoices'] } }),
+    ], subject());
+
+    expect(evaluation.matchedRuleIds).toEqual(['invoices']);
+    expect(evaluation.tags).toEqual(['invoices']);
+  });
+
+  it('stops after a matching rule with stopProcessing', () => {
+    const evaluation = evaluateRules([
+      rule('stop', { priority: 1, stopProcessing: true, actions: { tags: ['first'] } }),
+      rule('skipped', { priority: 2, actions: { tags: ['second'] } }),
+    ], subject());
+
+    expect(evaluation.matchedRuleIds).toEqual(['stop']);
+    expect(evaluation.tags).toEqual(['first']);
+  });
+
+  it('lets a later rule set the folder when an earlier one renders empty', () => {
+    const evaluation = evaluateRules([
+      rule('empty', { priority: 1, actions: { folderPath: '{vendor}' } }),
+      rule('fallback', { priority: 2, actions: { folderPath: 'Inbox' } }),
+    ], subject({ metadata: undefined }));
+
+    expect(evaluation.folderPath).toBe('Inbox');
+  });
+
+  it('takes the filename template of the first rule that sets one', () => {
+    const template = { template: '{date}_{vendor}', caseStyle: 'title' as const, separator: '_' as const, maxLength: 100 };
+    const evaluation = evaluateRules([
+      rule('first', { priority: 1, actions: { filenameTemplate: template } }),
+      rule('second', { priority: 2, actions: { filenameTemplate: { ...template, template: '{title}' } } }),
+    ], subject());
+
+    expect(evaluation.filenameTemplate).toBe(template);
+  });
+});
+
+describe('matchesConditions', () => {
+  it('matches every file without conditions', () => {
+    expect(matchesConditions({}, subject())).toBe(true);
+  });
+
+  it('matches categories', () => {
+    expect(matchesConditions({ categories: ['receipt', 'invoice'] }, subject())).toBe(true);
+    expect(matchesConditions({ categories: ['receipt'] }, subject())).toBe(false);
+    expect(matchesConditions({ categories: ['invoice'] }, subject({ category: undefined }))).toBe(false);
+  });
+
+  it('matches vendors case-insensitively by substring', () => {
+    expect(matchesConditions({ vendors: ['globex', 'acme'] }, subject())).toBe(true);
+    expect(matchesConditions({ vendors: ['globex'] }, subject())).toBe(false);
+    expect(matchesConditions({ vendors: ['acme'] }, subject({ metadata: undefined }))).toBe(false);
+  });
+
+  it('matches inclusive date ranges on the document date', () => {
+    expect(matchesConditions({ dateFrom: '2023-08-30', dateTo: '2023-08-30' }, subject())).toBe(true);
+    expect(matchesConditions({ dateTo: '2023-08-29' }, subject())).toBe(false);
+    expect(matchesConditions({ dateFrom: '2023-08-31' }, subject())).toBe(false);
+  });
+
+  it('falls back to the upload date', () => {
+    expect(matchesConditions({ dateFrom: '2024-01-01', dateTo: '2024-01-31' }, undated())).toBe(true);
+    expect(matchesConditions({ dateTo: '2023-12-31' }, undated())).toBe(false);
+  });
+
+  it('matches any or all keywords in the extracted text', () => {
+    expect(matchesConditions({ keywords: ['TOTAL DUE', 'refund'] }, subject())).toBe(true);
+    expect(matchesConditions({ keywords: ['total due', 'refund'], keywordMatch: 'all' }, subject())).toBe(false);
+    expect(matchesConditions({ keywords: ['total due', 'acme'], keywordMatch: 'all' }, subject())).toBe(true);
+    expect(matchesConditions({ keywords: ['invoice'] }, subject({ extractedText: undefined }))).toBe(false);
+  });
+
+  it('matches inclusive size limits', () => {
+    expect(matchesConditions({ minSize: 50_000, maxSize: 50_000 }, subject())).toBe(true);
+    expect(matchesConditions({ minSize: 50_001 }, subject())).toBe(false);
+    expect(matchesConditions({ maxSize: 49_999 }, subject())).toBe(false);
+  });
+
+  it('requires every condition that is set', () => {
+    expect(matchesConditions({ categories: ['invoice'], vendors: ['globex'] }, subject())).toBe(false);
+  });
+});
+
+describe('renderFolderPath', () => {
+  it('fills date, category, vendor and document type placeholders', () => {
+    expect(renderFolderPath('Finance/{year}/{month}/{day}', subject())).toBe('Finance/2023/08/30');
+    expect(renderFolderPath('{category}/{vendor}', subject())).toBe('Invoice/ACME Corp');
+    expect(renderFolderPath('{date:YYYY-MM}/{docType}', subject())).toBe('2023-08/invoice');
+  });
+
+  it('uses the upload date when the document has none', () => {
+    expect(renderFolderPath('Scans/{year}', undated())).toBe('Scans/2024');
+  });
+
+  it('drops segments that come out empty', () => {
+    expect(renderFolderPath('{vendor}/Receipts/{docType}', subject({ metadata: undefined }))).toBe('Receipts');
+  });
+
+  it('keeps values from adding path separators or traversal', () => {
+    const file = subject({ metadata: { ...subject().metadata!, vendor: '../../etc/passwd' } });
+    expect(renderFolderPath('Clients/{vendor}', file)).toBe('Clients/-..-etc-passwd');
+    expect(renderFolderPath('../{year}', subject())).toBe('2023');
+  });
+
+  it('limits the depth to ten folders', () => {
+    expect(renderFolderPath('a/b/c/d/e/f/g/h/i/j/k/l', subject())).toBe('a/b/c/d/e/f/g/h/i/j');
+  });
+});
@@ -0,0 +1,51 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { IndexStore } from '../../../src/services/search/indexStore';
+
+describe('IndexStore', () => {
+  let directory: string;
+  let store: IndexStore<{ values: string[] }, { add: string }>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'index-'));
+    store = new IndexStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('loads nothing for a user without files', async () => {
+    await expect(store.load('user-1')).resolves.toEqual({ snapshot: null, changes: [] });
+  });
+
+  it('appends changes after the snapshot without rewriting it', async () => {
+    await store.save('user-1', { values: ['a'] });
+    const snapshot = await fs.stat(path.join(directory, 'user-1.json'));
+    await store.append('user-1', { add: 'b' });
+    await store.append('user-1', { add: 'c' });
+
+    await expect(store.load('user-1')).resolves.toEqual({ snapshot: { values: ['a'] }, changes: [{ add: 'b' }, { add: 'c' }] });
+    expect((await fs.stat(path.join(directory, 'user-1.json'))).mtimeMs).toBe(snapshot.mtimeMs);
+  });
+
+  it('starts an empty log with each snapshot', async () => {
+    await store.append('user-1', { add: 'a' });
+    await store.save('user-1', { values: ['a'] });
+
+    await expect(store.load('user-1')).resolves.toEqual({ snapshot: { values: ['a'] }, changes: [] });
+  });
+
+  it('skips a partly written change', async () => {
+    await store.append('user-1', { add: 'a' });
+    await fs.appendFile(path.join(directory, 'user-1.log'), '{"add":"b');
+
+    await expect(store.load('user-1')).resolves.toEqual({ snapshot: null, changes: [{ add: 'a' }] });
+  });
+
+  it('keeps user IDs out of the path', async () => {
+    await store.save('../escape', { values: [] });
+    await expect(fs.readdir(directory)).resolves.toEqual(['..%2Fescape.json']);
+  });
+});
@@ -0,0 +1,114 @@
+import { InvertedIndex, matchesFilters } from '../../../src/services/search/invertedIndex';
+import { tokenize } from '../../../src/services/search/tokenizer';
+import { IndexedDocument } from '../../../src/services/search/types';
+
+function indexed(fileId: string, text: string, fields: Partial<IndexedDocument> = {}): IndexedDocument {
+  const terms: Record<string, number> = {};
+  const tokens = tokenize(text);
+  tokens.forEach(term => {
+    terms[term] = (terms[term] || 0) + 1;
+  });
+  return { fileId, terms, length: tokens.length, fileType: 'pdf', ...fields };
+}
+
+const DOCUMENTS = [
+  indexed('a', 'invoice acme invoice payment', { category: 'invoice', date: '2023-08-30' }),
+  indexed('b', 'invoice globex', { category: 'invoice', date: '2023-09-15' }),
+  indexed('c', 'receipt acme coffee', { fileType: 'image', category: 'receipt', date: '2023-08-01' }),
+  indexed('d', 'meeting notes acme invoice discussion about invoicing process', { fileType: 'document' }),
+];
+
+const ids = (index: InvertedIndex, terms: string[], filters = {}) => index.search(terms, filters).map(hit => hit.fileId);
+
+describe('InvertedIndex', () => {
+  let index: InvertedIndex;
+
+  beforeEach(() => {
+    index = new InvertedIndex(DOCUMENTS);
+  });
+
+  it('ranks by BM25: more occurrences in a shorter document score higher', () => {
+    const hits = index.search(['invoice', 'acme']);
+
+    expect(hits.map(hit => hit.fileId)).toEqual(['a', 'd']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[0].matchedTerms.sort()).toEqual(['acme', 'invoice']);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const [common] = index.search(['acme']).filter(hit => hit.fileId === 'c');
+    const [rare] = index.search(['coffee']);
+    expect(rare.fileId).toBe('c');
+    expect(rare.score).toBeGreaterThan(common.score);
+  });
+
+  it('requires every query term', () => {
+    expect(ids(index, ['globex', 'acme'])).toEqual([]);
+    expect(ids(index, ['unknown'])).toEqual([]);
+    expect(ids(index, [])).toEqual([]);
+  });
+
+  it('expands only the last term as a prefix', () => {
+    const hits = index.search(['acme', 'coff']);
+    expect(hits.map(hit => hit.fileId)).toEqual(['c']);
+    expect(hits[0].matchedTerms.sort()).toEqual(['acme', 'coffee']);
+
+    expect(ids(index, ['invoic', 'acme'])).toEqual([]);
+    expect(ids(index, ['invoic']).sort()).toEqual(['a', 'b', 'd']);
+  });
+
+  it('reports every expansion a document matched', () => {
+    const [hit] = index.search(['invoic']).filter(({ fileId }) => fileId === 'd');
+    expect(hit.matchedTerms.sort()).toEqual(['invoice', 'invoicing']);
+  });
+
+  it('applies file type, category and date filters', () => {
+    expect(ids(index, ['acme'], { fileType: 'image' })).toEqual(['c']);
+    expect(ids(index, ['acme'], { category: 'invoice' })).toEqual(['a']);
+    expect(ids(index, ['acme'], { dateFrom: '2023-08-15' })).toEqual(['a']);
+    expect(ids(index, ['acme'], { dateFrom: '2023-08-01', dateTo: '2023-08-01' })).toEqual(['c']);
+  });
+
+  it('breaks score ties by file ID', () => {
+    const twins = new InvertedIndex([indexed('y', 'tax return'), indexed('x', 'tax return')]);
+    expect(ids(twins, ['tax'])).toEqual(['x', 'y']);
+  });
+
+  it('removes documents', () => {
+    expect(index.remove('a')).toBe(true);
+    expect(index.remove('a')).toBe(false);
+    expect(index.size).toBe(3);
+    expect(ids(index, ['payment'])).toEqual([]);
+    expect(ids(index, ['acme']).sort()).toEqual(['c', 'd']);
+  });
+
+  it('replaces a document added again under the same ID', () => {
+    index.add(indexed('a', 'globex contract'));
+
+    expect(index.size).toBe(4);
+    expect(ids(index, ['acme'])).not.toContain('a');
+    expect(ids(index, ['globex']).sort()).toEqual(['a', 'b']);
+  });
+
+  it('round-trips through toJSON', () => {
+    const restored = new InvertedIndex(JSON.parse(JSON.stringify(index)));
+    expect(restored.search(['invoice', 'acme'])).toEqual(index.search(['invoice', 'acme']));
+  });
+});
+
+describe('matchesFilters', () => {
+  const document = indexed('x', '', { category: 'invoice', date: '2023-08-30' });
+
+  it('matches without filters', () => {
+    expect(matchesFilters(document, {})).toBe(true);
+  });
+
+  it('treats date bounds as inclusive', () => {
+    expect(matchesFilters(document, { dateFrom: '2023-08-30', dateTo: '2023-08-30' })).toBe(true);
+    expect(matchesFilters(document, { dateTo: '2023-08-29' })).toBe(false);
+  });
+
+  it('excludes undated documents from date filters', () => {
+    expect(matchesFilters({ ...document, date: undefined }, { dateFrom: '2000-01-01' })).toBe(false);
+  });
+});
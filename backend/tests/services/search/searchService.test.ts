@@ -0,0 +1,81 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { FileDocument } from '../../../src/config/database';
+import { DatabaseService } from '../../../src/config/database';
+import { SearchService } from '../../../src/services/search';
+import { fileDocument } from '../../helpers/files';
+import { deferred, until } from '../../helpers/processing';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: { getUserFiles: jest.fn() },
+}));
+
+const database = jest.mocked(DatabaseService);
+
+const matches = async (uid: string, query: string) => (await SearchService.rank(uid, query)).map(hit => hit.fileId);
+
+describe('SearchService', () => {
+  const original = { ...process.env };
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'search-'));
+    process.env.SEARCH_INDEX_PATH = directory;
+  });
+
+  afterAll(async () => {
+    process.env = original;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('rebuilds a missing index in the background and searches what it has so far', async () => {
+    const files = deferred<FileDocument[]>();
+    database.getUserFiles.mockReturnValueOnce(files.promise);
+
+    await expect(matches('user-1', 'invoice')).resolves.toEqual([]);
+    expect(SearchService.isRebuilding('user-1')).toBe(true);
+
+    files.resolve([
+      fileDocument('invoice', { userId: 'user-1', originalName: 'invoice.pdf' }),
+      fileDocument('pending', { userId: 'user-1', originalName: 'invoice-draft.pdf', isProcessed: false }),
+    ]);
+    await until(() => existsSync(path.join(directory, 'user-1.json')));
+    expect(SearchService.isRebuilding('user-1')).toBe(false);
+
+    await expect(matches('user-1', 'invoice')).resolves.toEqual(['invoice']);
+    expect(database.getUserFiles).toHaveBeenCalledWith('user-1', 5000);
+  });
+
+  it('keeps changes made during a rebuild over the files it read', async () => {
+    const files = deferred<FileDocument[]>();
+    database.getUserFiles.mockReturnValueOnce(files.promise);
+    await matches('user-2', 'anything');
+
+    await SearchService.indexFile(fileDocument('renamed', { userId: 'user-2', originalName: 'contract.pdf' }));
+    await SearchService.removeFiles('user-2', ['deleted']);
+    files.resolve([
+      fileDocument('renamed', { userId: 'user-2', originalName: 'draft.pdf' }),
+      fileDocument('deleted', { userId: 'user-2', originalName: 'draft-2.pdf' }),
+    ]);
+    await until(() => existsSync(path.join(directory, 'user-2.json')));
+
+    await expect(matches('user-2', 'contract')).resolves.toEqual(['renamed']);
+    await expect(matches('user-2', 'draft')).resolves.toEqual([]);
+  });
+
+  it('logs each change instead of rewriting the snapshot', async () => {
+    database.getUserFiles.mockResolvedValueOnce([fileDocument('a', { userId: 'user-3' })]);
+    await matches('user-3', 'a');
+    await until(() => existsSync(path.join(directory, 'user-3.json')));
+    const snapshot = await fs.readFile(path.join(directory, 'user-3.json'), 'utf8');
+
+    await SearchService.indexFile(fileDocument('b', { userId: 'user-3', originalName: 'receipt.pdf' }));
+    await SearchService.removeFiles('user-3', ['a']);
+
+    await expect(fs.readFile(path.join(directory, 'user-3.json'), 'utf8')).resolves.toBe(snapshot);
+    const log = (await fs.readFile(path.join(directory, 'user-3.log'), 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(log).toEqual([{ upsert: expect.objectContaining({ fileId: 'b' }) }, { remove: ['a'] }]);
+  });
+});
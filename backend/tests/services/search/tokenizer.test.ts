@@ -0,0 +1,43 @@
+import { isIndexable, normalizeTerm, tokenize, words } from '../../../src/services/search/tokenizer';
+
+describe('tokenize', () => {
+  it('lower-cases, folds accents and drops stop words and punctuation', () => {
+    expect(tokenize('The Café menu, 2023 & a Crème brûlée!')).toEqual(['cafe', 'menu', '2023', 'creme', 'brulee']);
+  });
+
+  it('drops single characters', () => {
+    expect(tokenize('x y zz 7')).toEqual(['zz']);
+  });
+
+  it('keeps words of other scripts', () => {
+    expect(tokenize('Счёт №42 東京')).toEqual(['счет', '42', '東京']);
+  });
+});
+
+describe('normalizeTerm', () => {
+  it('folds accents and compatibility characters', () => {
+    expect(normalizeTerm('Ärger')).toBe('arger');
+    expect(normalizeTerm('ﬁle')).toBe('file');
+  });
+});
+
+describe('isIndexable', () => {
+  it('rejects stop words and single characters', () => {
+    expect(isIndexable('of')).toBe(false);
+    expect(isIndexable('q')).toBe(false);
+    expect(isIndexable('tax')).toBe(true);
+  });
+});
+
+describe('words', () => {
+  it('yields normalized terms with their offsets in the original text', () => {
+    const text = 'Hi, Café!';
+    const found = Array.from(words(text));
+
+    expect(found).toEqual([
+      { term: 'hi', start: 0, end: 2 },
+      { term: 'cafe', start: 4, end: 8 },
+    ]);
+    expect(text.slice(found[1].start, found[1].end)).toBe('Café');
+  });
+});
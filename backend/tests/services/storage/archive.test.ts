@@ -0,0 +1,91 @@
+import JSZip from 'jszip';
+import { createArchive } from '../../../src/services/storage/archive';
+import { MemoryStorageDriver } from '../../helpers/storage';
+
+async function unzip(stream: NodeJS.ReadableStream): Promise<Record<string, string>> {
+  // JSZip's stream predates async iteration
+  const buffer = await new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+  const zip = await JSZip.loadAsync(buffer);
+  const files: Record<string, string> = {};
+  for (const file of Object.values(zip.files).filter(entry => !entry.dir)) {
+    files[file.name] = await file.async('string');
+  }
+  return files;
+}
+
+describe('createArchive', () => {
+  let driver: MemoryStorageDriver;
+
+  beforeEach(async () => {
+    driver = new MemoryStorageDriver();
+    await driver.put('user-1/a', Buffer.from('alpha'));
+    await driver.put('user-1/b', Buffer.from('beta'));
+    await driver.put('user-1/c', Buffer.from('gamma'));
+  });
+
+  it('stores each object under its folder and name', async () => {
+    const { stream, missingKeys } = await createArchive(driver, [
+      { key: 'user-1/a', filename: 'Invoice.pdf', folderPath: 'Finance/2023' },
+      { key: 'user-1/b', filename: 'Notes.txt' },
+    ]);
+
+    await expect(unzip(stream)).resolves.toEqual({ 'Finance/2023/Invoice.pdf': 'alpha', 'Notes.txt': 'beta' });
+    expect(missingKeys).toEqual([]);
+  });
+
+  it('suffixes clashing paths, ignoring case', async () => {
+    const { stream } = await createArchive(driver, [
+      { key: 'user-1/a', filename: 'Invoice.pdf' },
+      { key: 'user-1/b', filename: 'invoice.pdf' },
+      { key: 'user-1/c', filename: 'Invoice.pdf' },
+    ]);
+
+    await expect(unzip(stream)).resolves.toEqual({ 'Invoice.pdf': 'alpha', 'invoice (2).pdf': 'beta', 'Invoice (3).pdf': 'gamma' });
+  });
+
+  it('keeps names and folders from escaping the archive', async () => {
+    const { stream } = await createArchive(driver, [
+      { key: 'user-1/a', filename: '../../etc/passwd', folderPath: '../..' },
+    ]);
+
+    const files = Object.keys(await unzip(stream));
+    expect(files).toHaveLength(1);
+    expect(files[0].split('/')).not.toContain('..');
+  });
+
+  it('leaves out objects that no longer exist', async () => {
+    const { stream, missingKeys } = await createArchive(driver, [
+      { key: 'user-1/a', filename: 'Invoice.pdf' },
+      { key: 'user-1/gone', filename: 'Gone.pdf' },
+    ]);
+
+    await expect(unzip(stream)).resolves.toEqual({ 'Invoice.pdf': 'alpha' });
+    expect(missingKeys).toEqual(['user-1/gone']);
+  });
+
+  it('opens each object only when the archive reaches it', async () => {
+    const stream = jest.spyOn(driver, 'stream');
+
+    const archive = await createArchive(driver, [
+      { key: 'user-1/a', filename: 'Invoice.pdf' },
+      { key: 'user-1/b', filename: 'Notes.txt' },
+    ]);
+    expect(stream).not.toHaveBeenCalled();
+
+    await unzip(archive.stream);
+    expect(stream.mock.calls.map(([key]) => key)).toEqual(['user-1/a', 'user-1/b']);
+  });
+
+  it('fails the archive when an object cannot be read', async () => {
+    jest.spyOn(driver, 'stream').mockRejectedValue(new Error('connection reset'));
+
+    const { stream } = await createArchive(driver, [{ key: 'user-1/a', filename: 'Invoice.pdf' }]);
+
+    await expect(unzip(stream)).rejects.toThrow('connection reset');
+  });
+});
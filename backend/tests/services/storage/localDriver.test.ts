@@ -0,0 +1,70 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageDriver } from '../../../src/services/storage/localDriver';
+import { InvalidStorageKeyError, StorageObjectNotFoundError } from '../../../src/services/storage/types';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('LocalStorageDriver', () => {
+  let directory: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    driver = new LocalStorageDriver({ directory });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores buffers and streams under their key', async () => {
+    await driver.put('user-1/a.txt', Buffer.from('alpha'));
+    await driver.put('user-1/b.txt', Readable.from([Buffer.from('be'), Buffer.from('ta')]));
+
+    await expect(driver.get('user-1/a.txt')).resolves.toEqual(Buffer.from('alpha'));
+    await expect(readAll(await driver.stream('user-1/b.txt'))).resolves.toBe('beta');
+    await expect(fs.readdir(path.join(directory, 'user-1'))).resolves.toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('reports missing objects', async () => {
+    await expect(driver.get('user-1/missing.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+    await expect(driver.stream('user-1/missing.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+    await expect(driver.move('user-1/missing.txt', 'user-1/other.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+  });
+
+  it('tells whether an object exists', async () => {
+    await driver.put('user-1/a.txt', Buffer.from('alpha'));
+
+    await expect(driver.exists('user-1/a.txt')).resolves.toBe(true);
+    await expect(driver.exists('user-1/missing.txt')).resolves.toBe(false);
+    await expect(driver.exists('../outside.txt')).rejects.toBeInstanceOf(InvalidStorageKeyError);
+  });
+
+  it('moves and deletes objects', async () => {
+    await driver.put('user-1/a.txt', Buffer.from('alpha'));
+    await driver.put('user-2/b.txt', Buffer.from('beta'));
+
+    await driver.move('user-1/a.txt', 'user-2/b.txt');
+    await expect(driver.get('user-2/b.txt')).resolves.toEqual(Buffer.from('alpha'));
+    await expect(driver.get('user-1/a.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+
+    await driver.delete('user-2/b.txt');
+    await driver.delete('user-2/b.txt');
+    await expect(driver.get('user-2/b.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+  });
+
+  it('keeps keys inside its directory', async () => {
+    for (const key of ['', '../outside.txt', 'user-1/../../outside.txt', '/etc/passwd']) {
+      await expect(driver.get(key)).rejects.toBeInstanceOf(InvalidStorageKeyError);
+    }
+  });
+});
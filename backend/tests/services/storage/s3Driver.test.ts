@@ -0,0 +1,87 @@
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { S3StorageDriver } from '../../../src/services/storage/s3Driver';
+import { StorageObjectNotFoundError } from '../../../src/services/storage/types';
+
+describe('S3StorageDriver', () => {
+  const driver = new S3StorageDriver({
+    bucket: 'uploads',
+    region: 'us-east-1',
+    endpoint: 'http://localhost:9000',
+    forcePathStyle: true,
+    accessKeyId: 'minio',
+    secretAccessKey: 'minio-secret',
+  });
+  let send: jest.SpyInstance;
+
+  beforeEach(() => {
+    send = jest.spyOn(S3Client.prototype, 'send').mockImplementation(() => Promise.resolve({}));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sent = (index: number) => send.mock.calls[index][0];
+
+  it('uploads objects with their type and length', async () => {
+    await driver.put('user-1/a.pdf', Buffer.from('%PDF'), { contentType: 'application/pdf' });
+
+    expect(sent(0)).toBeInstanceOf(PutObjectCommand);
+    expect(sent(0).input).toEqual({
+      Bucket: 'uploads',
+      Key: 'user-1/a.pdf',
+      Body: Buffer.from('%PDF'),
+      ContentType: 'application/pdf',
+      ContentLength: 4,
+    });
+  });
+
+  it('downloads object bodies', async () => {
+    send.mockResolvedValue({ Body: { transformToByteArray: async () => new Uint8Array([104, 105]) } });
+
+    await expect(driver.get('user-1/a.txt')).resolves.toEqual(Buffer.from('hi'));
+    expect(sent(0)).toBeInstanceOf(GetObjectCommand);
+    expect(sent(0).input).toEqual({ Bucket: 'uploads', Key: 'user-1/a.txt' });
+  });
+
+  it('reports missing objects', async () => {
+    send.mockRejectedValueOnce(Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' }));
+    send.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { $metadata: { httpStatusCode: 404 } }));
+
+    await expect(driver.get('user-1/a.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+    await expect(driver.move('user-1/a.txt', 'user-1/b.txt')).rejects.toBeInstanceOf(StorageObjectNotFoundError);
+  });
+
+  it('tells whether an object exists', async () => {
+    send.mockResolvedValueOnce({});
+    send.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { name: 'NotFound' }));
+
+    await expect(driver.exists('user-1/a.txt')).resolves.toBe(true);
+    await expect(driver.exists('user-1/b.txt')).resolves.toBe(false);
+    expect(sent(0)).toBeInstanceOf(HeadObjectCommand);
+    expect(sent(0).input).toEqual({ Bucket: 'uploads', Key: 'user-1/a.txt' });
+  });
+
+  it('passes other errors through', async () => {
+    const denied = Object.assign(new Error('Access Denied'), { name: 'AccessDenied' });
+    send.mockRejectedValue(denied);
+
+    await expect(driver.get('user-1/a.txt')).rejects.toBe(denied);
+  });
+
+  it('moves objects by copying, then deleting the original', async () => {
+    await driver.move('user-1/a b.pdf', 'user-2/b.pdf');
+
+    expect(sent(0)).toBeInstanceOf(CopyObjectCommand);
+    expect(sent(0).input).toEqual({ Bucket: 'uploads', Key: 'user-2/b.pdf', CopySource: 'uploads/user-1/a%20b.pdf' });
+    expect(sent(1)).toBeInstanceOf(DeleteObjectCommand);
+    expect(sent(1).input).toEqual({ Bucket: 'uploads', Key: 'user-1/a b.pdf' });
+  });
+});
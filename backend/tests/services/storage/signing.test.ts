@@ -0,0 +1,90 @@
+import { createSignature, expiresAt, verifySignature } from '../../../src/services/storage/signing';
+
+const NOW = new Date('2024-03-01T12:00:00.500Z');
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+describe('storage signing', () => {
+  const originalSecret = process.env.STORAGE_SIGNING_SECRET;
+
+  beforeEach(() => {
+    process.env.STORAGE_SIGNING_SECRET = 'test-secret';
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    if (originalSecret === undefined) {
+      delete process.env.STORAGE_SIGNING_SECRET;
+    } else {
+      process.env.STORAGE_SIGNING_SECRET = originalSecret;
+    }
+  });
+
+  describe('expiresAt', () => {
+    it('is whole seconds from now', () => {
+      expect(expiresAt(900)).toBe(NOW_SECONDS + 900);
+    });
+  });
+
+  describe('createSignature', () => {
+    it('is a URL-safe, deterministic HMAC', () => {
+      const signature = createSignature(['file-1', '1'], NOW_SECONDS + 60);
+      expect(signature).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(createSignature(['file-1', '1'], NOW_SECONDS + 60)).toBe(signature);
+    });
+
+    it('keeps part boundaries', () => {
+      expect(createSignature(['ab', 'c'], NOW_SECONDS)).not.toBe(createSignature(['a', 'bc'], NOW_SECONDS));
+    });
+
+    it('requires a secret', () => {
+      delete process.env.STORAGE_SIGNING_SECRET;
+      expect(() => createSignature(['file-1'], NOW_SECONDS)).toThrow('STORAGE_SIGNING_SECRET is required');
+    });
+  });
+
+  describe('verifySignature', () => {
+    const parts = ['file-1', '0'];
+    const expires = NOW_SECONDS + 60;
+    let signature: string;
+
+    beforeEach(() => {
+      signature = createSignature(parts, expires);
+    });
+
+    it('accepts a valid signature until it expires', () => {
+      expect(verifySignature(parts, expires, signature)).toBe(true);
+
+      jest.setSystemTime(expires * 1000);
+      expect(verifySignature(parts, expires, signature)).toBe(true);
+
+      jest.setSystemTime(expires * 1000 + 1000);
+      expect(verifySignature(parts, expires, signature)).toBe(false);
+    });
+
+    it('rejects a signature for other parts', () => {
+      expect(verifySignature(['file-2', '0'], expires, signature)).toBe(false);
+      expect(verifySignature(['file-1', '1'], expires, signature)).toBe(false);
+    });
+
+    it('rejects an extended expiry', () => {
+      expect(verifySignature(parts, expires + 3600, signature)).toBe(false);
+    });
+
+    it('rejects altered or truncated signatures', () => {
+      const altered = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+      expect(verifySignature(parts, expires, altered)).toBe(false);
+      expect(verifySignature(parts, expires, signature.slice(0, -1))).toBe(false);
+      expect(verifySignature(parts, expires, '')).toBe(false);
+    });
+
+    it('rejects expiries that are not numbers', () => {
+      expect(verifySignature(parts, NaN, signature)).toBe(false);
+    });
+
+    it('rejects signatures made with another secret', () => {
+      process.env.STORAGE_SIGNING_SECRET = 'rotated-secret';
+      expect(verifySignature(parts, expires, signature)).toBe(false);
+    });
+  });
+});
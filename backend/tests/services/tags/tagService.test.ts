@@ -0,0 +1,138 @@
+import type { FileDocument, FilingRuleDocument, TagDocument, UserDocument } from '../../../src/config/database';
+import { DatabaseService } from '../../../src/config/database';
+import { EMPTY_METADATA } from '../../../src/services/metadata';
+import { HistoryService } from '../../../src/services/history';
+import {
+  defaultTagColor,
+  mergeTagLists,
+  normalizeTagName,
+  TAG_COLORS,
+  tagKey,
+  TagService,
+} from '../../../src/services/tags';
+
+jest.mock('../../../src/config/database', () => ({
+  DatabaseService: {
+    createTag: jest.fn(),
+    getFilesWithTag: jest.fn(),
+    getFilingRules: jest.fn(),
+    getTags: jest.fn(),
+    updateFilingRule: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/services/history', () => ({
+  HistoryService: { record: jest.fn() },
+}));
+
+const db = jest.mocked(DatabaseService);
+const record = jest.mocked(HistoryService.record);
+
+const file = (id: string, tags?: string[]) => ({ id, userId: 'user-1', tags } as FileDocument);
+const tag = (name: string) => ({ name, nameKey: name.toLowerCase() } as TagDocument);
+
+describe('tag names', () => {
+  it('normalizes whitespace and reserves commas', () => {
+    expect(normalizeTagName('  Tax ,  2023\n')).toBe('Tax 2023');
+    expect(normalizeTagName('x'.repeat(80))).toHaveLength(50);
+    expect(tagKey(' Tax  Return ')).toBe('tax return');
+  });
+
+  it('merges lists case-insensitively, keeping the first spelling', () => {
+    expect(mergeTagLists(['Tax', 'ACME'], undefined, ['tax', 'Acme Corp', ' '])).toEqual(['Tax', 'ACME', 'Acme Corp']);
+  });
+
+  it('picks a stable palette colour regardless of case', () => {
+    expect(TAG_COLORS).toContain(defaultTagColor('Receipts'));
+    expect(defaultTagColor('Receipts')).toBe(defaultTagColor(' receipts '));
+  });
+});
+
+describe('TagService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('autoTags', () => {
+    const owner = (autoTag?: boolean) => ({ settings: { autoTag } } as UserDocument);
+
+    it('tags files with their category and vendor', () => {
+      expect(TagService.autoTags(owner(), { ...EMPTY_METADATA, vendor: 'ACME Corp' }, 'bank_statement'))
+        .toEqual(['Bank Statement', 'ACME Corp']);
+    });
+
+    it('skips the catch-all category and respects the user setting', () => {
+      expect(TagService.autoTags(owner(), { ...EMPTY_METADATA, vendor: 'ACME Corp' }, 'other')).toEqual(['ACME Corp']);
+      expect(TagService.autoTags(owner(false), { ...EMPTY_METADATA, vendor: 'ACME Corp' }, 'invoice')).toEqual([]);
+    });
+  });
+
+  describe('ensureTags', () => {
+    it('creates missing tags and returns existing ones as the user spelled them', async () => {
+      db.getTags.mockResolvedValue([tag('ACME')]);
+
+      await expect(TagService.ensureTags('user-1', ['acme', 'Receipts', 'receipts'], 'auto'))
+        .resolves.toEqual(['ACME', 'Receipts']);
+
+      expect(db.createTag).toHaveBeenCalledTimes(1);
+      expect(db.createTag).toHaveBeenCalledWith({
+        userId: 'user-1',
+        name: 'Receipts',
+        nameKey: 'receipts',
+        color: defaultTagColor('Receipts'),
+        source: 'auto',
+      });
+    });
+
+    it('does nothing for an empty list', async () => {
+      await expect(TagService.ensureTags('user-1', [' '], 'user')).resolves.toEqual([]);
+      expect(db.getTags).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replaceTag', () => {
+    beforeEach(() => {
+      db.getFilesWithTag.mockResolvedValue([file('a', ['Tax', 'Old']), file('b', ['Old', 'new'])]);
+      db.getFilingRules.mockResolvedValue([
+        { id: 'rule-1', actions: { tags: ['Old'], folderPath: 'Finance' } },
+        { id: 'rule-2', actions: { tags: ['Tax'] } },
+      ] as FilingRuleDocument[]);
+    });
+
+    it('renames (merging into an existing tag) on files and rules', async () => {
+      await expect(TagService.replaceTag('user-1', 'Old', 'New')).resolves.toBe(2);
+
+      expect(record).toHaveBeenCalledWith('tag', [
+        { file: expect.objectContaining({ id: 'a' }), updates: { tags: ['Tax', 'New'] } },
+        { file: expect.objectContaining({ id: 'b' }), updates: { tags: ['New'] } },
+      ], { actorId: 'user-1' });
+      expect(db.updateFilingRule).toHaveBeenCalledTimes(1);
+      expect(db.updateFilingRule).toHaveBeenCalledWith('rule-1', { actions: { tags: ['New'], folderPath: 'Finance' } });
+    });
+
+    it('removes the tag when there is no replacement', async () => {
+      await TagService.replaceTag('user-1', 'Old', null);
+
+      expect(record.mock.calls[0][1].map(change => change.updates)).toEqual([{ tags: ['Tax'] }, { tags: ['new'] }]);
+      expect(db.updateFilingRule).toHaveBeenCalledWith('rule-1', { actions: { tags: [], folderPath: 'Finance' } });
+    });
+  });
+
+  it('adds and removes tags on several files as one history entry', async () => {
+    const updates = await TagService.updateFileTags(
+      [file('a', ['Tax']), file('b')],
+      { add: ['Receipts', 'tax'], remove: ['TAX'] },
+      'user-1',
+    );
+
+    expect(updates).toEqual([
+      { fileId: 'a', tags: ['Receipts'] },
+      { fileId: 'b', tags: ['Receipts'] },
+    ]);
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record).toHaveBeenCalledWith('tag', [
+      { file: expect.objectContaining({ id: 'a' }), updates: { tags: ['Receipts'] } },
+      { file: expect.objectContaining({ id: 'b' }), updates: { tags: ['Receipts'] } },
+    ], { actorId: 'user-1' });
+  });
+});
@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  // The backend runs its own Jest setup
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/backend/'],
 };
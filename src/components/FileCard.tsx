@@ -8,12 +8,16 @@ import {
 } from 'react-native';
 import { Colors, Typography, BorderRadius, Shadows, Spacing } from '../constants/theme';
 import { FileItem } from '../types';
+import { TagChipEditor } from './TagChipEditor';
 
 interface FileCardProps {
   file: FileItem;
   onPress?: () => void;
   showProgress?: boolean;
   showSuggestion?: boolean;
+  tagColors?: Record<string, string>;
+  tagSuggestions?: string[];
+  onTagsChange?: (change: { add?: string; remove?: string }) => void; // tags are read-only without it
 }
 
 export const FileCard: React.FC<FileCardProps> = ({
@@ -21,6 +25,9 @@ export const FileCard: React.FC<FileCardProps> = ({
   onPress,
   showProgress = false,
   showSuggestion = false,
+  tagColors,
+  tagSuggestions,
+  onTagsChange,
 }) => {
   const getFileIcon = () => {
     switch (file.type) {
@@ -103,6 +110,17 @@ export const FileCard: React.FC<FileCardProps> = ({
         </View>
       )}
 
+      {(onTagsChange || (file.tags && file.tags.length > 0)) && (
+        <TagChipEditor
+          tags={file.tags || []}
+          tagColors={tagColors}
+          suggestions={tagSuggestions}
+          onAdd={(tag) => onTagsChange?.({ add: tag })}
+          onRemove={(tag) => onTagsChange?.({ remove: tag })}
+          editable={!!onTagsChange}
+        />
+      )}
+
       {file.extractedText && (
         <View style={styles.extractedTextContainer}>
           <Text style={styles.extractedTextLabel}>Extracted text:</Text>
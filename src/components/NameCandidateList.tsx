@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { Colors, Typography, BorderRadius, Spacing } from '../constants/theme';
+import { NameCandidate } from '../types';
+
+interface NameCandidateListProps {
+  candidates: NameCandidate[];
+  onAccept: (index: number) => void;
+  onCustomName: (name: string) => void;
+  onReject: () => void;
+  disabled?: boolean;
+}
+
+export const NameCandidateList: React.FC<NameCandidateListProps> = ({
+  candidates,
+  onAccept,
+  onCustomName,
+  onReject,
+  disabled = false,
+}) => {
+  const [customName, setCustomName] = useState('');
+
+  const handleSubmitCustomName = () => {
+    const name = customName.trim();
+    if (name) {
+      onCustomName(name);
+      setCustomName('');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Choose a name:</Text>
+
+      {candidates.map((candidate, index) => (
+        <TouchableOpacity
+          key={candidate.filename}
+          style={styles.candidateRow}
+          onPress={() => onAccept(index)}
+          disabled={disabled}
+        >
+          <Text style={styles.candidateName} numberOfLines={1}>{candidate.filename}</Text>
+          <Text style={styles.candidateScore}>{Math.round(candidate.score * 100)}%</Text>
+          <Text style={styles.useText}>Use</Text>
+        </TouchableOpacity>
+      ))}
+
+      <View style={styles.customRow}>
+        <TextInput
+          style={styles.customInput}
+          value={customName}
+          onChangeText={setCustomName}
+          onSubmitEditing={handleSubmitCustomName}
+          placeholder="Or type your own name"
+          placeholderTextColor={Colors.textLight}
+          editable={!disabled}
+          returnKeyType="done"
+        />
+        <TouchableOpacity onPress={handleSubmitCustomName} disabled={disabled || !customName.trim()}>
+          <Text style={[styles.useText, !customName.trim() && styles.disabledText]}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity onPress={onReject} disabled={disabled}>
+        <Text style={styles.rejectText}>Keep original name</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -Spacing.xs,
+    marginBottom: Spacing.sm,
+    padding: Spacing.md,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.accent,
+  },
+  label: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    fontWeight: '500',
+    marginBottom: Spacing.xs,
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+  },
+  candidateName: {
+    ...Typography.body2,
+    color: Colors.text,
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  candidateScore: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginRight: Spacing.sm,
+  },
+  useText: {
+    ...Typography.caption,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  disabledText: {
+    color: Colors.textLight,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.xs,
+  },
+  customInput: {
+    ...Typography.body2,
+    color: Colors.text,
+    flex: 1,
+    marginRight: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  rejectText: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+  },
+});
@@ -95,7 +95,7 @@ export const ProcessingIndicator: React.FC<ProcessingIndicatorProps> = ({
       case 'renaming':
         return 'Applying new filenames...';
       case 'complete':
-        return 'All files processed successfully!';
+        return 'Processing complete';
       case 'error':
         return 'Something went wrong';
       default:
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { Colors, Typography, BorderRadius, Spacing } from '../constants/theme';
+
+interface TagChipEditorProps {
+  tags: string[];
+  tagColors?: Record<string, string>; // keyed by lower-case tag name
+  suggestions?: string[]; // existing tags offered for one-tap adding
+  onAdd: (tag: string) => void;
+  onRemove: (tag: string) => void;
+  editable?: boolean;
+}
+
+const MAX_TAG_LENGTH = 50;
+const MAX_SUGGESTIONS = 8;
+
+export const TagChipEditor: React.FC<TagChipEditorProps> = ({
+  tags,
+  tagColors = {},
+  suggestions = [],
+  onAdd,
+  onRemove,
+  editable = true,
+}) => {
+  const [input, setInput] = useState('');
+
+  const hasTag = (name: string) => tags.some(tag => tag.toLowerCase() === name.toLowerCase());
+
+  const handleSubmit = () => {
+    // Commas are reserved by the backend's tag filters
+    const name = input.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+    if (name && !hasTag(name)) {
+      onAdd(name);
+    }
+    setInput('');
+  };
+
+  const filter = input.trim().toLowerCase();
+  const visibleSuggestions = suggestions
+    .filter(tag => !hasTag(tag) && tag.toLowerCase().includes(filter))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {tags.map(tag => (
+          <View
+            key={tag}
+            style={[styles.chip, { backgroundColor: tagColors[tag.toLowerCase()] || Colors.primaryLight }]}
+          >
+            <Text style={styles.chipText} numberOfLines={1}>{tag}</Text>
+            {editable && (
+              <TouchableOpacity onPress={() => onRemove(tag)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Text style={styles.chipRemove}>×</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        {editable && (
+          <TextInput
+            style={styles.input}
+            value={input}
+            onChangeText={setInput}
+            onSubmitEditing={handleSubmit}
+            placeholder={tags.length ? 'Add tag' : 'Add a tag…'}
+            placeholderTextColor={Colors.textLight}
+            maxLength={MAX_TAG_LENGTH}
+            autoCapitalize="none"
+            returnKeyType="done"
+          />
+        )}
+      </View>
+
+      {editable && visibleSuggestions.length > 0 && (
+        <View style={styles.chipRow}>
+          {visibleSuggestions.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.chip, styles.suggestionChip]}
+              onPress={() => {
+                onAdd(tag);
+                setInput('');
+              }}
+            >
+              <Text style={styles.suggestionText} numberOfLines={1}>+ {tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 180,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.round,
+    marginRight: Spacing.xs,
+    marginBottom: Spacing.xs,
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.textDark,
+    fontWeight: '500',
+  },
+  chipRemove: {
+    ...Typography.caption,
+    color: Colors.textDark,
+    fontWeight: '700',
+    marginLeft: Spacing.xs,
+  },
+  input: {
+    ...Typography.caption,
+    color: Colors.text,
+    minWidth: 80,
+    paddingVertical: 2,
+    marginBottom: Spacing.xs,
+  },
+  suggestionChip: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  suggestionText: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+});
@@ -2,4 +2,6 @@ export { ActionButton } from './ActionButton';
 export { FileCard } from './FileCard';
 export { Header } from './Header';
 export { ProcessingIndicator } from './ProcessingIndicator';
-export { LoadingScreen } from './LoadingScreen';
\ No newline at end of file
+export { LoadingScreen } from './LoadingScreen';
+export { NameCandidateList } from './NameCandidateList';
+export { TagChipEditor } from './TagChipEditor';
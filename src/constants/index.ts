@@ -3,19 +3,53 @@ export const APP_CONFIG = {
   version: '1.0.0',
   description: 'AI-powered file organization made simple',
   maxFileSize: 50 * 1024 * 1024, // 50MB
-  supportedFileTypes: ['jpg', 'jpeg', 'png', 'pdf', 'doc', 'docx'],
+  supportedFileTypes: ['jpg', 'jpeg', 'png', 'pdf', 'docx', 'xlsx', 'pptx', 'txt', 'md', 'rtf'],
   freeMonthlyLimit: 20,
 };
 
+export const API_BASE_URL = __DEV__
+  ? 'http://localhost:3000/api/v1'
+  : 'https://your-backend-domain.com/api/v1';
+
 export const API_ENDPOINTS = {
-  // These will be implemented by backend team
-  extractText: '/api/extract-text',
-  generateFilename: '/api/generate-filename',
-  processFiles: '/api/process-files',
-  userSettings: '/api/user/settings',
+  uploadFiles: '/files/upload',
+  extractText: (fileId: string) => `/files/${fileId}/extract-text`,
+  generateFilename: '/files/generate-filename',
+  processFiles: '/files/process',
+  processingStatus: (sessionId: string) => `/files/processing/${sessionId}`,
+  processingEvents: (sessionId: string) => `/files/processing/${sessionId}/events`,
+  pauseProcessing: (sessionId: string) => `/files/processing/${sessionId}/pause`,
+  resumeProcessing: (sessionId: string) => `/files/processing/${sessionId}/resume`,
+  cancelProcessing: (sessionId: string) => `/files/processing/${sessionId}/cancel`,
+  retryProcessing: (sessionId: string) => `/files/processing/${sessionId}/retry`,
+  undoSession: (sessionId: string) => `/files/processing/${sessionId}/undo`,
+  undoFileChange: (fileId: string) => `/files/${fileId}/undo`,
+  redoFileChange: (fileId: string) => `/files/${fileId}/redo`,
+  acceptNameCandidate: (fileId: string, index: number) => `/files/${fileId}/name-candidates/${index}/accept`,
+  rejectNameCandidates: (fileId: string) => `/files/${fileId}/name-candidates/reject`,
+  renameFile: (fileId: string) => `/files/${fileId}/rename`,
+  duplicates: '/files/duplicates',
+  resolveDuplicates: '/files/duplicates/resolve',
+  tags: '/tags',
+  tagFiles: '/files/tag',
+  untagFiles: '/files/untag',
+  userSettings: '/auth/profile',
+  // Not implemented by the backend yet
   subscription: '/api/subscription',
 };
 
+export const FILENAME_TEMPLATE = {
+  placeholders: ['title', 'date', 'docType', 'vendor', 'amount', 'currency', 'original'],
+  caseStyles: ['preserve', 'lower', 'upper', 'title', 'camel'],
+  separators: ['_', '-', ' ', '.', ''],
+  defaults: {
+    template: '{date:YYYY-MM-DD}_{vendor}_{docType}_{amount}',
+    caseStyle: 'title',
+    separator: '_',
+    maxLength: 80,
+  },
+} as const;
+
 export const PROCESSING_STAGES = {
   IDLE: 'idle',
   EXTRACTING: 'extracting',
@@ -112,6 +112,9 @@ export const useFileProcessing = (): UseFileProcessingReturn => {
         progress: 33,
       });
 
+      // Names given out so far, so two files of the batch can't get the same one
+      const assignedNames: string[] = [];
+
       for (let i = 0; i < filesToProcess.length; i++) {
         if (shouldCancel) break;
 
@@ -132,8 +135,11 @@ export const useFileProcessing = (): UseFileProcessingReturn => {
         try {
           const suggestedName = await fileService.generateFilename(
             currentFile.extractedText,
-            file.originalName
+            file.originalName,
+            assignedNames
           );
+          const extension = file.name.lastIndexOf('.') > 0 ? file.name.slice(file.name.lastIndexOf('.')) : '';
+          assignedNames.push(`${suggestedName}${extension}`);
 
           updateFileProgress(file.id, {
             suggestedName,
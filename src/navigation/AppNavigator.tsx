@@ -10,6 +10,7 @@ import {
   ProcessingScreen,
   ResultsScreen,
   SettingsScreen,
+  DuplicatesScreen,
 } from '../screens';
 import { NavigationParams } from '../types';
 import { useAuth } from '../contexts/AuthContext';
@@ -94,6 +95,13 @@ export const AppNavigator: React.FC = () => {
             animationTypeForReplace: 'push',
           }}
         />
+        <Stack.Screen 
+          name="Duplicates" 
+          component={DuplicatesScreen}
+          options={{
+            animationTypeForReplace: 'push',
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
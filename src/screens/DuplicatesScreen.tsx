@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Header, ActionButton } from '../components';
+import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../constants/theme';
+import { DuplicateCluster } from '../types';
+import { fileService } from '../services/fileService';
+
+interface DuplicatesScreenProps {
+  navigation: any;
+  route: {
+    params?: {
+      fileIds?: string[];
+    };
+  };
+}
+
+const REASON_LABELS: Record<DuplicateCluster['reasons'][number], string> = {
+  exact: 'Identical file',
+  image: 'Similar image',
+  text: 'Similar text',
+};
+
+export const DuplicatesScreen: React.FC<DuplicatesScreenProps> = ({ navigation, route }) => {
+  const fileIds = route.params?.fileIds;
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [keepSelections, setKeepSelections] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [resolvingClusterId, setResolvingClusterId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fileService.getDuplicates(fileIds)
+      .then(setClusters)
+      .catch(error => Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load duplicates'))
+      .finally(() => setIsLoading(false));
+  }, [fileIds]);
+
+  const getKeepFileId = (cluster: DuplicateCluster) => keepSelections[cluster.id] || cluster.keepFileId;
+
+  const handleResolve = (cluster: DuplicateCluster) => {
+    const keepFileId = getKeepFileId(cluster);
+    const discardFileIds = cluster.files.map(file => file.fileId).filter(id => id !== keepFileId);
+
+    Alert.alert(
+      'Delete Duplicates',
+      `Keep the selected file and delete ${discardFileIds.length} other${discardFileIds.length === 1 ? '' : 's'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setResolvingClusterId(cluster.id);
+            try {
+              await fileService.resolveDuplicates(keepFileId, discardFileIds);
+              setClusters(prev => prev.filter(item => item.id !== cluster.id));
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete duplicates');
+            } finally {
+              setResolvingClusterId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSkip = (cluster: DuplicateCluster) => {
+    setClusters(prev => prev.filter(item => item.id !== cluster.id));
+  };
+
+  const renderCluster = ({ item: cluster }: { item: DuplicateCluster }) => {
+    const keepFileId = getKeepFileId(cluster);
+
+    return (
+      <View style={styles.clusterCard}>
+        <View style={styles.clusterHeader}>
+          <Text style={styles.clusterTitle}>
+            {cluster.files.length} files · {Math.round(cluster.similarity * 100)}% similar
+          </Text>
+          <Text style={styles.clusterReasons}>
+            {cluster.reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+          </Text>
+        </View>
+
+        {cluster.files.map(file => {
+          const isKept = file.fileId === keepFileId;
+          return (
+            <TouchableOpacity
+              key={file.fileId}
+              style={[styles.fileRow, isKept && styles.keptFileRow]}
+              onPress={() => setKeepSelections(prev => ({ ...prev, [cluster.id]: file.fileId }))}
+            >
+              <View style={[styles.radio, isKept && styles.radioSelected]} />
+              <View style={styles.fileInfo}>
+                <Text style={styles.fileName} numberOfLines={1}>
+                  {file.newName || file.suggestedName || file.originalName}
+                </Text>
+                <Text style={styles.fileDetails}>
+                  {formatFileSize(file.fileSize)}
+                  {file.createdAt ? ` · ${new Date(file.createdAt).toLocaleDateString()}` : ''}
+                  {isKept ? '' : ` · ${Math.round(file.similarity * 100)}%`}
+                </Text>
+              </View>
+              <Text style={[styles.fileAction, isKept ? styles.keepLabel : styles.discardLabel]}>
+                {isKept ? 'Keep' : 'Delete'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={styles.clusterActions}>
+          <ActionButton
+            title="Not duplicates"
+            onPress={() => handleSkip(cluster)}
+            variant="outline"
+            size="small"
+            style={styles.clusterAction}
+          />
+          <ActionButton
+            title="Keep selected"
+            onPress={() => handleResolve(cluster)}
+            size="small"
+            loading={resolvingClusterId === cluster.id}
+            disabled={resolvingClusterId !== null}
+            style={styles.clusterAction}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Header
+        title="Review Duplicates"
+        subtitle={isLoading ? undefined : `${clusters.length} group${clusters.length === 1 ? '' : 's'} found`}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <View style={styles.content}>
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} size="large" color={Colors.primary} />
+        ) : (
+          <FlatList
+            data={clusters}
+            renderItem={renderCluster}
+            keyExtractor={(cluster) => cluster.id}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.clusterList}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyIcon}>✅</Text>
+                <Text style={styles.emptyText}>No duplicates found</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.md,
+  },
+  loading: {
+    marginTop: Spacing.xxl,
+  },
+  clusterList: {
+    paddingBottom: Spacing.xl,
+  },
+
+  // Cluster Card
+  clusterCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    ...Shadows.small,
+  },
+  clusterHeader: {
+    marginBottom: Spacing.sm,
+  },
+  clusterTitle: {
+    ...Typography.body1,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  clusterReasons: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xs,
+  },
+  keptFileRow: {
+    backgroundColor: Colors.background,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: BorderRadius.round,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    marginRight: Spacing.sm,
+  },
+  radioSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  fileInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  fileName: {
+    ...Typography.body2,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+  fileDetails: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  fileAction: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  keepLabel: {
+    color: Colors.success,
+  },
+  discardLabel: {
+    color: Colors.error,
+  },
+  clusterActions: {
+    flexDirection: 'row',
+    marginTop: Spacing.sm,
+  },
+  clusterAction: {
+    flex: 1,
+    marginHorizontal: Spacing.xs,
+  },
+
+  // Empty State
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xxl,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    ...Typography.body1,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,8 +9,13 @@ import {
 } from 'react-native';
 import { Header, ActionButton, FileCard, ProcessingIndicator } from '../components';
 import { Colors, Typography, Spacing, BorderRadius } from '../constants/theme';
-import { FileItem, ProcessingStatus } from '../types';
-import { PROCESSING_STAGES } from '../constants';
+import { FileItem, ProcessingEvent, ProcessingStatus } from '../types';
+import { fileService } from '../services/fileService';
+
+type SessionProgress = Pick<
+  Extract<ProcessingEvent, { type: 'session' }>,
+  'status' | 'progress' | 'processedFiles' | 'failedFiles'
+>;
 
 interface ProcessingScreenProps {
   navigation: any;
@@ -30,225 +35,242 @@ export const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ navigation,
     progress: 0,
   });
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentFileIndex, setCurrentFileIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [failedCount, setFailedCount] = useState(0);
+  const sessionIdRef = useRef<string | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const filesRef = useRef<FileItem[]>(initialFiles);
 
-  useEffect(() => {
-    // Auto-start processing when screen loads
-    startProcessing();
-  }, []);
+  const updateFiles = (update: (current: FileItem[]) => FileItem[]) => {
+    filesRef.current = update(filesRef.current);
+    setFiles(filesRef.current);
+  };
 
   const startProcessing = async () => {
     setIsProcessing(true);
-    
+    unsubscribeRef.current?.();
+
     try {
-      // Stage 1: Text Extraction
-      await extractTextFromFiles();
-      
-      // Stage 2: AI Analysis
-      await analyzeFilesWithAI();
-      
-      // Stage 3: File Renaming
-      await applyNewFilenames();
-      
-      // Complete
-      setProcessingStatus({
-        stage: 'complete',
-        message: 'All files processed successfully!',
-        progress: 100,
-      });
-      
-      // Navigate to results after a short delay
-      setTimeout(() => {
-        navigation.replace('Results', { files });
-      }, 2000);
-      
-    } catch (error) {
-      setProcessingStatus({
-        stage: 'error',
-        message: 'Something went wrong during processing',
-        progress: 0,
-      });
-      Alert.alert(
-        'Processing Error',
-        'An error occurred while processing your files. Please try again.',
-        [
-          { text: 'Retry', onPress: startProcessing },
-          { text: 'Cancel', onPress: () => navigation.goBack() },
-        ]
+      let sessionId = sessionIdRef.current;
+      if (sessionId) {
+        // Retrying: the session's failed files are requeued, nothing is uploaded again
+        setProcessingStatus(prev => ({ ...prev, stage: 'extracting', message: 'Retrying failed files...' }));
+        await fileService.retryProcessing(sessionId);
+      } else {
+        setProcessingStatus({
+          stage: 'extracting',
+          message: 'Uploading files...',
+          progress: 0,
+        });
+
+        // Files uploaded before an earlier attempt failed keep their server copy
+        const pendingFiles = filesRef.current.filter(file => !file.serverId);
+        if (pendingFiles.length > 0) {
+          const uploadedFiles = await fileService.uploadFiles(pendingFiles);
+          updateFiles(current => current.map(file => uploadedFiles.find(f => f.id === file.id) ?? file));
+        }
+
+        ({ sessionId } = await fileService.startProcessing(filesRef.current));
+        sessionIdRef.current = sessionId;
+      }
+
+      unsubscribeRef.current = fileService.subscribeToProcessing(
+        sessionId,
+        handleProcessingEvent,
+        handleProcessingError,
       );
+    } catch (error) {
+      handleProcessingError(error as Error);
     }
   };
 
-  const extractTextFromFiles = async () => {
-    setProcessingStatus({
-      stage: 'extracting',
-      message: 'Extracting text from files...',
-      progress: 0,
-    });
-
-    const updatedFiles = [...files];
+  const handleProcessingEvent = (event: ProcessingEvent) => {
+    switch (event.type) {
+      case 'snapshot':
+        updateFiles(current => current.map(file => {
+          const serverFile = event.files.find(f => f.id === file.serverId);
+          if (!serverFile?.suggestedName) return file;
+          return {
+            ...applySuggestedName(file, serverFile.suggestedName, serverFile.isRenamed),
+            name: serverFile.newName || file.name,
+            nameCandidates: serverFile.nameCandidates,
+            category: serverFile.category,
+            categoryLabel: serverFile.categoryLabel,
+            tags: serverFile.tags,
+          };
+        }));
+        handleSessionProgress(event);
+        break;
 
-    for (let i = 0; i < updatedFiles.length; i++) {
-      const file = updatedFiles[i];
-      setCurrentFileIndex(i);
-      
-      // Update current file being processed
-      setProcessingStatus({
-        stage: 'extracting',
-        message: `Extracting text from ${file.name}...`,
-        progress: (i / updatedFiles.length) * 33,
-        currentFile: file.name,
-      });
+      case 'session':
+        handleSessionProgress(event);
+        break;
 
-      // Mark file as processing
-      updatedFiles[i] = {
-        ...file,
-        isProcessing: true,
-        processingProgress: 0,
-      };
-      setFiles([...updatedFiles]);
-
-      // Simulate text extraction (replace with actual OCR/PDF processing)
-      await simulateAsyncProcess(2000);
-      
-      // Mock extracted text based on file type
-      const extractedText = getMockExtractedText(file);
-      
-      updatedFiles[i] = {
-        ...file,
-        extractedText,
-        isProcessing: false,
-        processingProgress: 100,
-      };
-      setFiles([...updatedFiles]);
+      case 'file':
+        handleFileStage(event);
+        break;
     }
   };
 
-  const analyzeFilesWithAI = async () => {
-    setProcessingStatus({
-      stage: 'analyzing',
-      message: 'AI is analyzing content...',
-      progress: 33,
-    });
+  const handleFileStage = (event: Extract<ProcessingEvent, { type: 'file' }>) => {
+    const file = filesRef.current.find(f => f.serverId === event.fileId);
+    if (!file) return;
 
-    const updatedFiles = [...files];
+    switch (event.stage) {
+      case 'extracting':
+      case 'analyzing':
+        updateFiles(current => current.map(f => (
+          f.id === file.id
+            ? { ...f, isProcessing: true, processingProgress: event.stage === 'extracting' ? 25 : 75 }
+            : f
+        )));
+        setProcessingStatus(prev => ({
+          ...prev,
+          stage: event.stage === 'extracting' ? 'extracting' : 'analyzing',
+          message: event.stage === 'extracting'
+            ? `Extracting text from ${file.name}...`
+            : `Analyzing ${file.name}...`,
+          currentFile: file.name,
+        }));
+        break;
 
-    for (let i = 0; i < updatedFiles.length; i++) {
-      const file = updatedFiles[i];
-      
-      setProcessingStatus({
-        stage: 'analyzing',
-        message: `Analyzing ${file.name}...`,
-        progress: 33 + (i / updatedFiles.length) * 33,
-        currentFile: file.name,
-      });
+      case 'renamed':
+        updateFiles(current => current.map(f => (
+          f.id === file.id && event.suggestedName
+            ? {
+                ...applySuggestedName(f, event.suggestedName, event.isRenamed),
+                nameCandidates: event.nameCandidates,
+                category: event.category,
+                categoryLabel: event.categoryLabel,
+                tags: event.tags,
+              }
+            : f
+        )));
+        break;
 
-      // Mark file as processing
-      updatedFiles[i] = {
-        ...file,
-        isProcessing: true,
-        processingProgress: 0,
-      };
-      setFiles([...updatedFiles]);
-
-      // Simulate AI analysis (replace with actual OpenAI API call)
-      await simulateAsyncProcess(3000);
-      
-      // Generate mock suggested filename
-      const suggestedName = generateMockFilename(file);
-      
-      updatedFiles[i] = {
-        ...file,
-        suggestedName,
-        isProcessing: false,
-        processingProgress: 100,
-      };
-      setFiles([...updatedFiles]);
+      case 'failed':
+        updateFiles(current => current.map(f => (
+          f.id === file.id ? { ...f, isProcessing: false, processingProgress: 0 } : f
+        )));
+        break;
     }
   };
 
-  const applyNewFilenames = async () => {
-    setProcessingStatus({
-      stage: 'renaming',
-      message: 'Applying new filenames...',
-      progress: 66,
-    });
-
-    const updatedFiles = [...files];
+  const handleSessionProgress = ({ status, progress, processedFiles, failedFiles }: SessionProgress) => {
+    setIsPaused(status === 'paused');
 
-    for (let i = 0; i < updatedFiles.length; i++) {
-      const file = updatedFiles[i];
-      
+    if (status === 'completed') {
+      unsubscribeRef.current?.();
+      setIsProcessing(false);
+      setFailedCount(failedFiles);
       setProcessingStatus({
-        stage: 'renaming',
-        message: `Renaming ${file.name}...`,
-        progress: 66 + (i / updatedFiles.length) * 34,
-        currentFile: file.name,
+        stage: 'complete',
+        message: failedFiles > 0
+          ? `${processedFiles} of ${processedFiles + failedFiles} files processed, ${failedFiles} failed`
+          : 'All files processed successfully!',
+        progress: 100,
       });
 
-      // Mark file as processing
-      updatedFiles[i] = {
-        ...file,
-        isProcessing: true,
-        processingProgress: 0,
-      };
-      setFiles([...updatedFiles]);
-
-      // Simulate file renaming (replace with actual file system operations)
-      await simulateAsyncProcess(1000);
-      
-      // Apply the suggested name
-      const newName = file.suggestedName || file.name;
-      const fileExtension = file.name.split('.').pop();
-      const finalName = `${newName}.${fileExtension}`;
-      
-      updatedFiles[i] = {
-        ...file,
-        name: finalName,
-        isProcessing: false,
-        isRenamed: true,
-        processingProgress: 100,
-      };
-      setFiles([...updatedFiles]);
+      // Stay here when files failed so they can be retried
+      if (failedFiles === 0) {
+        setTimeout(() => {
+          navigation.replace('Results', { files: filesRef.current, sessionId: sessionIdRef.current ?? undefined });
+        }, 2000);
+      }
+    } else if (status === 'failed') {
+      handleProcessingError(new Error('Processing failed'));
+    } else if (status === 'cancelled') {
+      unsubscribeRef.current?.();
+      setIsProcessing(false);
+    } else if (status === 'paused') {
+      setProcessingStatus(prev => ({ ...prev, progress, message: 'Processing paused' }));
+    } else {
+      setProcessingStatus(prev => ({ ...prev, progress }));
     }
   };
 
-  const simulateAsyncProcess = (duration: number): Promise<void> => {
-    return new Promise(resolve => setTimeout(resolve, duration));
+  const handleProcessingError = (error: Error) => {
+    console.error('Processing error:', error);
+    unsubscribeRef.current?.();
+    setIsProcessing(false);
+    setProcessingStatus({
+      stage: 'error',
+      message: 'Something went wrong during processing',
+      progress: 0,
+    });
+    Alert.alert(
+      'Processing Error',
+      'An error occurred while processing your files. Please try again.',
+      [
+        { text: 'Retry', onPress: startProcessing },
+        { text: 'Cancel', onPress: () => navigation.goBack() },
+      ]
+    );
+  };
+
+  // The backend only renames when the user's autoRename setting is on;
+  // otherwise the suggestion waits for review on the results screen
+  const applySuggestedName = (file: FileItem, suggestedName: string, isRenamed = false): FileItem => {
+    const fileExtension = file.originalName.split('.').pop();
+    return {
+      ...file,
+      suggestedName,
+      name: isRenamed ? `${suggestedName}.${fileExtension}` : file.name,
+      isProcessing: false,
+      isRenamed,
+      processingProgress: 100,
+    };
   };
 
-  const getMockExtractedText = (file: FileItem): string => {
-    // Mock extracted text based on file type
-    switch (file.type) {
-      case 'image':
-        return 'Invoice from ACME Corporation\nAmount: $142.50\nDue Date: August 30, 2023\nAccount Number: 12345';
-      case 'pdf':
-        return 'Monthly Report - Q3 2023\nSales Performance Summary\nTotal Revenue: $45,000\nGrowth: +15%';
-      default:
-        return 'Document content extracted successfully\nDate: December 2023\nType: Business Document';
+  // The mount effect starts whichever startProcessing is current instead of
+  // re-running each time a render recreates the handlers
+  const startProcessingRef = useRef(startProcessing);
+  startProcessingRef.current = startProcessing;
+
+  useEffect(() => {
+    // Auto-start processing when screen loads
+    startProcessingRef.current();
+    return () => unsubscribeRef.current?.();
+  }, []);
+
+  const handleTogglePause = async () => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+
+    try {
+      if (isPaused) {
+        await fileService.resumeProcessing(sessionId);
+      } else {
+        await fileService.pauseProcessing(sessionId);
+      }
+    } catch (error) {
+      console.error('Pause/resume error:', error);
+      Alert.alert('Error', (error as Error).message);
     }
   };
 
-  const generateMockFilename = (file: FileItem): string => {
-    // Mock AI-generated filename based on extracted text
-    if (file.extractedText?.includes('Invoice')) {
-      return 'Invoice_ACME_Corp_Aug_2023';
-    } else if (file.extractedText?.includes('Report')) {
-      return 'Monthly_Report_Q3_2023';
-    } else if (file.extractedText?.includes('Receipt')) {
-      return 'Receipt_Store_Dec_2023';
-    } else {
-      return 'Document_Dec_2023';
+  const cancelSession = async () => {
+    const sessionId = sessionIdRef.current;
+    unsubscribeRef.current?.();
+
+    if (sessionId && isProcessing) {
+      try {
+        await fileService.cancelProcessing(sessionId);
+      } catch (error) {
+        // The session may have just finished; leaving is still fine
+        console.error('Cancel processing error:', error);
+      }
     }
+    navigation.goBack();
   };
 
   const handleCancel = () => {
     Alert.alert(
       'Cancel Processing',
-      'Are you sure you want to cancel? Any progress will be lost.',
+      'Are you sure you want to cancel? Files that have not been processed yet will not count towards your limit.',
       [
         { text: 'Continue Processing', style: 'cancel' },
-        { text: 'Cancel', style: 'destructive', onPress: () => navigation.goBack() },
+        { text: 'Cancel', style: 'destructive', onPress: cancelSession },
       ]
     );
   };
@@ -287,6 +309,24 @@ export const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ navigation,
         </View>
 
         {/* Action Buttons */}
+        {isProcessing && (
+          <View style={styles.actionContainer}>
+            <ActionButton
+              title={isPaused ? 'Resume' : 'Pause'}
+              onPress={handleTogglePause}
+              disabled={!sessionIdRef.current}
+              style={styles.retryButton}
+              icon={<Text style={styles.actionIcon}>{isPaused ? '▶️' : '⏸️'}</Text>}
+            />
+            <ActionButton
+              title="Cancel"
+              onPress={handleCancel}
+              variant="outline"
+              style={styles.cancelButton}
+            />
+          </View>
+        )}
+
         {processingStatus.stage === 'error' && (
           <View style={styles.actionContainer}>
             <ActionButton
@@ -308,10 +348,19 @@ export const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ navigation,
           <View style={styles.actionContainer}>
             <ActionButton
               title="View Results"
-              onPress={() => navigation.replace('Results', { files })}
+              onPress={() => navigation.replace('Results', { files: filesRef.current, sessionId: sessionIdRef.current ?? undefined })}
               style={styles.viewResultsButton}
               icon={<Text style={styles.actionIcon}>📋</Text>}
             />
+            {failedCount > 0 && (
+              <ActionButton
+                title={`Retry ${failedCount} Failed`}
+                onPress={startProcessing}
+                variant="outline"
+                style={styles.retryButton}
+                icon={<Text style={styles.actionIcon}>🔄</Text>}
+              />
+            )}
           </View>
         )}
       </View>
@@ -1,30 +1,55 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   SafeAreaView,
   FlatList,
+  SectionList,
   TouchableOpacity,
   Alert,
 } from 'react-native';
-import { Header, ActionButton, FileCard } from '../components';
+import { Header, ActionButton, FileCard, NameCandidateList, TagChipEditor } from '../components';
 import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../constants/theme';
-import { FileItem } from '../types';
+import { FileItem, ServerFileState, Tag } from '../types';
+import { authService } from '../services/authService';
+import { fileService } from '../services/fileService';
 
 interface ResultsScreenProps {
   navigation: any;
   route: {
     params: {
       files: FileItem[];
+      sessionId?: string;
     };
   };
 }
 
 export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
-  const { files: processedFiles } = route.params;
+  const { files: processedFiles, sessionId } = route.params;
   const [files, setFiles] = useState<FileItem[]>(processedFiles);
   const [selectedViewMode, setSelectedViewMode] = useState<'all' | 'renamed' | 'unchanged'>('all');
+  const [groupByCategory, setGroupByCategory] = useState(false);
+  const [userTags, setUserTags] = useState<Tag[]>([]);
+  const [showBulkTags, setShowBulkTags] = useState(false);
+  const [redoableIds, setRedoableIds] = useState<string[]>([]);
+  // Tags live on the backend, so editing them needs an account
+  const canEditTags = authService.isAuthenticated();
+
+  const loadTags = () => {
+    fileService.getTags()
+      .then(setUserTags)
+      .catch(error => console.error('Failed to load tags:', error));
+  };
+
+  useEffect(() => {
+    if (canEditTags) {
+      loadTags();
+    }
+  }, [canEditTags]);
+
+  const tagColors = Object.fromEntries(userTags.map(tag => [tag.name.toLowerCase(), tag.color]));
+  const tagNames = userTags.map(tag => tag.name);
 
   const getFilteredFiles = () => {
     switch (selectedViewMode) {
@@ -37,6 +62,18 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route
     }
   };
 
+  const getCategorySections = (items: FileItem[]) => {
+    const groups = new Map<string, FileItem[]>();
+    items.forEach(file => {
+      const label = file.categoryLabel || 'Uncategorized';
+      groups.set(label, [...(groups.get(label) || []), file]);
+    });
+
+    // Largest groups first
+    return Array.from(groups, ([title, data]) => ({ title, data }))
+      .sort((a, b) => b.data.length - a.data.length);
+  };
+
   const getStats = () => {
     const total = files.length;
     const renamed = files.filter(f => f.isRenamed).length;
@@ -59,11 +96,70 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route
     navigation.navigate('FileSelector');
   };
 
+  const handleReviewDuplicates = () => {
+    navigation.navigate('Duplicates', {
+      fileIds: files.map(file => file.serverId).filter(Boolean),
+    });
+  };
+
+  const handleTagsChange = async (targets: FileItem[], change: { add?: string; remove?: string }) => {
+    const serverIds = targets.map(file => file.serverId).filter((id): id is string => !!id);
+    if (serverIds.length === 0) {
+      return;
+    }
+
+    try {
+      const updatedTags = change.add
+        ? await fileService.tagFiles(serverIds, [change.add])
+        : await fileService.untagFiles(serverIds, [change.remove!]);
+      setFiles(prev => prev.map(file => (
+        file.serverId && updatedTags[file.serverId] ? { ...file, tags: updatedTags[file.serverId] } : file
+      )));
+      if (change.add && !tagColors[change.add.toLowerCase()]) {
+        // Pick up the colour of the newly created tag
+        loadTags();
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  };
+
+  // Tags every shown file has, for the bulk editor
+  const getCommonTags = (items: FileItem[]) => {
+    const [first, ...rest] = items;
+    return (first?.tags || []).filter(tag => rest.every(file => file.tags?.includes(tag)));
+  };
+
   const handleGoHome = () => {
     navigation.navigate('Home');
   };
 
+  const applyServerState = (states: ServerFileState[]) => {
+    setFiles(prev => prev.map(file => {
+      const state = states.find(item => item.fileId === file.serverId);
+      return state
+        ? {
+            ...file,
+            name: state.newName || file.originalName,
+            isRenamed: state.isRenamed,
+            nameStatus: state.nameStatus,
+            tags: state.tags,
+          }
+        : file;
+    }));
+  };
+
+  const handleNameReview = async (file: FileItem, review: () => Promise<ServerFileState>) => {
+    try {
+      applyServerState([await review()]);
+      setRedoableIds(prev => prev.filter(id => id !== file.id));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update the name');
+    }
+  };
+
   const handleUndo = (fileId: string) => {
+    const target = files.find(file => file.id === fileId);
     Alert.alert(
       'Undo Rename',
       'Do you want to revert this file to its original name?',
@@ -72,18 +168,53 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route
         {
           text: 'Undo',
           style: 'destructive',
-          onPress: () => {
-            const updatedFiles = files.map(file => {
-              if (file.id === fileId) {
-                return {
-                  ...file,
-                  name: file.originalName,
-                  isRenamed: false,
-                };
-              }
-              return file;
-            });
-            setFiles(updatedFiles);
+          onPress: async () => {
+            if (!target?.serverId) {
+              // Never uploaded, so there's only local state to revert
+              setFiles(prev => prev.map(file => (
+                file.id === fileId ? { ...file, name: file.originalName, isRenamed: false } : file
+              )));
+              return;
+            }
+
+            try {
+              applyServerState([await fileService.undoFileChange(target.serverId)]);
+              setRedoableIds(prev => [...prev, fileId]);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to undo rename');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRedo = async (file: FileItem) => {
+    try {
+      applyServerState([await fileService.redoFileChange(file.serverId!)]);
+      setRedoableIds(prev => prev.filter(id => id !== file.id));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to redo rename');
+    }
+  };
+
+  const handleUndoAll = () => {
+    Alert.alert(
+      'Undo All Changes',
+      'Revert every rename, folder and tag change made while processing these files?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Undo All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const states = await fileService.undoSession(sessionId!);
+              applyServerState(states);
+              setRedoableIds([]);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to undo changes');
+            }
           },
         },
       ]
@@ -92,18 +223,45 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route
 
   const renderFileItem = ({ item }: { item: FileItem }) => (
     <View style={styles.fileItemContainer}>
-      <FileCard file={item} />
-      {item.isRenamed && (
+      <FileCard
+        file={item}
+        tagColors={tagColors}
+        tagSuggestions={tagNames}
+        onTagsChange={canEditTags && item.serverId ? (change) => handleTagsChange([item], change) : undefined}
+      />
+      {item.serverId && !item.isRenamed && item.nameStatus !== 'rejected' && !!item.nameCandidates?.length && (
+        <NameCandidateList
+          candidates={item.nameCandidates}
+          onAccept={(index) => handleNameReview(item, () => fileService.acceptNameCandidate(item.serverId!, index))}
+          onCustomName={(name) => handleNameReview(item, () => fileService.submitCustomName(item.serverId!, name))}
+          onReject={() => handleNameReview(item, () => fileService.rejectNameCandidates(item.serverId!))}
+        />
+      )}
+      {item.isRenamed ? (
         <TouchableOpacity
           style={styles.undoButton}
           onPress={() => handleUndo(item.id)}
         >
           <Text style={styles.undoText}>Undo</Text>
         </TouchableOpacity>
+      ) : redoableIds.includes(item.id) && (
+        <TouchableOpacity
+          style={styles.undoButton}
+          onPress={() => handleRedo(item)}
+        >
+          <Text style={styles.undoText}>Redo</Text>
+        </TouchableOpacity>
       )}
     </View>
   );
 
+  const renderEmptyList = (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyIcon}>📁</Text>
+      <Text style={styles.emptyText}>No files in this category</Text>
+    </View>
+  );
+
   const renderViewModeButton = (mode: 'all' | 'renamed' | 'unchanged', label: string, count: number) => (
     <TouchableOpacity
       style={[
@@ -172,6 +330,12 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route
               <Text style={styles.statLabel}>Unchanged</Text>
             </View>
           </View>
+
+          {sessionId && stats.renamed > 0 && (
+            <TouchableOpacity style={styles.undoAllButton} onPress={handleUndoAll}>
+              <Text style={styles.undoAllText}>↩️ Undo all changes</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* View Mode Filter */}
@@ -181,21 +345,67 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route
           {renderViewModeButton('unchanged', 'Unchanged', stats.unchanged)}
         </View>
 
+        <View style={styles.listOptions}>
+          {/* Duplicate detection and tags need an account */}
+          {canEditTags ? (
+            <TouchableOpacity onPress={handleReviewDuplicates}>
+              <Text style={styles.groupToggleText}>🔍 Review duplicates</Text>
+            </TouchableOpacity>
+          ) : <View />}
+          {canEditTags && (
+            <TouchableOpacity onPress={() => setShowBulkTags(!showBulkTags)}>
+              <Text style={styles.groupToggleText}>🏷️ Tag shown</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => setGroupByCategory(!groupByCategory)}>
+            <Text style={styles.groupToggleText}>
+              {groupByCategory ? '📄 Show as list' : '🗂️ Group by category'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {showBulkTags && (
+          <View style={styles.bulkTags}>
+            <Text style={styles.bulkTagsLabel}>
+              Tags on all {filteredFiles.length} shown files
+            </Text>
+            <TagChipEditor
+              tags={getCommonTags(filteredFiles)}
+              tagColors={tagColors}
+              suggestions={tagNames}
+              onAdd={(tag) => handleTagsChange(filteredFiles, { add: tag })}
+              onRemove={(tag) => handleTagsChange(filteredFiles, { remove: tag })}
+            />
+          </View>
+        )}
+
         {/* File List */}
         <View style={styles.fileListContainer}>
-          <FlatList
-            data={filteredFiles}
-            renderItem={renderFileItem}
-            keyExtractor={(item) => item.id}
-            showsVerticalScrollIndicator={false}
-            contentContainerStyle={styles.fileList}
-            ListEmptyComponent={
-              <View style={styles.emptyContainer}>
-                <Text style={styles.emptyIcon}>📁</Text>
-                <Text style={styles.emptyText}>No files in this category</Text>
-              </View>
-            }
-          />
+          {groupByCategory ? (
+            <SectionList
+              sections={getCategorySections(filteredFiles)}
+              renderItem={renderFileItem}
+              renderSectionHeader={({ section }) => (
+                <Text style={styles.sectionHeader}>
+                  {section.title} ({section.data.length})
+                </Text>
+              )}
+              keyExtractor={(item) => item.id}
+              showsVerticalScrollIndicator={false}
+              contentContainerStyle={styles.fileList}
+              stickySectionHeadersEnabled={false}
+              ListEmptyComponent={renderEmptyList}
+            />
+          ) : (
+            <FlatList
+              data={filteredFiles}
+              renderItem={renderFileItem}
+              keyExtractor={(item) => item.id}
+              showsVerticalScrollIndicator={false}
+              contentContainerStyle={styles.fileList}
+              ListEmptyComponent={renderEmptyList}
+            />
+          )}
         </View>
 
         {/* Action Buttons */}
@@ -317,6 +527,37 @@ const styles = StyleSheet.create({
     color: Colors.textDark,
   },
 
+  // List Options
+  listOptions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  groupToggleText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  bulkTags: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  bulkTagsLabel: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    fontWeight: '500',
+  },
+  sectionHeader: {
+    ...Typography.body1,
+    color: Colors.text,
+    fontWeight: '600',
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+
   // File List
   fileListContainer: {
     flex: 1,
@@ -343,6 +584,15 @@ const styles = StyleSheet.create({
     color: Colors.textDark,
     fontWeight: '600',
   },
+  undoAllButton: {
+    alignSelf: 'center',
+    marginTop: Spacing.md,
+  },
+  undoAllText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
 
   // Empty State
   emptyContainer: {
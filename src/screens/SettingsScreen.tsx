@@ -12,8 +12,9 @@ import {
 } from 'react-native';
 import { Header, ActionButton } from '../components';
 import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../constants/theme';
-import { AppSettings } from '../types';
-import { APP_CONFIG } from '../constants';
+import { AppSettings, FilenameTemplateSettings } from '../types';
+import { APP_CONFIG, FILENAME_TEMPLATE } from '../constants';
+import { authService } from '../services/authService';
 
 interface SettingsScreenProps {
   navigation: any;
@@ -24,9 +25,13 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     autoRename: true,
     preserveOriginalNames: false,
     useAIForAllFiles: true,
+    autoTag: true,
     maxFileSize: APP_CONFIG.maxFileSize,
+    filenameTemplate: null,
     apiKey: undefined,
+    ...authService.getCurrentUser()?.settings,
   });
+  const [isSaving, setIsSaving] = useState(false);
 
   const [showApiKey, setShowApiKey] = useState(false);
   const [tempApiKey, setTempApiKey] = useState('');
@@ -38,9 +43,31 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     }));
   };
 
-  const handleSaveSettings = () => {
-    // TODO: Save settings to storage and backend
-    Alert.alert('Settings Saved', 'Your preferences have been updated successfully.');
+  const handleTemplateChange = (updates: Partial<FilenameTemplateSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      filenameTemplate: { ...FILENAME_TEMPLATE.defaults, ...prev.filenameTemplate, ...updates },
+    }));
+  };
+
+  const handleSaveSettings = async () => {
+    if (!authService.isAuthenticated()) {
+      Alert.alert('Sign In Required', 'Sign in to save your preferences.');
+      return;
+    }
+
+    // The API key stays on the device
+    const serverSettings = { ...settings };
+    delete serverSettings.apiKey;
+    setIsSaving(true);
+    const result = await authService.updateProfile({ settings: serverSettings });
+    setIsSaving(false);
+
+    if (result.success) {
+      Alert.alert('Settings Saved', 'Your preferences have been updated successfully.');
+    } else {
+      Alert.alert('Error', result.error || 'Failed to save settings');
+    }
   };
 
   const handleResetSettings = () => {
@@ -57,7 +84,9 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
               autoRename: true,
               preserveOriginalNames: false,
               useAIForAllFiles: true,
+              autoTag: true,
               maxFileSize: APP_CONFIG.maxFileSize,
+              filenameTemplate: null,
               apiKey: undefined,
             });
             setTempApiKey('');
@@ -114,6 +143,35 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     </View>
   );
 
+  const renderOptionChips = <T extends string>(
+    options: readonly T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    labelFor: (value: T) => string = value => value,
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option || 'none'}
+          style={[styles.chip, option === selected && styles.chipSelected]}
+          onPress={() => onSelect(option)}
+        >
+          <Text style={[styles.chipText, option === selected && styles.chipTextSelected]}>
+            {labelFor(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const separatorLabel = (separator: string) => {
+    switch (separator) {
+      case ' ': return 'space';
+      case '': return 'none';
+      default: return separator;
+    }
+  };
+
   const renderInfoRow = (title: string, subtitle: string, onPress?: () => void, icon?: string) => (
     <TouchableOpacity style={styles.infoRow} onPress={onPress} disabled={!onPress}>
       <View style={styles.settingContent}>
@@ -164,6 +222,68 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
             (value) => handleSettingChange('useAIForAllFiles', value),
             '🧠'
           )}
+
+          {renderSettingRow(
+            'Auto-tag Files',
+            'Tag files with their category and vendor',
+            settings.autoTag !== false,
+            (value) => handleSettingChange('autoTag', value),
+            '🏷️'
+          )}
+        </View>
+
+        {/* Filename Template */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Filename Template</Text>
+
+          {renderSettingRow(
+            'Use Filename Template',
+            'Build names from document fields instead of free-form AI names',
+            !!settings.filenameTemplate,
+            (value) => handleSettingChange('filenameTemplate', value ? { ...FILENAME_TEMPLATE.defaults } : null),
+            '🏷️'
+          )}
+
+          {settings.filenameTemplate && (
+            <View style={styles.apiKeySection}>
+              <Text style={styles.settingTitle}>Template</Text>
+              <Text style={styles.settingSubtitle}>
+                Placeholders: {FILENAME_TEMPLATE.placeholders.map(name => `{${name}}`).join(' ')}.
+                Dates take a format, e.g. {'{date:DD-MM-YYYY}'}.
+              </Text>
+              <TextInput
+                style={styles.apiKeyInput}
+                value={settings.filenameTemplate.template}
+                onChangeText={(template) => handleTemplateChange({ template })}
+                placeholder={FILENAME_TEMPLATE.defaults.template}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <Text style={[styles.settingTitle, styles.templateLabel]}>Case Style</Text>
+              {renderOptionChips(
+                FILENAME_TEMPLATE.caseStyles,
+                settings.filenameTemplate.caseStyle,
+                (caseStyle) => handleTemplateChange({ caseStyle }),
+              )}
+
+              <Text style={[styles.settingTitle, styles.templateLabel]}>Word Separator</Text>
+              {renderOptionChips(
+                FILENAME_TEMPLATE.separators,
+                settings.filenameTemplate.separator,
+                (separator) => handleTemplateChange({ separator }),
+                separatorLabel,
+              )}
+
+              <Text style={[styles.settingTitle, styles.templateLabel]}>Maximum Length</Text>
+              <TextInput
+                style={styles.apiKeyInput}
+                value={String(settings.filenameTemplate.maxLength)}
+                onChangeText={(value) => handleTemplateChange({ maxLength: parseInt(value, 10) || 0 })}
+                keyboardType="number-pad"
+              />
+            </View>
+          )}
         </View>
 
         {/* File Settings */}
@@ -264,6 +384,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
           <ActionButton
             title="Save Settings"
             onPress={handleSaveSettings}
+            loading={isSaving}
             style={styles.saveButton}
             icon={<Text style={styles.actionIcon}>💾</Text>}
           />
@@ -383,6 +504,36 @@ const styles = StyleSheet.create({
     color: Colors.text,
   },
 
+  // Filename Template
+  templateLabel: {
+    marginTop: Spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+  chipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: `${Colors.primary}15`,
+  },
+  chipText: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+
   // Premium Card
   premiumCard: {
     flexDirection: 'row',
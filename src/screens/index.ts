@@ -5,4 +5,5 @@ export { ProfileSetupScreen } from './ProfileSetupScreen';
 export { FileSelectorScreen } from './FileSelectorScreen';
 export { ProcessingScreen } from './ProcessingScreen';
 export { ResultsScreen } from './ResultsScreen';
-export { SettingsScreen } from './SettingsScreen';
\ No newline at end of file
+export { SettingsScreen } from './SettingsScreen';
+export { DuplicatesScreen } from './DuplicatesScreen';
\ No newline at end of file
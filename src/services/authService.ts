@@ -1,5 +1,7 @@
 import auth from '@react-native-firebase/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL } from '../constants';
+import { FilenameTemplateSettings } from '../types';
 
 /**
  * Authentication Service for React Native
@@ -20,7 +22,9 @@ export interface User {
     autoRename: boolean;
     preserveOriginalNames: boolean;
     useAIForAllFiles: boolean;
+    autoTag?: boolean;
     maxFileSize: number;
+    filenameTemplate?: FilenameTemplateSettings | null;
   };
 }
 
@@ -32,10 +36,6 @@ export interface AuthResponse {
   code?: string;
 }
 
-const API_BASE_URL = __DEV__ 
-  ? 'http://localhost:3000/api/v1' 
-  : 'https://your-backend-domain.com/api/v1';
-
 class AuthService {
   private currentUser: User | null = null;
   private authToken: string | null = null;
@@ -1,5 +1,6 @@
-import { FileItem } from '../types';
-import { API_ENDPOINTS } from '../constants';
+import { DuplicateCluster, FileItem, ProcessingEvent, ServerFileState, Tag } from '../types';
+import { API_BASE_URL, API_ENDPOINTS } from '../constants';
+import { authService } from './authService';
 
 /**
  * File Service - Handles file operations and backend integration
@@ -23,19 +24,64 @@ export interface FileServiceInterface {
   extractTextFromPDF(file: FileItem): Promise<string>;
   
   // AI services
-  generateFilename(extractedText: string, originalFilename: string): Promise<string>;
+  generateFilename(extractedText: string, originalFilename: string, reservedNames?: string[]): Promise<string>;
   
   // File operations
   renameFile(file: FileItem, newName: string): Promise<boolean>;
   batchRenameFiles(files: FileItem[]): Promise<FileItem[]>;
+
+  // Backend processing
+  uploadFiles(files: FileItem[]): Promise<FileItem[]>;
+  startProcessing(files: FileItem[]): Promise<{ sessionId: string }>;
+  subscribeToProcessing(
+    sessionId: string,
+    onEvent: (event: ProcessingEvent) => void,
+    onError: (error: Error) => void,
+  ): () => void;
+  pauseProcessing(sessionId: string): Promise<void>;
+  resumeProcessing(sessionId: string): Promise<void>;
+  cancelProcessing(sessionId: string): Promise<void>;
+  retryProcessing(sessionId: string): Promise<void>;
+
+  // History
+  undoFileChange(serverId: string): Promise<ServerFileState>;
+  redoFileChange(serverId: string): Promise<ServerFileState>;
+  undoSession(sessionId: string): Promise<ServerFileState[]>;
+
+  // Name review
+  acceptNameCandidate(serverId: string, index: number): Promise<ServerFileState>;
+  submitCustomName(serverId: string, name: string): Promise<ServerFileState>;
+  rejectNameCandidates(serverId: string): Promise<ServerFileState>;
+
+  // Duplicates
+  getDuplicates(fileIds?: string[]): Promise<DuplicateCluster[]>;
+  resolveDuplicates(keepFileId: string, discardFileIds: string[]): Promise<void>;
+
+  // Tags
+  getTags(): Promise<Tag[]>;
+  tagFiles(fileIds: string[], tags: string[]): Promise<Record<string, string[]>>;
+  untagFiles(fileIds: string[], tags: string[]): Promise<Record<string, string[]>>;
 }
 
-class FileService implements FileServiceInterface {
-  private apiKey?: string;
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  rtf: 'application/rtf',
+};
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey;
-  }
+const GUEST_SESSION_HEADER = 'X-Guest-Session';
+
+class FileService implements FileServiceInterface {
+  // Issued by the backend to guests; their files and sessions are only
+  // reachable with it, so it has to go along with every later request
+  private guestSession: string | null = null;
 
   // File System Operations
   async pickFilesFromGallery(): Promise<FileItem[]> {
@@ -91,36 +137,25 @@ class FileService implements FileServiceInterface {
   }
 
   // AI Services
-  async generateFilename(extractedText: string, originalFilename: string): Promise<string> {
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
+  async generateFilename(extractedText: string, originalFilename: string, reservedNames: string[] = []): Promise<string> {
     try {
-      const prompt = this.buildFilenamePrompt(extractedText, originalFilename);
-      
-      // TODO: Implement OpenAI API call
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      // The backend picks the naming provider and model for the user's tier,
+      // sanitizes the name and keeps it clear of the library and `reservedNames`
+      const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.generateFilename}`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+          ...this.getAuthHeaders(),
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.1,
-          max_tokens: 50,
-        }),
+        body: JSON.stringify({ extractedText, originalFilename, reservedNames }),
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || `Filename generation failed: ${response.status}`);
       }
 
-      const data = await response.json();
-      return data.choices[0]?.message?.content?.trim() || 'Untitled_Document';
-      
+      return data.data.suggestedFilename;
     } catch (error) {
       console.error('Error generating filename:', error);
       // Fallback to mock implementation
@@ -152,10 +187,11 @@ class FileService implements FileServiceInterface {
     for (const file of files) {
       try {
         if (file.suggestedName) {
+          // Suggestions come from generateFilename, already valid and unique
           const success = await this.renameFile(file, file.suggestedName);
           results.push({
             ...file,
-            name: success ? `${file.suggestedName}.${file.name.split('.').pop()}` : file.name,
+            name: success ? `${file.suggestedName}${this.getExtension(file.name)}` : file.name,
             isRenamed: success,
           });
         } else {
@@ -170,23 +206,300 @@ class FileService implements FileServiceInterface {
     return results;
   }
 
+  // Backend Processing
+  async uploadFiles(files: FileItem[]): Promise<FileItem[]> {
+    const formData = new FormData();
+    files.forEach(file => {
+      formData.append('files', {
+        uri: file.uri,
+        name: file.name,
+        type: this.getMimeType(file.name),
+      } as any);
+    });
+
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.uploadFiles}`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: formData,
+    });
+    this.guestSession = response.headers.get(GUEST_SESSION_HEADER) ?? this.guestSession;
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to upload files');
+    }
+
+    // The backend returns uploaded files in request order
+    return files.map((file, index) => {
+      const uploaded = data.data.files[index];
+      return {
+        ...file,
+        serverId: uploaded?.id,
+        duplicateOf: uploaded?.duplicate?.fileId,
+        suggestedName: uploaded?.suggestedName ?? file.suggestedName,
+      };
+    });
+  }
+
+  async startProcessing(files: FileItem[]): Promise<{ sessionId: string }> {
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.processFiles}`, {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        fileIds: files.map(file => file.serverId).filter(Boolean),
+      }),
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to start processing');
+    }
+
+    return { sessionId: data.data.sessionId };
+  }
+
+  subscribeToProcessing(
+    sessionId: string,
+    onEvent: (event: ProcessingEvent) => void,
+    onError: (error: Error) => void,
+  ): () => void {
+    // React Native has no EventSource; XHR progress events deliver the stream incrementally
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let buffer = '';
+
+    const readStream = () => {
+      buffer += xhr.responseText.substring(offset);
+      offset = xhr.responseText.length;
+
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+
+      for (const message of messages) {
+        let eventName = 'message';
+        let data = '';
+        for (const line of message.split('\n')) {
+          if (line.startsWith('event:')) {
+            eventName = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            data += line.slice(5).trim();
+          }
+        }
+
+        if (!data || data === 'null') {
+          continue;
+        }
+
+        let payload: object;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          // Skip a garbled frame; the next session event carries the full state again
+          console.warn('Dropped malformed processing event:', data);
+          continue;
+        }
+        onEvent({ ...payload, type: eventName } as ProcessingEvent);
+      }
+    };
+
+    xhr.open('GET', `${API_BASE_URL}${API_ENDPOINTS.processingEvents(sessionId)}`);
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    Object.entries(this.getAuthHeaders()).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    xhr.onprogress = () => {
+      if (xhr.status === 200) {
+        readStream();
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status === 200) {
+        readStream();
+      } else {
+        onError(new Error(`Processing stream failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => onError(new Error('Lost connection to processing stream'));
+    xhr.send();
+
+    return () => xhr.abort();
+  }
+
+  pauseProcessing(sessionId: string): Promise<void> {
+    return this.postSessionAction(API_ENDPOINTS.pauseProcessing(sessionId));
+  }
+
+  resumeProcessing(sessionId: string): Promise<void> {
+    return this.postSessionAction(API_ENDPOINTS.resumeProcessing(sessionId));
+  }
+
+  cancelProcessing(sessionId: string): Promise<void> {
+    return this.postSessionAction(API_ENDPOINTS.cancelProcessing(sessionId));
+  }
+
+  // Requeues the session's failed files without uploading anything again
+  retryProcessing(sessionId: string): Promise<void> {
+    return this.postSessionAction(API_ENDPOINTS.retryProcessing(sessionId));
+  }
+
+  // History
+  async undoFileChange(serverId: string): Promise<ServerFileState> {
+    const data = await this.postHistoryAction(API_ENDPOINTS.undoFileChange(serverId));
+    return data.file;
+  }
+
+  async redoFileChange(serverId: string): Promise<ServerFileState> {
+    const data = await this.postHistoryAction(API_ENDPOINTS.redoFileChange(serverId));
+    return data.file;
+  }
+
+  async undoSession(sessionId: string): Promise<ServerFileState[]> {
+    const data = await this.postHistoryAction<{ files: ServerFileState[] }>(API_ENDPOINTS.undoSession(sessionId));
+    return data.files;
+  }
+
+  // Name review
+  async acceptNameCandidate(serverId: string, index: number): Promise<ServerFileState> {
+    const data = await this.postHistoryAction(API_ENDPOINTS.acceptNameCandidate(serverId, index));
+    return data.file;
+  }
+
+  async submitCustomName(serverId: string, name: string): Promise<ServerFileState> {
+    const data = await this.postHistoryAction(API_ENDPOINTS.renameFile(serverId), { newName: name });
+    return data.file;
+  }
+
+  async rejectNameCandidates(serverId: string): Promise<ServerFileState> {
+    const data = await this.postHistoryAction(API_ENDPOINTS.rejectNameCandidates(serverId));
+    return data.file;
+  }
+
+  // Duplicates
+  async getDuplicates(fileIds?: string[]): Promise<DuplicateCluster[]> {
+    const query = fileIds?.length ? `?fileIds=${encodeURIComponent(fileIds.join(','))}` : '';
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.duplicates}${query}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to load duplicates');
+    }
+
+    return data.data.clusters;
+  }
+
+  async resolveDuplicates(keepFileId: string, discardFileIds: string[]): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.resolveDuplicates}`, {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ keepFileId, discardFileIds }),
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to delete duplicates');
+    }
+  }
+
+  // Tags
+  async getTags(): Promise<Tag[]> {
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.tags}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to load tags');
+    }
+
+    return data.data.tags;
+  }
+
+  tagFiles(fileIds: string[], tags: string[]): Promise<Record<string, string[]>> {
+    return this.postFileTags(API_ENDPOINTS.tagFiles, fileIds, tags);
+  }
+
+  untagFiles(fileIds: string[], tags: string[]): Promise<Record<string, string[]>> {
+    return this.postFileTags(API_ENDPOINTS.untagFiles, fileIds, tags);
+  }
+
   // Helper Methods
-  private buildFilenamePrompt(extractedText: string, originalFilename: string): string {
-    return `
-Generate a concise, descriptive filename (3-5 words) based on this document content.
+  // Returns each file's tags after the change, keyed by backend file ID
+  private async postFileTags(endpoint: string, fileIds: string[], tags: string[]): Promise<Record<string, string[]>> {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ fileIds, tags }),
+    });
 
-Rules:
-- Use title case with underscores (e.g., "Invoice_ACME_Corp_Aug_2023")
-- Include key entities like company names, dates, document types
-- No special characters except underscores
-- Maximum 50 characters
-- Be specific and descriptive
-- Don't include file extension
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to update tags');
+    }
+
+    return Object.fromEntries(
+      data.data.results.map((result: { fileId: string; tags: string[] }) => [result.fileId, result.tags])
+    );
+  }
 
-Original filename: ${originalFilename}
-Document content: "${extractedText.substring(0, 2000)}"
+  // Response data: the changed file, or for a session undo every changed file
+  private async postHistoryAction<T = { file: ServerFileState }>(endpoint: string, body?: object): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        ...(body && { 'Content-Type': 'application/json' }),
+      },
+      body: body && JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to update file history');
+    }
 
-Suggested filename:`;
+    return data.data;
+  }
+
+  private async postSessionAction(endpoint: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to update processing session');
+    }
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = authService.getAuthToken();
+    if (token) {
+      return { Authorization: `Bearer ${token}` };
+    }
+    return this.guestSession ? { [GUEST_SESSION_HEADER]: this.guestSession } : {};
+  }
+
+  private getExtension(filename: string): string {
+    const dot = filename.lastIndexOf('.');
+    return dot > 0 ? filename.slice(dot) : '';
+  }
+
+  private getMimeType(filename: string): string {
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[extension] || 'application/octet-stream';
   }
 
   private getMockFiles(): FileItem[] {
@@ -246,8 +559,3 @@ Suggested filename:`;
 
 // Export singleton instance
 export const fileService = new FileService();
-
-// Export factory function for backend team to inject API key
-export const createFileService = (apiKey?: string): FileServiceInterface => {
-  return new FileService(apiKey);
-};
\ No newline at end of file
@@ -1,2 +1,2 @@
-export { fileService, createFileService } from './fileService';
+export { fileService } from './fileService';
 export type { FileServiceInterface } from './fileService';
\ No newline at end of file
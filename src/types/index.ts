@@ -1,5 +1,7 @@
 export interface FileItem {
   id: string;
+  serverId?: string; // backend file ID once uploaded
+  duplicateOf?: string; // backend ID of an identical earlier upload
   name: string;
   originalName: string;
   uri: string;
@@ -7,12 +9,26 @@ export interface FileItem {
   size: number;
   dateModified: Date;
   extractedText?: string;
-  suggestedName?: string;
+  suggestedName?: string; // best of nameCandidates
+  nameCandidates?: NameCandidate[];
+  nameStatus?: NameStatus;
+  category?: string; // document category id from the backend taxonomy
+  categoryLabel?: string;
+  tags?: string[]; // tag names, see Tag
   isProcessing?: boolean;
   isRenamed?: boolean;
   processingProgress?: number;
 }
 
+// Ranked filename suggestion from the backend (best first)
+export interface NameCandidate {
+  filename: string; // without extension
+  score: number; // 0-1
+  source: string;
+}
+
+export type NameStatus = 'pending' | 'auto' | 'accepted' | 'custom' | 'rejected';
+
 export interface ProcessingStatus {
   stage: 'idle' | 'extracting' | 'analyzing' | 'renaming' | 'complete' | 'error';
   message: string;
@@ -20,11 +36,116 @@ export interface ProcessingStatus {
   currentFile?: string;
 }
 
+export type FileProcessingStage = 'extracting' | 'analyzing' | 'renamed' | 'failed';
+export type ProcessingSessionState =
+  | 'pending'
+  | 'processing'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface ProcessingSessionSnapshot {
+  sessionId: string;
+  status: ProcessingSessionState;
+  progress: number;
+  totalFiles: number;
+  processedFiles: number;
+  failedFiles: number;
+  files: {
+    id: string;
+    newName?: string;
+    suggestedName?: string;
+    nameCandidates?: NameCandidate[];
+    isRenamed?: boolean;
+    category?: string;
+    categoryLabel?: string;
+    tags?: string[];
+    processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  }[];
+}
+
+// Events pushed by GET /files/processing/:sessionId/events
+export type ProcessingEvent =
+  | ({ type: 'snapshot' } & ProcessingSessionSnapshot)
+  | {
+      type: 'session';
+      sessionId: string;
+      status: ProcessingSessionState;
+      progress: number;
+      totalFiles: number;
+      processedFiles: number;
+      failedFiles: number;
+    }
+  | {
+      type: 'file';
+      sessionId: string;
+      fileId: string;
+      stage: FileProcessingStage;
+      suggestedName?: string;
+      nameCandidates?: NameCandidate[];
+      isRenamed?: boolean;
+      category?: string;
+      categoryLabel?: string;
+      tags?: string[];
+      error?: string;
+    };
+
+// Returned by GET /files/duplicates
+export interface DuplicateCluster {
+  id: string;
+  keepFileId: string; // backend's suggestion
+  similarity: number; // 0-1
+  reasons: ('exact' | 'image' | 'text')[];
+  files: {
+    fileId: string;
+    originalName: string;
+    newName?: string;
+    suggestedName?: string;
+    fileType: FileItem['type'];
+    fileSize: number;
+    createdAt?: string;
+    similarity: number;
+  }[];
+}
+
+// A file's name, folder and tags as stored by the backend (returned by undo/redo)
+export interface ServerFileState {
+  fileId: string;
+  originalName: string;
+  newName: string | null;
+  isRenamed: boolean;
+  nameStatus: NameStatus;
+  folderPath: string;
+  tags: string[];
+}
+
+// User-owned tag from GET /tags
+export interface Tag {
+  id: string;
+  name: string;
+  color: string; // #RRGGBB
+  source: 'user' | 'auto' | 'rule';
+  fileCount?: number;
+}
+
+export type FilenameCaseStyle = 'preserve' | 'lower' | 'upper' | 'title' | 'camel';
+export type FilenameWordSeparator = '_' | '-' | ' ' | '.' | '';
+
+export interface FilenameTemplateSettings {
+  template: string; // e.g. '{date:YYYY-MM-DD}_{vendor}_{docType}_{amount}'
+  caseStyle: FilenameCaseStyle;
+  separator: FilenameWordSeparator;
+  maxLength: number;
+}
+
 export interface AppSettings {
   autoRename: boolean;
   preserveOriginalNames: boolean;
   useAIForAllFiles: boolean;
+  autoTag?: boolean; // tag files with their category and vendor
   maxFileSize: number;
+  filenameTemplate?: FilenameTemplateSettings | null;
   apiKey?: string;
 }
 
@@ -35,7 +156,8 @@ export interface NavigationParams {
   ProfileSetup: { phoneNumber: string };
   FileSelector: undefined;
   Processing: { files: FileItem[] };
-  Results: { files: FileItem[] };
+  Results: { files: FileItem[]; sessionId?: string };
+  Duplicates: { fileIds?: string[] }; // backend IDs to focus on; whole library when omitted
   Settings: undefined;
 }
 